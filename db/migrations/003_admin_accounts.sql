@@ -0,0 +1,42 @@
+-- Admin accounts and server-side sessions for the /admin area and
+-- /api/admin routes. Passwords are stored as scrypt hashes; session cookies
+-- carry a random token whose SHA-256 is stored here so logout can revoke it.
+
+USE erec_review;
+
+CREATE TABLE admin_users (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  email VARCHAR(320) NOT NULL,
+  full_name VARCHAR(255) NOT NULL,
+  password_hash VARCHAR(255) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_login_at DATETIME(6) NULL,
+  deleted_at DATETIME(6) NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6)
+    ON UPDATE CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_admin_users_email (email),
+  KEY ix_admin_users_active (is_active, deleted_at)
+) ENGINE = InnoDB;
+
+CREATE TABLE admin_sessions (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  admin_user_id BIGINT UNSIGNED NOT NULL,
+  token_sha256 BINARY(32) NOT NULL,
+  expires_at DATETIME(6) NOT NULL,
+  revoked_at DATETIME(6) NULL,
+  ip_address VARCHAR(64) NULL,
+  user_agent VARCHAR(512) NULL,
+  last_seen_at DATETIME(6) NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_admin_sessions_token (token_sha256),
+  KEY ix_admin_sessions_user (admin_user_id, revoked_at, expires_at),
+  CONSTRAINT fk_admin_sessions_user
+    FOREIGN KEY (admin_user_id) REFERENCES admin_users (id)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('003', 'Admin accounts and sessions');
@@ -0,0 +1,25 @@
+-- Server-side reviewer sessions. The reviewer portal derives the signed-in
+-- reviewer from this table instead of trusting reviewer IDs sent by the client.
+
+USE erec_review;
+
+CREATE TABLE reviewer_sessions (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  reviewer_id BIGINT UNSIGNED NOT NULL,
+  token_sha256 BINARY(32) NOT NULL,
+  expires_at DATETIME(6) NOT NULL,
+  revoked_at DATETIME(6) NULL,
+  ip_address VARCHAR(64) NULL,
+  user_agent VARCHAR(512) NULL,
+  last_seen_at DATETIME(6) NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_reviewer_sessions_token (token_sha256),
+  KEY ix_reviewer_sessions_reviewer (reviewer_id, revoked_at, expires_at),
+  CONSTRAINT fk_reviewer_sessions_reviewer
+    FOREIGN KEY (reviewer_id) REFERENCES reviewers (id)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('004', 'Reviewer sessions');
@@ -0,0 +1,36 @@
+-- Emailed one-time sign-in links for reviewers, plus the admin switch that
+-- keeps the older access-code/name sign-in available as a legacy mode.
+
+USE erec_review;
+
+CREATE TABLE reviewer_login_tokens (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  reviewer_id BIGINT UNSIGNED NOT NULL,
+  token_sha256 BINARY(32) NOT NULL,
+  expires_at DATETIME(6) NOT NULL,
+  used_at DATETIME(6) NULL,
+  requested_ip VARCHAR(64) NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_reviewer_login_tokens_token (token_sha256),
+  KEY ix_reviewer_login_tokens_reviewer (reviewer_id, created_at),
+  CONSTRAINT fk_reviewer_login_tokens_reviewer
+    FOREIGN KEY (reviewer_id) REFERENCES reviewers (id)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+CREATE TABLE reviewer_login_settings (
+  singleton_id TINYINT UNSIGNED NOT NULL DEFAULT 1,
+  allow_legacy_login BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6)
+    ON UPDATE CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (singleton_id),
+  CONSTRAINT chk_reviewer_login_settings_singleton CHECK (singleton_id = 1)
+) ENGINE = InnoDB;
+
+INSERT INTO reviewer_login_settings (singleton_id, allow_legacy_login)
+VALUES (1, FALSE);
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('005', 'Reviewer sign-in links and legacy login switch');
@@ -0,0 +1,12 @@
+-- Admin roles. The chair has every permission, the secretariat runs protocol
+-- intake and reviewer assignments, and finance only generates request letters.
+-- Role permissions are defined in src/lib/adminPermissions.ts.
+
+USE erec_review;
+
+ALTER TABLE admin_users
+  ADD COLUMN role VARCHAR(24) NOT NULL DEFAULT 'secretariat' AFTER full_name,
+  ADD CONSTRAINT chk_admin_users_role CHECK (role IN ('chair', 'secretariat', 'finance'));
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('006', 'Admin roles');
@@ -0,0 +1,28 @@
+-- Generic audit trail for admin mutations. Each row is written in the same
+-- transaction as the change it records; `changes` holds only the fields that
+-- differ, as {"field": {"before": ..., "after": ...}}.
+
+USE erec_review;
+
+CREATE TABLE admin_audit_events (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  admin_user_id BIGINT UNSIGNED NULL,
+  actor_email VARCHAR(320) NULL,
+  actor_name VARCHAR(255) NULL,
+  action VARCHAR(64) NOT NULL,
+  entity_type VARCHAR(48) NOT NULL,
+  entity_id VARCHAR(128) NOT NULL,
+  changes JSON NULL,
+  occurred_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  KEY ix_admin_audit_occurred (occurred_at),
+  KEY ix_admin_audit_entity (entity_type, entity_id, occurred_at),
+  KEY ix_admin_audit_action (action, occurred_at),
+  KEY ix_admin_audit_actor (admin_user_id, occurred_at),
+  CONSTRAINT fk_admin_audit_user
+    FOREIGN KEY (admin_user_id) REFERENCES admin_users (id)
+    ON DELETE SET NULL
+) ENGINE = InnoDB;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('007', 'Admin audit log');
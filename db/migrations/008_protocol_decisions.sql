@@ -0,0 +1,59 @@
+-- REC decision lifecycle for protocols. `protocols.status` now holds the
+-- lifecycle (submitted through withdrawn) instead of the review progress;
+-- review progress stays available through `completed_at`, which is set once
+-- every assignment is complete. Every decision is kept in protocol_decisions.
+
+USE erec_review;
+
+ALTER TABLE protocols DROP CHECK chk_protocols_status;
+
+UPDATE protocols
+SET completed_at = COALESCE(completed_at, source_completed_at, updated_at)
+WHERE status = 'completed';
+
+UPDATE protocols p
+SET p.status = CASE
+  WHEN p.status = 'completed' THEN 'reviews_complete'
+  WHEN EXISTS (
+    SELECT 1 FROM protocol_reviewer_assignments pra
+    WHERE pra.protocol_id = p.id AND pra.deleted_at IS NULL
+  ) THEN 'under_review'
+  ELSE 'submitted'
+END;
+
+ALTER TABLE protocols
+  MODIFY status VARCHAR(24) NOT NULL DEFAULT 'submitted',
+  ADD COLUMN decided_at DATETIME(6) NULL AFTER completed_at,
+  ADD COLUMN decided_by_admin_id BIGINT UNSIGNED NULL AFTER decided_at,
+  ADD CONSTRAINT chk_protocols_status CHECK (
+    status IN (
+      'submitted', 'under_review', 'reviews_complete', 'approved',
+      'minor_revisions', 'major_revisions', 'disapproved', 'exempted',
+      'withdrawn'
+    )
+  ),
+  ADD CONSTRAINT fk_protocols_decided_by
+    FOREIGN KEY (decided_by_admin_id) REFERENCES admin_users (id)
+    ON DELETE SET NULL;
+
+CREATE TABLE protocol_decisions (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  protocol_id BIGINT UNSIGNED NOT NULL,
+  from_status VARCHAR(24) NOT NULL,
+  to_status VARCHAR(24) NOT NULL,
+  note TEXT NULL,
+  admin_user_id BIGINT UNSIGNED NULL,
+  decided_by_name VARCHAR(255) NULL,
+  decided_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  KEY ix_protocol_decisions_protocol (protocol_id, decided_at),
+  CONSTRAINT fk_protocol_decisions_protocol
+    FOREIGN KEY (protocol_id) REFERENCES protocols (id)
+    ON DELETE CASCADE,
+  CONSTRAINT fk_protocol_decisions_admin
+    FOREIGN KEY (admin_user_id) REFERENCES admin_users (id)
+    ON DELETE SET NULL
+) ENGINE = InnoDB;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('008', 'Protocol decision lifecycle');
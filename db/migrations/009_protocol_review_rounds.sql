@@ -0,0 +1,76 @@
+-- Review rounds let one protocol carry its resubmissions. Every protocol gets
+-- round 1 for its existing week and assignments; a resubmission opens the next
+-- round in the week it was received and moves the protocol to that week, so
+-- `uq_protocols_week_rec_code` still holds. Assignments belong to a round and
+-- only the current round's assignments drive review progress.
+
+USE erec_review;
+
+CREATE TABLE protocol_review_rounds (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  protocol_id BIGINT UNSIGNED NOT NULL,
+  round_number SMALLINT UNSIGNED NOT NULL,
+  protocol_week_id BIGINT UNSIGNED NOT NULL,
+  document_link TEXT NULL,
+  due_date DATE NULL,
+  outcome VARCHAR(24) NULL,
+  opened_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  closed_at DATETIME(6) NULL,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_protocol_review_rounds_number (protocol_id, round_number),
+  KEY ix_protocol_review_rounds_week (protocol_week_id),
+  CONSTRAINT fk_protocol_review_rounds_protocol
+    FOREIGN KEY (protocol_id) REFERENCES protocols (id)
+    ON DELETE RESTRICT,
+  CONSTRAINT fk_protocol_review_rounds_week
+    FOREIGN KEY (protocol_week_id) REFERENCES protocol_weeks (id)
+    ON DELETE RESTRICT
+) ENGINE = InnoDB;
+
+INSERT INTO protocol_review_rounds (
+  protocol_id, round_number, protocol_week_id, document_link, due_date,
+  outcome, opened_at
+)
+SELECT
+  id, 1, protocol_week_id, document_link, due_date,
+  CASE WHEN status IN ('submitted', 'under_review', 'reviews_complete') THEN NULL ELSE status END,
+  COALESCE(source_created_at, created_at)
+FROM protocols;
+
+ALTER TABLE protocols
+  ADD COLUMN current_round_id BIGINT UNSIGNED NULL AFTER protocol_week_id,
+  ADD CONSTRAINT fk_protocols_current_round
+    FOREIGN KEY (current_round_id) REFERENCES protocol_review_rounds (id)
+    ON DELETE SET NULL;
+
+UPDATE protocols p
+INNER JOIN protocol_review_rounds prr ON prr.protocol_id = p.id AND prr.round_number = 1
+SET p.current_round_id = prr.id;
+
+ALTER TABLE protocol_reviewer_assignments
+  ADD COLUMN review_round_id BIGINT UNSIGNED NULL AFTER protocol_id;
+
+UPDATE protocol_reviewer_assignments pra
+INNER JOIN protocol_review_rounds prr ON prr.protocol_id = pra.protocol_id AND prr.round_number = 1
+SET pra.review_round_id = prr.id;
+
+ALTER TABLE protocol_reviewer_assignments
+  DROP INDEX uq_protocol_assignments_slot,
+  MODIFY review_round_id BIGINT UNSIGNED NOT NULL,
+  ADD UNIQUE KEY uq_protocol_assignments_round_slot (review_round_id, assignment_slot),
+  ADD CONSTRAINT fk_protocol_assignments_round
+    FOREIGN KEY (review_round_id) REFERENCES protocol_review_rounds (id)
+    ON DELETE RESTRICT;
+
+ALTER TABLE protocol_decisions
+  ADD COLUMN review_round_id BIGINT UNSIGNED NULL AFTER protocol_id,
+  ADD CONSTRAINT fk_protocol_decisions_round
+    FOREIGN KEY (review_round_id) REFERENCES protocol_review_rounds (id)
+    ON DELETE SET NULL;
+
+UPDATE protocol_decisions pd
+INNER JOIN protocol_review_rounds prr ON prr.protocol_id = pd.protocol_id AND prr.round_number = 1
+SET pd.review_round_id = prr.id;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('009', 'Protocol review rounds');
@@ -0,0 +1,45 @@
+-- Conflict-of-interest declarations. A conflict names either one protocol
+-- (declared by the reviewer from the portal or recorded by an admin) or a
+-- course or program, which stands for every protocol from it. Blocking
+-- conflicts stop the assignment; the others warn until an admin confirms.
+-- Revoked conflicts are kept for the record.
+
+USE erec_review;
+
+CREATE TABLE reviewer_conflicts (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  reviewer_id BIGINT UNSIGNED NOT NULL,
+  protocol_id BIGINT UNSIGNED NULL,
+  course_program VARCHAR(255) NULL,
+  reason VARCHAR(500) NOT NULL,
+  blocks_assignment BOOLEAN NOT NULL DEFAULT TRUE,
+  declared_by VARCHAR(16) NOT NULL,
+  created_by_admin_id BIGINT UNSIGNED NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  revoked_at DATETIME(6) NULL,
+  revoked_by_admin_id BIGINT UNSIGNED NULL,
+  PRIMARY KEY (id),
+  KEY ix_reviewer_conflicts_reviewer (reviewer_id, revoked_at),
+  KEY ix_reviewer_conflicts_protocol (protocol_id, revoked_at),
+  CONSTRAINT chk_reviewer_conflicts_scope CHECK (
+    (protocol_id IS NULL) <> (course_program IS NULL)
+  ),
+  CONSTRAINT chk_reviewer_conflicts_declared_by CHECK (
+    declared_by IN ('reviewer', 'admin')
+  ),
+  CONSTRAINT fk_reviewer_conflicts_reviewer
+    FOREIGN KEY (reviewer_id) REFERENCES reviewers (id)
+    ON DELETE RESTRICT,
+  CONSTRAINT fk_reviewer_conflicts_protocol
+    FOREIGN KEY (protocol_id) REFERENCES protocols (id)
+    ON DELETE RESTRICT,
+  CONSTRAINT fk_reviewer_conflicts_created_by
+    FOREIGN KEY (created_by_admin_id) REFERENCES admin_users (id)
+    ON DELETE SET NULL,
+  CONSTRAINT fk_reviewer_conflicts_revoked_by
+    FOREIGN KEY (revoked_by_admin_id) REFERENCES admin_users (id)
+    ON DELETE SET NULL
+) ENGINE = InnoDB;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('010', 'Reviewer conflict-of-interest declarations');
@@ -0,0 +1,26 @@
+-- Reviewers accept or decline each assignment before reviewing it. A new or
+-- reassigned slot starts as 'pending'; assignments that existed before this
+-- migration are treated as accepted. `assigned_at` is when the current
+-- reviewer was given the slot, which the dashboard uses to flag assignments
+-- left unanswered for longer than `unanswered_assignment_days`.
+
+USE erec_review;
+
+ALTER TABLE protocol_reviewer_assignments
+  ADD COLUMN acceptance VARCHAR(16) NOT NULL DEFAULT 'pending' AFTER status,
+  ADD COLUMN assigned_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) AFTER acceptance,
+  ADD COLUMN responded_at DATETIME(6) NULL AFTER assigned_at,
+  ADD COLUMN decline_reason VARCHAR(500) NULL AFTER responded_at,
+  ADD KEY ix_protocol_assignments_acceptance (acceptance, assigned_at, deleted_at),
+  ADD CONSTRAINT chk_protocol_assignments_acceptance CHECK (
+    acceptance IN ('pending', 'accepted', 'declined')
+  );
+
+UPDATE protocol_reviewer_assignments
+SET acceptance = 'accepted', assigned_at = created_at, responded_at = created_at;
+
+ALTER TABLE notification_settings
+  ADD COLUMN unanswered_assignment_days TINYINT UNSIGNED NOT NULL DEFAULT 3 AFTER due_soon_threshold;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('011', 'Reviewer assignment acceptance');
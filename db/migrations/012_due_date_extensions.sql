@@ -0,0 +1,46 @@
+-- Reviewers ask for more time on an assignment from the portal; an admin
+-- approves or rejects each request. Approval moves the assignment's due date.
+-- Either decision is also written to protocol_assignment_events with the due
+-- dates before and after, next to reassignments and status changes.
+
+USE erec_review;
+
+CREATE TABLE due_date_extension_requests (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  assignment_id BIGINT UNSIGNED NOT NULL,
+  reviewer_id BIGINT UNSIGNED NOT NULL,
+  current_due_date DATE NULL,
+  requested_due_date DATE NOT NULL,
+  justification VARCHAR(1000) NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'pending',
+  decision_note VARCHAR(1000) NULL,
+  decided_by_admin_id BIGINT UNSIGNED NULL,
+  decided_at DATETIME(6) NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  KEY ix_due_date_extensions_status (status, created_at),
+  KEY ix_due_date_extensions_assignment (assignment_id, created_at DESC),
+  CONSTRAINT chk_due_date_extensions_status CHECK (
+    status IN ('pending', 'approved', 'rejected')
+  ),
+  CONSTRAINT fk_due_date_extensions_assignment
+    FOREIGN KEY (assignment_id) REFERENCES protocol_reviewer_assignments (id)
+    ON DELETE RESTRICT,
+  CONSTRAINT fk_due_date_extensions_reviewer
+    FOREIGN KEY (reviewer_id) REFERENCES reviewers (id)
+    ON DELETE RESTRICT,
+  CONSTRAINT fk_due_date_extensions_decided_by
+    FOREIGN KEY (decided_by_admin_id) REFERENCES admin_users (id)
+    ON DELETE SET NULL
+) ENGINE = InnoDB;
+
+ALTER TABLE protocol_assignment_events
+  ADD COLUMN due_date_before DATE NULL AFTER status_after,
+  ADD COLUMN due_date_after DATE NULL AFTER due_date_before,
+  DROP CHECK chk_protocol_assignment_events_type,
+  ADD CONSTRAINT chk_protocol_assignment_events_type CHECK (
+    event_type IN ('reassignment', 'status_change', 'extension_approved', 'extension_rejected')
+  );
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('012', 'Reviewer due-date extension requests');
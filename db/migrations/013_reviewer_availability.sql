@@ -0,0 +1,32 @@
+-- Reviewer availability. A leave period marks the days a reviewer is away;
+-- reminder emails are not sent to them during it. `max_reviews_per_release`
+-- caps the reviews a reviewer takes from one release (protocol week); NULL
+-- means no limit. Assigning someone who is away or over the cap only warns.
+
+USE erec_review;
+
+ALTER TABLE reviewers
+  ADD COLUMN max_reviews_per_release TINYINT UNSIGNED NULL AFTER email;
+
+CREATE TABLE reviewer_leave_periods (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  reviewer_id BIGINT UNSIGNED NOT NULL,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  note VARCHAR(255) NULL,
+  created_by_admin_id BIGINT UNSIGNED NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  deleted_at DATETIME(6) NULL,
+  PRIMARY KEY (id),
+  KEY ix_reviewer_leave_periods_reviewer (reviewer_id, ends_on, deleted_at),
+  CONSTRAINT chk_reviewer_leave_periods_range CHECK (ends_on >= starts_on),
+  CONSTRAINT fk_reviewer_leave_periods_reviewer
+    FOREIGN KEY (reviewer_id) REFERENCES reviewers (id)
+    ON DELETE RESTRICT,
+  CONSTRAINT fk_reviewer_leave_periods_created_by
+    FOREIGN KEY (created_by_admin_id) REFERENCES admin_users (id)
+    ON DELETE SET NULL
+) ENGINE = InnoDB;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('013', 'Reviewer leave periods and release capacity');
@@ -0,0 +1,62 @@
+-- Reviewer expertise. Tags form a small taxonomy maintained by admins;
+-- reviewers carry the tags they are qualified for and protocols carry the
+-- tags their study calls for. `keywords` lists comma-separated terms that tag
+-- a protocol automatically when they appear in its nature or type of study.
+-- Protocols also keep those two spreadsheet columns as entered.
+
+USE erec_review;
+
+ALTER TABLE protocols
+  ADD COLUMN nature_of_study VARCHAR(255) NULL AFTER course_program,
+  ADD COLUMN type_of_study VARCHAR(255) NULL AFTER nature_of_study;
+
+CREATE TABLE expertise_tags (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  name VARCHAR(100) NOT NULL,
+  keywords VARCHAR(500) NOT NULL DEFAULT '',
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  deleted_at DATETIME(6) NULL,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_expertise_tags_name (name)
+) ENGINE = InnoDB;
+
+CREATE TABLE reviewer_expertise_tags (
+  reviewer_id BIGINT UNSIGNED NOT NULL,
+  expertise_tag_id BIGINT UNSIGNED NOT NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (reviewer_id, expertise_tag_id),
+  KEY ix_reviewer_expertise_tags_tag (expertise_tag_id),
+  CONSTRAINT fk_reviewer_expertise_tags_reviewer
+    FOREIGN KEY (reviewer_id) REFERENCES reviewers (id)
+    ON DELETE CASCADE,
+  CONSTRAINT fk_reviewer_expertise_tags_tag
+    FOREIGN KEY (expertise_tag_id) REFERENCES expertise_tags (id)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+CREATE TABLE protocol_expertise_tags (
+  protocol_id BIGINT UNSIGNED NOT NULL,
+  expertise_tag_id BIGINT UNSIGNED NOT NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (protocol_id, expertise_tag_id),
+  KEY ix_protocol_expertise_tags_tag (expertise_tag_id),
+  CONSTRAINT fk_protocol_expertise_tags_protocol
+    FOREIGN KEY (protocol_id) REFERENCES protocols (id)
+    ON DELETE CASCADE,
+  CONSTRAINT fk_protocol_expertise_tags_tag
+    FOREIGN KEY (expertise_tag_id) REFERENCES expertise_tags (id)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+INSERT INTO expertise_tags (name, keywords) VALUES
+  ('Clinical', 'clinical,medical,patient,hospital,trial'),
+  ('Pharmacy', 'pharmacy,pharmaceutical,drug,pharmacology'),
+  ('Nursing', 'nursing,nurse'),
+  ('Education', 'education,teacher,student,learning,school'),
+  ('Animal Studies', 'animal,iacuc,in vivo'),
+  ('Psychology', 'psychology,psychological,mental health,counseling'),
+  ('Public Health', 'public health,community,epidemiology'),
+  ('Social Sciences', 'social,survey,qualitative,business');
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('014', 'Reviewer and protocol expertise tags');
@@ -0,0 +1,161 @@
+-- In-app review forms. Each form type gets its questions and the
+-- recommendations a reviewer can choose from. A reviewer's answers are kept
+-- as a draft until submitted; submitting completes the assignment. One
+-- submission exists per assignment, and reopening the assignment lets the
+-- reviewer edit and submit it again.
+
+USE erec_review;
+
+CREATE TABLE review_form_questions (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  form_type_code VARCHAR(32) NOT NULL,
+  question_key VARCHAR(64) NOT NULL,
+  prompt VARCHAR(1000) NOT NULL,
+  help_text VARCHAR(1000) NULL,
+  answer_type VARCHAR(16) NOT NULL DEFAULT 'yes_no_na',
+  is_required BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_review_form_questions_key (form_type_code, question_key),
+  CONSTRAINT chk_review_form_questions_answer_type CHECK (
+    answer_type IN ('yes_no_na', 'text')
+  ),
+  CONSTRAINT fk_review_form_questions_form_type
+    FOREIGN KEY (form_type_code) REFERENCES review_form_types (code)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+CREATE TABLE review_form_recommendations (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  form_type_code VARCHAR(32) NOT NULL,
+  label VARCHAR(255) NOT NULL,
+  sort_order SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_review_form_recommendations_label (form_type_code, label),
+  CONSTRAINT fk_review_form_recommendations_form_type
+    FOREIGN KEY (form_type_code) REFERENCES review_form_types (code)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+CREATE TABLE review_form_submissions (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  assignment_id BIGINT UNSIGNED NOT NULL,
+  form_type_code VARCHAR(32) NOT NULL,
+  recommendation VARCHAR(255) NULL,
+  comments TEXT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'draft',
+  submitted_at DATETIME(6) NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6)
+    ON UPDATE CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_review_form_submissions_assignment (assignment_id),
+  CONSTRAINT chk_review_form_submissions_status CHECK (
+    status IN ('draft', 'submitted')
+  ),
+  CONSTRAINT fk_review_form_submissions_assignment
+    FOREIGN KEY (assignment_id) REFERENCES protocol_reviewer_assignments (id)
+    ON DELETE CASCADE,
+  CONSTRAINT fk_review_form_submissions_form_type
+    FOREIGN KEY (form_type_code) REFERENCES review_form_types (code)
+    ON DELETE RESTRICT
+) ENGINE = InnoDB;
+
+CREATE TABLE review_form_answers (
+  submission_id BIGINT UNSIGNED NOT NULL,
+  question_id BIGINT UNSIGNED NOT NULL,
+  answer TEXT NOT NULL,
+  PRIMARY KEY (submission_id, question_id),
+  CONSTRAINT fk_review_form_answers_submission
+    FOREIGN KEY (submission_id) REFERENCES review_form_submissions (id)
+    ON DELETE CASCADE,
+  CONSTRAINT fk_review_form_answers_question
+    FOREIGN KEY (question_id) REFERENCES review_form_questions (id)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+-- PRA1/PRA2, IACUC/IACUC2 and CREF1/CREF2 share one instrument each.
+INSERT INTO review_form_questions (
+  form_type_code, question_key, prompt, answer_type, is_required, sort_order
+)
+SELECT ft.code, q.question_key, q.prompt, q.answer_type, q.is_required, q.sort_order
+FROM review_form_types ft
+INNER JOIN (
+  SELECT 'PRA' AS family, 'social_value' AS question_key,
+    'Does the study have scientific and social value?' AS prompt,
+    'yes_no_na' AS answer_type, TRUE AS is_required, 10 AS sort_order
+  UNION ALL SELECT 'PRA', 'study_design',
+    'Is the study design appropriate to answer the research question?', 'yes_no_na', TRUE, 20
+  UNION ALL SELECT 'PRA', 'participant_selection',
+    'Are participant selection, recruitment and sample size appropriate?', 'yes_no_na', TRUE, 30
+  UNION ALL SELECT 'PRA', 'risks_benefits',
+    'Are risks to participants minimized and reasonable in relation to the expected benefits?', 'yes_no_na', TRUE, 40
+  UNION ALL SELECT 'PRA', 'privacy',
+    'Are privacy and confidentiality adequately protected?', 'yes_no_na', TRUE, 50
+  UNION ALL SELECT 'PRA', 'vulnerable_participants',
+    'Are there additional safeguards for vulnerable participants?', 'yes_no_na', TRUE, 60
+  UNION ALL SELECT 'PRA', 'consent_process',
+    'Is the informed consent process appropriate?', 'yes_no_na', TRUE, 70
+  UNION ALL SELECT 'PRA', 'findings',
+    'Summarize your findings and the changes the researcher should make.', 'text', TRUE, 80
+  UNION ALL SELECT 'ICA', 'language',
+    'Is the consent form written in language the participants can understand?', 'yes_no_na', TRUE, 10
+  UNION ALL SELECT 'ICA', 'purpose_procedures',
+    'Does it explain the purpose, procedures and duration of participation?', 'yes_no_na', TRUE, 20
+  UNION ALL SELECT 'ICA', 'risks_benefits',
+    'Does it describe the foreseeable risks, discomforts and benefits?', 'yes_no_na', TRUE, 30
+  UNION ALL SELECT 'ICA', 'voluntary',
+    'Does it state that participation is voluntary and that withdrawing carries no penalty?', 'yes_no_na', TRUE, 40
+  UNION ALL SELECT 'ICA', 'confidentiality',
+    'Does it explain how confidentiality will be kept?', 'yes_no_na', TRUE, 50
+  UNION ALL SELECT 'ICA', 'contacts',
+    'Does it give contact details for the researcher and the REC?', 'yes_no_na', TRUE, 60
+  UNION ALL SELECT 'ICA', 'findings',
+    'Summarize your findings and the changes the researcher should make.', 'text', TRUE, 70
+  UNION ALL SELECT 'IACUC', 'justification',
+    'Is the use of animals scientifically justified, with no suitable alternative?', 'yes_no_na', TRUE, 10
+  UNION ALL SELECT 'IACUC', 'species_numbers',
+    'Are the species and number of animals appropriate?', 'yes_no_na', TRUE, 20
+  UNION ALL SELECT 'IACUC', 'procedures',
+    'Are procedures, including anesthesia and analgesia, described in enough detail?', 'yes_no_na', TRUE, 30
+  UNION ALL SELECT 'IACUC', 'pain_distress',
+    'Are pain and distress minimized, with humane endpoints defined?', 'yes_no_na', TRUE, 40
+  UNION ALL SELECT 'IACUC', 'housing_care',
+    'Are housing, care and veterinary oversight adequate?', 'yes_no_na', TRUE, 50
+  UNION ALL SELECT 'IACUC', 'personnel',
+    'Are the personnel trained for the procedures?', 'yes_no_na', TRUE, 60
+  UNION ALL SELECT 'IACUC', 'euthanasia_disposal',
+    'Are euthanasia and carcass disposal appropriate?', 'yes_no_na', TRUE, 70
+  UNION ALL SELECT 'IACUC', 'findings',
+    'Summarize your findings and the changes the researcher should make.', 'text', TRUE, 80
+  UNION ALL SELECT 'CREF', 'minimal_risk',
+    'Does the study involve no more than minimal risk?', 'yes_no_na', TRUE, 10
+  UNION ALL SELECT 'CREF', 'no_vulnerable',
+    'Does the study leave out vulnerable participants?', 'yes_no_na', TRUE, 20
+  UNION ALL SELECT 'CREF', 'anonymous_data',
+    'Are data collected anonymously or from public sources?', 'yes_no_na', TRUE, 30
+  UNION ALL SELECT 'CREF', 'no_sensitive_topics',
+    'Does the study avoid sensitive topics?', 'yes_no_na', TRUE, 40
+  UNION ALL SELECT 'CREF', 'exemption_basis',
+    'Which exemption category applies, and why?', 'text', TRUE, 50
+) q ON q.family = CASE
+  WHEN ft.code IN ('PRA1', 'PRA2') THEN 'PRA'
+  WHEN ft.code = 'ICA' THEN 'ICA'
+  WHEN ft.code IN ('IACUC', 'IACUC2') THEN 'IACUC'
+  WHEN ft.code IN ('CREF1', 'CREF2') THEN 'CREF'
+END;
+
+INSERT INTO review_form_recommendations (form_type_code, label, sort_order)
+SELECT ft.code, r.label, r.sort_order
+FROM review_form_types ft
+INNER JOIN (
+  SELECT 'review' AS family, 'Approve' AS label, 10 AS sort_order
+  UNION ALL SELECT 'review', 'Minor revisions', 20
+  UNION ALL SELECT 'review', 'Major revisions', 30
+  UNION ALL SELECT 'review', 'Disapprove', 40
+  UNION ALL SELECT 'exemption', 'Exempt from review', 10
+  UNION ALL SELECT 'exemption', 'Not exempt; needs expedited or full review', 20
+) r ON r.family = CASE WHEN ft.code IN ('CREF1', 'CREF2') THEN 'exemption' ELSE 'review' END;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('015', 'In-app review forms, drafts and submissions');
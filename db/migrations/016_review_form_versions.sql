@@ -0,0 +1,105 @@
+-- Versioned review forms. Questions and recommendations now belong to a form
+-- version, grouped into sections. Admins edit an unpublished draft and publish
+-- it as the next version; published versions are never changed, and each
+-- submission keeps the version it was answered on. Retiring a form type sets
+-- `review_form_types.is_active` to false so it is no longer assigned.
+
+USE erec_review;
+
+CREATE TABLE review_form_versions (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  form_type_code VARCHAR(32) NOT NULL,
+  version_number SMALLINT UNSIGNED NOT NULL,
+  published_at DATETIME(6) NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6)
+    ON UPDATE CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_review_form_versions_number (form_type_code, version_number),
+  CONSTRAINT fk_review_form_versions_form_type
+    FOREIGN KEY (form_type_code) REFERENCES review_form_types (code)
+    ON DELETE RESTRICT
+) ENGINE = InnoDB;
+
+CREATE TABLE review_form_sections (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  form_version_id BIGINT UNSIGNED NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description VARCHAR(1000) NULL,
+  sort_order SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+  PRIMARY KEY (id),
+  KEY ix_review_form_sections_version (form_version_id, sort_order),
+  CONSTRAINT fk_review_form_sections_version
+    FOREIGN KEY (form_version_id) REFERENCES review_form_versions (id)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+-- The seeded questions become version 1 of each form, in a single section.
+INSERT INTO review_form_versions (form_type_code, version_number, published_at)
+SELECT DISTINCT form_type_code, 1, UTC_TIMESTAMP(6)
+FROM review_form_questions;
+
+INSERT INTO review_form_sections (form_version_id, title, sort_order)
+SELECT id, CASE WHEN form_type_code IN ('CREF1', 'CREF2') THEN 'Exemption checklist' ELSE 'Assessment' END, 10
+FROM review_form_versions;
+
+ALTER TABLE review_form_questions
+  ADD COLUMN form_version_id BIGINT UNSIGNED NULL AFTER id,
+  ADD COLUMN section_id BIGINT UNSIGNED NULL AFTER form_version_id;
+
+UPDATE review_form_questions q
+INNER JOIN review_form_versions v ON v.form_type_code = q.form_type_code
+INNER JOIN review_form_sections s ON s.form_version_id = v.id
+SET q.form_version_id = v.id, q.section_id = s.id;
+
+ALTER TABLE review_form_questions
+  DROP FOREIGN KEY fk_review_form_questions_form_type;
+
+ALTER TABLE review_form_questions
+  DROP INDEX uq_review_form_questions_key,
+  DROP COLUMN form_type_code,
+  MODIFY form_version_id BIGINT UNSIGNED NOT NULL,
+  MODIFY section_id BIGINT UNSIGNED NOT NULL,
+  ADD UNIQUE KEY uq_review_form_questions_key (form_version_id, question_key),
+  ADD KEY ix_review_form_questions_section (section_id, sort_order),
+  ADD CONSTRAINT fk_review_form_questions_version
+    FOREIGN KEY (form_version_id) REFERENCES review_form_versions (id)
+    ON DELETE CASCADE,
+  ADD CONSTRAINT fk_review_form_questions_section
+    FOREIGN KEY (section_id) REFERENCES review_form_sections (id)
+    ON DELETE CASCADE;
+
+ALTER TABLE review_form_recommendations
+  ADD COLUMN form_version_id BIGINT UNSIGNED NULL AFTER id;
+
+UPDATE review_form_recommendations r
+INNER JOIN review_form_versions v ON v.form_type_code = r.form_type_code
+SET r.form_version_id = v.id;
+
+ALTER TABLE review_form_recommendations
+  DROP FOREIGN KEY fk_review_form_recommendations_form_type;
+
+ALTER TABLE review_form_recommendations
+  DROP INDEX uq_review_form_recommendations_label,
+  DROP COLUMN form_type_code,
+  MODIFY form_version_id BIGINT UNSIGNED NOT NULL,
+  ADD UNIQUE KEY uq_review_form_recommendations_label (form_version_id, label),
+  ADD CONSTRAINT fk_review_form_recommendations_version
+    FOREIGN KEY (form_version_id) REFERENCES review_form_versions (id)
+    ON DELETE CASCADE;
+
+ALTER TABLE review_form_submissions
+  ADD COLUMN form_version_id BIGINT UNSIGNED NULL AFTER form_type_code;
+
+UPDATE review_form_submissions rs
+INNER JOIN review_form_versions v ON v.form_type_code = rs.form_type_code
+SET rs.form_version_id = v.id;
+
+ALTER TABLE review_form_submissions
+  MODIFY form_version_id BIGINT UNSIGNED NOT NULL,
+  ADD CONSTRAINT fk_review_form_submissions_version
+    FOREIGN KEY (form_version_id) REFERENCES review_form_versions (id)
+    ON DELETE RESTRICT;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('016', 'Versioned review forms with sections');
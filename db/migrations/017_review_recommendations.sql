@@ -0,0 +1,52 @@
+-- Structured reviewer recommendations. Every recommendation label on a review
+-- form now maps to a fixed outcome, and submitting a review copies that
+-- outcome and the reviewer's comments onto the assignment. Reviews returned
+-- outside the app can have their recommendation entered by an admin. The
+-- chair's review summary compares these outcomes to flag disagreement.
+
+USE erec_review;
+
+ALTER TABLE review_form_recommendations
+  ADD COLUMN outcome VARCHAR(24) NULL AFTER label;
+
+UPDATE review_form_recommendations
+SET outcome = CASE
+  WHEN label LIKE 'Not exempt%' THEN 'full_review'
+  WHEN label LIKE 'Exempt%' THEN 'exempt'
+  WHEN label LIKE 'Disapprov%' THEN 'disapprove'
+  WHEN label LIKE 'Approv%' THEN 'approve'
+  WHEN label LIKE '%minor%' THEN 'minor_revisions'
+  WHEN label LIKE '%major%' THEN 'major_revisions'
+  ELSE 'full_review'
+END;
+
+ALTER TABLE review_form_recommendations
+  MODIFY outcome VARCHAR(24) NOT NULL,
+  ADD CONSTRAINT chk_review_form_recommendations_outcome CHECK (
+    outcome IN ('approve', 'minor_revisions', 'major_revisions', 'disapprove', 'exempt', 'full_review')
+  );
+
+ALTER TABLE protocol_reviewer_assignments
+  ADD COLUMN recommendation VARCHAR(24) NULL AFTER decline_reason,
+  ADD COLUMN recommendation_comments TEXT NULL AFTER recommendation,
+  ADD COLUMN recommendation_source VARCHAR(16) NULL AFTER recommendation_comments,
+  ADD COLUMN recommended_at DATETIME(6) NULL AFTER recommendation_source,
+  ADD CONSTRAINT chk_protocol_assignments_recommendation CHECK (
+    recommendation IS NULL
+    OR recommendation IN ('approve', 'minor_revisions', 'major_revisions', 'disapprove', 'exempt', 'full_review')
+  ),
+  ADD CONSTRAINT chk_protocol_assignments_recommendation_source CHECK (
+    recommendation_source IS NULL OR recommendation_source IN ('form', 'admin')
+  );
+
+UPDATE protocol_reviewer_assignments pra
+INNER JOIN review_form_submissions rs ON rs.assignment_id = pra.id AND rs.status = 'submitted'
+INNER JOIN review_form_recommendations r
+  ON r.form_version_id = rs.form_version_id AND r.label = rs.recommendation
+SET pra.recommendation = r.outcome,
+    pra.recommendation_comments = rs.comments,
+    pra.recommendation_source = 'form',
+    pra.recommended_at = rs.submitted_at;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('017', 'Structured reviewer recommendations');
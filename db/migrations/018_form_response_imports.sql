@@ -0,0 +1,15 @@
+-- Microsoft Forms response imports. Admins upload a form type's response
+-- export, and matched assignments are completed with `actor_type = 'import'`
+-- events. A recommendation found in the export is kept on the assignment with
+-- 'import' as its source.
+
+USE erec_review;
+
+ALTER TABLE protocol_reviewer_assignments
+  DROP CHECK chk_protocol_assignments_recommendation_source,
+  ADD CONSTRAINT chk_protocol_assignments_recommendation_source CHECK (
+    recommendation_source IS NULL OR recommendation_source IN ('form', 'admin', 'import')
+  );
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('018', 'Microsoft Forms response imports');
@@ -0,0 +1,18 @@
+-- Outbound mail queue. Reviewer notifications are stored as `pending`
+-- deliveries with their rendered message, and the mail worker claims them
+-- under a short lease, sends them, and retries failures with exponential
+-- backoff until `max_attempts` is reached.
+
+USE erec_review;
+
+ALTER TABLE mail_deliveries
+  ADD COLUMN html_body MEDIUMTEXT NULL AFTER subject,
+  ADD COLUMN text_body MEDIUMTEXT NULL AFTER html_body,
+  ADD COLUMN next_attempt_at DATETIME(6) NULL AFTER last_attempt_at,
+  ADD COLUMN lease_token CHAR(36) NULL AFTER next_attempt_at,
+  ADD COLUMN lease_expires_at DATETIME(6) NULL AFTER lease_token,
+  ADD KEY ix_mail_deliveries_queue (status, next_attempt_at),
+  ADD KEY ix_mail_deliveries_lease (lease_token);
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('019', 'Outbound mail queue');
@@ -0,0 +1,58 @@
+-- Editable email templates for reviewer assignment notices and reminders.
+-- Each template is versioned like the review forms: admins edit a draft and
+-- publish it as the next version, and published versions are never changed.
+-- Bodies are plain text with {{placeholders}}; the sender escapes everything
+-- when it builds the HTML message. Each mail batch records the template
+-- version it was written from.
+
+USE erec_review;
+
+CREATE TABLE email_templates (
+  code VARCHAR(32) NOT NULL,
+  display_name VARCHAR(255) NOT NULL,
+  description VARCHAR(1000) NULL,
+  sort_order SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6)
+    ON UPDATE CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (code)
+) ENGINE = InnoDB;
+
+CREATE TABLE email_template_versions (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  template_code VARCHAR(32) NOT NULL,
+  version_number SMALLINT UNSIGNED NOT NULL,
+  subject VARCHAR(500) NOT NULL,
+  body MEDIUMTEXT NOT NULL,
+  published_at DATETIME(6) NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6)
+    ON UPDATE CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_email_template_versions_number (template_code, version_number),
+  CONSTRAINT fk_email_template_versions_template
+    FOREIGN KEY (template_code) REFERENCES email_templates (code)
+    ON DELETE RESTRICT
+) ENGINE = InnoDB;
+
+INSERT INTO email_templates (code, display_name, description, sort_order) VALUES
+  ('assignment', 'Assignment notice', 'Sent when protocols are assigned to a reviewer.', 10),
+  ('reminder', 'Reminder', 'Sent for reviews that are not yet completed.', 20);
+
+-- Version 1 of each template keeps the wording the system sent before.
+INSERT INTO email_template_versions (template_code, version_number, subject, body, published_at) VALUES
+  ('assignment', 1, 'New Protocol Review Assignment',
+    'Dear {{reviewer_name}},\n\nThe following protocols are assigned to you for review.\n\n{{protocol_rows}}\n\nOpen the e-REC reviewer portal: {{portal_link}}',
+    UTC_TIMESTAMP(6)),
+  ('reminder', 1, 'Reminder',
+    'Dear {{reviewer_name}},\n\nThis is a reminder for your unfinished protocol reviews.\n\n{{protocol_rows}}\n\nOpen the e-REC reviewer portal: {{portal_link}}',
+    UTC_TIMESTAMP(6));
+
+ALTER TABLE mail_batches
+  ADD COLUMN email_template_version_id BIGINT UNSIGNED NULL AFTER subject,
+  ADD CONSTRAINT fk_mail_batches_email_template_version
+    FOREIGN KEY (email_template_version_id) REFERENCES email_template_versions (id)
+    ON DELETE RESTRICT;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('020', 'Editable email templates');
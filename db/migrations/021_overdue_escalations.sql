@@ -0,0 +1,59 @@
+-- Escalation ladder for overdue reviews. The reminder cron nudges a reviewer
+-- when an assignment becomes `overdue_first_nudge_days` and again
+-- `overdue_second_nudge_days` past its due date, then emails the REC chair a
+-- digest of assignments `chair_escalation_days` or more overdue, grouped by
+-- reviewer. Each step is recorded once per assignment and due date, so an
+-- approved extension starts the ladder over.
+
+USE erec_review;
+
+ALTER TABLE notification_settings
+  ADD COLUMN escalation_enabled BOOLEAN NOT NULL DEFAULT FALSE AFTER unanswered_assignment_days,
+  ADD COLUMN overdue_first_nudge_days TINYINT UNSIGNED NOT NULL DEFAULT 1 AFTER escalation_enabled,
+  ADD COLUMN overdue_second_nudge_days TINYINT UNSIGNED NOT NULL DEFAULT 3 AFTER overdue_first_nudge_days,
+  ADD COLUMN chair_escalation_days TINYINT UNSIGNED NOT NULL DEFAULT 5 AFTER overdue_second_nudge_days,
+  ADD CONSTRAINT chk_notification_settings_escalation CHECK (
+    overdue_first_nudge_days >= 1
+    AND overdue_second_nudge_days > overdue_first_nudge_days
+    AND chair_escalation_days > overdue_second_nudge_days
+    AND chair_escalation_days <= 60
+  );
+
+ALTER TABLE mail_batches
+  DROP CHECK chk_mail_batches_notification_type,
+  ADD CONSTRAINT chk_mail_batches_notification_type CHECK (
+    notification_type IS NULL
+    OR notification_type IN ('assignment', 'reminder', 'overdue', 'escalation')
+  );
+
+CREATE TABLE assignment_escalations (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  assignment_id BIGINT UNSIGNED NOT NULL,
+  due_date DATE NOT NULL,
+  step VARCHAR(24) NOT NULL,
+  mail_batch_id BIGINT UNSIGNED NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_assignment_escalations_step (assignment_id, due_date, step),
+  KEY ix_assignment_escalations_batch (mail_batch_id),
+  CONSTRAINT chk_assignment_escalations_step CHECK (
+    step IN ('first_nudge', 'second_nudge', 'chair')
+  ),
+  CONSTRAINT fk_assignment_escalations_assignment
+    FOREIGN KEY (assignment_id) REFERENCES protocol_reviewer_assignments (id)
+    ON DELETE CASCADE,
+  CONSTRAINT fk_assignment_escalations_batch
+    FOREIGN KEY (mail_batch_id) REFERENCES mail_batches (id)
+    ON DELETE RESTRICT
+) ENGINE = InnoDB;
+
+INSERT INTO email_templates (code, display_name, description, sort_order) VALUES
+  ('overdue', 'Overdue nudge', 'Sent to a reviewer whose reviews are past their due date.', 30);
+
+INSERT INTO email_template_versions (template_code, version_number, subject, body, published_at) VALUES
+  ('overdue', 1, 'Overdue Protocol Reviews',
+    'Dear {{reviewer_name}},\n\nThe following reviews are past their due date. Please complete them as soon as you can, or request a due date extension from the reviewer portal if you need more time.\n\n{{protocol_rows}}\n\nOpen the e-REC reviewer portal: {{portal_link}}',
+    UTC_TIMESTAMP(6));
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('021', 'Overdue review escalations');
@@ -0,0 +1,45 @@
+-- Weekly admin digest. On the configured weekday (Asia/Manila) the digest cron
+-- emails every address in `admin_digest_recipients` a summary of review
+-- progress: dashboard totals, protocols completed since the last digest,
+-- reviews due in the coming week, overdue reviews per reviewer, and mail
+-- batches with failed deliveries. Each digest is queued as its own mail batch.
+
+USE erec_review;
+
+CREATE TABLE admin_digest_settings (
+  singleton_id TINYINT UNSIGNED NOT NULL DEFAULT 1,
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  send_weekday TINYINT UNSIGNED NOT NULL DEFAULT 1,
+  last_sent_at DATETIME(6) NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6)
+    ON UPDATE CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (singleton_id),
+  CONSTRAINT chk_admin_digest_settings_singleton CHECK (singleton_id = 1),
+  CONSTRAINT chk_admin_digest_settings_weekday CHECK (send_weekday BETWEEN 0 AND 6)
+) ENGINE = InnoDB;
+
+INSERT INTO admin_digest_settings (singleton_id, enabled, send_weekday)
+VALUES (1, FALSE, 1);
+
+CREATE TABLE admin_digest_recipients (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  email VARCHAR(320) NOT NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_admin_digest_recipients_email (email)
+) ENGINE = InnoDB;
+
+ALTER TABLE mail_batches
+  DROP CHECK chk_mail_batches_scope,
+  ADD CONSTRAINT chk_mail_batches_scope CHECK (
+    scope IN ('week', 'month', 'reminder', 'digest')
+  ),
+  DROP CHECK chk_mail_batches_notification_type,
+  ADD CONSTRAINT chk_mail_batches_notification_type CHECK (
+    notification_type IS NULL
+    OR notification_type IN ('assignment', 'reminder', 'overdue', 'escalation', 'admin_digest')
+  );
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('022', 'Weekly admin digest');
@@ -0,0 +1,79 @@
+-- Reviewer-managed email preferences. A reviewer chooses immediate emails or
+-- one daily digest, how many days before a due date reminders start (within
+-- the same 1-14 day range as the global due-soon threshold), and whether
+-- notice announcements are emailed. Reviewers without a row use the defaults.
+-- While a reviewer is on the daily digest, notifications addressed to them are
+-- recorded as skipped in their batch and held in `reviewer_digest_items`
+-- until the reminder cron sends the digest.
+
+USE erec_review;
+
+CREATE TABLE reviewer_notification_preferences (
+  reviewer_id BIGINT UNSIGNED NOT NULL,
+  delivery_mode VARCHAR(16) NOT NULL DEFAULT 'immediate',
+  reminder_lead_days TINYINT UNSIGNED NULL,
+  notice_emails BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6)
+    ON UPDATE CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (reviewer_id),
+  CONSTRAINT chk_reviewer_notification_preferences_mode CHECK (
+    delivery_mode IN ('immediate', 'daily_digest')
+  ),
+  CONSTRAINT chk_reviewer_notification_preferences_lead CHECK (
+    reminder_lead_days IS NULL OR reminder_lead_days BETWEEN 1 AND 14
+  ),
+  CONSTRAINT fk_reviewer_notification_preferences_reviewer
+    FOREIGN KEY (reviewer_id) REFERENCES reviewers (id)
+    ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+CREATE TABLE reviewer_digest_items (
+  id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  reviewer_id BIGINT UNSIGNED NOT NULL,
+  source_mail_batch_id BIGINT UNSIGNED NOT NULL,
+  notification_type VARCHAR(24) NOT NULL,
+  rec_code VARCHAR(100) NOT NULL,
+  title TEXT NOT NULL,
+  form_type VARCHAR(64) NOT NULL DEFAULT '',
+  due_date DATE NULL,
+  claim_token CHAR(36) NULL,
+  claimed_at DATETIME(6) NULL,
+  digest_mail_batch_id BIGINT UNSIGNED NULL,
+  created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+  PRIMARY KEY (id),
+  KEY ix_reviewer_digest_items_pending (digest_mail_batch_id, claim_token, reviewer_id),
+  CONSTRAINT fk_reviewer_digest_items_reviewer
+    FOREIGN KEY (reviewer_id) REFERENCES reviewers (id)
+    ON DELETE CASCADE,
+  CONSTRAINT fk_reviewer_digest_items_source_batch
+    FOREIGN KEY (source_mail_batch_id) REFERENCES mail_batches (id)
+    ON DELETE RESTRICT,
+  CONSTRAINT fk_reviewer_digest_items_digest_batch
+    FOREIGN KEY (digest_mail_batch_id) REFERENCES mail_batches (id)
+    ON DELETE RESTRICT
+) ENGINE = InnoDB;
+
+ALTER TABLE mail_batches
+  DROP CHECK chk_mail_batches_scope,
+  ADD CONSTRAINT chk_mail_batches_scope CHECK (
+    scope IN ('week', 'month', 'reminder', 'digest', 'notice')
+  ),
+  DROP CHECK chk_mail_batches_notification_type,
+  ADD CONSTRAINT chk_mail_batches_notification_type CHECK (
+    notification_type IS NULL
+    OR notification_type IN (
+      'assignment', 'reminder', 'overdue', 'escalation', 'admin_digest', 'reviewer_digest', 'notice'
+    )
+  );
+
+INSERT INTO email_templates (code, display_name, description, sort_order) VALUES
+  ('daily_digest', 'Daily digest', 'Sent once a day to reviewers who chose a digest instead of separate emails.', 40);
+
+INSERT INTO email_template_versions (template_code, version_number, subject, body, published_at) VALUES
+  ('daily_digest', 1, 'Your e-REC Daily Digest',
+    'Dear {{reviewer_name}},\n\nHere is your daily summary of e-REC assignment notices and reminders.\n\n{{protocol_rows}}\n\nOpen the e-REC reviewer portal: {{portal_link}}',
+    UTC_TIMESTAMP(6));
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('023', 'Reviewer notification preferences');
@@ -0,0 +1,17 @@
+-- Extension decisions are emailed to the reviewer through the mail queue, so
+-- they are retried and listed on the Mailing page like other notifications.
+
+USE erec_review;
+
+ALTER TABLE mail_batches
+  DROP CHECK chk_mail_batches_notification_type,
+  ADD CONSTRAINT chk_mail_batches_notification_type CHECK (
+    notification_type IS NULL
+    OR notification_type IN (
+      'assignment', 'reminder', 'overdue', 'escalation', 'admin_digest', 'reviewer_digest', 'notice',
+      'extension_decision'
+    )
+  );
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('024', 'Extension decision mail');
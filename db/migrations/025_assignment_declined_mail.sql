@@ -0,0 +1,17 @@
+-- Decline notices to the secretariat go through the mail queue, so a mail
+-- failure no longer fails the reviewer's decline and the notice is retried.
+
+USE erec_review;
+
+ALTER TABLE mail_batches
+  DROP CHECK chk_mail_batches_notification_type,
+  ADD CONSTRAINT chk_mail_batches_notification_type CHECK (
+    notification_type IS NULL
+    OR notification_type IN (
+      'assignment', 'reminder', 'overdue', 'escalation', 'admin_digest', 'reviewer_digest', 'notice',
+      'extension_decision', 'assignment_declined'
+    )
+  );
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('025', 'Assignment declined mail');
@@ -0,0 +1,10 @@
+-- Address that receives the overdue chair digest. When it is empty the digest
+-- goes to every active admin account that can decide protocols, as before.
+
+USE erec_review;
+
+ALTER TABLE notification_settings
+  ADD COLUMN chair_escalation_email VARCHAR(320) NULL AFTER chair_escalation_days;
+
+INSERT INTO schema_migrations (version, description)
+VALUES ('026', 'Chair escalation email');
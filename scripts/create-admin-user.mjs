@@ -0,0 +1,75 @@
+import { randomBytes, scrypt } from 'node:crypto';
+import process from 'node:process';
+import { promisify } from 'node:util';
+import mysql from 'mysql2/promise';
+
+// Keep in sync with hashAdminPassword in src/lib/mysql/adminUsers.ts.
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELISM = 1;
+const SCRYPT_KEY_LENGTH = 64;
+const ADMIN_ROLES = ['chair', 'secretariat', 'finance'];
+
+const scryptAsync = promisify(scrypt);
+
+function requiredEnv(name) {
+  const value = process.env[name]?.trim();
+  if (!value) throw new Error(`Set ${name} before creating an admin user.`);
+  return value;
+}
+
+async function hashPassword(password) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH, {
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELISM,
+  });
+  return ['scrypt', SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELISM, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+async function main() {
+  const email = requiredEnv('ADMIN_EMAIL').toLowerCase();
+  const fullName = process.env.ADMIN_NAME?.trim() || email;
+  const password = requiredEnv('ADMIN_PASSWORD');
+  const role = process.env.ADMIN_ROLE?.trim().toLowerCase() || 'secretariat';
+
+  if (!ADMIN_ROLES.includes(role)) {
+    throw new Error(`ADMIN_ROLE must be one of: ${ADMIN_ROLES.join(', ')}.`);
+  }
+
+  if (password.length < 12) {
+    throw new Error('ADMIN_PASSWORD must be at least 12 characters.');
+  }
+
+  const connection = await mysql.createConnection({
+    host: process.env.MYSQL_HOST || '127.0.0.1',
+    port: Number(process.env.MYSQL_PORT || 3306),
+    user: requiredEnv('MYSQL_USER'),
+    password: requiredEnv('MYSQL_PASSWORD'),
+    database: process.env.MYSQL_DATABASE || 'erec_review',
+    timezone: 'Z',
+  });
+
+  try {
+    await connection.execute(`
+      INSERT INTO admin_users (email, full_name, role, password_hash, is_active)
+      VALUES (?, ?, ?, ?, TRUE)
+      ON DUPLICATE KEY UPDATE
+        full_name = VALUES(full_name),
+        role = VALUES(role),
+        password_hash = VALUES(password_hash),
+        is_active = TRUE,
+        deleted_at = NULL
+    `, [email, fullName, role, await hashPassword(password)]);
+    console.log(`Admin user ${email} (${role}) is ready.`);
+  } finally {
+    await connection.end();
+  }
+}
+
+main().catch((error) => {
+  console.error('Failed to create admin user.');
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -568,7 +568,7 @@ async function importSnapshot(connection, snapshot) {
           nullableString(record.decoded.adviser) ?? '',
           nullableString(record.decoded.course_program) ?? '',
           nullableString(record.decoded.e_link),
-          isCompleted ? 'completed' : 'in_progress',
+          isCompleted ? 'reviews_complete' : assignments.length > 0 ? 'under_review' : 'submitted',
           sqlDate(record.decoded.due_date, `${record.path}.due_date`),
           isCompleted ? completionValues.at(-1) ?? null : null,
           nullableString(record.decoded.status),
@@ -581,6 +581,20 @@ async function importSnapshot(connection, snapshot) {
           migrationRunId,
         ]
       );
+      const reviewRoundId = await insertAndGetId(
+        connection,
+        `INSERT INTO protocol_review_rounds (
+           protocol_id, round_number, protocol_week_id, document_link, due_date, opened_at
+         ) VALUES (?, 1, ?, ?, ?, COALESCE(?, UTC_TIMESTAMP(6)))`,
+        [
+          protocolId,
+          weekByKey.get(`${parsed.monthId}/${parsed.weekId}`),
+          nullableString(record.decoded.e_link),
+          sqlDate(record.decoded.due_date, `${record.path}.due_date`),
+          sqlDateTime(record.decoded.created_at, `${record.path}.created_at`),
+        ]
+      );
+      await connection.execute('UPDATE protocols SET current_round_id = ? WHERE id = ?', [reviewRoundId, protocolId]);
       protocolByPath.set(record.path, protocolId);
       const assignmentNameMap = new Map();
       assignmentByProtocolAndName.set(record.path, assignmentNameMap);
@@ -596,12 +610,14 @@ async function importSnapshot(connection, snapshot) {
         const assignmentId = await insertAndGetId(
           connection,
           `INSERT INTO protocol_reviewer_assignments (
-             protocol_id, assignment_slot, reviewer_id, source_reviewer_id, source_reviewer_name,
-             form_type_code, source_form_type, status, due_date, completed_at, source_path,
-             source_path_sha256, source_ordinal, migration_run_id
-           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+             protocol_id, review_round_id, assignment_slot, reviewer_id, source_reviewer_id,
+             source_reviewer_name, form_type_code, source_form_type, status, due_date, completed_at,
+             source_path, source_path_sha256, source_ordinal, migration_run_id,
+             acceptance, responded_at
+           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'accepted', UTC_TIMESTAMP(6))`,
           [
             protocolId,
+            reviewRoundId,
             ordinal + 1,
             resolution.reviewerId,
             sourceReviewerId,
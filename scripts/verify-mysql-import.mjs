@@ -290,8 +290,9 @@ async function verifyDatabase(connection, snapshot) {
         WHERE p.migration_run_id = ?
         GROUP BY p.id, p.status, p.completed_at
        HAVING p.status <> CASE
-                WHEN COUNT(a.id) > 0 AND SUM(a.status = 'completed') = COUNT(a.id) THEN 'completed'
-                ELSE 'in_progress'
+                WHEN COUNT(a.id) > 0 AND SUM(a.status = 'completed') = COUNT(a.id) THEN 'reviews_complete'
+                WHEN COUNT(a.id) > 0 THEN 'under_review'
+                ELSE 'submitted'
               END
           OR NOT (p.completed_at <=> CASE
                 WHEN COUNT(a.id) > 0 AND SUM(a.status = 'completed') = COUNT(a.id) THEN MAX(a.completed_at)
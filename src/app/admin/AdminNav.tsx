@@ -2,21 +2,32 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { useState } from 'react';
 import { COLORS } from '@/lib/colors';
+import {
+  ADMIN_PAGES,
+  ADMIN_ROLE_LABELS,
+  hasAdminPermission,
+  type AdminRole,
+} from '@/lib/adminPermissions';
 
-export default function AdminNav() {
+export default function AdminNav({ adminName, role }: { adminName: string; role: AdminRole }) {
   const pathname = usePathname();
+  const [signingOut, setSigningOut] = useState(false);
   const isLinkActive = (href: string) => pathname === href || pathname.startsWith(`${href}/`);
 
-  const navLinks = [
-    { name: 'Dashboard', href: '/admin/dashboard' },
-    { name: 'Protocols', href: '/admin/protocols' },
-    { name: 'Mailing', href: '/admin/mailing' },
-    { name: 'CSV Upload', href: '/admin/csv-upload' },
-    { name: 'Request Docs', href: '/admin/request-documents' },
-    { name: 'Reviewers', href: '/admin/reviewers' },
-    { name: 'Notices', href: '/admin/notices' },
-  ];
+  const navLinks = ADMIN_PAGES.filter((page) => page.nav && hasAdminPermission(role, page.permission));
+
+  const handleLogout = async () => {
+    setSigningOut(true);
+    try {
+      await fetch('/api/admin/session', { method: 'DELETE' });
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    } finally {
+      window.location.href = '/admin/login';
+    }
+  };
 
   return (
     <nav className="bg-white shadow-sm">
@@ -43,11 +54,20 @@ export default function AdminNav() {
               ))}
             </div>
           </div>
-          <div className="hidden sm:ml-6 sm:flex sm:items-center">
+          <div className="hidden sm:ml-6 sm:flex sm:items-center sm:space-x-4">
+            <span className="text-sm text-gray-700">{adminName}</span>
             <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium" 
               style={{ backgroundColor: COLORS.brand.green[50], color: COLORS.brand.green[800] }}>
-              Admin
+              {ADMIN_ROLE_LABELS[role]}
             </span>
+            <button
+              type="button"
+              onClick={handleLogout}
+              disabled={signingOut}
+              className="text-sm text-red-600 hover:text-red-800 disabled:opacity-60"
+            >
+              {signingOut ? 'Signing out...' : 'Logout'}
+            </button>
           </div>
         </div>
       </div>
@@ -69,6 +89,14 @@ export default function AdminNav() {
               {link.name}
             </Link>
           ))}
+          <button
+            type="button"
+            onClick={handleLogout}
+            disabled={signingOut}
+            className="block w-full text-left pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-red-600 hover:bg-gray-50 hover:border-gray-300"
+          >
+            {signingOut ? 'Signing out...' : 'Logout'}
+          </button>
         </div>
       </div>
     </nav>
@@ -0,0 +1,269 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+
+interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditEvent {
+  id: string;
+  occurredAt: string | null;
+  actorId: string | null;
+  actorEmail: string;
+  actorName: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  changes: AuditChange[];
+}
+
+interface AuditFilters {
+  action: string;
+  entityType: string;
+  entityId: string;
+  actor: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: '', entityType: '', entityId: '', actor: '', from: '', to: '' };
+
+function buildQuery(filters: AuditFilters, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra);
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value.trim()) params.set(key, value.trim());
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+function formatDateTime(value: string | null): string {
+  if (!value) return 'N/A';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async (nextFilters: AuditFilters) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/audit${buildQuery(nextFilters)}`, { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load the audit log.');
+      setEvents(result.events as AuditEvent[]);
+      setActions(result.actions as string[]);
+      setError(null);
+    } catch (auditError) {
+      console.error('Failed to load audit log:', auditError);
+      setError('Failed to load the audit log.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEvents(appliedFilters);
+  }, [appliedFilters, loadEvents]);
+
+  const entityTypes = Array.from(new Set(actions.map((action) => action.split('.')[0])));
+
+  const applyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    setAppliedFilters({ ...filters });
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-950">Audit Log</h1>
+          <p className="mt-1 text-sm text-slate-600">
+            Who changed protocols, reviewers, notices, settings, and mailing history, and what changed.
+          </p>
+        </div>
+        <a
+          href={`/api/admin/audit${buildQuery(appliedFilters, { format: 'csv' })}`}
+          className="inline-flex w-fit items-center rounded-md bg-emerald-700 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-800"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      <form onSubmit={applyFilters} className="grid grid-cols-1 gap-3 rounded-lg border border-slate-200 bg-white p-4 shadow-sm md:grid-cols-3 lg:grid-cols-6">
+        <label className="text-sm text-slate-600">
+          Action
+          <select
+            value={filters.action}
+            onChange={(event) => updateFilter('action', event.target.value)}
+            className="mt-1 w-full rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-900"
+          >
+            <option value="">All actions</option>
+            {actions.map((action) => <option key={action} value={action}>{action}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-slate-600">
+          Entity
+          <select
+            value={filters.entityType}
+            onChange={(event) => updateFilter('entityType', event.target.value)}
+            className="mt-1 w-full rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-900"
+          >
+            <option value="">All entities</option>
+            {entityTypes.map((entityType) => <option key={entityType} value={entityType}>{entityType}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-slate-600">
+          Entity ID
+          <input
+            value={filters.entityId}
+            onChange={(event) => updateFilter('entityId', event.target.value)}
+            className="mt-1 w-full rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-900"
+          />
+        </label>
+        <label className="text-sm text-slate-600">
+          Admin
+          <input
+            value={filters.actor}
+            onChange={(event) => updateFilter('actor', event.target.value)}
+            placeholder="Name or email"
+            className="mt-1 w-full rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-900"
+          />
+        </label>
+        <label className="text-sm text-slate-600">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(event) => updateFilter('from', event.target.value)}
+            className="mt-1 w-full rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-900"
+          />
+        </label>
+        <label className="text-sm text-slate-600">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(event) => updateFilter('to', event.target.value)}
+            className="mt-1 w-full rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-900"
+          />
+        </label>
+        <div className="flex gap-2 md:col-span-3 lg:col-span-6">
+          <button
+            type="submit"
+            className="rounded-md bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800"
+          >
+            Apply filters
+          </button>
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="rounded-md border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <section className="rounded-lg border border-slate-200 bg-white shadow-sm">
+        {loading ? (
+          <div className="px-4 py-8 text-center text-sm text-slate-500">Loading audit events...</div>
+        ) : events.length === 0 ? (
+          <div className="px-4 py-8 text-center text-sm text-slate-500">No audit events match these filters.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-slate-500">When</th>
+                  <th className="px-4 py-3 text-left font-medium text-slate-500">Admin</th>
+                  <th className="px-4 py-3 text-left font-medium text-slate-500">Action</th>
+                  <th className="px-4 py-3 text-left font-medium text-slate-500">Entity</th>
+                  <th className="px-4 py-3 text-left font-medium text-slate-500">Changes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {events.map((event) => {
+                  const expanded = expandedId === event.id;
+
+                  return (
+                    <tr key={event.id} className="align-top">
+                      <td className="whitespace-nowrap px-4 py-3 text-slate-600">{formatDateTime(event.occurredAt)}</td>
+                      <td className="max-w-xs px-4 py-3">
+                        <p className="truncate font-medium text-slate-950">{event.actorName || event.actorEmail}</p>
+                        {event.actorEmail && <p className="truncate text-xs text-slate-500">{event.actorEmail}</p>}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs text-slate-700">{event.action}</td>
+                      <td className="px-4 py-3 text-slate-600">
+                        {event.entityType} <span className="font-mono text-xs">#{event.entityId}</span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {event.changes.length === 0 ? (
+                          <span className="text-slate-400">No field changes</span>
+                        ) : (
+                          <div>
+                            <button
+                              type="button"
+                              onClick={() => setExpandedId(expanded ? null : event.id)}
+                              className="text-sm font-medium text-emerald-700 hover:text-emerald-800"
+                            >
+                              {expanded ? 'Hide' : 'Show'} {event.changes.length} field{event.changes.length === 1 ? '' : 's'}
+                            </button>
+                            {expanded && (
+                              <dl className="mt-2 space-y-2">
+                                {event.changes.map((change) => (
+                                  <div key={change.field} className="rounded-md bg-slate-50 p-2 text-xs">
+                                    <dt className="font-semibold text-slate-700">{change.field}</dt>
+                                    <dd className="mt-1 break-all text-red-700">- {formatValue(change.before)}</dd>
+                                    <dd className="break-all text-emerald-700">+ {formatValue(change.after)}</dd>
+                                  </div>
+                                ))}
+                              </dl>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
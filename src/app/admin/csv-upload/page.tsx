@@ -36,31 +36,29 @@ type Protocol = {
   research_title: string;
   adviser: string;
   course_program: string;
+  nature_of_study: string;
+  type_of_study: string;
   e_link: string;
   reviewers: Reviewer[];
   created_at: string;
 };
+type AssignmentWarning = { reviewerId: string; reviewerName: string; reason: string };
 type NotificationSummary = {
-  sent: unknown[];
+  queued: unknown[];
   skipped: unknown[];
-  failed: unknown[];
 };
 
 function formatNotificationSummary(summary: NotificationSummary): string {
   const parts = [];
 
-  if (summary.sent.length > 0) {
-    parts.push(`sent ${summary.sent.length} reviewer email${summary.sent.length === 1 ? '' : 's'}`);
+  if (summary.queued.length > 0) {
+    parts.push(`queued ${summary.queued.length} reviewer email${summary.queued.length === 1 ? '' : 's'}`);
   }
 
   if (summary.skipped.length > 0) {
     parts.push(`skipped ${summary.skipped.length} reviewer${summary.skipped.length === 1 ? '' : 's'} without email`);
   }
 
-  if (summary.failed.length > 0) {
-    parts.push(`${summary.failed.length} email${summary.failed.length === 1 ? '' : 's'} failed`);
-  }
-
   return parts.length > 0 ? ` Notifications: ${parts.join(', ')}.` : ' No reviewer emails were sent.';
 }
 
@@ -124,6 +122,8 @@ export default function CSVUploader() {
         research_title: row['Research Title'] || '',
         adviser: row['Adviser'] || '',
         course_program: row['Course/Program'] || '',
+        nature_of_study: row['Nature of Study'] || '',
+        type_of_study: row['Type of Study'] || '',
         e_link: row['E Link'] || '',
         reviewers,
         created_at: new Date().toISOString()
@@ -185,6 +185,7 @@ export default function CSVUploader() {
     try {
       const monthDocumentId = `${selectedMonth}${selectedYear}`;
       const uploadedCount = processedData.length;
+      const warnings: string[] = [];
       for (const protocol of processedData) {
         const response = await fetch('/api/admin/protocols', {
           method: 'POST',
@@ -198,7 +199,11 @@ export default function CSVUploader() {
         });
         const result = await response.json();
         if (!response.ok) throw new Error(result.error || `Failed to upload ${protocol.spup_rec_code}.`);
+        for (const warning of (result.warnings ?? []) as AssignmentWarning[]) {
+          warnings.push(`${protocol.spup_rec_code}: ${warning.reviewerName} ${warning.reason}`);
+        }
       }
+      const warningMessage = warnings.length > 0 ? ` Check availability: ${warnings.join(' ')}` : '';
       let notificationMessage = '';
 
       if (sendNotifications) {
@@ -233,7 +238,7 @@ export default function CSVUploader() {
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
-      setUploadStatus(`Successfully uploaded ${uploadedCount} protocols. The table has been cleared.${notificationMessage}`);
+      setUploadStatus(`Successfully uploaded ${uploadedCount} protocols. The table has been cleared.${warningMessage}${notificationMessage}`);
     } catch (e) {
       console.error(e);
       setUploadStatus('Upload failed.');
@@ -13,14 +13,16 @@ import {
   HiOutlineDocumentText,
   HiOutlineExclamationTriangle,
   HiOutlineFolderOpen,
+  HiOutlineHandRaised,
   HiOutlineUsers,
 } from 'react-icons/hi2';
+import ReassignmentModal from '@/components/ReassignmentModal';
 import {
   formatMonthLabel,
   formatWeekLabel,
-  groupProtocolsByMonth,
-  type MonthGroup,
+  getPeriodTotals,
   type Protocol,
+  type ProtocolMonthIndex,
 } from '@/lib/protocols';
 import { formatDate, isDueSoon, isOverdue } from '@/lib/utils';
 
@@ -41,8 +43,47 @@ interface ReviewAssignment {
   weekLabel: string;
 }
 
+interface AssignmentResponse {
+  assignmentId: string;
+  protocolInternalId: string;
+  recCode: string;
+  researchTitle: string;
+  monthId: string;
+  weekId: string;
+  reviewerId: string;
+  reviewerName: string;
+  formType: string;
+  dueDate: string;
+  declineReason: string | null;
+  daysWaiting: number;
+  protocolReviewerIds: string[];
+}
+
+interface AssignmentResponses {
+  declined: AssignmentResponse[];
+  unanswered: AssignmentResponse[];
+  unansweredAssignmentDays: number;
+}
+
+interface ExtensionRequest {
+  id: string;
+  assignmentId: string;
+  recCode: string;
+  researchTitle: string;
+  monthId: string;
+  weekId: string;
+  reviewerName: string;
+  formType: string;
+  currentDueDate: string;
+  requestedDueDate: string;
+  justification: string;
+  createdAt: string;
+}
+
 interface MonthActivity {
-  month: MonthGroup;
+  monthId: string;
+  monthLabel: string;
+  protocols: number;
   reviewTotal: number;
   reviewCompleted: number;
   active: number;
@@ -62,6 +103,36 @@ interface ReviewerSpeed {
   completionRate: number;
 }
 
+const SPEED_FIELDS = 'created_at,due_date,status,reviewers';
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load dashboard data.');
+  }
+
+  return result as T;
+}
+
+/** Walks the paginated protocol listing, asking only for the fields reviewer speed needs. */
+async function fetchSpeedProtocols(): Promise<Protocol[]> {
+  const protocols: Protocol[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const params = new URLSearchParams({ fields: SPEED_FIELDS, limit: '500' });
+    if (cursor) params.set('cursor', cursor);
+
+    const page: { protocols: Protocol[]; nextCursor: string | null } = await fetchJson(`/api/admin/protocols?${params.toString()}`);
+    protocols.push(...page.protocols);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return protocols;
+}
+
 function getWeekHref(monthId: string, weekId: string): string {
   return `/admin/protocols/months/${encodeURIComponent(monthId)}/weeks/${encodeURIComponent(weekId)}`;
 }
@@ -308,6 +379,115 @@ function EmptyState({ message }: { message: string }) {
   );
 }
 
+function ExtensionRequestQueue({
+  extensions,
+  onDecided,
+}: {
+  extensions: ExtensionRequest[];
+  onDecided: () => void;
+}) {
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = async (extension: ExtensionRequest, decision: 'approved' | 'rejected') => {
+    setDecidingId(extension.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/extension-requests/${encodeURIComponent(extension.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note: decision === 'rejected' ? note : undefined }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save the decision.');
+      setRejectingId(null);
+      setNote('');
+      onDecided();
+    } catch (decisionError) {
+      setError(decisionError instanceof Error ? decisionError.message : 'Failed to save the decision.');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white shadow-sm">
+      <SectionHeader title="Extension Requests" detail="Reviewers asking for a later due date." />
+      {error && <p className="border-b border-red-100 bg-red-50 px-4 py-2 text-sm text-red-700">{error}</p>}
+      <div className="divide-y divide-slate-100">
+        {extensions.map((extension) => (
+          <div key={extension.id} className="px-4 py-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <Link href={getWeekHref(extension.monthId, extension.weekId)} className="truncate text-sm font-semibold text-slate-950 hover:text-emerald-700">
+                  {extension.recCode}
+                </Link>
+                <p className="mt-1 truncate text-sm text-slate-600">{extension.reviewerName} - {extension.formType || 'Review'}</p>
+                <p className="mt-1 text-xs text-slate-500">
+                  {extension.currentDueDate ? formatDate(extension.currentDueDate) : 'No due date'} to {formatDate(extension.requestedDueDate)}
+                </p>
+                <p className="mt-1 text-xs text-slate-500">{extension.justification}</p>
+              </div>
+              {rejectingId !== extension.id && (
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    type="button"
+                    disabled={decidingId !== null}
+                    onClick={() => void decide(extension, 'approved')}
+                    className="rounded-md border border-emerald-200 bg-emerald-50 px-3 py-1.5 text-xs font-medium text-emerald-800 hover:bg-emerald-100 disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    type="button"
+                    disabled={decidingId !== null}
+                    onClick={() => {
+                      setRejectingId(extension.id);
+                      setNote('');
+                    }}
+                    className="rounded-md border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </div>
+              )}
+            </div>
+            {rejectingId === extension.id && (
+              <div className="mt-2 flex gap-2">
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(event) => setNote(event.target.value)}
+                  maxLength={1000}
+                  placeholder="Note for the reviewer (optional)"
+                  className="min-w-0 flex-1 rounded-md border border-slate-200 px-2 py-1.5 text-sm"
+                />
+                <button
+                  type="button"
+                  disabled={decidingId !== null}
+                  onClick={() => void decide(extension, 'rejected')}
+                  className="rounded-md bg-red-700 px-3 py-1.5 text-xs font-medium text-white hover:bg-red-800 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRejectingId(null)}
+                  className="rounded-md border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function MonthStatusChart({ activity }: { activity: MonthActivity[] }) {
   if (activity.length === 0) {
     return <EmptyState message="No month activity available for charting." />;
@@ -341,11 +521,11 @@ function MonthStatusChart({ activity }: { activity: MonthActivity[] }) {
           const activeWidth = Math.max(0, 100 - completedWidth - overdueWidth);
 
           return (
-            <div key={item.month.monthId} className="space-y-2">
+            <div key={item.monthId} className="space-y-2">
               <div className="flex items-center justify-between gap-3">
                 <div>
-                  <p className="text-sm font-semibold text-slate-950">{item.month.monthLabel}</p>
-                  <p className="text-xs text-slate-500">{item.month.protocols.length} protocols</p>
+                  <p className="text-sm font-semibold text-slate-950">{item.monthLabel}</p>
+                  <p className="text-xs text-slate-500">{item.protocols} protocols</p>
                 </div>
                 <p className="text-xs font-medium text-slate-500">{item.reviewTotal} reviews</p>
               </div>
@@ -384,7 +564,11 @@ function MonthStatusChart({ activity }: { activity: MonthActivity[] }) {
   );
 }
 
-function ReviewerSpeedChart({ reviewers }: { reviewers: ReviewerSpeed[] }) {
+function ReviewerSpeedChart({ reviewers, loading }: { reviewers: ReviewerSpeed[]; loading: boolean }) {
+  if (loading) {
+    return <EmptyState message="Loading reviewer speed..." />;
+  }
+
   if (reviewers.length === 0) {
     return <EmptyState message="No reviewer assignments with usable upload dates are available yet." />;
   }
@@ -483,9 +667,16 @@ function ReviewerSpeedChart({ reviewers }: { reviewers: ReviewerSpeed[] }) {
 }
 
 export default function AdminDashboard() {
-  const [protocols, setProtocols] = useState<Protocol[]>([]);
-  const [reviewerCount, setReviewerCount] = useState(0);
+  const [months, setMonths] = useState<ProtocolMonthIndex[]>([]);
+  const [overdueProtocols, setOverdueProtocols] = useState<Protocol[]>([]);
+  const [recentProtocols, setRecentProtocols] = useState<Protocol[]>([]);
+  const [speedProtocols, setSpeedProtocols] = useState<Protocol[]>([]);
+  const [reviewers, setReviewers] = useState<Array<{ id: string; name: string }>>([]);
+  const [responses, setResponses] = useState<AssignmentResponses | null>(null);
+  const [reassignTarget, setReassignTarget] = useState<AssignmentResponse | null>(null);
+  const [extensions, setExtensions] = useState<ExtensionRequest[]>([]);
   const [loading, setLoading] = useState(true);
+  const [speedLoading, setSpeedLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -494,21 +685,17 @@ export default function AdminDashboard() {
         setLoading(true);
         setError(null);
 
-        const [protocolResponse, reviewerResponse] = await Promise.all([
-          fetch('/api/admin/protocols', { cache: 'no-store' }),
-          fetch('/api/admin/reviewers', { cache: 'no-store' }),
-        ]);
-        const [protocolResult, reviewerResult] = await Promise.all([
-          protocolResponse.json(),
-          reviewerResponse.json(),
+        const [periodResult, overdueResult, recentResult, reviewerResult] = await Promise.all([
+          fetchJson<{ months: ProtocolMonthIndex[] }>('/api/admin/protocols/periods'),
+          fetchJson<{ protocols: Protocol[] }>('/api/admin/protocols/search?overdue=true&sort=dueDate&limit=25'),
+          fetchJson<{ protocols: Protocol[] }>('/api/admin/protocols/search?sort=release&limit=6'),
+          fetchJson<{ reviewers: Array<{ id: string; name: string }> }>('/api/admin/reviewers'),
         ]);
 
-        if (!protocolResponse.ok || !reviewerResponse.ok) {
-          throw new Error(protocolResult.error || reviewerResult.error || 'Failed to load dashboard data.');
-        }
-
-        setProtocols(protocolResult.protocols as Protocol[]);
-        setReviewerCount(reviewerResult.reviewers.length);
+        setMonths(periodResult.months);
+        setOverdueProtocols(overdueResult.protocols);
+        setRecentProtocols(recentResult.protocols);
+        setReviewers(reviewerResult.reviewers);
       } catch (dashboardError) {
         console.error('Error loading admin dashboard:', dashboardError);
         setError('Failed to load dashboard data. Please refresh and try again.');
@@ -517,54 +704,66 @@ export default function AdminDashboard() {
       }
     };
 
+    // Reviewer speed needs every assignment, so it loads after the summary.
+    const fetchReviewerSpeed = async () => {
+      try {
+        setSpeedLoading(true);
+        setSpeedProtocols(await fetchSpeedProtocols());
+      } catch (speedError) {
+        console.error('Error loading reviewer speed:', speedError);
+      } finally {
+        setSpeedLoading(false);
+      }
+    };
+
     fetchDashboardData();
+    fetchReviewerSpeed();
+    fetchAssignmentResponses();
+    fetchExtensionRequests();
   }, []);
 
-  const assignments = useMemo(() => getReviewAssignments(protocols), [protocols]);
-  const monthGroups = useMemo(() => groupProtocolsByMonth(protocols), [protocols]);
+  async function fetchAssignmentResponses() {
+    try {
+      setResponses(await fetchJson<AssignmentResponses>('/api/admin/assignment-responses'));
+    } catch (responseError) {
+      console.error('Error loading assignment responses:', responseError);
+    }
+  }
 
-  const activeAssignments = useMemo(
-    () => assignments.filter((assignment) => assignment.status !== 'Completed'),
-    [assignments]
-  );
-  const completedAssignments = assignments.length - activeAssignments.length;
+  async function fetchExtensionRequests() {
+    try {
+      setExtensions((await fetchJson<{ extensions: ExtensionRequest[] }>('/api/admin/extension-requests')).extensions);
+    } catch (extensionError) {
+      console.error('Error loading extension requests:', extensionError);
+    }
+  }
+
+  const totals = useMemo(() => getPeriodTotals(months.flatMap((month) => month.weeks)), [months]);
+  const completedAssignments = totals.reviews.completed;
+  const activeAssignmentCount = totals.reviews.total - totals.reviews.completed;
   const overdueAssignments = useMemo(
-    () => activeAssignments.filter((assignment) => assignment.dueDate && isOverdue(assignment.dueDate)).sort(sortByDueDate),
-    [activeAssignments]
-  );
-  const dueSoonAssignments = useMemo(
-    () => activeAssignments
-      .filter((assignment) => assignment.dueDate && isDueSoon(assignment.dueDate))
+    () => getReviewAssignments(overdueProtocols)
+      .filter((assignment) => assignment.status !== 'Completed' && assignment.dueDate && isOverdue(assignment.dueDate))
       .sort(sortByDueDate),
-    [activeAssignments]
+    [overdueProtocols]
   );
-  const completionPercent = getCompletionPercent(completedAssignments, assignments.length);
-
-  const recentProtocols = useMemo(() => (
-    [...protocols]
-      .sort((left, right) => {
-        const leftDate = new Date(left.created_at || 0).getTime();
-        const rightDate = new Date(right.created_at || 0).getTime();
-
-        return rightDate - leftDate;
-      })
-      .slice(0, 6)
-  ), [protocols]);
+  const completionPercent = getCompletionPercent(completedAssignments, totals.reviews.total);
 
   const monthActivity = useMemo<MonthActivity[]>(() => (
-    monthGroups.slice(0, 5).map((month) => {
-      const monthAssignments = assignments.filter((assignment) => assignment.monthId === month.monthId);
-      const active = monthAssignments.filter((assignment) => assignment.status !== 'Completed');
+    months.slice(0, 5).map((month) => {
+      const monthTotals = getPeriodTotals(month.weeks);
 
       return {
-        month,
-        reviewTotal: monthAssignments.length,
-        reviewCompleted: monthAssignments.length - active.length,
-        active: active.length,
-        overdue: active.filter((assignment) => assignment.dueDate && isOverdue(assignment.dueDate)).length,
+        monthId: month.monthId,
+        monthLabel: formatMonthLabel(month.monthId),
+        protocols: monthTotals.protocols,
+        reviewTotal: monthTotals.reviews.total,
+        reviewCompleted: monthTotals.reviews.completed,
+        active: monthTotals.reviews.total - monthTotals.reviews.completed,
+        overdue: monthTotals.reviews.overdue,
       };
     })
-  ), [assignments, monthGroups]);
+  ), [months]);
 
   const reviewerSpeed = useMemo<ReviewerSpeed[]>(() => {
     const reviewerMap = new Map<string, {
@@ -631,7 +830,7 @@ export default function AdminDashboard() {
       reviewerMap.set(reviewerId, current);
     };
 
-    for (const protocol of protocols) {
+    for (const protocol of speedProtocols) {
       const createdDate = getDateValue(protocol.created_at);
 
       if (!createdDate) {
@@ -704,7 +903,7 @@ export default function AdminDashboard() {
           || left.pendingCount - right.pendingCount
           || right.completedCount - left.completedCount;
       });
-  }, [protocols]);
+  }, [speedProtocols]);
 
   const currentDateLabel = useMemo(() => (
     new Date().toLocaleDateString('en-US', {
@@ -769,30 +968,30 @@ export default function AdminDashboard() {
         <section className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-4">
           <StatTile
             label="Protocols"
-            value={protocols.length}
-            hint={`${monthGroups.length} active month${monthGroups.length === 1 ? '' : 's'}`}
+            value={totals.protocols}
+            hint={`${months.length} active month${months.length === 1 ? '' : 's'}`}
             tone="neutral"
             icon={<HiOutlineClipboardDocumentList className="h-5 w-5" />}
           />
           <StatTile
             label="Review Completion"
             value={`${completionPercent}%`}
-            hint={`${completedAssignments}/${assignments.length} reviews completed`}
+            hint={`${completedAssignments}/${totals.reviews.total} reviews completed`}
             tone="success"
             icon={<HiOutlineCheckCircle className="h-5 w-5" />}
           />
           <StatTile
             label="Overdue Reviews"
-            value={overdueAssignments.length}
+            value={totals.reviews.overdue}
             hint="Reviewer assignments past due"
-            tone={overdueAssignments.length > 0 ? 'danger' : 'success'}
+            tone={totals.reviews.overdue > 0 ? 'danger' : 'success'}
             icon={<HiOutlineExclamationTriangle className="h-5 w-5" />}
           />
           <StatTile
             label="Due Soon"
-            value={dueSoonAssignments.length}
+            value={totals.reviews.dueSoon}
             hint="Assignments due within 7 days"
-            tone={dueSoonAssignments.length > 0 ? 'warning' : 'neutral'}
+            tone={totals.reviews.dueSoon > 0 ? 'warning' : 'neutral'}
             icon={<HiOutlineClock className="h-5 w-5" />}
           />
         </section>
@@ -812,12 +1011,12 @@ export default function AdminDashboard() {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-slate-500">Active Reviews</p>
-                  <p className="mt-2 text-2xl font-semibold text-slate-950">{activeAssignments.length}</p>
+                  <p className="mt-2 text-2xl font-semibold text-slate-950">{activeAssignmentCount}</p>
                   <p className="mt-3 text-sm text-slate-500">Reviews still assigned to reviewers.</p>
                 </div>
                 <div>
                   <p className="text-sm font-medium text-slate-500">Reviewers</p>
-                  <p className="mt-2 text-2xl font-semibold text-slate-950">{reviewerCount}</p>
+                  <p className="mt-2 text-2xl font-semibold text-slate-950">{reviewers.length}</p>
                   <p className="mt-3 text-sm text-slate-500">People available in reviewer management.</p>
                 </div>
               </div>
@@ -886,6 +1085,68 @@ export default function AdminDashboard() {
           </div>
         </section>
 
+        {extensions.length > 0 && (
+          <ExtensionRequestQueue extensions={extensions} onDecided={fetchExtensionRequests} />
+        )}
+
+        {responses && (responses.declined.length > 0 || responses.unanswered.length > 0) && (
+          <section className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            <div className="rounded-lg border border-slate-200 bg-white shadow-sm">
+              <SectionHeader title="Declined Reviews" detail="Reviewers who cannot take an assignment; reassign these." />
+              {responses.declined.length === 0 ? (
+                <EmptyState message="No declined reviews." />
+              ) : (
+                <div className="divide-y divide-slate-100">
+                  {responses.declined.map((response) => (
+                    <div key={response.assignmentId} className="flex items-start justify-between gap-4 px-4 py-3">
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-semibold text-slate-950">{response.recCode}</p>
+                        <p className="mt-1 truncate text-sm text-slate-600">{response.reviewerName} - {response.formType || 'Review'}</p>
+                        {response.declineReason && <p className="mt-1 text-xs text-slate-500">{response.declineReason}</p>}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setReassignTarget(response)}
+                        className="shrink-0 rounded-md border border-amber-200 bg-amber-50 px-3 py-1.5 text-xs font-medium text-amber-800 hover:bg-amber-100"
+                      >
+                        Reassign
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-lg border border-slate-200 bg-white shadow-sm">
+              <SectionHeader
+                title="Unanswered Assignments"
+                detail={`Not accepted or declined after ${responses.unansweredAssignmentDays} day${responses.unansweredAssignmentDays === 1 ? '' : 's'}.`}
+              />
+              {responses.unanswered.length === 0 ? (
+                <EmptyState message="Every assignment has been answered." />
+              ) : (
+                <div className="divide-y divide-slate-100">
+                  {responses.unanswered.map((response) => (
+                    <div key={response.assignmentId} className="flex items-start justify-between gap-4 px-4 py-3">
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-semibold text-slate-950">{response.recCode}</p>
+                        <p className="mt-1 truncate text-sm text-slate-600">{response.reviewerName}</p>
+                        <p className="mt-1 flex items-center gap-1 text-xs text-slate-500">
+                          <HiOutlineHandRaised className="h-3.5 w-3.5" />
+                          Waiting {response.daysWaiting} day{response.daysWaiting === 1 ? '' : 's'}
+                        </p>
+                      </div>
+                      <Link href={getWeekHref(response.monthId, response.weekId)} className="shrink-0 rounded-md border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50">
+                        Open
+                      </Link>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </section>
+        )}
+
         <section className="grid grid-cols-1 gap-4">
           <div className="rounded-lg border border-slate-200 bg-white shadow-sm">
             <SectionHeader title="Month Activity" detail="Recent upload months with review progress." href="/admin/protocols" action="View hierarchy" />
@@ -908,9 +1169,9 @@ export default function AdminDashboard() {
                       const percent = getCompletionPercent(activity.reviewCompleted, activity.reviewTotal);
 
                       return (
-                        <tr key={activity.month.monthId}>
-                          <td className="px-4 py-3 font-medium text-slate-950">{activity.month.monthLabel}</td>
-                          <td className="px-4 py-3 text-slate-600">{activity.month.protocols.length}</td>
+                        <tr key={activity.monthId}>
+                          <td className="px-4 py-3 font-medium text-slate-950">{activity.monthLabel}</td>
+                          <td className="px-4 py-3 text-slate-600">{activity.protocols}</td>
                           <td className="px-4 py-3">
                             <div className="flex min-w-44 items-center gap-3">
                               <div className="h-2 flex-1 rounded-full bg-slate-100">
@@ -936,7 +1197,7 @@ export default function AdminDashboard() {
 
           <div className="rounded-lg border border-slate-200 bg-white shadow-sm">
             <SectionHeader title="Review Speed" detail="Decision view of reviewer speed, pending work, and overdue reviews." href="/admin/reviewers" action="Manage" />
-            <ReviewerSpeedChart reviewers={reviewerSpeed} />
+            <ReviewerSpeedChart reviewers={reviewerSpeed} loading={speedLoading} />
           </div>
         </section>
 
@@ -973,6 +1234,33 @@ export default function AdminDashboard() {
           )}
         </section>
       </main>
+
+      {reassignTarget && (
+        <ReassignmentModal
+          isOpen
+          protocol={{
+            protocolKey: reassignTarget.protocolInternalId,
+            id: reassignTarget.recCode,
+            protocol_name: reassignTarget.researchTitle,
+            due_date: reassignTarget.dueDate,
+          }}
+          currentReviewer={{
+            assignmentId: reassignTarget.assignmentId,
+            id: reassignTarget.reviewerId,
+            name: reassignTarget.reviewerName,
+            form_type: reassignTarget.formType,
+            status: 'In Progress',
+            due_date: reassignTarget.dueDate,
+          }}
+          reviewerList={reviewers.filter((reviewer) => !reassignTarget.protocolReviewerIds.includes(reviewer.id))}
+          loading={false}
+          onCancel={() => setReassignTarget(null)}
+          onSuccess={() => {
+            setReassignTarget(null);
+            fetchAssignmentResponses();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,272 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  EMAIL_TEMPLATE_PLACEHOLDERS,
+  renderEmailTemplate,
+  SAMPLE_EMAIL_TEMPLATE_DATA,
+  unknownEmailPlaceholders,
+} from '@/lib/emailTemplates';
+
+interface EmailTemplate {
+  code: string;
+  name: string;
+  description: string | null;
+  publishedVersion: number | null;
+  draftVersion: number | null;
+}
+
+interface TemplateVersion {
+  versionId: string;
+  version: number;
+  subject: string;
+  body: string;
+  publishedAt: string | null;
+  updatedAt: string | null;
+}
+
+export default function EmailTemplateEditorPage() {
+  const params = useParams<{ code: string }>();
+  const code = decodeURIComponent(params.code);
+  const endpoint = `/api/admin/email-templates/${encodeURIComponent(code)}`;
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [template, setTemplate] = useState<EmailTemplate | null>(null);
+  const [draft, setDraft] = useState<TemplateVersion | null>(null);
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEditor = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint, { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load the email template.');
+      const nextDraft = result.draft as TemplateVersion | null;
+      const nextVersions = result.versions as TemplateVersion[];
+      setTemplate(result.template as EmailTemplate);
+      setDraft(nextDraft);
+      setVersions(nextVersions);
+      const source = nextDraft ?? nextVersions[0] ?? null;
+      setSubject(source?.subject ?? '');
+      setBody(source?.body ?? '');
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the email template.');
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void loadEditor();
+  }, [loadEditor]);
+
+  const preview = useMemo(() => renderEmailTemplate({ subject, body }, SAMPLE_EMAIL_TEMPLATE_DATA), [subject, body]);
+  const unknown = useMemo(() => unknownEmailPlaceholders(`${subject}\n${body}`), [subject, body]);
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || fallback);
+    return result;
+  };
+
+  const run = async (action: () => Promise<string>) => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDraft = async (): Promise<TemplateVersion> => {
+    const result = await request(`${endpoint}/draft`, {
+      method: 'PUT',
+      body: JSON.stringify({ subject, body }),
+    }, 'Failed to save the draft.');
+    const saved = result.draft as TemplateVersion;
+    setDraft(saved);
+    return saved;
+  };
+
+  const saveDraftOnly = () => run(async () => {
+    const saved = await saveDraft();
+    return `Draft version ${saved.version} saved. Emails keep using the published version until you publish.`;
+  });
+
+  const publish = () => {
+    if (!window.confirm('Publish this draft? Emails queued from now on will use the new wording.')) return;
+    void run(async () => {
+      await saveDraft();
+      const result = await request(`${endpoint}/publish`, { method: 'POST' }, 'Failed to publish the template.');
+      const next = result.published as TemplateVersion;
+      await loadEditor();
+      return `Version ${next.version} published.`;
+    });
+  };
+
+  const discard = () => {
+    if (!window.confirm('Discard the draft and go back to the published version?')) return;
+    void run(async () => {
+      await request(`${endpoint}/draft`, { method: 'DELETE' }, 'Failed to discard the draft.');
+      await loadEditor();
+      return 'Draft discarded.';
+    });
+  };
+
+  const insertPlaceholder = (key: string) => {
+    const token = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(`${body.slice(0, start)}${token}${body.slice(end)}`);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const restoreVersion = (version: TemplateVersion) => {
+    setSubject(version.subject);
+    setBody(version.body);
+    setNotice(`Version ${version.version} loaded into the editor. Save or publish it to use it again.`);
+  };
+
+  if (loading) return <div className="flex min-h-[24rem] items-center justify-center text-slate-600">Loading email template...</div>;
+  if (!template) {
+    return <div className="mx-auto max-w-3xl p-6"><div className="rounded-md border border-red-200 bg-red-50 p-4 text-red-700">{error || 'Email template not found.'}</div></div>;
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-6">
+      <Link href="/admin/email-templates" className="text-sm font-medium text-emerald-700">Back to email templates</Link>
+      <div>
+        <h1 className="text-2xl font-semibold text-slate-950">{template.name}</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          {template.publishedVersion ? `Version ${template.publishedVersion} is published` : 'No version is published yet'}
+          {draft ? `; you are editing draft version ${draft.version}.` : '.'}
+        </p>
+      </div>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+      {notice && <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">{notice}</div>}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <section className="space-y-4 rounded-lg border border-slate-200 bg-white p-5 shadow-sm">
+          <label className="block text-sm text-slate-600">
+            Subject
+            <input value={subject} onChange={(event) => setSubject(event.target.value)} maxLength={500} className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900" />
+          </label>
+          <label className="block text-sm text-slate-600">
+            Message
+            <textarea
+              ref={bodyRef}
+              value={body}
+              onChange={(event) => setBody(event.target.value)}
+              rows={16}
+              className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 font-mono text-sm text-slate-900"
+            />
+          </label>
+          <p className="text-xs text-slate-500">
+            Write plain text; a blank line starts a new paragraph. Add a signature or a Filipino translation as more paragraphs. Anything typed here is shown as text, never as HTML.
+          </p>
+          {unknown.length > 0 && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+              Unknown placeholder{unknown.length === 1 ? '' : 's'}: {unknown.map((key) => `{{${key}}}`).join(', ')}. Fix {unknown.length === 1 ? 'it' : 'them'} before saving.
+            </div>
+          )}
+          <div>
+            <h2 className="text-sm font-medium text-slate-900">Placeholders</h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {EMAIL_TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+                <li key={placeholder.key} className="flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => insertPlaceholder(placeholder.key)}
+                    className="rounded border border-slate-300 px-2 py-0.5 font-mono text-xs text-slate-700 hover:bg-slate-50"
+                  >
+                    {`{{${placeholder.key}}}`}
+                  </button>
+                  <span className="text-slate-500">{placeholder.description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => void saveDraftOnly()} disabled={saving} className="rounded-md border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save draft'}
+            </button>
+            <button type="button" onClick={publish} disabled={saving} className="rounded-md bg-emerald-700 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-800 disabled:opacity-50">
+              Publish as version {draft?.version ?? (template.publishedVersion ?? 0) + 1}
+            </button>
+            {draft && (
+              <button type="button" onClick={discard} disabled={saving} className="rounded-md border border-red-200 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50">
+                Discard draft
+              </button>
+            )}
+          </div>
+        </section>
+
+        <section className="space-y-3 rounded-lg border border-slate-200 bg-white p-5 shadow-sm">
+          <div>
+            <h2 className="text-sm font-medium text-slate-900">Preview with sample data</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              As {SAMPLE_EMAIL_TEMPLATE_DATA.reviewerName} would receive it for {SAMPLE_EMAIL_TEMPLATE_DATA.protocols.length} protocols.
+            </p>
+          </div>
+          <p className="text-sm text-slate-700"><span className="text-slate-500">Subject:</span> {preview.subject || '(no subject)'}</p>
+          <iframe
+            title="Email preview"
+            sandbox=""
+            srcDoc={preview.html}
+            className="h-96 w-full rounded-md border border-slate-200"
+          />
+          <details className="text-sm">
+            <summary className="cursor-pointer font-medium text-slate-700">Plain-text version</summary>
+            <pre className="mt-2 whitespace-pre-wrap rounded-md bg-slate-50 p-3 text-xs text-slate-700">{preview.text}</pre>
+          </details>
+        </section>
+      </div>
+
+      <section className="rounded-lg border border-slate-200 bg-white shadow-sm">
+        <div className="border-b border-slate-200 px-5 py-3">
+          <h2 className="text-sm font-medium text-slate-900">Published versions</h2>
+        </div>
+        {versions.length === 0 ? (
+          <p className="px-5 py-4 text-sm text-slate-500">No version has been published yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {versions.map((version) => (
+              <li key={version.versionId} className="flex flex-col gap-2 px-5 py-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-900">
+                    Version {version.version}
+                    {version.version === template.publishedVersion && <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-800">In use</span>}
+                  </p>
+                  <p className="truncate text-slate-500">
+                    {version.subject}
+                    {version.publishedAt ? ` · published ${new Date(version.publishedAt).toLocaleString()}` : ''}
+                  </p>
+                </div>
+                <button type="button" onClick={() => restoreVersion(version)} className="font-medium text-emerald-700 hover:text-emerald-900">
+                  Load into editor
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+interface EmailTemplate {
+  code: string;
+  name: string;
+  description: string | null;
+  publishedVersion: number | null;
+  publishedAt: string | null;
+  draftVersion: number | null;
+}
+
+export default function EmailTemplatesPage() {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch('/api/admin/email-templates', { cache: 'no-store' });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load email templates.');
+        setTemplates(result.templates as EmailTemplate[]);
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load email templates.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    void loadTemplates();
+  }, []);
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-slate-950">Email Templates</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          The wording of the emails reviewers receive. Edit a template as a draft, preview it with sample data, and publish it as a new version; emails already queued keep the wording they were written with.
+        </p>
+      </div>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+
+      <div className="overflow-x-auto rounded-lg border border-slate-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-50 text-left text-xs font-medium uppercase text-slate-500">
+            <tr>
+              <th className="px-4 py-3">Template</th>
+              <th className="px-4 py-3">Published</th>
+              <th className="px-4 py-3">Draft</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {loading ? (
+              <tr><td colSpan={4} className="px-4 py-6 text-center text-slate-500">Loading email templates...</td></tr>
+            ) : templates.map((template) => (
+              <tr key={template.code}>
+                <td className="px-4 py-3">
+                  <p className="font-medium text-slate-900">{template.name}</p>
+                  {template.description && <p className="text-xs text-slate-500">{template.description}</p>}
+                </td>
+                <td className="whitespace-nowrap px-4 py-3 text-slate-600">
+                  {template.publishedVersion
+                    ? `Version ${template.publishedVersion}${template.publishedAt ? `, ${new Date(template.publishedAt).toLocaleDateString()}` : ''}`
+                    : 'Not published'}
+                </td>
+                <td className="whitespace-nowrap px-4 py-3 text-slate-600">
+                  {template.draftVersion ? `Version ${template.draftVersion}` : '—'}
+                </td>
+                <td className="whitespace-nowrap px-4 py-3 text-right">
+                  <Link href={`/admin/email-templates/${encodeURIComponent(template.code)}`} className="font-medium text-emerald-700 hover:text-emerald-900">
+                    Edit
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import { REVIEW_RECOMMENDATION_LABELS, type ReviewRecommendation } from '@/lib/protocolLifecycle';
+
+interface FormType {
+  code: string;
+  name: string;
+  active: boolean;
+  publishedVersion: number | null;
+}
+
+type RowStatus =
+  | 'ready'
+  | 'already_completed'
+  | 'duplicate'
+  | 'declined'
+  | 'missing_rec_code'
+  | 'unknown_protocol'
+  | 'unknown_reviewer'
+  | 'not_assigned'
+  | 'ambiguous';
+
+interface ImportRow {
+  rowNumber: number;
+  recCode: string;
+  reviewerValue: string;
+  completedAt: string | null;
+  recommendation: ReviewRecommendation | null;
+  recommendationText: string;
+  status: RowStatus;
+  message: string;
+  assignmentId: string | null;
+  protocolInternalId: string | null;
+  researchTitle: string | null;
+  reviewerName: string | null;
+}
+
+interface ImportPreview {
+  headers: string[];
+  columns: {
+    recCode: string | null;
+    reviewer: string[];
+    completedAt: string | null;
+    recommendation: string | null;
+    comments: string | null;
+  };
+  rows: ImportRow[];
+}
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+  ready: 'Ready',
+  already_completed: 'Already completed',
+  duplicate: 'Duplicate',
+  declined: 'Declined',
+  missing_rec_code: 'No REC code',
+  unknown_protocol: 'Unknown protocol',
+  unknown_reviewer: 'Unknown reviewer',
+  not_assigned: 'Not assigned',
+  ambiguous: 'Ambiguous',
+};
+
+function statusClasses(status: RowStatus): string {
+  if (status === 'ready') return 'bg-green-100 text-green-800';
+  if (status === 'already_completed' || status === 'duplicate') return 'bg-slate-100 text-slate-700';
+  return 'bg-red-100 text-red-800';
+}
+
+export default function FormImportsPage() {
+  const [formTypes, setFormTypes] = useState<FormType[]>([]);
+  const [formType, setFormType] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [recCodeColumn, setRecCodeColumn] = useState('');
+  const [reviewerColumn, setReviewerColumn] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [working, setWorking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/admin/form-imports', { cache: 'no-store' });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load form types.');
+        const types = result.formTypes as FormType[];
+        setFormTypes(types);
+        // Forms filled in the app complete themselves, so default to one still on Microsoft Forms.
+        setFormType((current) => current || (types.find((type) => type.active && !type.publishedVersion) ?? types[0])?.code || '');
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load form types.');
+      }
+    };
+    void load();
+  }, []);
+
+  const counts = useMemo(() => {
+    const next = new Map<RowStatus, number>();
+    for (const row of preview?.rows ?? []) next.set(row.status, (next.get(row.status) ?? 0) + 1);
+    return next;
+  }, [preview]);
+
+  const uploadBody = (extra: Record<string, string> = {}) => {
+    const body = new FormData();
+    if (file) body.append('file', file);
+    body.append('formType', formType);
+    if (recCodeColumn) body.append('recCodeColumn', recCodeColumn);
+    if (reviewerColumn) body.append('reviewerColumn', reviewerColumn);
+    for (const [key, value] of Object.entries(extra)) body.append(key, value);
+    return body;
+  };
+
+  const applyPreview = (next: ImportPreview) => {
+    setPreview(next);
+    setSelected(new Set(next.rows.filter((row) => row.status === 'ready').map((row) => row.rowNumber)));
+  };
+
+  const runPreview = async () => {
+    if (!file || !formType) return;
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/admin/form-imports/preview', { method: 'POST', body: uploadBody() });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'The export could not be read.');
+      applyPreview(result as ImportPreview);
+    } catch (previewError) {
+      setPreview(null);
+      setError(previewError instanceof Error ? previewError.message : 'The export could not be read.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!file || selected.size === 0) return;
+    if (!window.confirm(`Mark ${selected.size} review${selected.size === 1 ? '' : 's'} as completed?`)) return;
+    setWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/admin/form-imports', {
+        method: 'POST',
+        body: uploadBody({ rowNumbers: JSON.stringify([...selected]) }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to import the responses.');
+      const completed = (result.completed as ImportRow[]).length;
+      applyPreview(result as ImportPreview);
+      setNotice(`Marked ${completed} review${completed === 1 ? '' : 's'} as completed.`);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'Failed to import the responses.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-slate-950">Form Imports</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          Upload a Microsoft Forms response export to mark the matching reviews as completed. Rows are matched by REC code and by the reviewer&apos;s code, email, name or a known alias. Nothing changes until you confirm the preview.
+        </p>
+      </div>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+      {notice && <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">{notice}</div>}
+
+      <section className="grid gap-4 rounded-lg border border-slate-200 bg-white p-5 shadow-sm sm:grid-cols-[auto_1fr_auto] sm:items-end">
+        <label className="text-sm text-slate-600">
+          Form type
+          <select
+            value={formType}
+            onChange={(event) => {
+              setFormType(event.target.value);
+              setPreview(null);
+            }}
+            className="mt-1 block w-full rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-900"
+          >
+            {formTypes.map((type) => (
+              <option key={type.code} value={type.code}>{type.code} · {type.name}{type.active ? '' : ' (retired)'}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-slate-600">
+          Response export (.csv or .xlsx)
+          <input
+            type="file"
+            accept=".csv,.txt,.xlsx,.xls"
+            onChange={(event) => {
+              setFile(event.target.files?.[0] ?? null);
+              setRecCodeColumn('');
+              setReviewerColumn('');
+              setPreview(null);
+            }}
+            className="mt-1 block w-full text-sm text-slate-700"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => void runPreview()}
+          disabled={!file || !formType || working}
+          className="rounded-md border border-emerald-700 px-4 py-2 text-sm font-medium text-emerald-800 hover:bg-emerald-50 disabled:opacity-50"
+        >
+          {working && !preview ? 'Reading...' : 'Preview'}
+        </button>
+      </section>
+
+      {preview && (
+        <>
+          <section className="grid gap-4 rounded-lg border border-slate-200 bg-white p-5 text-sm shadow-sm sm:grid-cols-2 lg:grid-cols-4">
+            <label className="text-slate-600">
+              REC code column
+              <select
+                value={recCodeColumn || preview.columns.recCode || ''}
+                onChange={(event) => setRecCodeColumn(event.target.value)}
+                className="mt-1 block w-full rounded-md border border-slate-300 px-2 py-2 text-slate-900"
+              >
+                {preview.headers.map((header, index) => <option key={index} value={header}>{header}</option>)}
+              </select>
+            </label>
+            <label className="text-slate-600">
+              Reviewer column
+              <select
+                value={reviewerColumn}
+                onChange={(event) => setReviewerColumn(event.target.value)}
+                className="mt-1 block w-full rounded-md border border-slate-300 px-2 py-2 text-slate-900"
+              >
+                <option value="">Detected: {preview.columns.reviewer.join(', ')}</option>
+                {preview.headers.map((header, index) => <option key={index} value={header}>{header}</option>)}
+              </select>
+            </label>
+            <div className="text-slate-600">
+              <p>Completion time: <span className="text-slate-900">{preview.columns.completedAt ?? 'not found, uses the import time'}</span></p>
+              <p>Recommendation: <span className="text-slate-900">{preview.columns.recommendation ?? 'not found'}</span></p>
+              <p>Comments: <span className="text-slate-900">{preview.columns.comments ?? 'not found'}</span></p>
+            </div>
+            <div className="flex items-end">
+              <button
+                type="button"
+                onClick={() => void runPreview()}
+                disabled={working}
+                className="rounded-md border border-slate-300 px-4 py-2 font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              >
+                Match again
+              </button>
+            </div>
+          </section>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {[...counts].map(([status, count]) => (
+              <span key={status} className={`rounded-full px-3 py-1 font-medium ${statusClasses(status)}`}>
+                {STATUS_LABELS[status]}: {count}
+              </span>
+            ))}
+            <button
+              type="button"
+              onClick={() => void runImport()}
+              disabled={selected.size === 0 || working}
+              className="ml-auto rounded-md bg-emerald-700 px-4 py-2 font-medium text-white hover:bg-emerald-800 disabled:opacity-50"
+            >
+              {working ? 'Working...' : `Complete ${selected.size} review${selected.size === 1 ? '' : 's'}`}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border border-slate-200 bg-white shadow-sm">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-medium uppercase text-slate-500">
+                <tr>
+                  <th className="px-4 py-3" />
+                  <th className="px-4 py-3">Row</th>
+                  <th className="px-4 py-3">REC code</th>
+                  <th className="px-4 py-3">Reviewer</th>
+                  <th className="px-4 py-3">Submitted</th>
+                  <th className="px-4 py-3">Recommendation</th>
+                  <th className="px-4 py-3">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {preview.rows.map((row) => (
+                  <tr key={row.rowNumber} className={row.status === 'ready' ? '' : 'text-slate-500'}>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(row.rowNumber)}
+                        disabled={row.status !== 'ready'}
+                        onChange={() => toggleRow(row.rowNumber)}
+                        aria-label={`Import row ${row.rowNumber}`}
+                      />
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs">{row.rowNumber}</td>
+                    <td className="px-4 py-3">
+                      {row.protocolInternalId ? (
+                        <Link href={`/admin/protocols/${encodeURIComponent(row.protocolInternalId)}/summary`} className="font-medium text-emerald-700 hover:text-emerald-900">
+                          {row.recCode}
+                        </Link>
+                      ) : row.recCode || '—'}
+                      {row.researchTitle && <p className="max-w-xs truncate text-xs text-slate-500">{row.researchTitle}</p>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="text-slate-900">{row.reviewerName ?? row.reviewerValue}</p>
+                      {row.reviewerName && row.reviewerValue && <p className="text-xs text-slate-500">{row.reviewerValue}</p>}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3">{row.completedAt ? new Date(row.completedAt).toLocaleString() : '—'}</td>
+                    <td className="px-4 py-3">
+                      {row.recommendation ? REVIEW_RECOMMENDATION_LABELS[row.recommendation] : row.recommendationText || '—'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`rounded-full px-2 py-1 text-xs font-medium ${statusClasses(row.status)}`}>
+                        {STATUS_LABELS[row.status]}
+                      </span>
+                      <p className="mt-1 text-xs text-slate-500">{row.message}</p>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,54 @@
 import { ReactNode } from 'react';
+import Link from 'next/link';
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
 import AdminNav from './AdminNav';
+import { getCurrentAdmin } from '@/lib/adminAuth';
+import { getAdminHomePath, getAdminPagePermission, hasAdminPermission } from '@/lib/adminPermissions';
+import { ADMIN_LOGIN_PATH, ADMIN_PATHNAME_HEADER } from '@/lib/sessionToken';
 
-export default function AdminLayout({
+export default async function AdminLayout({
   children,
 }: {
   children: ReactNode;
 }) {
+  const pathname = (await headers()).get(ADMIN_PATHNAME_HEADER) || '/admin/dashboard';
+
+  if (pathname === ADMIN_LOGIN_PATH) {
+    return <div className="min-h-screen bg-gray-100">{children}</div>;
+  }
+
+  const admin = await getCurrentAdmin();
+  if (!admin) {
+    redirect(`${ADMIN_LOGIN_PATH}?next=${encodeURIComponent(pathname)}`);
+  }
+
+  const homePath = getAdminHomePath(admin.role);
+  const permission = getAdminPagePermission(pathname);
+  const allowed = !permission || hasAdminPermission(admin.role, permission);
+
+  // /admin and the dashboard are the default landing pages, so send roles
+  // that cannot use them to their own first page instead of an error.
+  if (pathname === '/admin' || (!allowed && pathname === '/admin/dashboard')) {
+    redirect(homePath);
+  }
+
   return (
     <div className="min-h-screen bg-gray-100">
-      <AdminNav />
-      <main>{children}</main>
+      <AdminNav adminName={admin.name} role={admin.role} />
+      <main>
+        {allowed ? children : (
+          <div className="mx-auto max-w-3xl p-6">
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-5 text-amber-800">
+              <p className="font-semibold">You do not have access to this page</p>
+              <p className="mt-1 text-sm">Your admin role does not include this part of e-REC.</p>
+              <Link href={homePath} className="mt-4 inline-flex font-medium text-amber-900 underline">
+                Go to your start page
+              </Link>
+            </div>
+          </div>
+        )}
+      </main>
     </div>
   );
-} 
\ No newline at end of file
+}
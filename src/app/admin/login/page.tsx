@@ -0,0 +1,123 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { COLORS, STYLES } from '@/lib/colors';
+
+function safeNextPath(value: string | null): string {
+  if (!value || !value.startsWith('/admin') || value.startsWith('/admin/login')) {
+    return '/admin/dashboard';
+  }
+
+  return value;
+}
+
+function AdminLoginForm() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const handleLogin = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!email.trim() || !password) {
+      setError('Please enter your email and password');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), password }),
+      });
+      const result = await response.json() as { error?: string };
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Unable to sign in. Please try again.');
+      }
+
+      router.replace(safeNextPath(searchParams.get('next')));
+      router.refresh();
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : 'An error occurred during login. Please try again.');
+      setPassword('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleLogin} className="space-y-4">
+      {error && <div className="rounded bg-red-100 p-3 text-sm text-red-800">{error}</div>}
+
+      <div>
+        <label htmlFor="admin-email" className="mb-1 block text-sm font-medium text-gray-700">
+          Email
+        </label>
+        <input
+          id="admin-email"
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-green-600 focus:outline-none focus:ring-1 focus:ring-green-600"
+          autoComplete="username"
+          disabled={loading}
+        />
+      </div>
+      <div>
+        <label htmlFor="admin-password" className="mb-1 block text-sm font-medium text-gray-700">
+          Password
+        </label>
+        <input
+          id="admin-password"
+          type="password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-green-600 focus:outline-none focus:ring-1 focus:ring-green-600"
+          autoComplete="current-password"
+          disabled={loading}
+        />
+      </div>
+      <button
+        type="submit"
+        style={STYLES.brandGreenButton}
+        className="w-full rounded-md px-4 py-2 font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
+        disabled={loading}
+      >
+        {loading ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
+
+export default function AdminLoginPage() {
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-b from-green-50 to-emerald-100">
+      <header style={{ backgroundColor: COLORS.brand.green[800] }} className="p-4 text-white">
+        <div className="container mx-auto">
+          <h1 className="text-2xl font-bold">e-REC Ethics Review System</h1>
+        </div>
+      </header>
+
+      <main className="flex flex-grow items-center justify-center p-4">
+        <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-lg">
+          <div className="mb-6 text-center">
+            <h1 style={STYLES.brandGreenText} className="text-2xl font-bold">e-REC Admin</h1>
+            <p className="mt-2 text-gray-600">Sign in to manage protocols and reviewers</p>
+          </div>
+
+          <Suspense fallback={null}>
+            <AdminLoginForm />
+          </Suspense>
+        </div>
+      </main>
+    </div>
+  );
+}
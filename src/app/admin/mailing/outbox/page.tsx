@@ -0,0 +1,255 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { formatMonthLabel, formatWeekLabel, type ProtocolMonthIndex } from '@/lib/protocols';
+
+type NotificationType = 'assignment' | 'reminder';
+
+interface PreviewMessage {
+  reviewerId: string;
+  reviewerName: string;
+  email: string;
+  protocolCount: number;
+  subject: string;
+  html: string;
+  text: string;
+  skipReason: string | null;
+}
+
+interface Preview {
+  notificationType: NotificationType;
+  periodLabel: string;
+  templateVersion: number;
+  protocolCount: number;
+  messages: PreviewMessage[];
+}
+
+interface CapturedMail {
+  messageId: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  capturedAt: string;
+}
+
+function MessageBody({ html, text }: { html: string; text: string }) {
+  return (
+    <div className="space-y-2">
+      <iframe title="Email preview" sandbox="" srcDoc={html} className="h-80 w-full rounded-md border border-slate-200 bg-white" />
+      <details className="text-sm">
+        <summary className="cursor-pointer font-medium text-slate-700">Plain-text version</summary>
+        <pre className="mt-2 whitespace-pre-wrap rounded-md bg-slate-50 p-3 text-xs text-slate-700">{text}</pre>
+      </details>
+    </div>
+  );
+}
+
+export default function MailOutboxPage() {
+  const [months, setMonths] = useState<ProtocolMonthIndex[]>([]);
+  const [monthId, setMonthId] = useState('');
+  const [weekId, setWeekId] = useState('');
+  const [notificationType, setNotificationType] = useState<NotificationType>('assignment');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [openReviewer, setOpenReviewer] = useState<string | null>(null);
+  const [mode, setMode] = useState<string | null>(null);
+  const [captured, setCaptured] = useState<CapturedMail[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOutbox = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/mail-outbox', { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load the mail outbox.');
+      setMode(result.mode as string);
+      setCaptured(result.messages as CapturedMail[]);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the mail outbox.');
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadPeriods = async () => {
+      try {
+        const response = await fetch('/api/admin/protocols/periods');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load protocol periods.');
+        const fetched = result.months as ProtocolMonthIndex[];
+        setMonths(fetched);
+        setMonthId((current) => current || fetched[0]?.monthId || '');
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load protocol periods.');
+      }
+    };
+    void loadPeriods();
+    void loadOutbox();
+  }, [loadOutbox]);
+
+  const weeks = months.find((month) => month.monthId === monthId)?.weeks ?? [];
+
+  const runPreview = async () => {
+    if (!monthId) return;
+    setLoading(true);
+    setError(null);
+    setOpenReviewer(null);
+    try {
+      const response = await fetch('/api/admin/review-notifications/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scope: weekId ? 'week' : 'month',
+          monthDocumentId: monthId,
+          weekId: weekId || undefined,
+          notificationType,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to preview reviewer emails.');
+      setPreview(result as Preview);
+    } catch (previewError) {
+      setPreview(null);
+      setError(previewError instanceof Error ? previewError.message : 'Failed to preview reviewer emails.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearCaptured = async () => {
+    const response = await fetch('/api/admin/mail-outbox', { method: 'DELETE' });
+    if (response.ok) setCaptured([]);
+  };
+
+  const queuedCount = preview?.messages.filter((message) => !message.skipReason).length ?? 0;
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-6">
+      <Link href="/admin/mailing" className="text-sm font-medium text-emerald-700">Back to mailing</Link>
+      <div>
+        <h1 className="text-2xl font-semibold text-slate-950">Outbox Preview</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          See exactly what each reviewer would receive for a month or week before sending. Previewing does not queue or record anything.
+        </p>
+      </div>
+
+      {mode && mode !== 'smtp' && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+          This server uses the <span className="font-mono">{mode}</span> mailer, so emails that are sent are {mode === 'file' ? 'written to files' : mode === 'log' ? 'printed to the server log' : 'kept in memory below'} instead of reaching reviewers.
+        </div>
+      )}
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+
+      <section className="grid gap-4 rounded-lg border border-slate-200 bg-white p-5 shadow-sm sm:grid-cols-[1fr_1fr_1fr_auto] sm:items-end">
+        <label className="text-sm text-slate-600">
+          Month
+          <select
+            value={monthId}
+            onChange={(event) => { setMonthId(event.target.value); setWeekId(''); }}
+            className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900"
+          >
+            {months.map((month) => <option key={month.monthId} value={month.monthId}>{formatMonthLabel(month.monthId)}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-slate-600">
+          Week
+          <select value={weekId} onChange={(event) => setWeekId(event.target.value)} className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900">
+            <option value="">Whole month</option>
+            {weeks.map((week) => <option key={week.weekId} value={week.weekId}>{formatWeekLabel(week.weekId)}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-slate-600">
+          Email
+          <select
+            value={notificationType}
+            onChange={(event) => setNotificationType(event.target.value as NotificationType)}
+            className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900"
+          >
+            <option value="assignment">Assignment notice</option>
+            <option value="reminder">Reminder</option>
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => void runPreview()}
+          disabled={loading || !monthId}
+          className="rounded-md bg-emerald-700 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-800 disabled:opacity-50"
+        >
+          {loading ? 'Rendering...' : 'Preview'}
+        </button>
+      </section>
+
+      {preview && (
+        <section className="rounded-lg border border-slate-200 bg-white shadow-sm">
+          <div className="border-b border-slate-200 px-4 py-3">
+            <h2 className="text-base font-semibold text-slate-950">{preview.periodLabel}</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              {queuedCount} email{queuedCount === 1 ? '' : 's'} would be queued and {preview.messages.length - queuedCount} skipped, covering {preview.protocolCount} protocol{preview.protocolCount === 1 ? '' : 's'}. Written from template version {preview.templateVersion}.
+            </p>
+          </div>
+          {preview.messages.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-slate-500">No reviewer would be emailed for this selection.</div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {preview.messages.map((message) => (
+                <li key={message.reviewerId} className="px-4 py-3">
+                  <button
+                    type="button"
+                    onClick={() => setOpenReviewer((current) => current === message.reviewerId ? null : message.reviewerId)}
+                    className="flex w-full flex-col gap-1 text-left sm:flex-row sm:items-center sm:justify-between"
+                  >
+                    <span className="min-w-0">
+                      <span className="block truncate font-medium text-slate-950">{message.reviewerName}</span>
+                      <span className="block truncate text-xs text-slate-500">{message.email || 'No email address'} · {message.subject}</span>
+                    </span>
+                    <span className={`w-fit rounded-full border px-2 py-0.5 text-xs font-medium ${
+                      message.skipReason ? 'border-slate-200 bg-slate-50 text-slate-700' : 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                    }`}>
+                      {message.skipReason ? 'Skipped' : `${message.protocolCount} protocol${message.protocolCount === 1 ? '' : 's'}`}
+                    </span>
+                  </button>
+                  {message.skipReason && <p className="mt-1 text-xs text-slate-600">{message.skipReason}</p>}
+                  {openReviewer === message.reviewerId && (
+                    <div className="mt-3"><MessageBody html={message.html} text={message.text} /></div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      {mode === 'memory' && (
+        <section className="rounded-lg border border-slate-200 bg-white shadow-sm">
+          <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+            <div>
+              <h2 className="text-base font-semibold text-slate-950">Captured Emails</h2>
+              <p className="mt-1 text-sm text-slate-500">Messages the memory mailer has kept since this server started, newest first.</p>
+            </div>
+            <div className="flex gap-2 text-sm">
+              <button type="button" onClick={() => void loadOutbox()} className="rounded-md border border-slate-300 px-3 py-1.5 font-medium text-slate-700 hover:bg-slate-50">Refresh</button>
+              <button type="button" onClick={() => void clearCaptured()} className="rounded-md border border-red-200 px-3 py-1.5 font-medium text-red-700 hover:bg-red-50">Clear</button>
+            </div>
+          </div>
+          {captured.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-slate-500">No emails captured yet.</div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {captured.map((mail) => (
+                <li key={mail.messageId} className="px-4 py-3">
+                  <details>
+                    <summary className="cursor-pointer">
+                      <span className="font-medium text-slate-950">{mail.subject}</span>
+                      <span className="ml-2 text-xs text-slate-500">{mail.to} · {new Date(mail.capturedAt).toLocaleString()}</span>
+                    </summary>
+                    <div className="mt-3"><MessageBody html={mail.html} text={mail.text} /></div>
+                  </details>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -36,6 +36,7 @@ interface MailLog {
   maxAttempts: number;
   reason?: string;
   lastError?: string;
+  nextAttemptAt?: unknown;
   createdAt: unknown;
   updatedAt: unknown;
 }
@@ -204,12 +205,20 @@ export default function MailingPage() {
             Live status for reviewer notification batches and individual email attempts.
           </p>
         </div>
-        <Link
-          href="/admin/protocols"
-          className="inline-flex w-fit items-center rounded-md bg-emerald-700 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-800"
-        >
-          Send reviewer emails
-        </Link>
+        <div className="flex flex-wrap gap-2">
+          <Link
+            href="/admin/mailing/outbox"
+            className="inline-flex w-fit items-center rounded-md border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Preview outbox
+          </Link>
+          <Link
+            href="/admin/protocols"
+            className="inline-flex w-fit items-center rounded-md bg-emerald-700 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-800"
+          >
+            Send reviewer emails
+          </Link>
+        </div>
       </div>
 
       {error && (
@@ -335,7 +344,12 @@ export default function MailingPage() {
                       </span>
                     </td>
                     <td className="px-4 py-3 text-slate-600">{log.protocolCount}</td>
-                    <td className="px-4 py-3 text-slate-600">{log.attempts}/{log.maxAttempts || 3}</td>
+                    <td className="px-4 py-3 text-slate-600">
+                      {log.attempts}/{log.maxAttempts || 3}
+                      {log.status === 'pending' && log.attempts > 0 && Boolean(log.nextAttemptAt) && (
+                        <p className="text-xs text-amber-700">Retry {formatDateTime(log.nextAttemptAt)}</p>
+                      )}
+                    </td>
                     <td className="px-4 py-3 text-slate-600">{formatDateTime(log.updatedAt || log.createdAt)}</td>
                   </tr>
                 ))}
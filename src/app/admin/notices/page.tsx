@@ -43,6 +43,7 @@ export default function AdminNoticesPage() {
   const [priority, setPriority] = useState<'none' | 'low' | 'medium' | 'high'>('none');
   const [expiryDate, setExpiryDate] = useState('');
   const [noExpiry, setNoExpiry] = useState(false);
+  const [emailReviewers, setEmailReviewers] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showForm, setShowForm] = useState(false);
   const [editMode, setEditMode] = useState(false);
@@ -140,13 +141,22 @@ export default function AdminNoticesPage() {
             content,
             priority,
             expiresAt: noExpiry ? null : expiryDate,
+            ...(editMode ? {} : { emailReviewers }),
           }),
         }
       );
       const responsePayload = await response.json();
       if (!response.ok) throw new Error(responsePayload.error || 'Failed to save notice');
 
-      setSuccess(editMode ? 'Notice updated successfully!' : 'Notice created successfully!');
+      if (editMode) {
+        setSuccess('Notice updated successfully!');
+      } else if (responsePayload.emailError) {
+        setSuccess(`Notice created. ${responsePayload.emailError}`);
+      } else if (responsePayload.email) {
+        setSuccess(`Notice created and emailed to ${responsePayload.email.queued} reviewer(s).`);
+      } else {
+        setSuccess('Notice created successfully!');
+      }
       
       // Reset form and state
       resetForm();
@@ -196,6 +206,7 @@ export default function AdminNoticesPage() {
     setContent('');
     setPriority('none');
     setNoExpiry(false);
+    setEmailReviewers(false);
     
     // Set default expiry date to 30 days from now
     const defaultExpiry = new Date();
@@ -449,6 +460,21 @@ export default function AdminNoticesPage() {
                 </div>
               </div>
             </div>
+
+            {!editMode && (
+              <div className="flex items-center mt-4">
+                <input
+                  type="checkbox"
+                  id="emailReviewers"
+                  checked={emailReviewers}
+                  onChange={(e) => setEmailReviewers(e.target.checked)}
+                  className="h-4 w-4 text-brand-green border-gray-300 rounded focus:ring-brand-green"
+                />
+                <label htmlFor="emailReviewers" className="ml-2 block text-sm text-gray-700">
+                  Email this notice to active reviewers (reviewers who turned off notice emails are skipped)
+                </label>
+              </div>
+            )}
             
             <div className="flex items-center justify-end space-x-4 border-t border-gray-200 pt-4 mt-6">
               <button
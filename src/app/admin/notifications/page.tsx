@@ -9,14 +9,44 @@ interface NotificationSettings {
   frequency: 'daily' | 'weekly' | 'twice-weekly';
   sendToReviewers: boolean;
   dueSoonThreshold: number;  // Days before due date to send notification
+  unansweredAssignmentDays: number;  // Days before an unanswered assignment is flagged
+  escalationEnabled: boolean;
+  overdueFirstNudgeDays: number;     // Days overdue before the first reviewer nudge
+  overdueSecondNudgeDays: number;    // Days overdue before the second reviewer nudge
+  chairEscalationDays: number;       // Days overdue before the chair digest lists a review
+  chairEscalationEmail: string;      // Chair digest recipient; blank sends it to chair accounts
   lastRun?: string;          // ISO date string of last notification run
 }
 
+interface AdminDigestSettings {
+  enabled: boolean;
+  sendWeekday: number;       // 0 is Sunday, Manila time
+  recipients: string;        // One address per line while editing
+  lastSentAt?: string;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function normalizeDigestSettings(data: Record<string, unknown>): AdminDigestSettings {
+  const weekday = Number(data.sendWeekday);
+  return {
+    enabled: data.enabled === true,
+    sendWeekday: Number.isInteger(weekday) && weekday >= 0 && weekday <= 6 ? weekday : 1,
+    recipients: Array.isArray(data.recipients) ? data.recipients.map(String).join('\n') : '',
+    lastSentAt: typeof data.lastSentAt === 'string' ? data.lastSentAt : undefined,
+  };
+}
+
 function normalizeNotificationSettings(data: Record<string, unknown>): NotificationSettings {
   const frequency = data.frequency === 'weekly' || data.frequency === 'twice-weekly'
     ? data.frequency
     : 'daily';
   const threshold = Number(data.dueSoonThreshold);
+  const unansweredDays = Number(data.unansweredAssignmentDays);
+  const dayCount = (value: unknown, fallback: number) => {
+    const days = Number(value);
+    return Number.isInteger(days) ? Math.min(60, Math.max(1, days)) : fallback;
+  };
   let lastRun: string | undefined;
 
   if (typeof data.lastRun === 'string') {
@@ -34,6 +64,12 @@ function normalizeNotificationSettings(data: Record<string, unknown>): Notificat
     frequency,
     sendToReviewers: data.sendToReviewers !== false,
     dueSoonThreshold: Number.isInteger(threshold) ? Math.min(14, Math.max(1, threshold)) : 3,
+    unansweredAssignmentDays: Number.isInteger(unansweredDays) ? Math.min(14, Math.max(1, unansweredDays)) : 3,
+    escalationEnabled: data.escalationEnabled === true,
+    overdueFirstNudgeDays: dayCount(data.overdueFirstNudgeDays, 1),
+    overdueSecondNudgeDays: dayCount(data.overdueSecondNudgeDays, 3),
+    chairEscalationDays: dayCount(data.chairEscalationDays, 5),
+    chairEscalationEmail: typeof data.chairEscalationEmail === 'string' ? data.chairEscalationEmail : '',
     lastRun,
   };
 }
@@ -43,11 +79,24 @@ export default function NotificationsSettingsPage() {
     enabled: false,
     frequency: 'daily',
     sendToReviewers: true,
-    dueSoonThreshold: 3
+    dueSoonThreshold: 3,
+    unansweredAssignmentDays: 3,
+    escalationEnabled: false,
+    overdueFirstNudgeDays: 1,
+    overdueSecondNudgeDays: 3,
+    chairEscalationDays: 5,
+    chairEscalationEmail: ''
   });
   
+  const [digest, setDigest] = useState<AdminDigestSettings>({
+    enabled: false,
+    sendWeekday: 1,
+    recipients: ''
+  });
+
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [savingDigest, setSavingDigest] = useState(false);
   const [notification, setNotification] = useState<{
     isOpen: boolean;
     type: 'success' | 'error' | 'info' | 'warning';
@@ -74,10 +123,16 @@ export default function NotificationsSettingsPage() {
       try {
         setLoading(true);
         
-        const response = await fetch('/api/admin/notification-settings');
+        const [response, digestResponse] = await Promise.all([
+          fetch('/api/admin/notification-settings'),
+          fetch('/api/admin/admin-digest-settings'),
+        ]);
         const payload = await response.json();
         if (!response.ok) throw new Error(payload.error || 'Failed to load settings');
         setSettings(normalizeNotificationSettings(payload.settings));
+        const digestPayload = await digestResponse.json();
+        if (!digestResponse.ok) throw new Error(digestPayload.error || 'Failed to load settings');
+        setDigest(normalizeDigestSettings(digestPayload.settings));
       } catch (error) {
         console.error('Error fetching notification settings:', error);
         showNotification('error', 'Error', 'Failed to load notification settings');
@@ -105,12 +160,38 @@ export default function NotificationsSettingsPage() {
       showNotification('success', 'Settings Saved', 'Notification settings have been saved successfully');
     } catch (error) {
       console.error('Error saving notification settings:', error);
-      showNotification('error', 'Error', 'Failed to save notification settings');
+      showNotification('error', 'Error', error instanceof Error ? error.message : 'Failed to save notification settings');
     } finally {
       setSaving(false);
     }
   };
 
+  const handleSaveDigest = async () => {
+    try {
+      setSavingDigest(true);
+
+      const response = await fetch('/api/admin/admin-digest-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled: digest.enabled,
+          sendWeekday: digest.sendWeekday,
+          recipients: digest.recipients.split(/[\s,;]+/).filter(Boolean),
+        }),
+      });
+      const payload = await response.json();
+      if (!response.ok) throw new Error(payload.error || 'Failed to save digest settings');
+      setDigest(normalizeDigestSettings(payload.settings));
+
+      showNotification('success', 'Settings Saved', 'Admin digest settings have been saved successfully');
+    } catch (error) {
+      console.error('Error saving admin digest settings:', error);
+      showNotification('error', 'Error', error instanceof Error ? error.message : 'Failed to save admin digest settings');
+    } finally {
+      setSavingDigest(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -235,8 +316,94 @@ export default function NotificationsSettingsPage() {
                 Days before the due date to send upcoming deadline notifications.
               </p>
             </div>
+
+            <div className="mt-4">
+              <label htmlFor="unanswered-assignment-days" className="block text-sm font-medium text-gray-700">
+                Unanswered Assignment Flag (days)
+              </label>
+              <input
+                type="number"
+                id="unanswered-assignment-days"
+                min="1"
+                max="14"
+                value={settings.unansweredAssignmentDays}
+                onChange={(e) => setSettings({ ...settings, unansweredAssignmentDays: parseInt(e.target.value) || 3 })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Assignments a reviewer has neither accepted nor declined after this many days are flagged on the dashboard.
+              </p>
+            </div>
           </div>
           
+          {/* Overdue Escalations */}
+          <div className="border-t border-gray-200 pt-6">
+            <div className="flex items-start">
+              <div className="flex h-6 items-center">
+                <input
+                  id="escalation-enabled"
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600"
+                  checked={settings.escalationEnabled}
+                  onChange={(e) => setSettings({ ...settings, escalationEnabled: e.target.checked })}
+                />
+              </div>
+              <div className="ml-3 text-sm leading-6">
+                <label htmlFor="escalation-enabled" className="font-medium text-gray-900">
+                  Escalate Overdue Reviews
+                </label>
+                <p className="text-gray-500">
+                  Checked every day, whatever the reminder frequency. Reviewers get two nudges after the due date, then the REC chair gets a digest of overdue reviews grouped by reviewer. Nudges are sent only while automatic reminders and Send to Reviewers are both on.
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-4 grid max-w-2xl grid-cols-1 gap-4 sm:grid-cols-3">
+              {([
+                ['overdue-first-nudge-days', 'First Nudge', 'overdueFirstNudgeDays', 1],
+                ['overdue-second-nudge-days', 'Second Nudge', 'overdueSecondNudgeDays', 3],
+                ['chair-escalation-days', 'Chair Digest', 'chairEscalationDays', 5],
+              ] as const).map(([id, label, key, fallback]) => (
+                <div key={id}>
+                  <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+                    {label} (days overdue)
+                  </label>
+                  <input
+                    type="number"
+                    id={id}
+                    min="1"
+                    max="60"
+                    value={settings[key]}
+                    onChange={(e) => setSettings({ ...settings, [key]: parseInt(e.target.value) || fallback })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    disabled={!settings.escalationEnabled}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-sm text-gray-500">
+              Each step must come after the one before it. A review whose due date is extended starts over from the first nudge.
+            </p>
+
+            <div className="mt-4 max-w-md">
+              <label htmlFor="chair-escalation-email" className="block text-sm font-medium text-gray-700">
+                Chair Digest Recipient
+              </label>
+              <input
+                type="email"
+                id="chair-escalation-email"
+                value={settings.chairEscalationEmail}
+                onChange={(e) => setSettings({ ...settings, chairEscalationEmail: e.target.value })}
+                placeholder="All chair accounts"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                disabled={!settings.escalationEnabled}
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                The chair digest goes to this address. Leave it blank to send it to every active admin account with the chair role (permission to decide protocols).
+              </p>
+            </div>
+          </div>
+
           {/* Last Run Information */}
           {settings.lastRun && (
             <div className="mt-2 p-3 bg-gray-50 rounded-md border border-gray-200">
@@ -271,6 +438,86 @@ export default function NotificationsSettingsPage() {
         </div>
       </div>
 
+      <div className="bg-white rounded-lg shadow p-6 mb-8">
+        <h2 className="text-xl font-semibold mb-4">Weekly Admin Digest</h2>
+
+        <div className="space-y-6">
+          <div className="flex items-start">
+            <div className="flex h-6 items-center">
+              <input
+                id="digest-enabled"
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600"
+                checked={digest.enabled}
+                onChange={(e) => setDigest({ ...digest, enabled: e.target.checked })}
+              />
+            </div>
+            <div className="ml-3 text-sm leading-6">
+              <label htmlFor="digest-enabled" className="font-medium text-gray-900">
+                Send a Weekly Progress Digest
+              </label>
+              <p className="text-gray-500">
+                At 8:00 AM Manila time on the chosen day, the listed addresses get the dashboard totals, protocols completed since the last digest, reviews due in the coming week, overdue reviews per reviewer, and mail batches with failed deliveries.
+              </p>
+            </div>
+          </div>
+
+          <div className="max-w-md">
+            <label htmlFor="digest-weekday" className="block text-sm font-medium text-gray-700">
+              Send On
+            </label>
+            <select
+              id="digest-weekday"
+              value={digest.sendWeekday}
+              onChange={(e) => setDigest({ ...digest, sendWeekday: Number(e.target.value) })}
+              className="mt-1 block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-blue-500 focus:outline-none focus:ring-blue-500 sm:text-sm"
+              disabled={!digest.enabled}
+            >
+              {WEEKDAYS.map((day, index) => (
+                <option key={day} value={index}>{day}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="max-w-md">
+            <label htmlFor="digest-recipients" className="block text-sm font-medium text-gray-700">
+              Recipients
+            </label>
+            <textarea
+              id="digest-recipients"
+              rows={4}
+              value={digest.recipients}
+              onChange={(e) => setDigest({ ...digest, recipients: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              placeholder="chair@example.edu"
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              One email address per line. Addresses do not need an admin account.
+            </p>
+          </div>
+
+          {digest.lastSentAt && (
+            <div className="mt-2 p-3 bg-gray-50 rounded-md border border-gray-200">
+              <p className="text-sm text-gray-600">
+                <span className="font-medium">Last digest:</span>{' '}
+                {new Date(digest.lastSentAt).toLocaleString()}
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleSaveDigest}
+              className="inline-flex items-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              disabled={savingDigest}
+            >
+              {savingDigest ? 'Saving...' : 'Save Digest Settings'}
+            </button>
+          </div>
+        </div>
+      </div>
+
     </div>
   );
 }
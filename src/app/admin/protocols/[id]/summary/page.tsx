@@ -0,0 +1,414 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { type FormEvent, useCallback, useEffect, useState } from 'react';
+import { hasAdminPermission } from '@/lib/adminPermissions';
+import {
+  getProtocolDecisionOptions,
+  PROTOCOL_LIFECYCLE_LABELS,
+  REVIEW_RECOMMENDATION_LABELS,
+  REVIEW_RECOMMENDATIONS,
+  type ProtocolLifecycleStatus,
+  type ReviewRecommendation,
+} from '@/lib/protocolLifecycle';
+
+interface ReviewSummaryEntry {
+  assignmentId: string;
+  reviewerName: string;
+  formType: string;
+  formName: string;
+  status: string;
+  completedAt: string | null;
+  recommendation: ReviewRecommendation | null;
+  recommendationLabel: string | null;
+  comments: string | null;
+  source: 'form' | 'admin' | 'import' | null;
+  recommendedAt: string | null;
+  hasReviewForm: boolean;
+  answers: Array<{ prompt: string; answerType: 'yes_no_na' | 'text'; answer: string }>;
+}
+
+interface ReviewSummary {
+  protocol: {
+    internalId: string;
+    id: string;
+    spup_rec_code: string;
+    research_title: string;
+    principal_investigator: string;
+    round: number;
+    decision: ProtocolLifecycleStatus;
+    monthId: string;
+    weekId: string;
+  };
+  reviews: ReviewSummaryEntry[];
+  allComplete: boolean;
+  disagreement: boolean;
+  suggestedDecision: ProtocolLifecycleStatus | null;
+}
+
+interface ProtocolDecision {
+  id: string;
+  round: number | null;
+  to: ProtocolLifecycleStatus;
+  note: string;
+  decidedBy: string;
+  decidedAt: string | null;
+}
+
+const RECOMMENDATION_BADGE_CLASSES: Record<ReviewRecommendation, string> = {
+  approve: 'bg-green-100 text-green-800',
+  minor_revisions: 'bg-yellow-100 text-yellow-800',
+  major_revisions: 'bg-orange-100 text-orange-800',
+  disapprove: 'bg-red-100 text-red-800',
+  exempt: 'bg-teal-100 text-teal-800',
+  full_review: 'bg-blue-100 text-blue-800',
+};
+
+const YES_NO_LABELS: Record<string, string> = { yes: 'Yes', no: 'No', na: 'Not applicable' };
+
+/** The recommendation most reviewers gave, or null when no single one leads. */
+function leadingRecommendation(reviews: ReviewSummaryEntry[]): ReviewRecommendation | null {
+  const counts = new Map<ReviewRecommendation, number>();
+  for (const review of reviews) {
+    if (review.recommendation) counts.set(review.recommendation, (counts.get(review.recommendation) ?? 0) + 1);
+  }
+  const ranked = [...counts].sort((a, b) => b[1] - a[1]);
+  return ranked[0] && ranked[0][1] !== ranked[1]?.[1] ? ranked[0][0] : null;
+}
+
+export default function ProtocolReviewSummaryPage() {
+  const params = useParams<{ id: string }>();
+  const protocolId = decodeURIComponent(params.id);
+  const endpoint = `/api/admin/protocols/${encodeURIComponent(protocolId)}`;
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [decisions, setDecisions] = useState<ProtocolDecision[]>([]);
+  const [canDecide, setCanDecide] = useState(false);
+  const [canManage, setCanManage] = useState(false);
+  const [entries, setEntries] = useState<Record<string, { recommendation: ReviewRecommendation | ''; comments: string }>>({});
+  const [decisionStatus, setDecisionStatus] = useState<ProtocolLifecycleStatus | ''>('');
+  const [decisionNote, setDecisionNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applySummary = useCallback((next: ReviewSummary) => {
+    setSummary(next);
+    setEntries(Object.fromEntries(next.reviews.map((review) => [
+      review.assignmentId,
+      { recommendation: review.recommendation ?? '', comments: review.comments ?? '' },
+    ])));
+    const options = getProtocolDecisionOptions(next.protocol.decision);
+    setDecisionStatus(next.suggestedDecision && options.includes(next.suggestedDecision)
+      ? next.suggestedDecision
+      : options[0] ?? '');
+  }, []);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const [summaryResponse, sessionResponse] = await Promise.all([
+        fetch(`${endpoint}/review-summary`, { cache: 'no-store' }),
+        fetch('/api/admin/session', { cache: 'no-store' }),
+      ]);
+      const result = await summaryResponse.json();
+      if (!summaryResponse.ok) throw new Error(result.error || 'Failed to load the review summary.');
+      applySummary(result.summary as ReviewSummary);
+      setDecisions(result.decisions as ProtocolDecision[]);
+      const session = await sessionResponse.json();
+      if (sessionResponse.ok) {
+        setCanDecide(hasAdminPermission(session.admin.role, 'protocols:decide'));
+        setCanManage(hasAdminPermission(session.admin.role, 'protocols:manage'));
+      }
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the review summary.');
+    } finally {
+      setLoading(false);
+    }
+  }, [applySummary, endpoint]);
+
+  useEffect(() => {
+    void loadSummary();
+  }, [loadSummary]);
+
+  const saveRecommendation = async (review: ReviewSummaryEntry) => {
+    const entry = entries[review.assignmentId];
+    if (!entry?.recommendation) return;
+    setSaving(review.assignmentId);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`${endpoint}/assignments/${encodeURIComponent(review.assignmentId)}/recommendation`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(entry),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to record the recommendation.');
+      applySummary(result.summary as ReviewSummary);
+      setNotice(`Recommendation recorded for ${review.reviewerName}.`);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to record the recommendation.');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDecisionSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!summary || !decisionStatus) return;
+    if (summary.disagreement && !window.confirm('Reviewers disagree on this protocol. Record the committee decision anyway?')) return;
+    setSaving('decision');
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`${endpoint}/decisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: decisionStatus, note: decisionNote }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to record the decision.');
+      setDecisionNote('');
+      await loadSummary();
+      setNotice(`Protocol marked ${PROTOCOL_LIFECYCLE_LABELS[decisionStatus]}.`);
+    } catch (decisionError) {
+      setError(decisionError instanceof Error ? decisionError.message : 'Failed to record the decision.');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (loading) return <div className="flex min-h-[24rem] items-center justify-center text-slate-600">Loading review summary...</div>;
+  if (!summary) {
+    return <div className="mx-auto max-w-3xl p-6"><div className="rounded-md border border-red-200 bg-red-50 p-4 text-red-700">{error || 'Protocol not found.'}</div></div>;
+  }
+
+  const { protocol, reviews } = summary;
+  const completed = reviews.filter((review) => review.status === 'Completed');
+  const awaitingRecommendation = completed.filter((review) => !review.recommendation);
+  const leading = summary.disagreement ? leadingRecommendation(reviews) : null;
+  const decisionOptions = getProtocolDecisionOptions(protocol.decision);
+  const weekHref = `/admin/protocols/months/${encodeURIComponent(protocol.monthId)}/weeks/${encodeURIComponent(protocol.weekId)}`;
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 p-6">
+      <Link href={weekHref} className="text-sm font-medium text-emerald-700">Back to the week&apos;s protocols</Link>
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          <h1 className="text-2xl font-semibold text-slate-950">{protocol.spup_rec_code || protocol.id}</h1>
+          <span className="rounded-full bg-slate-100 px-2 py-1 text-xs font-medium text-slate-700">
+            {PROTOCOL_LIFECYCLE_LABELS[protocol.decision]}
+          </span>
+          {protocol.round > 1 && <span className="text-sm text-slate-500">Round {protocol.round}</span>}
+        </div>
+        <p className="mt-1 text-slate-700">{protocol.research_title}</p>
+        {protocol.principal_investigator && <p className="text-sm text-slate-500">{protocol.principal_investigator}</p>}
+      </div>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+      {notice && <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">{notice}</div>}
+
+      {!summary.allComplete ? (
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+          {completed.length} of {reviews.length} reviews are complete. The summary fills in as reviewers finish.
+        </div>
+      ) : summary.disagreement ? (
+        <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-900">
+          <p className="font-medium">Reviewers disagree.</p>
+          <p className="mt-1">
+            {reviews
+              .filter((review) => review.recommendation)
+              .map((review) => `${review.reviewerName}: ${REVIEW_RECOMMENDATION_LABELS[review.recommendation as ReviewRecommendation]}`)
+              .join('; ')}
+          </p>
+        </div>
+      ) : summary.suggestedDecision ? (
+        <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-900">
+          All reviewers agree; their recommendations point to {PROTOCOL_LIFECYCLE_LABELS[summary.suggestedDecision]}.
+        </div>
+      ) : null}
+      {awaitingRecommendation.length > 0 && (
+        <div className="rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-900">
+          {awaitingRecommendation.length === 1 ? 'One completed review has' : `${awaitingRecommendation.length} completed reviews have`} no
+          recommendation recorded yet. Enter it below from the reviewer&apos;s returned form.
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {reviews.map((review) => {
+          const entry = entries[review.assignmentId] ?? { recommendation: '', comments: '' };
+          const canEnter = canManage && review.status === 'Completed' && review.source !== 'form';
+          const differs = leading !== null && review.recommendation !== null && review.recommendation !== leading;
+          return (
+            <section
+              key={review.assignmentId}
+              className={`space-y-3 rounded-lg border bg-white p-5 shadow-sm ${differs ? 'border-red-300 ring-1 ring-red-200' : 'border-slate-200'}`}
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-lg font-semibold text-slate-900">{review.reviewerName}</h2>
+                  <p className="text-sm text-slate-500">
+                    {review.formName || 'No form'}
+                    {review.completedAt ? ` · completed ${new Date(review.completedAt).toLocaleDateString()}` : ` · ${review.status}`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  {review.recommendation ? (
+                    <span className={`rounded-full px-3 py-1 text-sm font-medium ${RECOMMENDATION_BADGE_CLASSES[review.recommendation]}`}>
+                      {REVIEW_RECOMMENDATION_LABELS[review.recommendation]}
+                    </span>
+                  ) : (
+                    <span className="rounded-full bg-slate-100 px-3 py-1 text-sm text-slate-600">
+                      {review.status === 'Completed' ? 'No recommendation' : 'Review in progress'}
+                    </span>
+                  )}
+                  {differs && <p className="mt-2 text-xs font-medium text-red-700">Differs from the other reviewers</p>}
+                  {review.source === 'admin' && <p className="mt-2 text-xs text-slate-500">Entered by an admin</p>}
+                  {review.source === 'import' && <p className="mt-2 text-xs text-slate-500">Imported from Microsoft Forms</p>}
+                </div>
+              </div>
+
+              {review.recommendationLabel && (
+                <p className="text-sm text-slate-600">Chose &ldquo;{review.recommendationLabel}&rdquo; on the review form.</p>
+              )}
+              {review.comments && (
+                <div>
+                  <h3 className="text-sm font-medium text-slate-900">Comments</h3>
+                  <p className="mt-1 whitespace-pre-wrap text-sm text-slate-700">{review.comments}</p>
+                </div>
+              )}
+
+              {review.answers.length > 0 && (
+                <details className="text-sm">
+                  <summary className="cursor-pointer font-medium text-emerald-700">Form answers ({review.answers.length})</summary>
+                  <ol className="mt-3 list-decimal space-y-2 pl-5 text-slate-700">
+                    {review.answers.map((answer, index) => (
+                      <li key={index}>
+                        <p className="text-slate-900">{answer.prompt}</p>
+                        <p className="whitespace-pre-wrap text-slate-600">
+                          {answer.answerType === 'yes_no_na' ? YES_NO_LABELS[answer.answer] ?? answer.answer : answer.answer}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                </details>
+              )}
+
+              {canEnter && (
+                <div className="grid gap-3 border-t border-slate-100 pt-3 sm:grid-cols-[auto_1fr_auto] sm:items-end">
+                  <label className="text-sm text-slate-600">
+                    Recommendation
+                    <select
+                      value={entry.recommendation}
+                      onChange={(event) => setEntries((current) => ({
+                        ...current,
+                        [review.assignmentId]: { ...entry, recommendation: event.target.value as ReviewRecommendation | '' },
+                      }))}
+                      className="mt-1 block w-full rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-900"
+                    >
+                      <option value="">Choose</option>
+                      {REVIEW_RECOMMENDATIONS.map((value) => (
+                        <option key={value} value={value}>{REVIEW_RECOMMENDATION_LABELS[value]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-sm text-slate-600">
+                    Reviewer comments
+                    <textarea
+                      value={entry.comments}
+                      onChange={(event) => setEntries((current) => ({
+                        ...current,
+                        [review.assignmentId]: { ...entry, comments: event.target.value },
+                      }))}
+                      maxLength={4000}
+                      rows={2}
+                      className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900"
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => void saveRecommendation(review)}
+                    disabled={!entry.recommendation || saving !== null}
+                    className="rounded-md border border-emerald-700 px-4 py-2 text-sm font-medium text-emerald-800 hover:bg-emerald-50 disabled:opacity-50"
+                  >
+                    {saving === review.assignmentId ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              )}
+            </section>
+          );
+        })}
+        {reviews.length === 0 && (
+          <p className="rounded-lg border border-slate-200 bg-white p-5 text-sm text-slate-500">No reviewers are assigned in this round.</p>
+        )}
+      </div>
+
+      <section className="space-y-4 rounded-lg border border-slate-200 bg-white p-5 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Committee decision</h2>
+        {decisionOptions.length === 0 ? (
+          <p className="text-sm text-slate-600">This protocol is {PROTOCOL_LIFECYCLE_LABELS[protocol.decision]}; no further decision can be recorded.</p>
+        ) : !canDecide ? (
+          <p className="text-sm text-slate-600">Only the chair can record the committee decision.</p>
+        ) : (
+          <form onSubmit={handleDecisionSubmit} className="space-y-3">
+            {!summary.allComplete && (
+              <p className="text-sm text-amber-800">Not every review is in yet.</p>
+            )}
+            <label className="block text-sm text-slate-600">
+              Decision
+              <select
+                value={decisionStatus}
+                onChange={(event) => setDecisionStatus(event.target.value as ProtocolLifecycleStatus)}
+                className="mt-1 block w-full rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-900 sm:w-auto"
+              >
+                {decisionOptions.map((status) => (
+                  <option key={status} value={status}>
+                    {PROTOCOL_LIFECYCLE_LABELS[status]}{status === summary.suggestedDecision ? ' (recommended)' : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm text-slate-600">
+              Note (optional)
+              <textarea
+                value={decisionNote}
+                onChange={(event) => setDecisionNote(event.target.value)}
+                maxLength={2000}
+                rows={3}
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={!decisionStatus || saving !== null}
+              className="rounded-md bg-emerald-700 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-800 disabled:opacity-50"
+            >
+              {saving === 'decision' ? 'Saving...' : 'Record Decision'}
+            </button>
+          </form>
+        )}
+
+        {decisions.length > 0 && (
+          <div className="border-t border-slate-100 pt-4">
+            <h3 className="text-sm font-medium text-slate-900">History</h3>
+            <ul className="mt-2 space-y-2 text-sm text-slate-700">
+              {decisions.map((decision) => (
+                <li key={decision.id}>
+                  <span className="font-medium">{PROTOCOL_LIFECYCLE_LABELS[decision.to]}</span>
+                  {decision.round !== null && <span className="text-slate-500"> · round {decision.round}</span>}
+                  <span className="text-slate-500">
+                    {' '}· {decision.decidedBy || 'Unknown'}
+                    {decision.decidedAt ? `, ${new Date(decision.decidedAt).toLocaleString()}` : ''}
+                  </span>
+                  {decision.note && <p className="whitespace-pre-wrap text-slate-600">{decision.note}</p>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,30 +1,48 @@
 'use client';
 
 import Link from 'next/link';
-import { useParams } from 'next/navigation';
+import { useParams, useRouter } from 'next/navigation';
 import { type FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
 import ProtocolTable from '@/components/ProtocolTable';
 import ProtocolDetailsModal from '@/components/ProtocolDetailsModal';
 import ProtocolStatusCard from '@/components/ProtocolStatusCard';
 import ReassignmentModal from '@/components/ReassignmentModal';
+import { hasAdminPermission } from '@/lib/adminPermissions';
 import {
+  getProtocolDecisionOptions,
+  PROTOCOL_LIFECYCLE_LABELS,
+  PROTOCOL_LIFECYCLE_STATUSES,
+  type ProtocolLifecycleStatus,
+} from '@/lib/protocolLifecycle';
+import {
+  FORM_TYPE_OPTIONS,
   formatMonthLabel,
   formatWeekLabel,
+  getMonthIdFromInput,
+  getProtocolDecisionCounts,
   getProtocolStatusCounts,
   getReviewerTotals,
   sortProtocols,
+  WEEK_IDS,
   type Protocol,
   type Reviewer,
 } from '@/lib/protocols';
 
 interface SendSummary {
-  sent: unknown[];
+  queued: unknown[];
   skipped: unknown[];
-  failed: unknown[];
 }
 
 type ProtocolFormMode = 'create' | 'edit';
 
+interface RoundFormState {
+  month: string;
+  weekId: string;
+  dueDate: string;
+  documentLink: string;
+  carryOverReviewers: boolean;
+}
+
 interface ReviewerFormRow {
   id: string;
   name: string;
@@ -40,15 +58,57 @@ interface ProtocolFormState {
   principal_investigator: string;
   adviser: string;
   course_program: string;
+  nature_of_study: string;
+  type_of_study: string;
+  expertise_tags: string[];
   e_link: string;
   due_date: string;
   status: string;
   reviewers: ReviewerFormRow[];
 }
 
-const FORM_TYPE_OPTIONS = ['PRA1', 'PRA2', 'ICA', 'IACUC', 'IACUC2', 'CREF1', 'CREF2'];
+interface ReviewerSuggestion {
+  id: string;
+  name: string;
+  openLoad: number;
+  turnaroundDays: number | null;
+  programReviews: number;
+  matchedTags: string[];
+}
+
+interface ReviewerSuggestionSet {
+  formType: string;
+  proposal: ReviewerSuggestion | null;
+  alternatives: ReviewerSuggestion[];
+}
+
+interface AssignmentConflict {
+  reviewerId: string;
+  reviewerName: string;
+  reason: string;
+  blocking: boolean;
+}
+
+type AssignmentWarning = Omit<AssignmentConflict, 'blocking'>;
+
+function formatAssignmentWarnings(warnings: AssignmentWarning[]): string {
+  return warnings.map((warning) => `${warning.reviewerName} ${warning.reason}`).join(' ');
+}
+
 const STATUS_OPTIONS = ['In Progress', 'Completed'];
 
+function describeSuggestion(suggestion: ReviewerSuggestion): string {
+  const turnaround = suggestion.turnaroundDays === null ? 'no recent reviews' : `${suggestion.turnaroundDays}d avg`;
+  const expertise = suggestion.matchedTags.length > 0 ? `, knows ${suggestion.matchedTags.join(', ')}` : '';
+  return `${suggestion.name} - ${suggestion.openLoad} open, ${turnaround}, ${suggestion.programReviews} from this program${expertise}`;
+}
+
+function describeReviewerOption(reviewer: Reviewer): string {
+  return reviewer.expertise && reviewer.expertise.length > 0
+    ? `${reviewer.name} (${reviewer.expertise.join(', ')})`
+    : reviewer.name;
+}
+
 function getDefaultDueDate(): string {
   const date = new Date();
   date.setDate(date.getDate() + 14);
@@ -63,6 +123,9 @@ function getEmptyProtocolForm(dueDate = getDefaultDueDate()): ProtocolFormState
     principal_investigator: '',
     adviser: '',
     course_program: '',
+    nature_of_study: '',
+    type_of_study: '',
+    expertise_tags: [],
     e_link: '',
     due_date: dueDate,
     status: 'In Progress',
@@ -83,23 +146,20 @@ function createReviewerFormRow(dueDate: string): ReviewerFormRow {
 function formatNotificationSummary(summary: SendSummary): string {
   const parts = [];
 
-  if (summary.sent.length > 0) {
-    parts.push(`sent ${summary.sent.length} reviewer email${summary.sent.length === 1 ? '' : 's'}`);
+  if (summary.queued.length > 0) {
+    parts.push(`queued ${summary.queued.length} reviewer email${summary.queued.length === 1 ? '' : 's'}`);
   }
 
   if (summary.skipped.length > 0) {
     parts.push(`skipped ${summary.skipped.length} reviewer${summary.skipped.length === 1 ? '' : 's'} without email`);
   }
 
-  if (summary.failed.length > 0) {
-    parts.push(`${summary.failed.length} email${summary.failed.length === 1 ? '' : 's'} failed`);
-  }
-
-  return parts.length > 0 ? parts.join(', ') : 'no reviewer emails were sent';
+  return parts.length > 0 ? parts.join(', ') : 'no reviewer emails were queued';
 }
 
 export default function ProtocolWeekPage() {
   const params = useParams<{ monthId: string; weekId: string }>();
+  const router = useRouter();
   const monthId = decodeURIComponent(params.monthId);
   const weekId = decodeURIComponent(params.weekId);
   const monthLabel = formatMonthLabel(monthId);
@@ -107,6 +167,8 @@ export default function ProtocolWeekPage() {
 
   const [protocols, setProtocols] = useState<Protocol[]>([]);
   const [reviewerList, setReviewerList] = useState<Reviewer[]>([]);
+  const [expertiseTags, setExpertiseTags] = useState<string[]>([]);
+  const [reviewerTagFilter, setReviewerTagFilter] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -126,8 +188,26 @@ export default function ProtocolWeekPage() {
   const [protocolForm, setProtocolForm] = useState<ProtocolFormState>(() => getEmptyProtocolForm());
   const [formSubmitting, setFormSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
+  const [formConflicts, setFormConflicts] = useState<AssignmentConflict[]>([]);
+  const [conflictsAcknowledgeable, setConflictsAcknowledgeable] = useState(false);
+  const [acknowledgeConflicts, setAcknowledgeConflicts] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<Protocol | null>(null);
   const [deleteSubmitting, setDeleteSubmitting] = useState(false);
+  const [canDecide, setCanDecide] = useState(false);
+  const [decisionTarget, setDecisionTarget] = useState<Protocol | null>(null);
+  const [decisionStatus, setDecisionStatus] = useState<ProtocolLifecycleStatus | ''>('');
+  const [decisionNote, setDecisionNote] = useState('');
+  const [decisionSubmitting, setDecisionSubmitting] = useState(false);
+  const [decisionError, setDecisionError] = useState<string | null>(null);
+  const [roundTarget, setRoundTarget] = useState<Protocol | null>(null);
+  const [roundForm, setRoundForm] = useState<RoundFormState | null>(null);
+  const [roundSubmitting, setRoundSubmitting] = useState(false);
+  const [roundError, setRoundError] = useState<string | null>(null);
+  const [suggestionFormTypes, setSuggestionFormTypes] = useState<string[]>([FORM_TYPE_OPTIONS[0]]);
+  const [suggestions, setSuggestions] = useState<ReviewerSuggestionSet[] | null>(null);
+  const [suggestionChoices, setSuggestionChoices] = useState<Record<string, string>>({});
+  const [suggesting, setSuggesting] = useState(false);
+  const [suggestionError, setSuggestionError] = useState<string | null>(null);
 
   const fetchWeekProtocols = useCallback(async () => {
     try {
@@ -164,10 +244,34 @@ export default function ProtocolWeekPage() {
     }
   }, []);
 
+  const fetchExpertiseTags = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/expertise-tags', { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load expertise tags.');
+      setExpertiseTags((result.tags as Array<{ name: string }>).map((tag) => tag.name));
+    } catch (tagError) {
+      console.error('Error fetching expertise tags:', tagError);
+    }
+  }, []);
+
+  const fetchDecisionAccess = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/session', { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load admin session.');
+      setCanDecide(hasAdminPermission(result.admin.role, 'protocols:decide'));
+    } catch (sessionError) {
+      console.error('Error checking decision access:', sessionError);
+    }
+  }, []);
+
   useEffect(() => {
     fetchWeekProtocols();
     fetchReviewers();
-  }, [fetchReviewers, fetchWeekProtocols]);
+    fetchExpertiseTags();
+    fetchDecisionAccess();
+  }, [fetchDecisionAccess, fetchExpertiseTags, fetchReviewers, fetchWeekProtocols]);
 
   const filteredProtocols = useMemo(() => {
     const normalizedSearch = searchTerm.trim().toLowerCase();
@@ -197,6 +301,12 @@ export default function ProtocolWeekPage() {
 
   const statusCounts = useMemo(() => getProtocolStatusCounts(filteredProtocols), [filteredProtocols]);
   const reviewerTotals = useMemo(() => getReviewerTotals(filteredProtocols), [filteredProtocols]);
+  const decisionBreakdown = useMemo(() => {
+    const counts = getProtocolDecisionCounts(filteredProtocols);
+    return PROTOCOL_LIFECYCLE_STATUSES
+      .filter((status) => counts[status])
+      .map((status) => ({ label: PROTOCOL_LIFECYCLE_LABELS[status], count: counts[status] ?? 0 }));
+  }, [filteredProtocols]);
 
   const handleViewProtocol = (protocol: Protocol) => {
     setSelectedProtocol(protocol);
@@ -208,11 +318,135 @@ export default function ProtocolWeekPage() {
     setReassignModalOpen(true);
   };
 
+  const openDecision = (protocol: Protocol) => {
+    setDecisionTarget(protocol);
+    setDecisionStatus(protocol.decision ? getProtocolDecisionOptions(protocol.decision)[0] ?? '' : '');
+    setDecisionNote('');
+    setDecisionError(null);
+  };
+
+  const openSummary = (protocol: Protocol) => {
+    const internalId = protocol.protocolKey || protocol.internalId;
+    if (internalId) router.push(`/admin/protocols/${encodeURIComponent(internalId)}/summary`);
+  };
+
+  const closeDecision = () => {
+    if (decisionSubmitting) {
+      return;
+    }
+
+    setDecisionTarget(null);
+  };
+
+  const handleDecisionSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const internalId = decisionTarget?.protocolKey || decisionTarget?.internalId;
+    if (!decisionTarget || !internalId || !decisionStatus) {
+      return;
+    }
+
+    setDecisionSubmitting(true);
+    setDecisionError(null);
+
+    try {
+      const response = await fetch(`/api/admin/protocols/${encodeURIComponent(internalId)}/decisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: decisionStatus, note: decisionNote }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to record the decision.');
+      await fetchWeekProtocols();
+
+      setNotice({
+        type: 'success',
+        message: `${decisionTarget.spup_rec_code || decisionTarget.id} marked ${PROTOCOL_LIFECYCLE_LABELS[decisionStatus]}.`,
+      });
+      setDecisionTarget(null);
+    } catch (decisionSubmitError) {
+      console.error('Failed to record protocol decision:', decisionSubmitError);
+      setDecisionError(decisionSubmitError instanceof Error ? decisionSubmitError.message : 'Failed to record the decision.');
+    } finally {
+      setDecisionSubmitting(false);
+    }
+  };
+
+  const openStartRound = (protocol: Protocol) => {
+    setRoundTarget(protocol);
+    setRoundForm({
+      month: new Date().toISOString().slice(0, 7),
+      weekId: WEEK_IDS[0],
+      dueDate: getDefaultDueDate(),
+      documentLink: '',
+      carryOverReviewers: true,
+    });
+    setRoundError(null);
+  };
+
+  const closeStartRound = () => {
+    if (roundSubmitting) {
+      return;
+    }
+
+    setRoundTarget(null);
+  };
+
+  const handleStartRoundSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const internalId = roundTarget?.protocolKey || roundTarget?.internalId;
+    const targetMonthId = roundForm ? getMonthIdFromInput(roundForm.month) : '';
+    if (!roundTarget || !roundForm || !internalId) {
+      return;
+    }
+    if (!targetMonthId) {
+      setRoundError('Choose the month the resubmission was received.');
+      return;
+    }
+
+    setRoundSubmitting(true);
+    setRoundError(null);
+
+    try {
+      const response = await fetch(`/api/admin/protocols/${encodeURIComponent(internalId)}/rounds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          monthId: targetMonthId,
+          weekId: roundForm.weekId,
+          dueDate: roundForm.dueDate,
+          documentLink: roundForm.documentLink,
+          carryOverReviewers: roundForm.carryOverReviewers,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to start the next review round.');
+      await fetchWeekProtocols();
+
+      setNotice({
+        type: 'success',
+        message: `${roundTarget.spup_rec_code || roundTarget.id} moved to round ${result.protocol?.round ?? ''} in ${formatMonthLabel(targetMonthId)} ${formatWeekLabel(roundForm.weekId)}.`,
+      });
+      setRoundTarget(null);
+    } catch (roundSubmitError) {
+      console.error('Failed to start protocol review round:', roundSubmitError);
+      setRoundError(roundSubmitError instanceof Error ? roundSubmitError.message : 'Failed to start the next review round.');
+    } finally {
+      setRoundSubmitting(false);
+    }
+  };
+
   const openCreateProtocol = () => {
     setProtocolFormMode('create');
     setEditingProtocol(null);
     setProtocolForm(getEmptyProtocolForm());
+    setReviewerTagFilter('');
     setFormError(null);
+    setFormConflicts([]);
+    setAcknowledgeConflicts(false);
+    setSuggestions(null);
+    setSuggestionError(null);
     setProtocolFormOpen(true);
   };
 
@@ -225,6 +459,9 @@ export default function ProtocolWeekPage() {
       principal_investigator: protocol.principal_investigator || '',
       adviser: protocol.adviser || '',
       course_program: protocol.course_program || protocol.academic_level || '',
+      nature_of_study: protocol.nature_of_study || '',
+      type_of_study: protocol.type_of_study || '',
+      expertise_tags: protocol.expertise_tags || [],
       e_link: protocol.e_link || protocol.protocol_file || '',
       due_date: protocol.due_date || getDefaultDueDate(),
       status: protocol.status || 'In Progress',
@@ -237,7 +474,12 @@ export default function ProtocolWeekPage() {
         completed_at: reviewer.completed_at,
       })),
     });
+    setReviewerTagFilter('');
     setFormError(null);
+    setFormConflicts([]);
+    setAcknowledgeConflicts(false);
+    setSuggestions(null);
+    setSuggestionError(null);
     setProtocolFormOpen(true);
   };
 
@@ -303,6 +545,78 @@ export default function ProtocolWeekPage() {
     }));
   };
 
+  const toggleProtocolTag = (tag: string) => {
+    setProtocolForm((currentForm) => ({
+      ...currentForm,
+      expertise_tags: currentForm.expertise_tags.includes(tag)
+        ? currentForm.expertise_tags.filter((item) => item !== tag)
+        : [...currentForm.expertise_tags, tag],
+    }));
+  };
+
+  const toggleSuggestionFormType = (formType: string) => {
+    setSuggestionFormTypes((current) => current.includes(formType)
+      ? current.filter((item) => item !== formType)
+      : FORM_TYPE_OPTIONS.filter((item) => item === formType || current.includes(item)));
+  };
+
+  const fetchSuggestions = async () => {
+    setSuggesting(true);
+    setSuggestionError(null);
+
+    try {
+      const response = await fetch('/api/admin/reviewers/suggestions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          formTypes: suggestionFormTypes,
+          courseProgram: protocolForm.course_program.trim(),
+          adviser: protocolForm.adviser.trim(),
+          principalInvestigator: protocolForm.principal_investigator.trim(),
+          expertiseTags: protocolForm.expertise_tags,
+          protocolId: editingProtocol?.protocolKey || editingProtocol?.internalId,
+          excludeReviewerIds: protocolForm.reviewers.map((reviewer) => reviewer.id).filter(Boolean),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to suggest reviewers.');
+
+      const nextSuggestions = result.suggestions as ReviewerSuggestionSet[];
+      setSuggestions(nextSuggestions);
+      setSuggestionChoices(Object.fromEntries(
+        nextSuggestions.map((set) => [set.formType, set.proposal?.id ?? ''])
+      ));
+    } catch (suggestError) {
+      console.error('Failed to suggest reviewers:', suggestError);
+      setSuggestionError(suggestError instanceof Error ? suggestError.message : 'Failed to suggest reviewers.');
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const acceptSuggestions = () => {
+    if (!suggestions) {
+      return;
+    }
+
+    setProtocolForm((currentForm) => {
+      const dueDate = currentForm.due_date || getDefaultDueDate();
+      const accepted = suggestions.flatMap((set) => {
+        const choice = [set.proposal, ...set.alternatives].find((candidate) => candidate?.id === suggestionChoices[set.formType]);
+        return choice ? [{ ...createReviewerFormRow(dueDate), id: choice.id, name: choice.name, form_type: set.formType }] : [];
+      });
+
+      return {
+        ...currentForm,
+        reviewers: [
+          ...currentForm.reviewers.filter((reviewer) => reviewer.id || reviewer.name),
+          ...accepted,
+        ],
+      };
+    });
+    setSuggestions(null);
+  };
+
   const buildProtocolPayload = () => {
     const spupRecCode = protocolForm.spup_rec_code.trim();
     const researchTitle = protocolForm.research_title.trim();
@@ -336,6 +650,10 @@ export default function ProtocolWeekPage() {
       adviser: protocolForm.adviser.trim(),
       course_program: protocolForm.course_program.trim(),
       academic_level: protocolForm.course_program.trim(),
+      nature_of_study: protocolForm.nature_of_study.trim(),
+      type_of_study: protocolForm.type_of_study.trim(),
+      // Left out when empty so the server can tag from the study fields.
+      expertise_tags: protocolForm.expertise_tags.length > 0 ? protocolForm.expertise_tags : undefined,
       e_link: protocolForm.e_link.trim(),
       protocol_file: protocolForm.e_link.trim(),
       due_date: dueDate,
@@ -394,16 +712,24 @@ export default function ProtocolWeekPage() {
       const response = await fetch(endpoint, {
         method: protocolFormMode === 'edit' ? 'PATCH' : 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ monthId, weekId, protocol: buildProtocolPayload() }),
+        body: JSON.stringify({ monthId, weekId, protocol: buildProtocolPayload(), acknowledgeConflicts }),
       });
       const result = await response.json();
+      if (response.status === 409 && Array.isArray(result.conflicts)) {
+        setFormConflicts(result.conflicts);
+        setConflictsAcknowledgeable(Boolean(result.canAcknowledge));
+        setAcknowledgeConflicts(false);
+        return;
+      }
       if (!response.ok) throw new Error(result.error || 'Failed to save protocol.');
+      setFormConflicts([]);
       await fetchWeekProtocols();
 
-      setNotice({
-        type: 'success',
-        message: protocolFormMode === 'create' ? 'Protocol added successfully.' : 'Protocol updated successfully.',
-      });
+      const saved = protocolFormMode === 'create' ? 'Protocol added successfully.' : 'Protocol updated successfully.';
+      const warnings = Array.isArray(result.warnings) ? result.warnings as AssignmentWarning[] : [];
+      setNotice(warnings.length > 0
+        ? { type: 'info', message: `${saved} Check availability: ${formatAssignmentWarnings(warnings)}` }
+        : { type: 'success', message: saved });
       setProtocolFormOpen(false);
       setEditingProtocol(null);
     } catch (submitError) {
@@ -475,7 +801,7 @@ export default function ProtocolWeekPage() {
       }
 
       setNotice({
-        type: result.failed?.length > 0 ? 'error' : 'success',
+        type: result.queued?.length > 0 ? 'success' : 'error',
         message: `${monthLabel} ${weekLabel}: ${formatNotificationSummary(result as SendSummary)}. Track details on the Mailing page.`,
       });
     } catch (sendError) {
@@ -550,11 +876,17 @@ export default function ProtocolWeekPage() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <ProtocolStatusCard title="Protocols" count={statusCounts.total} color="blue" />
         <ProtocolStatusCard title="In Progress" count={statusCounts.inProgress} color="yellow" />
         <ProtocolStatusCard title="Overdue" count={statusCounts.overdue} color="red" />
         <ProtocolStatusCard title="Reviewer Reviews" count={reviewerTotals.completed} total={reviewerTotals.total} color="green" />
+        <ProtocolStatusCard
+          title="Awaiting Decision"
+          count={statusCounts.awaitingDecision}
+          color="purple"
+          breakdown={decisionBreakdown}
+        />
       </div>
 
       {notice && (
@@ -592,6 +924,9 @@ export default function ProtocolWeekPage() {
           onEdit={(protocol) => openEditProtocol(protocol as Protocol)}
           onDelete={(protocol) => setDeleteTarget(protocol as Protocol)}
           onReassign={(protocol, reviewerId, reviewerName) => handleReassign(protocol as Protocol, reviewerId, reviewerName)}
+          onDecide={canDecide ? (protocol) => openDecision(protocol as Protocol) : undefined}
+          onViewSummary={(protocol) => openSummary(protocol as Protocol)}
+          onStartRound={(protocol) => openStartRound(protocol as Protocol)}
         />
       </div>
 
@@ -702,6 +1037,32 @@ export default function ProtocolWeekPage() {
                   />
                 </div>
 
+                <div>
+                  <label htmlFor="nature-of-study" className="block text-sm font-medium text-gray-700 mb-1">
+                    Nature of Study
+                  </label>
+                  <input
+                    id="nature-of-study"
+                    type="text"
+                    value={protocolForm.nature_of_study}
+                    onChange={(event) => updateProtocolFormField('nature_of_study', event.target.value)}
+                    className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="type-of-study" className="block text-sm font-medium text-gray-700 mb-1">
+                    Type of Study
+                  </label>
+                  <input
+                    id="type-of-study"
+                    type="text"
+                    value={protocolForm.type_of_study}
+                    onChange={(event) => updateProtocolFormField('type_of_study', event.target.value)}
+                    className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
                 <div>
                   <label htmlFor="due-date" className="block text-sm font-medium text-gray-700 mb-1">
                     Due Date
@@ -728,6 +1089,27 @@ export default function ProtocolWeekPage() {
                     className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+
+                {expertiseTags.length > 0 && (
+                  <div className="md:col-span-2">
+                    <span className="block text-sm font-medium text-gray-700 mb-1">Expertise Tags</span>
+                    <div className="flex flex-wrap gap-2">
+                      {expertiseTags.map((tag) => (
+                        <label key={tag} className="inline-flex items-center gap-1 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={protocolForm.expertise_tags.includes(tag)}
+                            onChange={() => toggleProtocolTag(tag)}
+                          />
+                          {tag}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Leave all unchecked on a new protocol to tag it from the nature and type of study.
+                    </p>
+                  </div>
+                )}
               </div>
 
               <div className="border border-gray-200 rounded-lg">
@@ -736,13 +1118,105 @@ export default function ProtocolWeekPage() {
                     <h3 className="text-sm font-semibold text-gray-900">Reviewers</h3>
                     <p className="text-sm text-gray-500">Assigned reviewers and form types for this protocol.</p>
                   </div>
-                  <button
-                    type="button"
-                    onClick={addReviewerRow}
-                    className="px-3 py-2 rounded-md border border-blue-200 text-blue-700 text-sm font-medium hover:bg-blue-50"
-                  >
-                    Add Reviewer
-                  </button>
+                  <div className="flex items-center gap-2">
+                    {expertiseTags.length > 0 && (
+                      <select
+                        aria-label="Filter reviewers by expertise"
+                        value={reviewerTagFilter}
+                        onChange={(event) => setReviewerTagFilter(event.target.value)}
+                        className="border border-gray-300 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">All reviewers</option>
+                        {expertiseTags.map((tag) => (
+                          <option key={tag} value={tag}>
+                            {protocolForm.expertise_tags.includes(tag) ? `${tag} (this protocol)` : tag}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      type="button"
+                      onClick={addReviewerRow}
+                      className="px-3 py-2 rounded-md border border-blue-200 text-blue-700 text-sm font-medium hover:bg-blue-50"
+                    >
+                      Add Reviewer
+                    </button>
+                  </div>
+                </div>
+
+                <div className="border-b border-gray-200 bg-gray-50 px-4 py-3 space-y-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-xs font-medium text-gray-600">Suggest reviewers for</span>
+                    {FORM_TYPE_OPTIONS.map((formType) => (
+                      <label key={formType} className="inline-flex items-center gap-1 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={suggestionFormTypes.includes(formType)}
+                          onChange={() => toggleSuggestionFormType(formType)}
+                        />
+                        {formType}
+                      </label>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={fetchSuggestions}
+                      disabled={suggesting || suggestionFormTypes.length === 0}
+                      className="px-3 py-1.5 rounded-md border border-indigo-200 text-indigo-700 text-sm font-medium hover:bg-indigo-50 disabled:opacity-50"
+                    >
+                      {suggesting ? 'Suggesting...' : 'Suggest'}
+                    </button>
+                  </div>
+
+                  {suggestionError && (
+                    <p className="text-sm text-red-700">{suggestionError}</p>
+                  )}
+
+                  {suggestions && (
+                    <div className="space-y-2">
+                      <p className="text-xs text-gray-500">
+                        Ranked by open reviews, recent turnaround, reviews for the same course or program, and matching expertise tags. The adviser is never suggested.
+                      </p>
+                      {suggestions.map((set) => (
+                        <div key={set.formType} className="grid grid-cols-1 gap-2 sm:grid-cols-[5rem_1fr] sm:items-center">
+                          <span className="text-sm font-medium text-gray-700">{set.formType}</span>
+                          {set.proposal ? (
+                            <select
+                              aria-label={`Suggested reviewer for ${set.formType}`}
+                              value={suggestionChoices[set.formType] ?? ''}
+                              onChange={(event) => setSuggestionChoices((current) => ({ ...current, [set.formType]: event.target.value }))}
+                              className="border border-gray-300 rounded-md w-full p-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                              <option value="">Skip</option>
+                              {[set.proposal, ...set.alternatives].map((candidate) => (
+                                <option key={candidate.id} value={candidate.id}>
+                                  {describeSuggestion(candidate)}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-sm text-gray-500">No available reviewer.</span>
+                          )}
+                        </div>
+                      ))}
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setSuggestions(null)}
+                          className="px-3 py-1.5 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                        >
+                          Dismiss
+                        </button>
+                        <button
+                          type="button"
+                          onClick={acceptSuggestions}
+                          disabled={!Object.values(suggestionChoices).some(Boolean)}
+                          className="px-3 py-1.5 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                          Accept Suggestions
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 <div className="divide-y divide-gray-200">
@@ -762,11 +1236,15 @@ export default function ProtocolWeekPage() {
                             className="border border-gray-300 rounded-md w-full p-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                           >
                             <option value="">Select reviewer</option>
-                            {reviewerList.map((reviewerOption) => (
-                              <option key={reviewerOption.id} value={reviewerOption.id}>
-                                {reviewerOption.name}
-                              </option>
-                            ))}
+                            {reviewerList
+                              .filter((reviewerOption) => !reviewerTagFilter
+                                || reviewerOption.id === reviewer.id
+                                || reviewerOption.expertise?.includes(reviewerTagFilter))
+                              .map((reviewerOption) => (
+                                <option key={reviewerOption.id} value={reviewerOption.id}>
+                                  {describeReviewerOption(reviewerOption)}
+                                </option>
+                              ))}
                           </select>
                         </div>
 
@@ -855,6 +1333,34 @@ export default function ProtocolWeekPage() {
                 </div>
               )}
 
+              {formConflicts.length > 0 && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 space-y-2">
+                  <p className="font-medium">
+                    {conflictsAcknowledgeable
+                      ? 'These reviewers have declared a conflict with this protocol:'
+                      : 'These reviewers cannot be assigned to this protocol:'}
+                  </p>
+                  <ul className="list-disc pl-5 space-y-1">
+                    {formConflicts.map((conflict, index) => (
+                      <li key={`${conflict.reviewerId}-${index}`}>
+                        {conflict.reviewerName} {conflict.reason}
+                        {conflict.blocking ? '' : ' (warning)'}
+                      </li>
+                    ))}
+                  </ul>
+                  {conflictsAcknowledgeable && (
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={acknowledgeConflicts}
+                        onChange={(event) => setAcknowledgeConflicts(event.target.checked)}
+                      />
+                      Assign anyway
+                    </label>
+                  )}
+                </div>
+              )}
+
               <div className="flex justify-end gap-3 border-t border-gray-200 pt-4">
                 <button
                   type="button"
@@ -877,6 +1383,191 @@ export default function ProtocolWeekPage() {
         </div>
       )}
 
+      {decisionTarget && decisionTarget.decision && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleDecisionSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Record Decision</h2>
+              <p className="text-sm text-gray-600">
+                {decisionTarget.spup_rec_code || decisionTarget.id} is currently {PROTOCOL_LIFECYCLE_LABELS[decisionTarget.decision]}.
+              </p>
+              {(decisionTarget.protocolKey || decisionTarget.internalId) && (
+                <Link
+                  href={`/admin/protocols/${encodeURIComponent(decisionTarget.protocolKey || decisionTarget.internalId || '')}/summary`}
+                  className="text-sm font-medium text-purple-700 hover:text-purple-900"
+                >
+                  Compare reviewer recommendations first
+                </Link>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="decision-status" className="block text-sm font-medium text-gray-700 mb-1">
+                Decision
+              </label>
+              <select
+                id="decision-status"
+                value={decisionStatus}
+                onChange={(event) => setDecisionStatus(event.target.value as ProtocolLifecycleStatus)}
+                className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {getProtocolDecisionOptions(decisionTarget.decision).map((status) => (
+                  <option key={status} value={status}>
+                    {PROTOCOL_LIFECYCLE_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="decision-note" className="block text-sm font-medium text-gray-700 mb-1">
+                Note (optional)
+              </label>
+              <textarea
+                id="decision-note"
+                value={decisionNote}
+                onChange={(event) => setDecisionNote(event.target.value)}
+                rows={3}
+                maxLength={2000}
+                className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            {decisionError && (
+              <div className="rounded-md bg-red-50 px-4 py-3 text-sm text-red-800">
+                {decisionError}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={closeDecision}
+                disabled={decisionSubmitting}
+                className="px-4 py-2 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={decisionSubmitting || !decisionStatus}
+                className="px-4 py-2 rounded-md bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-50"
+              >
+                {decisionSubmitting ? 'Saving...' : 'Record Decision'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {roundTarget && roundForm && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleStartRoundSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Start Next Review Round</h2>
+              <p className="text-sm text-gray-600">
+                Record the resubmission of {roundTarget.spup_rec_code || roundTarget.id} as round {(roundTarget.round ?? 1) + 1}.
+                The protocol moves to the week the resubmission was received.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="round-month" className="block text-sm font-medium text-gray-700 mb-1">
+                  Month
+                </label>
+                <input
+                  id="round-month"
+                  type="month"
+                  value={roundForm.month}
+                  onChange={(event) => setRoundForm({ ...roundForm, month: event.target.value })}
+                  required
+                  className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="round-week" className="block text-sm font-medium text-gray-700 mb-1">
+                  Week
+                </label>
+                <select
+                  id="round-week"
+                  value={roundForm.weekId}
+                  onChange={(event) => setRoundForm({ ...roundForm, weekId: event.target.value })}
+                  className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {WEEK_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {formatWeekLabel(id)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="round-due-date" className="block text-sm font-medium text-gray-700 mb-1">
+                Due Date
+              </label>
+              <input
+                id="round-due-date"
+                type="date"
+                value={roundForm.dueDate}
+                onChange={(event) => setRoundForm({ ...roundForm, dueDate: event.target.value })}
+                className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="round-document-link" className="block text-sm font-medium text-gray-700 mb-1">
+                Revised Document Link (optional)
+              </label>
+              <input
+                id="round-document-link"
+                type="url"
+                value={roundForm.documentLink}
+                onChange={(event) => setRoundForm({ ...roundForm, documentLink: event.target.value })}
+                placeholder={roundTarget.protocol_file || 'https://'}
+                className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={roundForm.carryOverReviewers}
+                onChange={(event) => setRoundForm({ ...roundForm, carryOverReviewers: event.target.checked })}
+                className="rounded border-gray-300"
+              />
+              Assign the same reviewers to this round
+            </label>
+
+            {roundError && (
+              <div className="rounded-md bg-red-50 px-4 py-3 text-sm text-red-800">
+                {roundError}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={closeStartRound}
+                disabled={roundSubmitting}
+                className="px-4 py-2 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={roundSubmitting}
+                className="px-4 py-2 rounded-md bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {roundSubmitting ? 'Saving...' : 'Start Round'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
       {deleteTarget && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
@@ -1,43 +1,72 @@
 'use client';
 
 import Link from 'next/link';
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import ProtocolDetailsModal from '@/components/ProtocolDetailsModal';
 import ProtocolStatusCard from '@/components/ProtocolStatusCard';
+import ProtocolTable from '@/components/ProtocolTable';
+import { PROTOCOL_LIFECYCLE_LABELS, PROTOCOL_LIFECYCLE_STATUSES } from '@/lib/protocolLifecycle';
 import {
+  FORM_TYPE_OPTIONS,
   formatMonthLabel,
-  getProtocolStatusCounts,
-  getReviewerTotals,
-  groupProtocolsByMonth,
-  type MonthGroup,
+  formatWeekLabel,
+  getPeriodTotals,
   type Protocol,
-  type WeekGroup,
+  type ProtocolMonthIndex,
+  type ProtocolWeekIndex,
 } from '@/lib/protocols';
 import { moveProtocolWeek } from '@/lib/protocolWeekTransfer';
 
 type NoticeType = 'success' | 'error' | 'info';
 
+interface SearchFilters {
+  q: string;
+  status: string;
+  from: string;
+  to: string;
+  course: string;
+  reviewer: string;
+  formType: string;
+  overdue: boolean;
+  sort: string;
+}
+
+const EMPTY_FILTERS: SearchFilters = {
+  q: '',
+  status: '',
+  from: '',
+  to: '',
+  course: '',
+  reviewer: '',
+  formType: '',
+  overdue: false,
+  sort: '',
+};
+
+const SORT_OPTIONS = [
+  { value: '', label: 'Best match' },
+  { value: 'release', label: 'Newest release' },
+  { value: 'recCode', label: 'REC code' },
+  { value: 'dueDate', label: 'Due date' },
+];
+
 interface SendSummary {
-  sent: unknown[];
+  queued: unknown[];
   skipped: unknown[];
-  failed: unknown[];
 }
 
 function formatNotificationSummary(summary: SendSummary): string {
   const parts = [];
 
-  if (summary.sent.length > 0) {
-    parts.push(`sent ${summary.sent.length} reviewer email${summary.sent.length === 1 ? '' : 's'}`);
+  if (summary.queued.length > 0) {
+    parts.push(`queued ${summary.queued.length} reviewer email${summary.queued.length === 1 ? '' : 's'}`);
   }
 
   if (summary.skipped.length > 0) {
     parts.push(`skipped ${summary.skipped.length} reviewer${summary.skipped.length === 1 ? '' : 's'} without email`);
   }
 
-  if (summary.failed.length > 0) {
-    parts.push(`${summary.failed.length} email${summary.failed.length === 1 ? '' : 's'} failed`);
-  }
-
-  return parts.length > 0 ? parts.join(', ') : 'no reviewer emails were sent';
+  return parts.length > 0 ? parts.join(', ') : 'no reviewer emails were queued';
 }
 
 function getWeekHref(monthId: string, weekId: string): string {
@@ -65,14 +94,19 @@ function getMonthDocumentId(monthInput: string): string | null {
 }
 
 export default function ProtocolsPage() {
-  const [protocols, setProtocols] = useState<Protocol[]>([]);
+  const [months, setMonths] = useState<ProtocolMonthIndex[]>([]);
   const [expandedMonths, setExpandedMonths] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [searchResults, setSearchResults] = useState<Protocol[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [selectedProtocol, setSelectedProtocol] = useState<Protocol | null>(null);
   const [sendingKey, setSendingKey] = useState<string | null>(null);
   const [notice, setNotice] = useState<{ type: NoticeType; message: string } | null>(null);
-  const [moveTarget, setMoveTarget] = useState<{ month: MonthGroup; week: WeekGroup } | null>(null);
+  const [moveTarget, setMoveTarget] = useState<{ month: ProtocolMonthIndex; week: ProtocolWeekIndex } | null>(null);
   const [moveMonthInput, setMoveMonthInput] = useState('');
   const [moveError, setMoveError] = useState<string | null>(null);
   const [moving, setMoving] = useState(false);
@@ -82,17 +116,17 @@ export default function ProtocolsPage() {
       setLoading(true);
       setError(null);
 
-      const response = await fetch('/api/admin/protocols', { cache: 'no-store' });
+      const response = await fetch('/api/admin/protocols/periods');
       const result = await response.json();
 
       if (!response.ok) {
         throw new Error(result.error || 'Failed to load protocols.');
       }
 
-      const fetchedProtocols = result.protocols as Protocol[];
+      const fetchedMonths = result.months as ProtocolMonthIndex[];
 
-      setProtocols(fetchedProtocols);
-      const firstMonth = groupProtocolsByMonth(fetchedProtocols)[0]?.monthId;
+      setMonths(fetchedMonths);
+      const firstMonth = fetchedMonths[0]?.monthId;
 
       if (firstMonth) {
         setExpandedMonths((current) => current.length > 0 ? current : [firstMonth]);
@@ -109,40 +143,66 @@ export default function ProtocolsPage() {
     fetchProtocols();
   }, []);
 
-  const filteredProtocols = useMemo(() => {
-    const normalizedSearch = searchTerm.trim().toLowerCase();
+  const searchActive = Boolean(
+    filters.q.trim() || filters.status || filters.from || filters.to
+    || filters.course.trim() || filters.reviewer.trim() || filters.formType || filters.overdue
+  );
+
+  const runSearch = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams();
+    const entries: Array<[string, string]> = [
+      ['q', filters.q.trim()],
+      ['status', filters.status],
+      ['from', filters.from],
+      ['to', filters.to],
+      ['course', filters.course.trim()],
+      ['reviewer', filters.reviewer.trim()],
+      ['formType', filters.formType],
+      ['overdue', filters.overdue ? 'true' : ''],
+      ['sort', filters.sort],
+      ['cursor', cursor ?? ''],
+    ];
+    entries.filter(([, value]) => value).forEach(([key, value]) => params.set(key, value));
 
-    if (!normalizedSearch) {
-      return protocols;
+    try {
+      setSearching(true);
+      setSearchError(null);
+
+      const response = await fetch(`/api/admin/protocols/search?${params.toString()}`, { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to search protocols.');
+
+      const page = result.protocols as Protocol[];
+      setSearchResults((current) => cursor ? [...current, ...page] : page);
+      setNextCursor(result.nextCursor ?? null);
+    } catch (searchFetchError) {
+      console.error('Error searching protocols:', searchFetchError);
+      setSearchError(searchFetchError instanceof Error ? searchFetchError.message : 'Failed to search protocols.');
+    } finally {
+      setSearching(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    if (!searchActive) {
+      setSearchResults([]);
+      setNextCursor(null);
+      return;
     }
 
-    return protocols.filter((protocol) => {
-      const reviewerText = (protocol.reviewers || [])
-        .map((reviewer) => `${reviewer.id} ${reviewer.name}`)
-        .join(' ')
-        .toLowerCase();
-      const haystack = [
-        protocol.spup_rec_code,
-        protocol.id,
-        protocol.research_title,
-        protocol.protocol_name,
-        protocol.principal_investigator,
-        protocol.course_program,
-        reviewerText,
-      ].filter(Boolean).join(' ').toLowerCase();
-
-      return haystack.includes(normalizedSearch);
-    });
-  }, [protocols, searchTerm]);
-
-  const allMonthGroups = useMemo(() => groupProtocolsByMonth(protocols), [protocols]);
-  const monthGroups = useMemo(() => groupProtocolsByMonth(filteredProtocols), [filteredProtocols]);
-  const statusCounts = useMemo(() => getProtocolStatusCounts(filteredProtocols), [filteredProtocols]);
+    const timeout = window.setTimeout(() => runSearch(null), 300);
+    return () => window.clearTimeout(timeout);
+  }, [runSearch, searchActive]);
+
+  const updateFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const totals = useMemo(() => getPeriodTotals(months.flatMap((month) => month.weeks)), [months]);
   const totalWeeks = useMemo(
-    () => monthGroups.reduce((sum, month) => sum + month.weeks.length, 0),
-    [monthGroups]
+    () => months.reduce((sum, month) => sum + month.weeks.length, 0),
+    [months]
   );
-  const reviewerTotals = useMemo(() => getReviewerTotals(filteredProtocols), [filteredProtocols]);
 
   const toggleMonth = (monthId: string) => {
     setExpandedMonths((current) =>
@@ -154,16 +214,12 @@ export default function ProtocolsPage() {
 
   const sendNotifications = async (
     scope: 'month' | 'week',
-    month: MonthGroup,
-    week?: WeekGroup
+    month: ProtocolMonthIndex,
+    week?: ProtocolWeekIndex
   ) => {
-    const fullMonth = allMonthGroups.find((group) => group.monthId === month.monthId);
-    const fullWeek = week
-      ? fullMonth?.weeks.find((weekGroup) => weekGroup.weekId === week.weekId)
-      : undefined;
-    const selectedProtocols = fullWeek?.protocols ?? fullMonth?.protocols ?? [];
+    const protocolCount = week ? week.protocols : getPeriodTotals(month.weeks).protocols;
 
-    if (selectedProtocols.length === 0) {
+    if (protocolCount === 0) {
       setNotice({ type: 'info', message: 'No protocols are available for this selection.' });
       return;
     }
@@ -191,8 +247,8 @@ export default function ProtocolsPage() {
       }
 
       setNotice({
-        type: result.failed?.length > 0 ? 'error' : 'success',
-        message: `${scope === 'month' ? month.monthLabel : `${month.monthLabel} ${week?.weekLabel}`}: ${formatNotificationSummary(result as SendSummary)}. Track details on the Mailing page.`,
+        type: result.queued?.length > 0 ? 'success' : 'error',
+        message: `${scope === 'month' ? formatMonthLabel(month.monthId) : `${formatMonthLabel(month.monthId)} ${formatWeekLabel(week?.weekId ?? '')}`}: ${formatNotificationSummary(result as SendSummary)}. Track details on the Mailing page.`,
       });
     } catch (sendError) {
       console.error('Failed to send reviewer notifications:', sendError);
@@ -205,11 +261,8 @@ export default function ProtocolsPage() {
     }
   };
 
-  const openMoveWeek = (month: MonthGroup, week: WeekGroup) => {
-    const fullMonth = allMonthGroups.find((group) => group.monthId === month.monthId);
-    const fullWeek = fullMonth?.weeks.find((weekGroup) => weekGroup.weekId === week.weekId);
-
-    setMoveTarget({ month: fullMonth || month, week: fullWeek || week });
+  const openMoveWeek = (month: ProtocolMonthIndex, week: ProtocolWeekIndex) => {
+    setMoveTarget({ month, week });
     setMoveMonthInput('');
     setMoveError(null);
   };
@@ -256,7 +309,7 @@ export default function ProtocolsPage() {
       setExpandedMonths((current) => current.includes(targetMonthId) ? current : [...current, targetMonthId]);
       setNotice({
         type: 'success',
-        message: `Moved ${result.movedCount} protocol${result.movedCount === 1 ? '' : 's'} from ${moveTarget.month.monthLabel} ${moveTarget.week.weekLabel} to ${formatMonthLabel(targetMonthId)} ${moveTarget.week.weekLabel}.`,
+        message: `Moved ${result.movedCount} protocol${result.movedCount === 1 ? '' : 's'} from ${formatMonthLabel(moveTarget.month.monthId)} ${formatWeekLabel(moveTarget.week.weekId)} to ${formatMonthLabel(targetMonthId)} ${formatWeekLabel(moveTarget.week.weekId)}.`,
       });
       await fetchProtocols();
     } catch (moveWeekError) {
@@ -297,25 +350,125 @@ export default function ProtocolsPage() {
         </p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <ProtocolStatusCard title="Protocols" count={statusCounts.total} color="blue" />
-        <ProtocolStatusCard title="Months" count={monthGroups.length} color="purple" />
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <ProtocolStatusCard title="Protocols" count={totals.protocols} color="blue" />
+        <ProtocolStatusCard title="Months" count={months.length} color="purple" />
         <ProtocolStatusCard title="Weeks" count={totalWeeks} color="gray" />
-        <ProtocolStatusCard title="Reviewer Reviews" count={reviewerTotals.completed} total={reviewerTotals.total} color="green" />
+        <ProtocolStatusCard title="Reviewer Reviews" count={totals.reviews.completed} total={totals.reviews.total} color="green" />
+        <ProtocolStatusCard title="REC Decisions" count={totals.decidedProtocols} total={totals.protocols} color="yellow" />
       </div>
 
-      <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
-        <label htmlFor="protocol-search" className="block text-sm font-medium text-gray-700 mb-1">
-          Search protocols
-        </label>
-        <input
-          id="protocol-search"
-          type="text"
-          value={searchTerm}
-          onChange={(event) => setSearchTerm(event.target.value)}
-          placeholder="Search by REC code, title, PI, course, or reviewer"
-          className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-        />
+      <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm space-y-4">
+        <div>
+          <label htmlFor="protocol-search" className="block text-sm font-medium text-gray-700 mb-1">
+            Search protocols
+          </label>
+          <input
+            id="protocol-search"
+            type="text"
+            value={filters.q}
+            onChange={(event) => updateFilter('q', event.target.value)}
+            placeholder="Search by REC code, title, or principal investigator"
+            className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <label className="text-sm text-gray-700">
+            Status
+            <select
+              value={filters.status}
+              onChange={(event) => updateFilter('status', event.target.value)}
+              className="mt-1 border border-gray-300 rounded-md w-full p-2"
+            >
+              <option value="">All statuses</option>
+              {PROTOCOL_LIFECYCLE_STATUSES.map((status) => (
+                <option key={status} value={status}>{PROTOCOL_LIFECYCLE_LABELS[status]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            From month
+            <input
+              type="month"
+              value={filters.from}
+              onChange={(event) => updateFilter('from', event.target.value)}
+              className="mt-1 border border-gray-300 rounded-md w-full p-2"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            To month
+            <input
+              type="month"
+              value={filters.to}
+              onChange={(event) => updateFilter('to', event.target.value)}
+              className="mt-1 border border-gray-300 rounded-md w-full p-2"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Sort
+            <select
+              value={filters.sort}
+              onChange={(event) => updateFilter('sort', event.target.value)}
+              className="mt-1 border border-gray-300 rounded-md w-full p-2"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Course / program
+            <input
+              type="text"
+              value={filters.course}
+              onChange={(event) => updateFilter('course', event.target.value)}
+              className="mt-1 border border-gray-300 rounded-md w-full p-2"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Reviewer
+            <input
+              type="text"
+              value={filters.reviewer}
+              onChange={(event) => updateFilter('reviewer', event.target.value)}
+              placeholder="Code or name"
+              className="mt-1 border border-gray-300 rounded-md w-full p-2"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Form type
+            <select
+              value={filters.formType}
+              onChange={(event) => updateFilter('formType', event.target.value)}
+              className="mt-1 border border-gray-300 rounded-md w-full p-2"
+            >
+              <option value="">All form types</option>
+              {FORM_TYPE_OPTIONS.map((formType) => (
+                <option key={formType} value={formType}>{formType}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-end justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={filters.overdue}
+                onChange={(event) => updateFilter('overdue', event.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Overdue reviews only
+            </label>
+            {searchActive && (
+              <button
+                type="button"
+                onClick={() => setFilters(EMPTY_FILTERS)}
+                className="pb-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
       </div>
 
       {notice && (
@@ -330,15 +483,41 @@ export default function ProtocolsPage() {
         </div>
       )}
 
-      {monthGroups.length === 0 ? (
+      {searchActive ? (
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+          {searchError && (
+            <div className="m-4 rounded-md bg-red-50 px-4 py-3 text-sm text-red-800">
+              {searchError}
+            </div>
+          )}
+          <ProtocolTable
+            protocols={searchResults}
+            loading={searching && searchResults.length === 0}
+            emptyMessage="No protocols match these filters."
+            onViewDetails={(protocol) => setSelectedProtocol(protocol as Protocol)}
+          />
+          {nextCursor && (
+            <div className="flex justify-center border-t border-gray-200 p-4">
+              <button
+                type="button"
+                onClick={() => runSearch(nextCursor)}
+                disabled={searching}
+                className="px-4 py-2 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {searching ? 'Loading...' : 'Load More'}
+              </button>
+            </div>
+          )}
+        </div>
+      ) : months.length === 0 ? (
         <div className="bg-white border border-gray-200 rounded-lg p-8 text-center shadow-sm">
           <p className="text-gray-500">No protocols found.</p>
         </div>
       ) : (
         <div className="space-y-3">
-          {monthGroups.map((month) => {
+          {months.map((month) => {
             const isExpanded = expandedMonths.includes(month.monthId);
-            const monthReviewerTotals = getReviewerTotals(month.protocols);
+            const monthTotals = getPeriodTotals(month.weeks);
             const monthKey = month.monthId;
 
             return (
@@ -352,9 +531,9 @@ export default function ProtocolsPage() {
                   >
                     <span className="text-lg font-semibold text-gray-900">{isExpanded ? 'v' : '>'}</span>
                     <span>
-                      <span className="block text-lg font-semibold text-gray-900">{month.monthLabel}</span>
+                      <span className="block text-lg font-semibold text-gray-900">{formatMonthLabel(month.monthId)}</span>
                       <span className="block text-sm text-gray-500">
-                        {month.weeks.length} week{month.weeks.length === 1 ? '' : 's'} - {month.protocols.length} protocol{month.protocols.length === 1 ? '' : 's'} - {monthReviewerTotals.completed}/{monthReviewerTotals.total} reviews completed
+                        {month.weeks.length} week{month.weeks.length === 1 ? '' : 's'} - {monthTotals.protocols} protocol{monthTotals.protocols === 1 ? '' : 's'} - {monthTotals.reviews.completed}/{monthTotals.reviews.total} reviews completed
                       </span>
                     </span>
                   </button>
@@ -371,15 +550,14 @@ export default function ProtocolsPage() {
                 {isExpanded && (
                   <div className="divide-y divide-gray-100">
                     {month.weeks.map((week) => {
-                      const weekReviewerTotals = getReviewerTotals(week.protocols);
                       const weekKey = `${month.monthId}/${week.weekId}`;
 
                       return (
                         <div key={week.weekId} className="px-4 py-4 flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
                           <div>
-                            <h2 className="font-semibold text-gray-900">{week.weekLabel}</h2>
+                            <h2 className="font-semibold text-gray-900">{formatWeekLabel(week.weekId)}</h2>
                             <p className="text-sm text-gray-500">
-                              {week.protocols.length} protocol{week.protocols.length === 1 ? '' : 's'} - {weekReviewerTotals.completed}/{weekReviewerTotals.total} reviews completed
+                              {week.protocols} protocol{week.protocols === 1 ? '' : 's'} - {week.reviews.completed}/{week.reviews.total} reviews completed
                             </p>
                           </div>
                           <div className="flex flex-wrap gap-2">
@@ -416,13 +594,19 @@ export default function ProtocolsPage() {
         </div>
       )}
 
+      <ProtocolDetailsModal
+        isOpen={Boolean(selectedProtocol)}
+        protocol={selectedProtocol}
+        onClose={() => setSelectedProtocol(null)}
+      />
+
       {moveTarget && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg shadow-xl w-full max-w-lg p-6">
             <h2 className="text-xl font-semibold text-gray-900">Move Week to Another Month</h2>
             <p className="mt-2 text-sm text-gray-600">
-              Move all {moveTarget.week.protocols.length} protocol{moveTarget.week.protocols.length === 1 ? '' : 's'} in{' '}
-              <strong>{moveTarget.month.monthLabel} {moveTarget.week.weekLabel}</strong>. The week number, protocol details,
+              Move all {moveTarget.week.protocols} protocol{moveTarget.week.protocols === 1 ? '' : 's'} in{' '}
+              <strong>{formatMonthLabel(moveTarget.month.monthId)} {formatWeekLabel(moveTarget.week.weekId)}</strong>. The week number, protocol details,
               reviewers, statuses, and due dates will be preserved.
             </p>
 
@@ -442,7 +626,7 @@ export default function ProtocolsPage() {
                 className="border border-gray-300 rounded-md w-full p-2 focus:outline-none focus:ring-2 focus:ring-amber-500 disabled:opacity-50"
               />
               <p className="mt-2 text-xs text-gray-500">
-                If {moveTarget.week.weekLabel} already exists in that month, these protocols will be added to it. The move stops if a duplicate protocol ID is found.
+                If {formatWeekLabel(moveTarget.week.weekId)} already exists in that month, these protocols will be added to it. The move stops if a duplicate protocol ID is found.
               </p>
             </div>
 
@@ -0,0 +1,397 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  REVIEW_RECOMMENDATION_LABELS,
+  REVIEW_RECOMMENDATIONS,
+  type ReviewRecommendation,
+} from '@/lib/protocolLifecycle';
+
+type AnswerType = 'yes_no_na' | 'text';
+
+interface FormQuestion {
+  key: string;
+  prompt: string;
+  helpText: string | null;
+  answerType: AnswerType;
+  required: boolean;
+}
+
+interface FormSection {
+  title: string;
+  description: string | null;
+  questions: FormQuestion[];
+}
+
+interface FormRecommendation {
+  label: string;
+  outcome: ReviewRecommendation;
+}
+
+interface FormVersion {
+  version: number;
+  publishedAt: string | null;
+  sections: FormSection[];
+  recommendations: FormRecommendation[];
+}
+
+interface ReviewFormType {
+  code: string;
+  name: string;
+  formUrl: string | null;
+  active: boolean;
+  publishedVersion: number | null;
+  draftVersion: number | null;
+  submissionCount: number;
+}
+
+const EMPTY_QUESTION: FormQuestion = { key: '', prompt: '', helpText: null, answerType: 'yes_no_na', required: true };
+
+const DEFAULT_RECOMMENDATIONS: FormRecommendation[] = [
+  { label: 'Approve', outcome: 'approve' },
+  { label: 'Minor revisions', outcome: 'minor_revisions' },
+  { label: 'Major revisions', outcome: 'major_revisions' },
+  { label: 'Disapprove', outcome: 'disapprove' },
+];
+
+function editableSections(form: FormVersion | null): FormSection[] {
+  if (!form) return [{ title: 'Assessment', description: null, questions: [{ ...EMPTY_QUESTION }] }];
+  return form.sections.map((section) => ({
+    title: section.title,
+    description: section.description,
+    questions: section.questions.map((question) => ({ ...question })),
+  }));
+}
+
+function moveItem<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export default function ReviewFormEditorPage() {
+  const params = useParams<{ code: string }>();
+  const code = decodeURIComponent(params.code);
+  const endpoint = `/api/admin/review-forms/${encodeURIComponent(code)}`;
+  const [formType, setFormType] = useState<ReviewFormType | null>(null);
+  const [published, setPublished] = useState<FormVersion | null>(null);
+  const [draft, setDraft] = useState<FormVersion | null>(null);
+  const [name, setName] = useState('');
+  const [formUrl, setFormUrl] = useState('');
+  const [sections, setSections] = useState<FormSection[]>([]);
+  const [recommendations, setRecommendations] = useState<FormRecommendation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEditor = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint, { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load the review form.');
+      const nextType = result.formType as ReviewFormType;
+      const nextDraft = result.draft as FormVersion | null;
+      const nextPublished = result.published as FormVersion | null;
+      setFormType(nextType);
+      setPublished(nextPublished);
+      setDraft(nextDraft);
+      setName(nextType.name);
+      setFormUrl(nextType.formUrl ?? '');
+      const source = nextDraft ?? nextPublished;
+      setSections(editableSections(source));
+      setRecommendations((source?.recommendations ?? DEFAULT_RECOMMENDATIONS).map((choice) => ({ ...choice })));
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the review form.');
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void loadEditor();
+  }, [loadEditor]);
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || fallback);
+    return result;
+  };
+
+  const run = async (action: () => Promise<string>) => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDetails = () => run(async () => {
+    const result = await request(endpoint, { method: 'PATCH', body: JSON.stringify({ name, formUrl }) }, 'Failed to save the form details.');
+    setFormType(result.formType as ReviewFormType);
+    return 'Form details saved.';
+  });
+
+  const saveDraft = async (): Promise<FormVersion> => {
+    const result = await request(`${endpoint}/draft`, {
+      method: 'PUT',
+      body: JSON.stringify({ sections, recommendations }),
+    }, 'Failed to save the draft.');
+    const saved = result.draft as FormVersion;
+    setDraft(saved);
+    setSections(editableSections(saved));
+    return saved;
+  };
+
+  const saveDraftOnly = () => run(async () => {
+    const saved = await saveDraft();
+    return `Draft version ${saved.version} saved. Reviewers keep using the published version until you publish.`;
+  });
+
+  const publish = () => {
+    if (!window.confirm('Publish this draft? Reviewers will fill in the new version from now on; submitted reviews keep theirs.')) return;
+    void run(async () => {
+      await saveDraft();
+      const result = await request(`${endpoint}/publish`, { method: 'POST' }, 'Failed to publish the form.');
+      const next = result.published as FormVersion;
+      await loadEditor();
+      return `Version ${next.version} published.`;
+    });
+  };
+
+  const discard = () => {
+    if (!window.confirm('Discard the draft and go back to the published version?')) return;
+    void run(async () => {
+      await request(`${endpoint}/draft`, { method: 'DELETE' }, 'Failed to discard the draft.');
+      await loadEditor();
+      return 'Draft discarded.';
+    });
+  };
+
+  const updateSection = (index: number, changes: Partial<FormSection>) => {
+    setSections((current) => current.map((section, position) => position === index ? { ...section, ...changes } : section));
+  };
+
+  const updateRecommendation = (index: number, changes: Partial<FormRecommendation>) => {
+    setRecommendations((current) => current.map((choice, position) => position === index ? { ...choice, ...changes } : choice));
+  };
+
+  const updateQuestion = (sectionIndex: number, questionIndex: number, changes: Partial<FormQuestion>) => {
+    setSections((current) => current.map((section, position) => position === sectionIndex
+      ? {
+        ...section,
+        questions: section.questions.map((question, index) => index === questionIndex ? { ...question, ...changes } : question),
+      }
+      : section));
+  };
+
+  if (loading) return <div className="flex min-h-[24rem] items-center justify-center text-slate-600">Loading review form...</div>;
+  if (!formType) {
+    return <div className="mx-auto max-w-3xl p-6"><div className="rounded-md border border-red-200 bg-red-50 p-4 text-red-700">{error || 'Form type not found.'}</div></div>;
+  }
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 p-6">
+      <Link href="/admin/review-forms" className="text-sm font-medium text-emerald-700">Back to review forms</Link>
+      <div>
+        <h1 className="text-2xl font-semibold text-slate-950">{formType.name} <span className="font-mono text-base text-slate-500">{formType.code}</span></h1>
+        <p className="mt-1 text-sm text-slate-600">
+          {published ? `Version ${published.version} is published` : 'No version is published yet'}
+          {draft ? `; you are editing draft version ${draft.version}.` : '.'}
+          {!formType.active && ' This form type is retired and cannot be assigned.'}
+        </p>
+      </div>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+      {notice && <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">{notice}</div>}
+
+      <section className="grid gap-4 rounded-lg border border-slate-200 bg-white p-5 shadow-sm sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+        <label className="text-sm text-slate-600">
+          Form name
+          <input value={name} onChange={(event) => setName(event.target.value)} maxLength={255} className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900" />
+        </label>
+        <label className="text-sm text-slate-600">
+          Microsoft Forms link, used until a version is published
+          <input value={formUrl} onChange={(event) => setFormUrl(event.target.value)} placeholder="https://forms.office.com/..." className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900" />
+        </label>
+        <button type="button" onClick={() => void saveDetails()} disabled={saving} className="rounded-md border border-emerald-700 px-4 py-2 text-sm font-medium text-emerald-800 hover:bg-emerald-50 disabled:opacity-50">
+          Save details
+        </button>
+      </section>
+
+      {sections.map((section, sectionIndex) => (
+        <section key={sectionIndex} className="space-y-4 rounded-lg border border-slate-200 bg-white p-5 shadow-sm">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-start">
+            <div className="flex-1 space-y-2">
+              <input
+                value={section.title}
+                onChange={(event) => updateSection(sectionIndex, { title: event.target.value })}
+                placeholder="Section title"
+                maxLength={255}
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-base font-semibold text-slate-900"
+              />
+              <input
+                value={section.description ?? ''}
+                onChange={(event) => updateSection(sectionIndex, { description: event.target.value })}
+                placeholder="Instructions for this section (optional)"
+                maxLength={1000}
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-700"
+              />
+            </div>
+            <div className="flex gap-2 text-sm">
+              <button type="button" onClick={() => setSections((current) => moveItem(current, sectionIndex, -1))} className="rounded-md border px-2 py-1 text-slate-600">Up</button>
+              <button type="button" onClick={() => setSections((current) => moveItem(current, sectionIndex, 1))} className="rounded-md border px-2 py-1 text-slate-600">Down</button>
+              <button type="button" onClick={() => setSections((current) => current.filter((_, index) => index !== sectionIndex))} className="rounded-md border border-red-200 px-2 py-1 text-red-700">Remove</button>
+            </div>
+          </div>
+
+          {section.questions.map((question, questionIndex) => (
+            <div key={questionIndex} className="space-y-2 border-t border-slate-100 pt-4">
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <textarea
+                  value={question.prompt}
+                  onChange={(event) => updateQuestion(sectionIndex, questionIndex, { prompt: event.target.value })}
+                  placeholder="Question"
+                  maxLength={1000}
+                  rows={2}
+                  className="flex-1 rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900"
+                />
+                <div className="flex gap-2 text-sm sm:flex-col">
+                  <button
+                    type="button"
+                    onClick={() => updateSection(sectionIndex, { questions: moveItem(section.questions, questionIndex, -1) })}
+                    className="rounded-md border px-2 py-1 text-slate-600"
+                  >
+                    Up
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateSection(sectionIndex, { questions: moveItem(section.questions, questionIndex, 1) })}
+                    className="rounded-md border px-2 py-1 text-slate-600"
+                  >
+                    Down
+                  </button>
+                </div>
+              </div>
+              <input
+                value={question.helpText ?? ''}
+                onChange={(event) => updateQuestion(sectionIndex, questionIndex, { helpText: event.target.value })}
+                placeholder="Help text (optional)"
+                maxLength={1000}
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-700"
+              />
+              <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700">
+                <select
+                  value={question.answerType}
+                  onChange={(event) => updateQuestion(sectionIndex, questionIndex, { answerType: event.target.value as AnswerType })}
+                  className="rounded-md border border-slate-300 px-2 py-1"
+                >
+                  <option value="yes_no_na">Yes / No / Not applicable</option>
+                  <option value="text">Written answer</option>
+                </select>
+                <label className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={question.required}
+                    onChange={(event) => updateQuestion(sectionIndex, questionIndex, { required: event.target.checked })}
+                  />
+                  Required
+                </label>
+                <button
+                  type="button"
+                  onClick={() => updateSection(sectionIndex, { questions: section.questions.filter((_, index) => index !== questionIndex) })}
+                  className="text-red-700 hover:text-red-900"
+                >
+                  Remove question
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => updateSection(sectionIndex, { questions: [...section.questions, { ...EMPTY_QUESTION }] })}
+            className="text-sm font-medium text-emerald-700 hover:text-emerald-900"
+          >
+            Add question
+          </button>
+        </section>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => setSections((current) => [...current, { title: '', description: null, questions: [{ ...EMPTY_QUESTION }] }])}
+        className="rounded-md border border-dashed border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+      >
+        Add section
+      </button>
+
+      <section className="space-y-3 rounded-lg border border-slate-200 bg-white p-5 shadow-sm">
+        <div>
+          <h2 className="text-sm font-medium text-slate-900">Recommendations</h2>
+          <p className="mt-1 text-sm text-slate-500">
+            What each choice recommends is what the chair&apos;s review summary compares across reviewers.
+          </p>
+        </div>
+        {recommendations.map((choice, index) => (
+          <div key={index} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <input
+              value={choice.label}
+              onChange={(event) => updateRecommendation(index, { label: event.target.value })}
+              placeholder="Label the reviewer sees"
+              maxLength={255}
+              className="flex-1 rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-900"
+            />
+            <select
+              value={choice.outcome}
+              onChange={(event) => updateRecommendation(index, { outcome: event.target.value as ReviewRecommendation })}
+              aria-label={`What "${choice.label || 'this choice'}" recommends`}
+              className="rounded-md border border-slate-300 px-2 py-2 text-sm text-slate-700"
+            >
+              {REVIEW_RECOMMENDATIONS.map((outcome) => (
+                <option key={outcome} value={outcome}>{REVIEW_RECOMMENDATION_LABELS[outcome]}</option>
+              ))}
+            </select>
+            <div className="flex gap-2 text-sm">
+              <button type="button" onClick={() => setRecommendations((current) => moveItem(current, index, -1))} className="rounded-md border px-2 py-1 text-slate-600">Up</button>
+              <button type="button" onClick={() => setRecommendations((current) => moveItem(current, index, 1))} className="rounded-md border px-2 py-1 text-slate-600">Down</button>
+              <button type="button" onClick={() => setRecommendations((current) => current.filter((_, position) => position !== index))} className="rounded-md border border-red-200 px-2 py-1 text-red-700">Remove</button>
+            </div>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setRecommendations((current) => [...current, { label: '', outcome: 'approve' }])}
+          className="text-sm font-medium text-emerald-700 hover:text-emerald-900"
+        >
+          Add recommendation
+        </button>
+      </section>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => void saveDraftOnly()} disabled={saving} className="rounded-md border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50">
+          {saving ? 'Saving...' : 'Save draft'}
+        </button>
+        <button type="button" onClick={publish} disabled={saving} className="rounded-md bg-emerald-700 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-800 disabled:opacity-50">
+          Publish as version {draft?.version ?? (formType.publishedVersion ?? 0) + 1}
+        </button>
+        {draft && (
+          <button type="button" onClick={discard} disabled={saving} className="rounded-md border border-red-200 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50">
+            Discard draft
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+
+interface ReviewFormType {
+  code: string;
+  name: string;
+  formUrl: string | null;
+  active: boolean;
+  publishedVersion: number | null;
+  publishedAt: string | null;
+  draftVersion: number | null;
+  submissionCount: number;
+}
+
+export default function ReviewFormsPage() {
+  const [formTypes, setFormTypes] = useState<ReviewFormType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFormTypes = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/review-forms', { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load review forms.');
+      setFormTypes(result.formTypes as ReviewFormType[]);
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load review forms.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadFormTypes();
+  }, [loadFormTypes]);
+
+  const setActive = async (formType: ReviewFormType, active: boolean) => {
+    if (!active && !window.confirm(`Retire ${formType.name} (${formType.code})? It can no longer be assigned, but existing reviews keep it.`)) return;
+    setUpdating(formType.code);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/review-forms/${encodeURIComponent(formType.code)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to update the form type.');
+      const updated = result.formType as ReviewFormType;
+      setFormTypes((current) => current.map((item) => item.code === updated.code ? updated : item));
+    } catch (updateError) {
+      setError(updateError instanceof Error ? updateError.message : 'Failed to update the form type.');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-slate-950">Review Forms</h1>
+        <p className="mt-1 text-sm text-slate-600">
+          The assessment forms reviewers fill in. Edit a form as a draft and publish it as a new version; reviews already submitted keep the version they were answered on.
+        </p>
+      </div>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+
+      <div className="overflow-x-auto rounded-lg border border-slate-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-50 text-left text-xs font-medium uppercase text-slate-500">
+            <tr>
+              <th className="px-4 py-3">Code</th>
+              <th className="px-4 py-3">Form</th>
+              <th className="px-4 py-3">Published</th>
+              <th className="px-4 py-3">Draft</th>
+              <th className="px-4 py-3">Submitted reviews</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {loading ? (
+              <tr><td colSpan={7} className="px-4 py-6 text-center text-slate-500">Loading review forms...</td></tr>
+            ) : formTypes.map((formType) => (
+              <tr key={formType.code} className={formType.active ? '' : 'bg-slate-50 text-slate-500'}>
+                <td className="whitespace-nowrap px-4 py-3 font-mono text-xs">{formType.code}</td>
+                <td className="px-4 py-3 font-medium text-slate-900">{formType.name}</td>
+                <td className="whitespace-nowrap px-4 py-3 text-slate-600">
+                  {formType.publishedVersion
+                    ? `Version ${formType.publishedVersion}${formType.publishedAt ? `, ${new Date(formType.publishedAt).toLocaleDateString()}` : ''}`
+                    : formType.formUrl ? 'Microsoft Forms link only' : 'Not published'}
+                </td>
+                <td className="whitespace-nowrap px-4 py-3 text-slate-600">
+                  {formType.draftVersion ? `Version ${formType.draftVersion}` : '—'}
+                </td>
+                <td className="px-4 py-3 text-slate-600">{formType.submissionCount}</td>
+                <td className="px-4 py-3">
+                  <span className={`rounded-full px-2 py-1 text-xs font-medium ${
+                    formType.active ? 'bg-green-100 text-green-800' : 'bg-slate-200 text-slate-700'
+                  }`}>
+                    {formType.active ? 'Active' : 'Retired'}
+                  </span>
+                </td>
+                <td className="whitespace-nowrap px-4 py-3 text-right">
+                  <Link href={`/admin/review-forms/${encodeURIComponent(formType.code)}`} className="font-medium text-emerald-700 hover:text-emerald-900">
+                    Edit
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => void setActive(formType, !formType.active)}
+                    disabled={updating === formType.code}
+                    className="ml-4 font-medium text-slate-600 hover:text-slate-900 disabled:opacity-50"
+                  >
+                    {formType.active ? 'Retire' : 'Restore'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
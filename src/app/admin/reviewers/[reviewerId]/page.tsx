@@ -14,7 +14,9 @@ import {
   type ReviewerProtocolAssignment,
   type ReviewerRecord,
 } from '@/lib/reviewerProfiles';
-import { formatDate, getFormTypeName, isDueSoon, isOverdue } from '@/lib/utils';
+import { formatDate, isDueSoon, isOverdue } from '@/lib/utils';
+import ReviewerAvailabilityPanel from '@/components/ReviewerAvailabilityPanel';
+import ReviewerExpertisePanel from '@/components/ReviewerExpertisePanel';
 
 type ReviewerMailAction = 'assigned' | 'overdue';
 
@@ -219,16 +221,16 @@ export default function ReviewerProfilePage() {
         throw new Error(result.error || 'Failed to send reviewer email.');
       }
 
-      if (!Array.isArray(result.sent) || result.sent.length === 0) {
-        const reason = result.skipped?.[0]?.reason || result.failed?.[0]?.error || 'No email was sent.';
+      if (!Array.isArray(result.queued) || result.queued.length === 0) {
+        const reason = result.skipped?.[0]?.reason || 'No email was queued.';
         throw new Error(reason);
       }
 
       setMailNotice({
         type: 'success',
         message: action === 'overdue'
-          ? `Overdue reminder sent to ${reviewer.email} for ${selectedAssignments.length} review${selectedAssignments.length === 1 ? '' : 's'}.`
-          : `Assigned protocols sent to ${reviewer.email} for ${selectedAssignments.length} review${selectedAssignments.length === 1 ? '' : 's'}.`,
+          ? `Overdue reminder queued for ${reviewer.email} for ${selectedAssignments.length} review${selectedAssignments.length === 1 ? '' : 's'}.`
+          : `Assigned protocols queued for ${reviewer.email} for ${selectedAssignments.length} review${selectedAssignments.length === 1 ? '' : 's'}.`,
       });
     } catch (mailError) {
       console.error('Failed to send profile reviewer email:', mailError);
@@ -360,6 +362,10 @@ export default function ReviewerProfilePage() {
         ))}
       </section>
 
+      <ReviewerExpertisePanel reviewerId={reviewer.id} />
+
+      <ReviewerAvailabilityPanel reviewerId={reviewer.id} />
+
       <section className="rounded-xl border border-gray-200 bg-white shadow-sm">
         <div className="border-b border-gray-200 px-6 py-4">
           <h2 className="text-lg font-semibold text-gray-900">Assigned Protocol Reviews</h2>
@@ -398,7 +404,7 @@ export default function ReviewerProfilePage() {
                         {formatMonthLabel(protocol.monthId)}<br />
                         <span className="text-xs">{formatWeekLabel(protocol.weekId)}</span>
                       </td>
-                      <td className="whitespace-nowrap px-4 py-3 text-gray-600">{getFormTypeName(assignment.formType)}</td>
+                      <td className="whitespace-nowrap px-4 py-3 text-gray-600">{assignment.formName || 'N/A'}</td>
                       <td className="whitespace-nowrap px-4 py-3 text-gray-600">
                         {assignment.dueDate ? formatDate(assignment.dueDate) : 'No date set'}
                       </td>
@@ -15,15 +15,15 @@ import {
   isReviewerAssignmentMatch,
   type ReviewerRecord,
 } from '@/lib/reviewerProfiles';
+import ReviewerConflictsPanel from '@/components/ReviewerConflictsPanel';
 
 type Reviewer = ReviewerRecord;
 
 type MailScope = 'month' | 'week';
 
 interface SendSummary {
-  sent: unknown[];
+  queued: unknown[];
   skipped: unknown[];
-  failed: unknown[];
 }
 
 function isValidEmail(email: string): boolean {
@@ -42,19 +42,15 @@ async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
 function formatNotificationSummary(summary: SendSummary): string {
   const parts = [];
 
-  if (summary.sent.length > 0) {
-    parts.push(`sent ${summary.sent.length} email${summary.sent.length === 1 ? '' : 's'}`);
+  if (summary.queued.length > 0) {
+    parts.push(`queued ${summary.queued.length} email${summary.queued.length === 1 ? '' : 's'}`);
   }
 
   if (summary.skipped.length > 0) {
     parts.push(`skipped ${summary.skipped.length}`);
   }
 
-  if (summary.failed.length > 0) {
-    parts.push(`${summary.failed.length} failed`);
-  }
-
-  return parts.length > 0 ? parts.join(', ') : 'no email was sent';
+  return parts.length > 0 ? parts.join(', ') : 'no email was queued';
 }
 
 function getCurrentMonthSortValue(): number {
@@ -134,6 +130,8 @@ export default function ReviewersPage() {
   const [selectedMailWeekId, setSelectedMailWeekId] = useState('');
   const [sendingMail, setSendingMail] = useState(false);
   const [mailError, setMailError] = useState<string | null>(null);
+  const [legacyLoginEnabled, setLegacyLoginEnabled] = useState(false);
+  const [savingLoginSettings, setSavingLoginSettings] = useState(false);
   
   // Notification state
   const [notification, setNotification] = useState({
@@ -145,6 +143,7 @@ export default function ReviewersPage() {
   useEffect(() => {
     fetchReviewers();
     fetchProtocolPeriods();
+    fetchLoginSettings();
   }, []);
   
   const fetchReviewers = async () => {
@@ -162,6 +161,43 @@ export default function ReviewersPage() {
     }
   };
 
+  const fetchLoginSettings = async () => {
+    try {
+      const { settings } = await requestJson<{ settings: { allowLegacyLogin: boolean } }>(
+        '/api/admin/reviewer-login-settings'
+      );
+      setLegacyLoginEnabled(settings.allowLegacyLogin);
+    } catch (err) {
+      console.error('Error fetching reviewer sign-in settings:', err);
+    }
+  };
+
+  const toggleLegacyLogin = async () => {
+    try {
+      setSavingLoginSettings(true);
+      const { settings } = await requestJson<{ settings: { allowLegacyLogin: boolean } }>(
+        '/api/admin/reviewer-login-settings',
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ allowLegacyLogin: !legacyLoginEnabled }),
+        }
+      );
+      setLegacyLoginEnabled(settings.allowLegacyLogin);
+      showNotification(
+        settings.allowLegacyLogin
+          ? 'Reviewers can sign in with their ID or name again'
+          : 'Reviewers must now sign in with an emailed link',
+        'success'
+      );
+    } catch (err) {
+      console.error('Error saving reviewer sign-in settings:', err);
+      showNotification('Failed to update reviewer sign-in settings', 'error');
+    } finally {
+      setSavingLoginSettings(false);
+    }
+  };
+
   const fetchProtocolPeriods = async () => {
     try {
       setProtocolLoading(true);
@@ -363,7 +399,8 @@ export default function ReviewersPage() {
   const filteredReviewers = reviewers.filter(reviewer => 
     reviewer.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     reviewer.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    (reviewer.email || '').toLowerCase().includes(searchQuery.toLowerCase())
+    (reviewer.email || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (reviewer.expertise || []).some((tag) => tag.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
   const monthGroups = useMemo(() => groupProtocolsByMonth(protocols), [protocols]);
@@ -516,7 +553,7 @@ export default function ReviewersPage() {
         throw new Error(result.error || 'Failed to send reviewer email.');
       }
 
-      const hasProblems = result.failed?.length > 0 || result.sent?.length === 0;
+      const hasProblems = !result.queued?.length;
 
       setIsMailModalOpen(false);
       setMailReviewer(null);
@@ -582,6 +619,25 @@ export default function ReviewersPage() {
         </div>
       )}
       
+      <div className="bg-white p-4 rounded-lg shadow-md flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="font-semibold text-gray-900">Reviewer Sign-in</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Reviewers sign in with a one-time link sent to their email. Legacy sign-in also accepts a reviewer ID or full name, which anyone can guess.
+          </p>
+        </div>
+        <label className="inline-flex shrink-0 items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-600"
+            checked={legacyLoginEnabled}
+            onChange={toggleLegacyLogin}
+            disabled={savingLoginSettings}
+          />
+          Allow legacy ID/name sign-in
+        </label>
+      </div>
+
       {/* Search Bar */}
       <div className="bg-white p-4 rounded-lg shadow-md">
         <div className="relative">
@@ -589,7 +645,7 @@ export default function ReviewersPage() {
             type="text"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search by name, ID, or email..."
+            placeholder="Search by name, ID, email, or expertise..."
             className="w-full p-2 pl-10 border rounded-md"
           />
           <div className="absolute left-3 top-2.5 text-gray-400">
@@ -645,12 +701,17 @@ export default function ReviewersPage() {
                           <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-blue-100 font-semibold text-blue-800">
                             {reviewer.name.charAt(0).toUpperCase()}
                           </div>
-                          <Link
-                            href={`/admin/reviewers/${encodeURIComponent(reviewer.id)}`}
-                            className="font-medium text-gray-900 hover:text-blue-700"
-                          >
-                            {reviewer.name}
-                          </Link>
+                          <div>
+                            <Link
+                              href={`/admin/reviewers/${encodeURIComponent(reviewer.id)}`}
+                              className="font-medium text-gray-900 hover:text-blue-700"
+                            >
+                              {reviewer.name}
+                            </Link>
+                            {reviewer.expertise && reviewer.expertise.length > 0 && (
+                              <p className="text-xs text-gray-500">{reviewer.expertise.join(', ')}</p>
+                            )}
+                          </div>
                         </div>
                       </td>
                       <td className="whitespace-nowrap px-4 py-3 font-mono text-xs text-gray-600">{reviewer.id}</td>
@@ -965,7 +1026,7 @@ export default function ReviewersPage() {
       {/* Edit Reviewer Modal */}
       {isEditModalOpen && selectedReviewer && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
-          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-semibold mb-4">Edit Reviewer</h2>
             
             <form onSubmit={editReviewer}>
@@ -1043,6 +1104,8 @@ export default function ReviewersPage() {
                 </button>
               </div>
             </form>
+
+            <ReviewerConflictsPanel reviewerId={selectedReviewer.id} />
           </div>
         </div>
       )}
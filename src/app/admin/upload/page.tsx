@@ -1,7 +1,6 @@
 'use client';
 
 import { useState, ChangeEvent } from 'react';
-import { getFormTypeName } from '@/lib/utils';
 
 // CSV Parser function
 const parseCSV = (csvText: string) => {
@@ -484,7 +483,7 @@ export default function CSVUploadPage() {
                     {item.reviewer}
                   </td>
                   <td className="px-2 py-2 whitespace-nowrap text-sm text-gray-900">
-                    {getFormTypeName(item.document_type)}
+                    {item.document_type || 'N/A'}
                   </td>
                   <td className="px-2 py-2 whitespace-nowrap text-sm text-gray-900">
                     {item.due_date}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminDigestSettings, saveAdminDigestSettings } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+const MAX_RECIPIENTS = 20;
+
+function isValidEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+export async function GET() {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    return NextResponse.json({ settings: await getAdminDigestSettings() });
+  } catch (error) {
+    console.error('Failed to load admin digest settings:', error);
+    return NextResponse.json({ error: 'Failed to load admin digest settings.' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const payload = await request.json() as Record<string, unknown>;
+    const sendWeekday = Number(payload.sendWeekday);
+    const recipients = [...new Set(
+      (Array.isArray(payload.recipients) ? payload.recipients : [])
+        .map((email) => String(email ?? '').trim().toLowerCase())
+        .filter(Boolean)
+    )];
+    if (!Number.isInteger(sendWeekday) || sendWeekday < 0 || sendWeekday > 6) {
+      return NextResponse.json({ error: 'Choose the day of the week for the digest.' }, { status: 400 });
+    }
+    const invalid = recipients.filter((email) => !isValidEmail(email) || email.length > 320);
+    if (invalid.length > 0) {
+      return NextResponse.json({ error: `Invalid recipient email: ${invalid.join(', ')}` }, { status: 400 });
+    }
+    if (recipients.length > MAX_RECIPIENTS) {
+      return NextResponse.json({ error: `The digest can go to at most ${MAX_RECIPIENTS} addresses.` }, { status: 400 });
+    }
+    if (payload.enabled === true && recipients.length === 0) {
+      return NextResponse.json({ error: 'Add at least one recipient before turning on the digest.' }, { status: 400 });
+    }
+
+    const currentSettings = await getAdminDigestSettings();
+    const settings = {
+      enabled: payload.enabled === true,
+      sendWeekday,
+      recipients,
+      lastSentAt: currentSettings.lastSentAt,
+    };
+    await saveAdminDigestSettings(settings, auth.admin);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Failed to save admin digest settings:', error);
+    return NextResponse.json({ error: 'Failed to save admin digest settings.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getNotificationSettings, listAssignmentResponses } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const { unansweredAssignmentDays } = await getNotificationSettings();
+    const responses = await listAssignmentResponses(unansweredAssignmentDays);
+    return NextResponse.json({ ...responses, unansweredAssignmentDays });
+  } catch (error) {
+    console.error('Failed to load assignment responses:', error);
+    return NextResponse.json({ error: 'Failed to load assignment responses.' }, { status: 500 });
+  }
+}
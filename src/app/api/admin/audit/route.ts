@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_AUDIT_ACTIONS, listAdminAuditEvents, type MysqlAdminAuditEventDto } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+function cleanDate(value: string | null): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+}
+
+/** Quotes the cell, and prefixes `'` where a spreadsheet would read it as a formula. */
+function csvCell(value: unknown): string {
+  const raw = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[,"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(events: MysqlAdminAuditEventDto[]): string {
+  const header = ['occurred_at', 'actor_name', 'actor_email', 'action', 'entity_type', 'entity_id', 'field', 'before', 'after'];
+  const rows = events.flatMap((event) => {
+    const base = [event.occurredAt, event.actorName, event.actorEmail, event.action, event.entityType, event.entityId];
+    return event.changes.length
+      ? event.changes.map((change) => [...base, change.field, change.before, change.after])
+      : [[...base, '', '', '']];
+  });
+  return `${[header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n')}\n`;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('audit:view');
+    if (auth.response) return auth.response;
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get('format');
+    const events = await listAdminAuditEvents({
+      action: params.get('action') || undefined,
+      entityType: params.get('entityType') || undefined,
+      entityId: params.get('entityId')?.trim() || undefined,
+      actor: params.get('actor')?.trim() || undefined,
+      from: cleanDate(params.get('from')),
+      to: cleanDate(params.get('to')),
+      limit: format === 'csv' ? 5000 : 300,
+    });
+
+    if (format === 'csv') {
+      const date = new Date().toISOString().slice(0, 10);
+      return new NextResponse(toCsv(events), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="admin_audit_${date}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ events, actions: ADMIN_AUDIT_ACTIONS });
+  } catch (error) {
+    console.error('Failed to load admin audit log:', error);
+    return NextResponse.json({ error: 'Failed to load the audit log.' }, { status: 500 });
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { parseProtocolSpreadsheetText } from '@/lib/protocolCsvParser';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
     const body = await request.json();
     if (typeof body?.text !== 'string') {
       return NextResponse.json({ error: 'Spreadsheet text is required.' }, { status: 400 });
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { discardEmailTemplateDraft, saveEmailTemplateDraft } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+type Context = { params: Promise<{ code: string }> };
+
+/** Saves the draft version, starting one when there is none. */
+export async function PUT(request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const { code } = await context.params;
+    const body = await request.json() as { subject?: unknown; body?: unknown };
+    const draft = await saveEmailTemplateDraft({
+      code: decodeURIComponent(code),
+      subject: typeof body.subject === 'string' ? body.subject : '',
+      body: typeof body.body === 'string' ? body.body : '',
+      actor: auth.admin,
+    });
+    return NextResponse.json({ draft });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to save the draft.';
+    console.error('Failed to save email template draft:', error);
+    return NextResponse.json({ error: message }, { status: message.includes('not found') ? 404 : 400 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const { code } = await context.params;
+    await discardEmailTemplateDraft({ code: decodeURIComponent(code), actor: auth.admin });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to discard the draft.';
+    console.error('Failed to discard email template draft:', error);
+    return NextResponse.json({ error: message }, { status: message.includes('not found') ? 404 : 400 });
+  }
+}
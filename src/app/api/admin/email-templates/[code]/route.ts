@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEmailTemplateEditor } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+/** The template with its draft and published versions. */
+export async function GET(_request: NextRequest, context: { params: Promise<{ code: string }> }) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const { code } = await context.params;
+    const editor = await getEmailTemplateEditor(decodeURIComponent(code));
+    if (!editor) return NextResponse.json({ error: 'Email template not found.' }, { status: 404 });
+    return NextResponse.json(editor);
+  } catch (error) {
+    console.error('Failed to load email template:', error);
+    return NextResponse.json({ error: 'Failed to load the email template.' }, { status: 500 });
+  }
+}
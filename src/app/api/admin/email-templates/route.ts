@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { listEmailTemplates } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    return NextResponse.json({ templates: await listEmailTemplates() });
+  } catch (error) {
+    console.error('Failed to load email templates:', error);
+    return NextResponse.json({ error: 'Failed to load email templates.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createExpertiseTag, listExpertiseTags } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    return NextResponse.json({ tags: await listExpertiseTags() });
+  } catch (error) {
+    console.error('Failed to load expertise tags:', error);
+    return NextResponse.json({ error: 'Failed to load expertise tags.' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
+    const body = await request.json() as { name?: unknown; keywords?: unknown };
+    const keywords = typeof body.keywords === 'string' ? body.keywords.split(',') : [];
+    const tag = await createExpertiseTag({
+      name: typeof body.name === 'string' ? body.name : '',
+      keywords,
+      actor: auth.admin,
+    });
+    return NextResponse.json({ tag }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create expertise tag:', error);
+    const message = error instanceof Error ? error.message : 'Failed to create expertise tag.';
+    return NextResponse.json({ error: message }, { status: message.includes('already exists') ? 409 : 400 });
+  }
+}
@@ -0,0 +1,95 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { decideDueDateExtension, enqueueMailBatch, type MysqlDueDateExtensionDto } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { getAppUrl } from '@/lib/appUrl';
+import { escapeHtml, preferencesFooter } from '@/lib/emailTemplates';
+import { getMailRetryAttempts } from '@/lib/mailer';
+import { processMailQueue } from '@/lib/mailQueue';
+import { reviewerPreferencesUrl } from '@/lib/reviewerPreferences';
+
+export const runtime = 'nodejs';
+
+/**
+ * Queues the decision email for the reviewer. The decision is already saved,
+ * so a queueing failure is only logged; the mail worker sends it after the
+ * response and retries it like any other notification.
+ */
+async function notifyReviewer(request: NextRequest, extension: MysqlDueDateExtensionDto): Promise<void> {
+  const approved = extension.status === 'approved';
+  const subject = `Extension ${approved ? 'approved' : 'not approved'}: ${extension.recCode}`;
+  const outcome = approved
+    ? `Your review is now due on ${extension.requestedDueDate}.`
+    : `Your review is still due on ${extension.currentDueDate || 'the original date'}.`;
+  const appUrl = getAppUrl(request);
+  const url = `${appUrl}/reviewer/protocols/${encodeURIComponent(extension.protocolInternalId)}?assignmentId=${encodeURIComponent(extension.assignmentId)}`;
+  const footer = preferencesFooter(await reviewerPreferencesUrl(appUrl, extension.reviewerInternalId));
+  const { queued } = await enqueueMailBatch({
+    scope: 'notice',
+    notificationType: 'extension_decision',
+    subject,
+    templateVersionId: null,
+    source: 'admin',
+    monthKey: '',
+    weekKey: '',
+    periodLabel: subject,
+    protocolCount: 1,
+    maxAttempts: getMailRetryAttempts(),
+  }, [{
+    reviewerId: extension.reviewerInternalId,
+    requestedReviewerId: extension.reviewerId,
+    recipientName: extension.reviewerName,
+    recipientEmail: extension.reviewerEmail || '',
+    protocolCount: 1,
+    subject,
+    html: `<!doctype html><html><body style="font-family:Arial,sans-serif;color:#1f2937">
+      <h2>${escapeHtml(subject)}</h2><p>Dear ${escapeHtml(extension.reviewerName)},</p>
+      <p>Your request to move the due date of <strong>${escapeHtml(extension.recCode)}</strong>
+        (${escapeHtml(extension.researchTitle)}) to ${escapeHtml(extension.requestedDueDate)} was
+        ${approved ? 'approved' : 'not approved'}. ${escapeHtml(outcome)}</p>
+      ${extension.decisionNote ? `<p>Note from the REC secretariat: ${escapeHtml(extension.decisionNote)}</p>` : ''}
+      <p><a href="${escapeHtml(url)}">Open the protocol in the reviewer portal</a></p>
+      ${footer.html}
+    </body></html>`,
+    text: `${subject}\n\nDear ${extension.reviewerName},\n\nYour request to move the due date of ${extension.recCode} (${extension.researchTitle}) to ${extension.requestedDueDate} was ${approved ? 'approved' : 'not approved'}. ${outcome}\n${extension.decisionNote ? `\nNote from the REC secretariat: ${extension.decisionNote}\n` : ''}\nOpen the protocol: ${url}${footer.text}`,
+    skipReason: extension.reviewerEmail ? null : 'Reviewer has no email address.',
+  }]);
+
+  if (queued > 0) {
+    after(async () => {
+      try {
+        await processMailQueue();
+      } catch (error) {
+        console.error('Failed to process the mail queue after queueing an extension decision:', error);
+      }
+    });
+  }
+}
+
+export async function PATCH(request: NextRequest, context: { params: Promise<{ requestId: string }> }) {
+  try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
+    const { requestId } = await context.params;
+    if (!/^\d+$/.test(requestId)) return NextResponse.json({ error: 'Invalid extension request identifier.' }, { status: 400 });
+    const body = await request.json() as { decision?: unknown; note?: unknown };
+    if (body.decision !== 'approved' && body.decision !== 'rejected') {
+      return NextResponse.json({ error: 'Decision must be approved or rejected.' }, { status: 400 });
+    }
+
+    const extension = await decideDueDateExtension({
+      requestId,
+      decision: body.decision,
+      note: typeof body.note === 'string' ? body.note : undefined,
+      actor: auth.admin,
+    });
+    await notifyReviewer(request, extension).catch((error) => {
+      console.error('Failed to queue the extension decision email:', error);
+    });
+    return NextResponse.json({ extension });
+  } catch (error) {
+    console.error('Failed to decide extension request:', error);
+    const message = error instanceof Error ? error.message : 'Failed to decide the extension request.';
+    return NextResponse.json({ error: message }, { status: message.includes('not found') ? 404 : 400 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDueDateExtensions, type MysqlExtensionStatus } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+const STATUSES: MysqlExtensionStatus[] = ['pending', 'approved', 'rejected'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const status = request.nextUrl.searchParams.get('status') || 'pending';
+    if (status !== 'all' && !STATUSES.includes(status as MysqlExtensionStatus)) {
+      return NextResponse.json({ error: 'Unknown extension request status.' }, { status: 400 });
+    }
+    const extensions = await listDueDateExtensions({
+      status: status === 'all' ? undefined : status as MysqlExtensionStatus,
+    });
+    return NextResponse.json({ extensions });
+  } catch (error) {
+    console.error('Failed to list extension requests:', error);
+    return NextResponse.json({ error: 'Failed to load extension requests.' }, { status: 500 });
+  }
+}
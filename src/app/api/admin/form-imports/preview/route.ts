@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reconcileFormResponses } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { readFormImportUpload, usedColumns } from '../upload';
+
+export const runtime = 'nodejs';
+
+/** Matches an uploaded export to assignments without changing anything. */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
+    const upload = await readFormImportUpload(request);
+    const rows = await reconcileFormResponses(upload.formType, upload.parsed.rows);
+    return NextResponse.json({
+      headers: upload.parsed.headers,
+      columns: usedColumns(upload.parsed),
+      rows,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'The export could not be read.';
+    console.error('Failed to preview form response import:', error);
+    return NextResponse.json({ error: message }, { status: message.includes('not found') ? 404 : 400 });
+  }
+}
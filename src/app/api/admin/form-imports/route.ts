@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyFormResponseImport, listReviewFormTypes, reconcileFormResponses } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { readFormImportUpload, usedColumns } from './upload';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
+    return NextResponse.json({ formTypes: await listReviewFormTypes() });
+  } catch (error) {
+    console.error('Failed to load form types for import:', error);
+    return NextResponse.json({ error: 'Failed to load form types.' }, { status: 500 });
+  }
+}
+
+/**
+ * Completes the assignments matched by the export. The file is matched again
+ * here, so only rows that are still ready and were kept in the preview count.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
+    const upload = await readFormImportUpload(request);
+    const rowNumbers = JSON.parse(String(upload.form.get('rowNumbers') ?? '[]')) as unknown;
+    if (!Array.isArray(rowNumbers) || !rowNumbers.every((value) => Number.isInteger(value))) {
+      return NextResponse.json({ error: 'Choose the rows to import.' }, { status: 400 });
+    }
+
+    const completed = await applyFormResponseImport({
+      formType: upload.formType,
+      fileName: upload.fileName,
+      rows: upload.parsed.rows,
+      rowNumbers: rowNumbers as number[],
+      actor: auth.admin,
+    });
+    return NextResponse.json({
+      completed,
+      headers: upload.parsed.headers,
+      columns: usedColumns(upload.parsed),
+      rows: await reconcileFormResponses(upload.formType, upload.parsed.rows),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to import the responses.';
+    console.error('Failed to import form responses:', error);
+    return NextResponse.json({ error: message }, { status: message.includes('not found') ? 404 : 400 });
+  }
+}
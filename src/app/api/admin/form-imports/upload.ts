@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { parseFormResponseFile, type FormResponseParseResult } from '@/lib/formResponseImport';
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+export interface FormImportUpload {
+  formType: string;
+  fileName: string;
+  parsed: FormResponseParseResult;
+  form: FormData;
+}
+
+function formText(form: FormData, name: string): string {
+  const value = form.get(name);
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/** Reads the multipart upload shared by the preview and import requests. */
+export async function readFormImportUpload(request: NextRequest): Promise<FormImportUpload> {
+  const form = await request.formData();
+  const file = form.get('file');
+  const formType = formText(form, 'formType');
+  if (!formType) throw new Error('Choose the form type the responses belong to.');
+  if (!(file instanceof File) || file.size === 0) throw new Error('Choose a CSV or Excel response export.');
+  if (!/\.(csv|txt|xlsx|xls)$/i.test(file.name)) throw new Error('Upload the export as a .csv or .xlsx file.');
+  if (file.size > MAX_IMPORT_BYTES) throw new Error('The export must be 5 MB or smaller.');
+
+  const parsed = parseFormResponseFile(file.name, Buffer.from(await file.arrayBuffer()), {
+    recCodeColumn: formText(form, 'recCodeColumn') || undefined,
+    reviewerColumn: formText(form, 'reviewerColumn') || undefined,
+  });
+  return { formType, fileName: file.name, parsed, form };
+}
+
+/** Column names the parser used, so the page can show and change them. */
+export function usedColumns({ headers, columns }: FormResponseParseResult) {
+  const name = (index: number | null) => index === null ? null : headers[index] ?? null;
+  return {
+    recCode: name(columns.recCode),
+    reviewer: columns.reviewer.map((index) => headers[index]),
+    completedAt: name(columns.completedAt),
+    recommendation: name(columns.recommendation),
+    comments: name(columns.comments),
+  };
+}
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import type { ResultSetHeader } from 'mysql2/promise';
-import { listMailBatches, listMailDeliveries, withTransaction } from '@/lib/mysql';
+import { listMailBatches, listMailDeliveries, recordAdminAudit, withTransaction } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export const runtime = 'nodejs';
 
 export async function GET() {
   try {
+    const auth = await authorizeAdmin('mail:send');
+    if (auth.response) return auth.response;
+
     const [batches, logs] = await Promise.all([listMailBatches(30), listMailDeliveries(150)]);
     return NextResponse.json({ batches, logs });
   } catch (error) {
@@ -16,6 +20,9 @@ export async function GET() {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const auth = await authorizeAdmin('mail:send');
+    if (auth.response) return auth.response;
+
     const { batchId } = await request.json();
     if (!batchId) return NextResponse.json({ error: 'Batch ID is required.' }, { status: 400 });
     const archived = await withTransaction(async (connection) => {
@@ -32,6 +39,14 @@ export async function DELETE(request: NextRequest) {
         SET md.archived_at = UTC_TIMESTAMP(6)
         WHERE (mb.legacy_id = ? OR CAST(mb.id AS CHAR) = ?) AND md.archived_at IS NULL
       `, [batchId, batchId]);
+      await recordAdminAudit(connection, {
+        actor: auth.admin,
+        action: 'mail_batch.archive',
+        entityType: 'mail_batch',
+        entityId: String(batchId),
+        before: { archived: false },
+        after: { archived: true },
+      });
       return result.affectedRows;
     });
     if (!archived) return NextResponse.json({ error: 'Only inactive batches can be archived.' }, { status: 409 });
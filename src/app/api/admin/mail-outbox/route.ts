@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { clearMemoryOutbox, getMailerMode, getMemoryOutbox } from '@/lib/mailer';
+
+export const runtime = 'nodejs';
+
+/** The mailer mode and, with `MAIL_MAILER=memory`, the messages this server has captured. */
+export async function GET() {
+  try {
+    const auth = await authorizeAdmin('mail:send');
+    if (auth.response) return auth.response;
+
+    const mode = getMailerMode();
+    return NextResponse.json({ mode, messages: mode === 'memory' ? getMemoryOutbox() : [] });
+  } catch (error) {
+    console.error('Failed to load the mail outbox:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to load the mail outbox.' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const auth = await authorizeAdmin('mail:send');
+    if (auth.response) return auth.response;
+
+    clearMemoryOutbox();
+    return NextResponse.json({ cleared: true });
+  } catch (error) {
+    console.error('Failed to clear the mail outbox:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to clear the mail outbox.' }, { status: 500 });
+  }
+}
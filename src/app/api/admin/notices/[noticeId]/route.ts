@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { ResultSetHeader } from 'mysql2';
-import { mysqlPool } from '@/lib/mysql';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import {
+  dateOnly,
+  queryRows,
+  recordAdminAudit,
+  withTransaction,
+  type MysqlExecutor,
+} from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export const runtime = 'nodejs';
 
@@ -21,11 +28,31 @@ function parseExpiry(value: unknown): string | null | undefined {
     : `${value} 00:00:00.000000`;
 }
 
+async function lockNotice(executor: MysqlExecutor, id: number) {
+  const rows = await queryRows<RowDataPacket & {
+    title: string;
+    content: string;
+    priority: string;
+    expires_at: string | null;
+  }>(`
+    SELECT title, content, priority, expires_at FROM notices
+    WHERE id = ? AND deleted_at IS NULL
+    FOR UPDATE
+  `, [id], executor);
+  const row = rows[0];
+  return row
+    ? { title: row.title, content: row.content, priority: row.priority, expiresAt: dateOnly(row.expires_at) || null }
+    : null;
+}
+
 export async function PATCH(
   request: NextRequest,
   context: { params: Promise<{ noticeId: string }> }
 ) {
   try {
+    const auth = await authorizeAdmin('notices:publish');
+    if (auth.response) return auth.response;
+
     const { noticeId } = await context.params;
     const id = parseId(noticeId);
     if (!id) return NextResponse.json({ error: 'Invalid notice ID.' }, { status: 400 });
@@ -46,12 +73,25 @@ export async function PATCH(
       return NextResponse.json({ error: 'Expiration date must use YYYY-MM-DD.' }, { status: 400 });
     }
 
-    const [result] = await mysqlPool.execute<ResultSetHeader>(`
-      UPDATE notices
-      SET title = ?, content = ?, priority = ?, expires_at = ?
-      WHERE id = ? AND deleted_at IS NULL
-    `, [title, content, priority, expiresAt, id]);
-    if (result.affectedRows === 0) {
+    const updated = await withTransaction(async (connection) => {
+      const before = await lockNotice(connection, id);
+      if (!before) return false;
+      await connection.execute<ResultSetHeader>(`
+        UPDATE notices
+        SET title = ?, content = ?, priority = ?, expires_at = ?
+        WHERE id = ? AND deleted_at IS NULL
+      `, [title, content, priority, expiresAt, id]);
+      await recordAdminAudit(connection, {
+        actor: auth.admin,
+        action: 'notice.update',
+        entityType: 'notice',
+        entityId: String(id),
+        before,
+        after: { title, content, priority, expiresAt: expiresAt?.slice(0, 10) ?? null },
+      });
+      return true;
+    });
+    if (!updated) {
       return NextResponse.json({ error: 'Notice not found.' }, { status: 404 });
     }
     return NextResponse.json({ updated: true });
@@ -66,16 +106,32 @@ export async function DELETE(
   context: { params: Promise<{ noticeId: string }> }
 ) {
   try {
+    const auth = await authorizeAdmin('notices:publish');
+    if (auth.response) return auth.response;
+
     const { noticeId } = await context.params;
     const id = parseId(noticeId);
     if (!id) return NextResponse.json({ error: 'Invalid notice ID.' }, { status: 400 });
 
-    const [result] = await mysqlPool.execute<ResultSetHeader>(`
-      UPDATE notices
-      SET deleted_at = COALESCE(deleted_at, CURRENT_TIMESTAMP(6))
-      WHERE id = ? AND deleted_at IS NULL
-    `, [id]);
-    if (result.affectedRows === 0) {
+    const archived = await withTransaction(async (connection) => {
+      const before = await lockNotice(connection, id);
+      if (!before) return false;
+      await connection.execute<ResultSetHeader>(`
+        UPDATE notices
+        SET deleted_at = COALESCE(deleted_at, CURRENT_TIMESTAMP(6))
+        WHERE id = ? AND deleted_at IS NULL
+      `, [id]);
+      await recordAdminAudit(connection, {
+        actor: auth.admin,
+        action: 'notice.archive',
+        entityType: 'notice',
+        entityId: String(id),
+        before,
+        after: null,
+      });
+      return true;
+    });
+    if (!archived) {
       return NextResponse.json({ error: 'Notice not found.' }, { status: 404 });
     }
     return NextResponse.json({ archived: true });
@@ -1,6 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
 import type { ResultSetHeader, RowDataPacket } from 'mysql2';
-import { mysqlPool } from '@/lib/mysql';
+import { mysqlPool, recordAdminAudit, withTransaction } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { getAppUrl } from '@/lib/appUrl';
+import { processMailQueue } from '@/lib/mailQueue';
+import { queueNoticeEmails } from '@/lib/noticeEmails';
 
 export const runtime = 'nodejs';
 
@@ -70,6 +74,9 @@ function parseExpiry(value: unknown): string | null | undefined {
 
 export async function GET() {
   try {
+    const auth = await authorizeAdmin('notices:publish');
+    if (auth.response) return auth.response;
+
     const [rows] = await mysqlPool.execute<NoticeRow[]>(`
       SELECT
         n.id,
@@ -93,6 +100,9 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeAdmin('notices:publish');
+    if (auth.response) return auth.response;
+
     const payload = await request.json() as Record<string, unknown>;
     const title = cleanString(payload.title);
     const content = cleanString(payload.content);
@@ -109,12 +119,47 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Expiration date must use YYYY-MM-DD.' }, { status: 400 });
     }
 
-    const [result] = await mysqlPool.execute<ResultSetHeader>(`
-      INSERT INTO notices (title, content, priority, published_at, expires_at)
-      VALUES (?, ?, ?, CURRENT_TIMESTAMP(6), ?)
-    `, [title, content, priority, expiresAt]);
+    const id = await withTransaction(async (connection) => {
+      const [result] = await connection.execute<ResultSetHeader>(`
+        INSERT INTO notices (title, content, priority, published_at, expires_at)
+        VALUES (?, ?, ?, CURRENT_TIMESTAMP(6), ?)
+      `, [title, content, priority, expiresAt]);
+      await recordAdminAudit(connection, {
+        actor: auth.admin,
+        action: 'notice.create',
+        entityType: 'notice',
+        entityId: String(result.insertId),
+        before: null,
+        after: { title, content, priority, expiresAt: expiresAt?.slice(0, 10) ?? null },
+      });
+      return String(result.insertId);
+    });
 
-    return NextResponse.json({ id: String(result.insertId) }, { status: 201 });
+    // The notice is saved before it is emailed; a failure to queue is
+    // reported but does not undo the notice.
+    if (payload.emailReviewers !== true) {
+      return NextResponse.json({ id }, { status: 201 });
+    }
+    try {
+      const email = await queueNoticeEmails({
+        title,
+        content,
+        appUrl: getAppUrl(request),
+      });
+      if (email.queued > 0) {
+        after(async () => {
+          try {
+            await processMailQueue();
+          } catch (error) {
+            console.error('Failed to process the mail queue after queueing a notice:', error);
+          }
+        });
+      }
+      return NextResponse.json({ id, email }, { status: 201 });
+    } catch (error) {
+      console.error('Failed to queue notice emails:', error);
+      return NextResponse.json({ id, emailError: 'The notice was published, but emails could not be queued.' }, { status: 201 });
+    }
   } catch (error) {
     console.error('Failed to create notice:', error);
     return NextResponse.json({ error: 'Failed to create notice.' }, { status: 500 });
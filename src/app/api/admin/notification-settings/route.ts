@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getNotificationSettings, saveNotificationSettings } from '@/lib/mysql';
 import type { MysqlNotificationSettingsDto } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { DUE_SOON_THRESHOLD_MAX, DUE_SOON_THRESHOLD_MIN } from '@/lib/reviewReminders';
 
 export const runtime = 'nodejs';
 
+function isValidEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
 export async function GET() {
   try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
     return NextResponse.json({ settings: await getNotificationSettings() });
   } catch (error) {
     console.error('Failed to load notification settings:', error);
@@ -15,14 +24,40 @@ export async function GET() {
 
 export async function PUT(request: NextRequest) {
   try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
     const payload = await request.json() as Record<string, unknown>;
     const frequency = payload.frequency;
     const threshold = Number(payload.dueSoonThreshold);
+    const unansweredDays = Number(payload.unansweredAssignmentDays ?? 3);
+    const firstNudgeDays = Number(payload.overdueFirstNudgeDays ?? 1);
+    const secondNudgeDays = Number(payload.overdueSecondNudgeDays ?? 3);
+    const chairDays = Number(payload.chairEscalationDays ?? 5);
+    const chairEmail = typeof payload.chairEscalationEmail === 'string' ? payload.chairEscalationEmail.trim() : '';
     if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'twice-weekly') {
       return NextResponse.json({ error: 'Invalid reminder frequency.' }, { status: 400 });
     }
-    if (!Number.isInteger(threshold) || threshold < 1 || threshold > 14) {
-      return NextResponse.json({ error: 'Due-soon threshold must be between 1 and 14 days.' }, { status: 400 });
+    if (!Number.isInteger(threshold) || threshold < DUE_SOON_THRESHOLD_MIN || threshold > DUE_SOON_THRESHOLD_MAX) {
+      return NextResponse.json({
+        error: `Due-soon threshold must be between ${DUE_SOON_THRESHOLD_MIN} and ${DUE_SOON_THRESHOLD_MAX} days.`,
+      }, { status: 400 });
+    }
+    if (!Number.isInteger(unansweredDays) || unansweredDays < 1 || unansweredDays > 14) {
+      return NextResponse.json({ error: 'Unanswered assignment days must be between 1 and 14.' }, { status: 400 });
+    }
+    if (
+      ![firstNudgeDays, secondNudgeDays, chairDays].every(Number.isInteger)
+      || firstNudgeDays < 1 || secondNudgeDays <= firstNudgeDays
+      || chairDays <= secondNudgeDays || chairDays > 60
+    ) {
+      return NextResponse.json({
+        error: 'Overdue escalation days must increase from the first nudge to the chair digest, between 1 and 60.',
+      }, { status: 400 });
+    }
+
+    if (chairEmail && (!isValidEmail(chairEmail) || chairEmail.length > 320)) {
+      return NextResponse.json({ error: 'Enter a valid chair digest email address, or leave it blank.' }, { status: 400 });
     }
 
     const currentSettings = await getNotificationSettings();
@@ -31,9 +66,15 @@ export async function PUT(request: NextRequest) {
       frequency: frequency as MysqlNotificationSettingsDto['frequency'],
       sendToReviewers: payload.sendToReviewers !== false,
       dueSoonThreshold: threshold,
+      unansweredAssignmentDays: unansweredDays,
+      escalationEnabled: payload.escalationEnabled === true,
+      overdueFirstNudgeDays: firstNudgeDays,
+      overdueSecondNudgeDays: secondNudgeDays,
+      chairEscalationDays: chairDays,
+      chairEscalationEmail: chairEmail || null,
       lastRun: currentSettings.lastRun,
     };
-    await saveNotificationSettings(settings);
+    await saveNotificationSettings(settings, auth.admin);
 
     return NextResponse.json({
       settings,
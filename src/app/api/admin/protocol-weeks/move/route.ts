@@ -1,15 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { moveProtocolWeekMysql } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
     const body = await request.json();
     const sourceMonthId = String(body.sourceMonthId || '');
     const targetMonthId = String(body.targetMonthId || '');
     const weekId = String(body.weekId || '');
-    const movedCount = await moveProtocolWeekMysql({ sourceMonthId, targetMonthId, weekId });
+    const movedCount = await moveProtocolWeekMysql({
+      sourceMonthId,
+      targetMonthId,
+      weekId,
+      actor: auth.admin,
+    });
     return NextResponse.json({ movedCount, sourceMonthId, targetMonthId, weekId });
   } catch (error) {
     console.error('Failed to move protocol week:', error);
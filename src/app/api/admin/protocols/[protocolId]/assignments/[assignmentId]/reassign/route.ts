@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { reassignProtocolAssignment } from '@/lib/mysql';
+import { reassignProtocolAssignment, ReviewerConflictError } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export const runtime = 'nodejs';
 
@@ -7,6 +8,9 @@ export async function POST(request: NextRequest, context: {
   params: Promise<{ protocolId: string; assignmentId: string }>;
 }) {
   try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
     const [{ protocolId, assignmentId }, body] = await Promise.all([context.params, request.json()]);
     await reassignProtocolAssignment({
       protocolId,
@@ -14,9 +18,17 @@ export async function POST(request: NextRequest, context: {
       reviewerCode: String(body.reviewerCode || ''),
       status: String(body.status || 'In Progress'),
       dueDate: body.dueDate,
+      acknowledgeConflicts: body.acknowledgeConflicts === true,
+      actor: auth.admin,
     });
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof ReviewerConflictError) {
+      return NextResponse.json(
+        { error: error.message, conflicts: error.conflicts, canAcknowledge: !error.blocking },
+        { status: 409 }
+      );
+    }
     console.error('Failed to reassign protocol:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to reassign protocol.' },
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProtocolReviewSummary, recordAssignmentRecommendation } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { isReviewRecommendation } from '@/lib/protocolLifecycle';
+
+export const runtime = 'nodejs';
+
+/** Enters the recommendation of a review that was returned outside the app. */
+export async function PUT(request: NextRequest, context: {
+  params: Promise<{ protocolId: string; assignmentId: string }>;
+}) {
+  try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
+    const [{ protocolId, assignmentId }, body] = await Promise.all([context.params, request.json()]);
+    if (!isReviewRecommendation(body.recommendation)) {
+      return NextResponse.json({ error: 'Choose the reviewer\'s recommendation.' }, { status: 400 });
+    }
+
+    await recordAssignmentRecommendation({
+      protocolId,
+      assignmentId,
+      recommendation: body.recommendation,
+      comments: typeof body.comments === 'string' ? body.comments : undefined,
+      actor: auth.admin,
+    });
+    return NextResponse.json({ summary: await getProtocolReviewSummary(protocolId) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to record the recommendation.';
+    console.error('Failed to record assignment recommendation:', error);
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : message.includes('submitted review form') ? 409 : 400 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { listProtocolAudits } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export const runtime = 'nodejs';
 
 export async function GET(_request: NextRequest, context: { params: Promise<{ protocolId: string }> }) {
   try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
     const { protocolId } = await context.params;
     return NextResponse.json({ audits: await listProtocolAudits(protocolId) });
   } catch (error) {
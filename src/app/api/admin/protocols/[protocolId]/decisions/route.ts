@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProtocolByInternalId, listProtocolDecisions, recordProtocolDecision } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { isProtocolLifecycleStatus } from '@/lib/protocolLifecycle';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: NextRequest, context: { params: Promise<{ protocolId: string }> }) {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const { protocolId } = await context.params;
+    return NextResponse.json({ decisions: await listProtocolDecisions(protocolId) });
+  } catch (error) {
+    console.error('Failed to load protocol decisions:', error);
+    return NextResponse.json({ error: 'Failed to load decision history.' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ protocolId: string }> }) {
+  try {
+    const auth = await authorizeAdmin('protocols:decide');
+    if (auth.response) return auth.response;
+
+    const [{ protocolId }, body] = await Promise.all([context.params, request.json()]);
+    if (!isProtocolLifecycleStatus(body.status)) {
+      return NextResponse.json({ error: 'Choose a valid protocol decision.' }, { status: 400 });
+    }
+    if (typeof body.note === 'string' && body.note.length > 2000) {
+      return NextResponse.json({ error: 'Decision notes must be 2000 characters or fewer.' }, { status: 400 });
+    }
+
+    await recordProtocolDecision({
+      protocolId,
+      status: body.status,
+      note: typeof body.note === 'string' ? body.note : undefined,
+      actor: auth.admin,
+    });
+    return NextResponse.json({ protocol: await getProtocolByInternalId(protocolId) });
+  } catch (error) {
+    console.error('Failed to record protocol decision:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record the decision.' },
+      { status: 400 }
+    );
+  }
+}
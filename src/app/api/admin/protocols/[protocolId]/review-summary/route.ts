@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProtocolReviewSummary, listProtocolDecisions } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: NextRequest, context: { params: Promise<{ protocolId: string }> }) {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const { protocolId } = await context.params;
+    const [summary, decisions] = await Promise.all([
+      getProtocolReviewSummary(protocolId),
+      listProtocolDecisions(protocolId),
+    ]);
+    if (!summary) return NextResponse.json({ error: 'Protocol not found.' }, { status: 404 });
+    return NextResponse.json({ summary, decisions });
+  } catch (error) {
+    console.error('Failed to load protocol review summary:', error);
+    return NextResponse.json({ error: 'Failed to load the review summary.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getProtocolByInternalId,
+  listProtocolDecisions,
+  listProtocolReviewRounds,
+  openProtocolReviewRound,
+} from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: NextRequest, context: { params: Promise<{ protocolId: string }> }) {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const { protocolId } = await context.params;
+    const [rounds, decisions] = await Promise.all([
+      listProtocolReviewRounds(protocolId),
+      listProtocolDecisions(protocolId),
+    ]);
+    return NextResponse.json({ rounds, decisions });
+  } catch (error) {
+    console.error('Failed to load protocol review rounds:', error);
+    return NextResponse.json({ error: 'Failed to load review rounds.' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ protocolId: string }> }) {
+  try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
+    const [{ protocolId }, body] = await Promise.all([context.params, request.json()]);
+    if (typeof body.monthId !== 'string' || typeof body.weekId !== 'string') {
+      return NextResponse.json({ error: 'Choose the month and week the resubmission was received.' }, { status: 400 });
+    }
+
+    await openProtocolReviewRound({
+      protocolId,
+      monthId: body.monthId,
+      weekId: body.weekId,
+      dueDate: typeof body.dueDate === 'string' ? body.dueDate : undefined,
+      documentLink: typeof body.documentLink === 'string' ? body.documentLink : undefined,
+      carryOverReviewers: body.carryOverReviewers === true,
+      actor: auth.admin,
+    });
+    return NextResponse.json({ protocol: await getProtocolByInternalId(protocolId) });
+  } catch (error) {
+    console.error('Failed to open protocol review round:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start the next review round.' },
+      { status: 400 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getProtocolByInternalId, saveProtocol, softDeleteProtocol } from '@/lib/mysql';
+import { getProtocolByInternalId, ReviewerConflictError, saveProtocol, softDeleteProtocol } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export const runtime = 'nodejs';
 
 export async function GET(_request: NextRequest, context: { params: Promise<{ protocolId: string }> }) {
   try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
     const { protocolId } = await context.params;
     const protocol = await getProtocolByInternalId(protocolId);
     if (!protocol) return NextResponse.json({ error: 'Protocol not found.' }, { status: 404 });
@@ -23,18 +27,29 @@ export async function GET(_request: NextRequest, context: { params: Promise<{ pr
 
 export async function PATCH(request: NextRequest, context: { params: Promise<{ protocolId: string }> }) {
   try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
     const { protocolId } = await context.params;
     const current = await getProtocolByInternalId(protocolId);
     if (!current) return NextResponse.json({ error: 'Protocol not found.' }, { status: 404 });
     const body = await request.json();
-    await saveProtocol({
+    const { warnings } = await saveProtocol({
       monthId: body.monthId || current.monthId,
       weekId: body.weekId || current.weekId,
       protocol: { ...current, ...(body.protocol || body), internalId: protocolId },
       upsert: true,
+      acknowledgeConflicts: body.acknowledgeConflicts === true,
+      actor: auth.admin,
     });
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, warnings });
   } catch (error) {
+    if (error instanceof ReviewerConflictError) {
+      return NextResponse.json(
+        { error: error.message, conflicts: error.conflicts, canAcknowledge: !error.blocking },
+        { status: 409 }
+      );
+    }
     console.error('Failed to update protocol:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to update protocol.' },
@@ -45,8 +60,11 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ p
 
 export async function DELETE(_request: NextRequest, context: { params: Promise<{ protocolId: string }> }) {
   try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
     const { protocolId } = await context.params;
-    await softDeleteProtocol(protocolId);
+    await softDeleteProtocol(protocolId, auth.admin);
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Failed to delete protocol:', error);
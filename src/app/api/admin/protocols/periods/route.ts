@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProtocolListVersion, listProtocolPeriods } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { cachedJson, listEtag, notModified } from '@/lib/httpCache';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const etag = listEtag(request, await getProtocolListVersion());
+    const unchanged = notModified(request, etag);
+    if (unchanged) return unchanged;
+
+    return cachedJson({ months: await listProtocolPeriods() }, etag);
+  } catch (error) {
+    console.error('Failed to load protocol periods:', error);
+    return NextResponse.json({ error: 'Failed to load protocol periods.' }, { status: 500 });
+  }
+}
@@ -1,27 +1,105 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { listProtocols, saveProtocol } from '@/lib/mysql';
+import {
+  getProtocolListVersion,
+  listProtocolPage,
+  listProtocols,
+  ReviewerConflictError,
+  saveProtocol,
+  type MysqlProtocolDto,
+} from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { cachedJson, listEtag, notModified } from '@/lib/httpCache';
 
 export const runtime = 'nodejs';
 
-function compatibleProtocol(protocol: Awaited<ReturnType<typeof listProtocols>>[number]) {
+/** Fields a `fields=` list may name; the protocol keys are always returned. */
+const PROTOCOL_FIELDS = [
+  'id',
+  'protocol_name',
+  'release_period',
+  'academic_level',
+  'reviewers',
+  'due_date',
+  'status',
+  'round',
+  'decision',
+  'decidedAt',
+  'decidedBy',
+  'protocol_file',
+  'created_at',
+  'research_title',
+  'e_link',
+  'course_program',
+  'nature_of_study',
+  'type_of_study',
+  'expertise_tags',
+  'spup_rec_code',
+  'principal_investigator',
+  'adviser',
+  'monthId',
+  'weekId',
+] as const satisfies ReadonlyArray<keyof MysqlProtocolDto>;
+
+type ProtocolField = typeof PROTOCOL_FIELDS[number];
+
+function compatibleProtocol(protocol: MysqlProtocolDto, fields: ProtocolField[] | null) {
+  const selected = fields
+    ? Object.fromEntries(fields.map((field) => [field, protocol[field]]))
+    : protocol;
   return {
-    ...protocol,
+    ...selected,
+    internalId: protocol.internalId,
     protocolKey: protocol.internalId,
-    reviewers: protocol.reviewers.map((reviewer) => ({
-      ...reviewer,
-      assignmentId: reviewer.internalId,
-    })),
+    ...(!fields || fields.includes('reviewers')
+      ? {
+        reviewers: protocol.reviewers.map((reviewer) => ({
+          ...reviewer,
+          assignmentId: reviewer.internalId,
+        })),
+      }
+      : {}),
   };
 }
 
 export async function GET(request: NextRequest) {
   try {
-    const protocols = await listProtocols({
-      monthId: request.nextUrl.searchParams.get('monthId') || undefined,
-      weekId: request.nextUrl.searchParams.get('weekId') || undefined,
-    });
-    return NextResponse.json({ protocols: protocols.map(compatibleProtocol) });
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const params = request.nextUrl.searchParams;
+    const fieldsParam = params.get('fields');
+    const fields = fieldsParam
+      ? fieldsParam.split(',').map((field) => field.trim()).filter(Boolean)
+      : null;
+    const unknownField = fields?.find((field) => !PROTOCOL_FIELDS.includes(field as ProtocolField));
+    if (unknownField) {
+      return NextResponse.json({ error: `Unknown protocol field: ${unknownField}.` }, { status: 400 });
+    }
+
+    const etag = listEtag(request, await getProtocolListVersion());
+    const unchanged = notModified(request, etag);
+    if (unchanged) return unchanged;
+
+    const selectedFields = fields as ProtocolField[] | null;
+    const filters = {
+      monthId: params.get('monthId') || undefined,
+      weekId: params.get('weekId') || undefined,
+      includeReviewers: !selectedFields || selectedFields.includes('reviewers'),
+    };
+    const limit = Number(params.get('limit'));
+
+    // Without a limit the full list is returned, as existing callers expect.
+    const { protocols, nextCursor } = limit > 0
+      ? await listProtocolPage({ ...filters, limit, cursor: params.get('cursor') || undefined })
+      : { protocols: await listProtocols(filters), nextCursor: null };
+    return cachedJson({
+      protocols: protocols.map((protocol) => compatibleProtocol(protocol, selectedFields)),
+      nextCursor,
+    }, etag);
   } catch (error) {
+    if (error instanceof Error && error.message === 'Cursor is invalid.') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Failed to list MySQL protocols:', error);
     return NextResponse.json({ error: 'Failed to load protocols.' }, { status: 500 });
   }
@@ -29,15 +107,26 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
     const body = await request.json();
-    const protocolKey = await saveProtocol({
+    const { protocolKey, warnings } = await saveProtocol({
       monthId: String(body.monthId || ''),
       weekId: String(body.weekId || ''),
       protocol: body.protocol || {},
       upsert: Boolean(body.upsert),
+      acknowledgeConflicts: body.acknowledgeConflicts === true,
+      actor: auth.admin,
     });
-    return NextResponse.json({ protocolKey }, { status: 201 });
+    return NextResponse.json({ protocolKey, warnings }, { status: 201 });
   } catch (error) {
+    if (error instanceof ReviewerConflictError) {
+      return NextResponse.json(
+        { error: error.message, conflicts: error.conflicts, canAcknowledge: !error.blocking },
+        { status: 409 }
+      );
+    }
     console.error('Failed to save MySQL protocol:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to save protocol.' },
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PROTOCOL_SEARCH_SORTS, searchProtocols, type ProtocolSearchSort } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { isProtocolLifecycleStatus } from '@/lib/protocolLifecycle';
+
+export const runtime = 'nodejs';
+
+function cleanMonth(value: string | null): string | undefined {
+  return value && /^\d{4}-\d{2}$/.test(value) ? value : undefined;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const params = request.nextUrl.searchParams;
+    const sort = params.get('sort');
+    if (sort && !PROTOCOL_SEARCH_SORTS.includes(sort as ProtocolSearchSort)) {
+      return NextResponse.json({ error: `Sort must be one of ${PROTOCOL_SEARCH_SORTS.join(', ')}.` }, { status: 400 });
+    }
+    const statuses = params.getAll('status').flatMap((value) => value.split(',')).filter(Boolean);
+    if (!statuses.every(isProtocolLifecycleStatus)) {
+      return NextResponse.json({ error: 'Choose a valid protocol status.' }, { status: 400 });
+    }
+
+    const result = await searchProtocols({
+      query: params.get('q') || undefined,
+      statuses,
+      fromMonth: cleanMonth(params.get('from')),
+      toMonth: cleanMonth(params.get('to')),
+      courseProgram: params.get('course') || undefined,
+      reviewer: params.get('reviewer') || undefined,
+      formType: params.get('formType') || undefined,
+      overdue: params.get('overdue') === 'true',
+      sort: (sort as ProtocolSearchSort | null) ?? undefined,
+      cursor: params.get('cursor') || undefined,
+      limit: Number(params.get('limit')) || undefined,
+    });
+    return NextResponse.json({
+      protocols: result.protocols.map((protocol) => ({
+        ...protocol,
+        protocolKey: protocol.internalId,
+        reviewers: protocol.reviewers.map((reviewer) => ({ ...reviewer, assignmentId: reviewer.internalId })),
+      })),
+      nextCursor: result.nextCursor,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Cursor is invalid.') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to search protocols:', error);
+    return NextResponse.json({ error: 'Failed to search protocols.' }, { status: 500 });
+  }
+}
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { buildSummaryFromRows, validateGenerationPayload, type RequestDocumentsGenerationPayload } from '@/lib/requestDocuments';
 import { generateLetterDocument } from '@/lib/requestDocumentsDocx';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeAdmin('request-documents:generate');
+    if (auth.response) return auth.response;
+
     const payload = await request.json() as RequestDocumentsGenerationPayload;
     const validationErrors = validateGenerationPayload(payload);
 
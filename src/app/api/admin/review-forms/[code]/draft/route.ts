@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { discardReviewFormDraft, saveReviewFormDraft, type ReviewFormDraftInput } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import type { ReviewRecommendation } from '@/lib/protocolLifecycle';
+
+export const runtime = 'nodejs';
+
+type Context = { params: Promise<{ code: string }> };
+
+function stringValue(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function recordList(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+    : [];
+}
+
+function draftInput(body: Record<string, unknown>): ReviewFormDraftInput {
+  return {
+    sections: recordList(body.sections).map((section) => ({
+      title: stringValue(section.title),
+      description: stringValue(section.description),
+      questions: recordList(section.questions).map((question) => ({
+        key: stringValue(question.key),
+        prompt: stringValue(question.prompt),
+        helpText: stringValue(question.helpText),
+        answerType: question.answerType === 'text' ? 'text' : 'yes_no_na',
+        required: question.required !== false,
+      })),
+    })),
+    recommendations: recordList(body.recommendations).map((choice) => ({
+      label: stringValue(choice.label),
+      // Checked against the known outcomes when the draft is saved.
+      outcome: stringValue(choice.outcome) as ReviewRecommendation,
+    })),
+  };
+}
+
+/** Saves the draft version, starting one from scratch when there is none. */
+export async function PUT(request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const { code } = await context.params;
+    const body = await request.json() as Record<string, unknown>;
+    const draft = await saveReviewFormDraft({
+      code: decodeURIComponent(code),
+      draft: draftInput(body),
+      actor: auth.admin,
+    });
+    return NextResponse.json({ draft });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to save the draft.';
+    console.error('Failed to save review form draft:', error);
+    return NextResponse.json({ error: message }, { status: message.includes('not found') ? 404 : 400 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const { code } = await context.params;
+    await discardReviewFormDraft({ code: decodeURIComponent(code), actor: auth.admin });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to discard the draft.';
+    console.error('Failed to discard review form draft:', error);
+    return NextResponse.json({ error: message }, { status: message.includes('not found') ? 404 : 400 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { publishReviewFormDraft } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+/** Publishes the draft; reviews already submitted keep the version they were answered on. */
+export async function POST(_request: NextRequest, context: { params: Promise<{ code: string }> }) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const { code } = await context.params;
+    const published = await publishReviewFormDraft({ code: decodeURIComponent(code), actor: auth.admin });
+    return NextResponse.json({ published });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to publish the form.';
+    console.error('Failed to publish review form:', error);
+    return NextResponse.json({ error: message }, { status: message.includes('not found') ? 404 : 400 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewFormEditor, setReviewFormTypeActive, updateReviewFormType } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+type Context = { params: Promise<{ code: string }> };
+
+/** The form type with its published version and any draft being edited. */
+export async function GET(_request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const { code } = await context.params;
+    const editor = await getReviewFormEditor(decodeURIComponent(code));
+    if (!editor) return NextResponse.json({ error: 'Form type not found.' }, { status: 404 });
+    return NextResponse.json(editor);
+  } catch (error) {
+    console.error('Failed to load review form:', error);
+    return NextResponse.json({ error: 'Failed to load the review form.' }, { status: 500 });
+  }
+}
+
+/** Renames the form type or changes its external link, or retires and restores it with `active`. */
+export async function PATCH(request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const { code } = await context.params;
+    const body = await request.json() as { name?: unknown; formUrl?: unknown; active?: unknown };
+    const formType = typeof body.active === 'boolean'
+      ? await setReviewFormTypeActive({ code: decodeURIComponent(code), active: body.active, actor: auth.admin })
+      : await updateReviewFormType({
+        code: decodeURIComponent(code),
+        name: typeof body.name === 'string' ? body.name : '',
+        formUrl: typeof body.formUrl === 'string' ? body.formUrl : null,
+        actor: auth.admin,
+      });
+    return NextResponse.json({ formType });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update the form type.';
+    console.error('Failed to update review form type:', error);
+    return NextResponse.json({ error: message }, { status: message.includes('not found') ? 404 : 400 });
+  }
+}
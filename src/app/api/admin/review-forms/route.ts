@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { listReviewFormTypes } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    return NextResponse.json({ formTypes: await listReviewFormTypes() });
+  } catch (error) {
+    console.error('Failed to load review forms:', error);
+    return NextResponse.json({ error: 'Failed to load review forms.' }, { status: 500 });
+  }
+}
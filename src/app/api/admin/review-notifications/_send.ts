@@ -0,0 +1,244 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { getAppUrl } from '@/lib/appUrl';
+import { renderEmailTemplate, type EmailTemplateData } from '@/lib/emailTemplates';
+import { getMailRetryAttempts } from '@/lib/mailer';
+import { processMailQueue } from '@/lib/mailQueue';
+import {
+  enqueueMailBatch,
+  getPublishedEmailTemplate,
+  listProtocols,
+  listReviewerNotificationPreferences,
+  listReviewers,
+  listReviewersOnLeave,
+  type MailDeliveryDraft,
+  type ReviewerDigestItem,
+} from '@/lib/mysql';
+import { DIGEST_HOLD_REASON, reviewerPreferencesUrl } from '@/lib/reviewerPreferences';
+
+type NotificationType = 'assignment' | 'reminder';
+
+interface AssignmentPayload {
+  id?: string;
+  name?: string;
+  status?: string;
+  acceptance?: string;
+  form_type?: string;
+  due_date?: string;
+}
+
+interface ProtocolPayload {
+  protocolKey?: string;
+  internalId?: string;
+  id?: string;
+  spup_rec_code?: string;
+  research_title?: string;
+  protocol_name?: string;
+  principal_investigator?: string;
+  course_program?: string;
+  e_link?: string;
+  protocol_file?: string;
+  monthId?: string;
+  weekId?: string;
+  reviewers?: AssignmentPayload[];
+}
+
+interface Recipient {
+  reviewerInternalId: string;
+  id: string;
+  name: string;
+  email: string;
+  protocols: Array<{ protocol: ProtocolPayload; assignment: AssignmentPayload }>;
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+async function templateData(recipient: Recipient, periodLabel: string, url: string): Promise<EmailTemplateData> {
+  return {
+    reviewerName: recipient.name,
+    periodLabel,
+    portalUrl: url,
+    preferencesUrl: await reviewerPreferencesUrl(url, recipient.reviewerInternalId),
+    protocols: recipient.protocols.map(({ protocol, assignment }) => ({
+      recCode: protocol.spup_rec_code || protocol.id || '',
+      title: protocol.research_title || protocol.protocol_name || '',
+      formType: assignment.form_type || '',
+      dueDate: assignment.due_date || '',
+    })),
+  };
+}
+
+async function loadPayloadProtocols(body: Record<string, unknown>): Promise<ProtocolPayload[]> {
+  if (Array.isArray(body.protocols) && body.protocols.length > 0) {
+    return body.protocols as ProtocolPayload[];
+  }
+  return listProtocols({
+    monthId: typeof body.monthDocumentId === 'string' ? body.monthDocumentId : undefined,
+    weekId: typeof body.weekId === 'string' ? body.weekId : undefined,
+  });
+}
+
+function skipReason(recipient: Recipient, leaveEndsOn: string | undefined, digest: boolean): string | null {
+  if (!recipient.email) return 'Reviewer has no email address.';
+  if (leaveEndsOn) return `Reviewer is on leave until ${leaveEndsOn}.`;
+  if (digest) return DIGEST_HOLD_REASON;
+  return null;
+}
+
+/**
+ * Works out who a notification request would email and renders each message
+ * from the published email template for the notification type. Reminders are
+ * skipped for reviewers on leave; assignment notices still go out. Reviewers
+ * on the daily digest are skipped too, and their protocols returned as
+ * `held` for the digest.
+ */
+async function buildReviewNotifications(request: NextRequest, body: Record<string, unknown>) {
+  const notificationType: NotificationType = body.notificationType === 'reminder' ? 'reminder' : 'assignment';
+  const template = await getPublishedEmailTemplate(notificationType);
+  const protocols = await loadPayloadProtocols(body);
+  const directory = await listReviewers();
+  const byIdentity = new Map<string, (typeof directory)[number]>();
+  for (const reviewer of directory) {
+    byIdentity.set(normalize(reviewer.id), reviewer);
+    byIdentity.set(normalize(reviewer.name), reviewer);
+  }
+
+  const recipients = new Map<string, Recipient>();
+  for (const protocol of protocols) {
+    for (const assignment of protocol.reviewers || []) {
+      if (assignment.acceptance === 'declined') continue;
+      if (notificationType === 'reminder' && String(assignment.status).toLowerCase() === 'completed') continue;
+      const reviewer = byIdentity.get(normalize(assignment.id)) || byIdentity.get(normalize(assignment.name));
+      if (!reviewer) continue;
+      const current = recipients.get(reviewer.internalId) || {
+        reviewerInternalId: reviewer.internalId,
+        id: reviewer.id,
+        name: reviewer.name,
+        email: reviewer.email || '',
+        protocols: [],
+      };
+      current.protocols.push({ protocol, assignment });
+      recipients.set(reviewer.internalId, current);
+    }
+  }
+
+  const periodLabel = typeof body.periodLabel === 'string' && body.periodLabel.trim()
+    ? body.periodLabel.trim()
+    : [body.monthDocumentId, body.weekId].filter(Boolean).join(' / ') || 'Selected protocols';
+  const onLeave = notificationType === 'reminder' ? await listReviewersOnLeave() : new Map<string, string>();
+  const preferences = await listReviewerNotificationPreferences();
+  const url = getAppUrl(request);
+
+  const deliveries: MailDeliveryDraft[] = [];
+  const held: ReviewerDigestItem[] = [];
+  for (const recipient of recipients.values()) {
+    const data = await templateData(recipient, periodLabel, url);
+    const message = renderEmailTemplate(template, data);
+    const digest = preferences.get(recipient.reviewerInternalId)?.deliveryMode === 'daily_digest';
+    const reason = skipReason(recipient, onLeave.get(recipient.reviewerInternalId), digest);
+    if (reason === DIGEST_HOLD_REASON) {
+      held.push(...data.protocols.map((protocol) => ({
+        reviewerId: recipient.reviewerInternalId,
+        notificationType,
+        ...protocol,
+      })));
+    }
+    deliveries.push({
+      reviewerId: recipient.reviewerInternalId,
+      requestedReviewerId: recipient.id,
+      recipientName: recipient.name,
+      recipientEmail: recipient.email,
+      protocolCount: recipient.protocols.length,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      skipReason: reason,
+    });
+  }
+
+  return {
+    notificationType,
+    template,
+    periodLabel,
+    scope: body.scope === 'week' ? 'week' as const : 'month' as const,
+    protocolCount: new Set(protocols.map((item) => item.internalId || item.protocolKey || `${item.monthId}/${item.weekId}/${item.id}`)).size,
+    deliveries,
+    held,
+  };
+}
+
+/**
+ * Queues the notification emails and records the batch; the mail worker sends
+ * them after the response, and the mail queue cron retries any that fail.
+ * Protocols held for daily-digest reviewers wait for the reminder cron.
+ * Shared by the admin route (after its permission check) and the reminder cron.
+ */
+export async function sendReviewNotifications(request: NextRequest, source: 'admin' | 'cron' = 'admin') {
+  try {
+    const body = await request.json() as Record<string, unknown>;
+    const plan = await buildReviewNotifications(request, body);
+    const { batchId, queued } = await enqueueMailBatch({
+      scope: plan.scope,
+      notificationType: plan.notificationType,
+      subject: plan.template.subject,
+      templateVersionId: plan.template.versionId,
+      source,
+      monthKey: String(body.monthDocumentId || ''),
+      weekKey: String(body.weekId || ''),
+      periodLabel: plan.periodLabel,
+      protocolCount: plan.protocolCount,
+      maxAttempts: getMailRetryAttempts(),
+    }, plan.deliveries, plan.held);
+
+    if (queued > 0) {
+      after(async () => {
+        try {
+          await processMailQueue();
+        } catch (error) {
+          console.error('Failed to process the mail queue after queueing notifications:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({
+      batchId,
+      queued: plan.deliveries.filter((delivery) => !delivery.skipReason)
+        .map((delivery) => ({ reviewerId: delivery.requestedReviewerId, email: delivery.recipientEmail })),
+      skipped: plan.deliveries.filter((delivery) => delivery.skipReason)
+        .map((delivery) => ({ reviewerId: delivery.requestedReviewerId, reason: delivery.skipReason })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to queue reviewer notifications.';
+    console.error('Failed to queue MySQL-backed notifications:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Renders what a notification request would send to each reviewer without queueing or recording anything. */
+export async function previewReviewNotifications(request: NextRequest) {
+  try {
+    const body = await request.json() as Record<string, unknown>;
+    const plan = await buildReviewNotifications(request, body);
+    return NextResponse.json({
+      notificationType: plan.notificationType,
+      periodLabel: plan.periodLabel,
+      templateVersion: plan.template.version,
+      protocolCount: plan.protocolCount,
+      messages: plan.deliveries.map((delivery) => ({
+        reviewerId: delivery.requestedReviewerId,
+        reviewerName: delivery.recipientName,
+        email: delivery.recipientEmail,
+        protocolCount: delivery.protocolCount,
+        subject: delivery.subject,
+        html: delivery.html,
+        text: delivery.text,
+        skipReason: delivery.skipReason,
+      })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to preview reviewer notifications.';
+    console.error('Failed to preview reviewer notifications:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
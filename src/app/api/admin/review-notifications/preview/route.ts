@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { previewReviewNotifications } from '../_send';
+
+export const runtime = 'nodejs';
+
+/** Takes the same body as sending and returns each reviewer's rendered email instead. */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeAdmin('mail:send');
+  if (auth.response) return auth.response;
+
+  return previewReviewNotifications(request);
+}
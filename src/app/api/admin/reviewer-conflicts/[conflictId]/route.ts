@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeReviewerConflict } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+export async function DELETE(_request: NextRequest, context: { params: Promise<{ conflictId: string }> }) {
+  try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
+    const { conflictId } = await context.params;
+    await revokeReviewerConflict(conflictId, auth.admin);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to revoke reviewer conflict:', error);
+    const message = error instanceof Error ? error.message : 'Failed to revoke reviewer conflict.';
+    return NextResponse.json({ error: message }, { status: message === 'Conflict not found.' ? 404 : 400 });
+  }
+}
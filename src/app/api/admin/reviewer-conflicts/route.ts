@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewerByAccessCode, listReviewerConflicts, recordReviewerConflict } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+function cleanString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const params = request.nextUrl.searchParams;
+    const reviewerCode = params.get('reviewerId');
+    const reviewer = reviewerCode ? await getReviewerByAccessCode(reviewerCode) : null;
+    if (reviewerCode && !reviewer) return NextResponse.json({ conflicts: [] });
+
+    const conflicts = await listReviewerConflicts({
+      reviewerInternalId: reviewer?.internalId,
+      protocolInternalId: params.get('protocolId') || undefined,
+      includeRevoked: params.get('includeRevoked') === 'true',
+    });
+    return NextResponse.json({ conflicts });
+  } catch (error) {
+    console.error('Failed to load reviewer conflicts:', error);
+    return NextResponse.json({ error: 'Failed to load reviewer conflicts.' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
+    const body = await request.json();
+    const reviewer = await getReviewerByAccessCode(cleanString(body.reviewerId));
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+
+    const conflict = await recordReviewerConflict({
+      reviewerInternalId: reviewer.internalId,
+      protocolInternalId: cleanString(body.protocolId) || undefined,
+      courseProgram: cleanString(body.courseProgram) || undefined,
+      reason: cleanString(body.reason),
+      blocking: body.blocking !== false,
+      actor: auth.admin,
+    });
+    return NextResponse.json({ conflict }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to record reviewer conflict:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record reviewer conflict.' },
+      { status: 400 }
+    );
+  }
+}
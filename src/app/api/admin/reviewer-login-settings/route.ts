@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewerLoginSettings, saveReviewerLoginSettings } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    return NextResponse.json({ settings: await getReviewerLoginSettings() });
+  } catch (error) {
+    console.error('Failed to load reviewer login settings:', error);
+    return NextResponse.json({ error: 'Failed to load reviewer sign-in settings.' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('settings:manage');
+    if (auth.response) return auth.response;
+
+    const payload = await request.json() as Record<string, unknown>;
+    if (typeof payload.allowLegacyLogin !== 'boolean') {
+      return NextResponse.json({ error: 'Specify whether legacy sign-in is allowed.' }, { status: 400 });
+    }
+
+    const settings = { allowLegacyLogin: payload.allowLegacyLogin };
+    await saveReviewerLoginSettings(settings, auth.admin);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Failed to save reviewer login settings:', error);
+    return NextResponse.json({ error: 'Failed to save reviewer sign-in settings.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findReviewerByAccess, getReviewerAvailability, removeReviewerLeave } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ reviewerId: string; leaveId: string }> }
+) {
+  try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
+    const { reviewerId, leaveId } = await context.params;
+    const reviewer = await findReviewerByAccess(decodeURIComponent(reviewerId));
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+
+    await removeReviewerLeave({ reviewerInternalId: reviewer.internalId, leaveId, actor: auth.admin });
+    return NextResponse.json({ availability: await getReviewerAvailability(reviewer.internalId) });
+  } catch (error) {
+    console.error('Failed to remove reviewer leave:', error);
+    const message = error instanceof Error ? error.message : 'Failed to remove reviewer leave.';
+    return NextResponse.json({ error: message }, { status: message === 'Leave period not found.' ? 404 : 400 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  addReviewerLeave,
+  findReviewerByAccess,
+  getReviewerAvailability,
+  setReviewerCapacity,
+} from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+type Context = { params: Promise<{ reviewerId: string }> };
+
+async function reviewerFromContext(context: Context) {
+  const { reviewerId } = await context.params;
+  return findReviewerByAccess(decodeURIComponent(reviewerId));
+}
+
+export async function GET(_request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const reviewer = await reviewerFromContext(context);
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    return NextResponse.json({ availability: await getReviewerAvailability(reviewer.internalId) });
+  } catch (error) {
+    console.error('Failed to load reviewer availability:', error);
+    return NextResponse.json({ error: 'Failed to load reviewer availability.' }, { status: 500 });
+  }
+}
+
+/** Sets the release capacity; `null` removes the limit. */
+export async function PATCH(request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
+    const reviewer = await reviewerFromContext(context);
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    const body = await request.json() as { maxReviewsPerRelease?: unknown };
+    const limit = body.maxReviewsPerRelease === null || body.maxReviewsPerRelease === ''
+      ? null
+      : Number(body.maxReviewsPerRelease);
+
+    await setReviewerCapacity({ reviewerInternalId: reviewer.internalId, maxReviewsPerRelease: limit, actor: auth.admin });
+    return NextResponse.json({ availability: await getReviewerAvailability(reviewer.internalId) });
+  } catch (error) {
+    console.error('Failed to update reviewer capacity:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update reviewer capacity.';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+/** Records a leave period. */
+export async function POST(request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
+    const reviewer = await reviewerFromContext(context);
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    const body = await request.json() as { startsOn?: unknown; endsOn?: unknown; note?: unknown };
+
+    await addReviewerLeave({
+      reviewerInternalId: reviewer.internalId,
+      startsOn: typeof body.startsOn === 'string' ? body.startsOn : '',
+      endsOn: typeof body.endsOn === 'string' ? body.endsOn : '',
+      note: typeof body.note === 'string' ? body.note : undefined,
+      actor: auth.admin,
+    });
+    return NextResponse.json({ availability: await getReviewerAvailability(reviewer.internalId) }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to record reviewer leave:', error);
+    const message = error instanceof Error ? error.message : 'Failed to record reviewer leave.';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findReviewerByAccess, listExpertiseTags, setReviewerExpertise } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+type Context = { params: Promise<{ reviewerId: string }> };
+
+async function reviewerFromContext(context: Context) {
+  const { reviewerId } = await context.params;
+  return findReviewerByAccess(decodeURIComponent(reviewerId));
+}
+
+/** The reviewer's tag names alongside the full taxonomy to choose from. */
+export async function GET(_request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const reviewer = await reviewerFromContext(context);
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    return NextResponse.json({ expertise: reviewer.expertise, tags: await listExpertiseTags() });
+  } catch (error) {
+    console.error('Failed to load reviewer expertise:', error);
+    return NextResponse.json({ error: 'Failed to load reviewer expertise.' }, { status: 500 });
+  }
+}
+
+/** Replaces the reviewer's expertise tags with `tagIds`. */
+export async function PUT(request: NextRequest, context: Context) {
+  try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
+    const reviewer = await reviewerFromContext(context);
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+
+    const body = await request.json() as { tagIds?: unknown };
+    const tagIds = Array.isArray(body.tagIds)
+      ? body.tagIds.filter((id): id is string => typeof id === 'string' && /^\d+$/.test(id))
+      : [];
+    const expertise = await setReviewerExpertise({ reviewerInternalId: reviewer.internalId, tagIds, actor: auth.admin });
+    return NextResponse.json({ expertise, tags: await listExpertiseTags() });
+  } catch (error) {
+    console.error('Failed to update reviewer expertise:', error);
+    return NextResponse.json({ error: 'Failed to update reviewer expertise.' }, { status: 500 });
+  }
+}
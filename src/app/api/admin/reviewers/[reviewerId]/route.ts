@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { ResultSetHeader } from 'mysql2';
-import { findReviewerByAccess, listProtocols, mysqlPool } from '@/lib/mysql';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import {
+  findReviewerByAccess,
+  listProtocols,
+  queryRows,
+  recordAdminAudit,
+  revokeReviewerSessionsByAccessCode,
+  withTransaction,
+  type MysqlExecutor,
+} from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export const runtime = 'nodejs';
 
@@ -12,11 +21,23 @@ function isValidEmail(value: string): boolean {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
 }
 
+async function lockActiveReviewer(executor: MysqlExecutor, accessCode: string) {
+  const rows = await queryRows<RowDataPacket & { full_name: string; email: string | null }>(`
+    SELECT full_name, email FROM reviewers
+    WHERE access_code = ? AND is_active = TRUE AND deleted_at IS NULL
+    FOR UPDATE
+  `, [accessCode], executor);
+  return rows[0] ? { name: rows[0].full_name, email: rows[0].email } : null;
+}
+
 export async function GET(
   _request: NextRequest,
   context: { params: Promise<{ reviewerId: string }> }
 ) {
   try {
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
     const { reviewerId } = await context.params;
     const reviewer = await findReviewerByAccess(decodeURIComponent(reviewerId));
     if (!reviewer) {
@@ -40,6 +61,9 @@ export async function PATCH(
   context: { params: Promise<{ reviewerId: string }> }
 ) {
   try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
     const { reviewerId } = await context.params;
     const id = decodeURIComponent(reviewerId);
     const payload = await request.json() as Record<string, unknown>;
@@ -53,13 +77,26 @@ export async function PATCH(
       return NextResponse.json({ error: 'Enter a valid email address.' }, { status: 400 });
     }
 
-    const [result] = await mysqlPool.execute<ResultSetHeader>(`
-      UPDATE reviewers
-      SET full_name = ?, email = NULLIF(?, '')
-      WHERE access_code = ? AND is_active = TRUE AND deleted_at IS NULL
-    `, [name, email, id]);
+    const updated = await withTransaction(async (connection) => {
+      const before = await lockActiveReviewer(connection, id);
+      if (!before) return false;
+      await connection.execute<ResultSetHeader>(`
+        UPDATE reviewers
+        SET full_name = ?, email = NULLIF(?, '')
+        WHERE access_code = ? AND is_active = TRUE AND deleted_at IS NULL
+      `, [name, email, id]);
+      await recordAdminAudit(connection, {
+        actor: auth.admin,
+        action: 'reviewer.update',
+        entityType: 'reviewer',
+        entityId: id,
+        before,
+        after: { name, email: email || null },
+      });
+      return true;
+    });
 
-    if (result.affectedRows === 0) {
+    if (!updated) {
       return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
     }
     return NextResponse.json({ reviewer: { id, name, email } });
@@ -77,16 +114,34 @@ export async function DELETE(
   context: { params: Promise<{ reviewerId: string }> }
 ) {
   try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
     const { reviewerId } = await context.params;
-    const [result] = await mysqlPool.execute<ResultSetHeader>(`
-      UPDATE reviewers
-      SET is_active = FALSE, deleted_at = COALESCE(deleted_at, CURRENT_TIMESTAMP(6))
-      WHERE access_code = ? AND is_active = TRUE AND deleted_at IS NULL
-    `, [decodeURIComponent(reviewerId)]);
+    const id = decodeURIComponent(reviewerId);
+    const archived = await withTransaction(async (connection) => {
+      const before = await lockActiveReviewer(connection, id);
+      if (!before) return false;
+      await connection.execute<ResultSetHeader>(`
+        UPDATE reviewers
+        SET is_active = FALSE, deleted_at = COALESCE(deleted_at, CURRENT_TIMESTAMP(6))
+        WHERE access_code = ? AND is_active = TRUE AND deleted_at IS NULL
+      `, [id]);
+      await recordAdminAudit(connection, {
+        actor: auth.admin,
+        action: 'reviewer.archive',
+        entityType: 'reviewer',
+        entityId: id,
+        before: { ...before, isActive: true },
+        after: { ...before, isActive: false },
+      });
+      return true;
+    });
 
-    if (result.affectedRows === 0) {
+    if (!archived) {
       return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
     }
+    await revokeReviewerSessionsByAccessCode(id);
     return NextResponse.json({ archived: true });
   } catch (error) {
     console.error('Failed to archive reviewer:', error);
@@ -2,5 +2,10 @@ import { listProtocols } from '@/lib/mysql';
 import type { Protocol } from '@/lib/protocols';
 
 export async function loadProtocolDtos(): Promise<Protocol[]> {
-  return (await listProtocols()) as unknown as Protocol[];
+  const protocols = await listProtocols();
+  return protocols.map((protocol) => ({
+    ...protocol,
+    protocolKey: protocol.internalId,
+    reviewers: protocol.reviewers.map((reviewer) => ({ ...reviewer, assignmentId: reviewer.internalId })),
+  }));
 }
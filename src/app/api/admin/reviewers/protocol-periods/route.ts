@@ -1,11 +1,21 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getProtocolListVersion } from '@/lib/mysql';
 import { loadProtocolDtos } from '../_shared';
+import { authorizeAdmin } from '@/lib/adminAuth';
+import { cachedJson, listEtag, notModified } from '@/lib/httpCache';
 
 export const runtime = 'nodejs';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    return NextResponse.json({ protocols: await loadProtocolDtos() });
+    const auth = await authorizeAdmin('protocols:view');
+    if (auth.response) return auth.response;
+
+    const etag = listEtag(request, await getProtocolListVersion());
+    const unchanged = notModified(request, etag);
+    if (unchanged) return unchanged;
+
+    return cachedJson({ protocols: await loadProtocolDtos() }, etag);
   } catch (error) {
     console.error('Failed to load reviewer protocol periods:', error);
     return NextResponse.json({ error: 'Failed to load protocol periods.' }, { status: 500 });
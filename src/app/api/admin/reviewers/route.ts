@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import type { ResultSetHeader } from 'mysql2';
-import { listReviewers, mysqlPool } from '@/lib/mysql';
+import { listReviewers, recordAdminAudit, withTransaction } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
 
 export const runtime = 'nodejs';
 
@@ -14,12 +15,16 @@ function isValidEmail(value: string): boolean {
 
 export async function GET() {
   try {
+    const auth = await authorizeAdmin('reviewers:view');
+    if (auth.response) return auth.response;
+
     const reviewers = await listReviewers();
     return NextResponse.json({
       reviewers: reviewers.map((reviewer) => ({
         id: reviewer.id,
         name: reviewer.name,
         email: reviewer.email || '',
+        expertise: reviewer.expertise,
       })),
     });
   } catch (error) {
@@ -30,6 +35,9 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorizeAdmin('reviewers:manage');
+    if (auth.response) return auth.response;
+
     const payload = await request.json() as Record<string, unknown>;
     const id = cleanString(payload.id);
     const name = cleanString(payload.name);
@@ -45,12 +53,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Enter a valid email address.' }, { status: 400 });
     }
 
-    const [result] = await mysqlPool.execute<ResultSetHeader>(`
-      INSERT INTO reviewers (access_code, full_name, email)
-      VALUES (?, ?, NULLIF(?, ''))
-    `, [id, name, email]);
+    const databaseId = await withTransaction(async (connection) => {
+      const [result] = await connection.execute<ResultSetHeader>(`
+        INSERT INTO reviewers (access_code, full_name, email)
+        VALUES (?, ?, NULLIF(?, ''))
+      `, [id, name, email]);
+      await recordAdminAudit(connection, {
+        actor: auth.admin,
+        action: 'reviewer.create',
+        entityType: 'reviewer',
+        entityId: id,
+        before: null,
+        after: { name, email: email || null },
+      });
+      return result.insertId;
+    });
 
-    return NextResponse.json({ reviewer: { id, name, email }, databaseId: result.insertId }, { status: 201 });
+    return NextResponse.json({ reviewer: { id, name, email }, databaseId }, { status: 201 });
   } catch (error) {
     const code = (error as { code?: string }).code;
     if (code === 'ER_DUP_ENTRY') {
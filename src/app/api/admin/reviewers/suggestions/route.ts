@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { suggestReviewers } from '@/lib/mysql';
+import { authorizeAdmin } from '@/lib/adminAuth';
+
+export const runtime = 'nodejs';
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map((item) => item.trim())
+    : [];
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeAdmin('protocols:manage');
+    if (auth.response) return auth.response;
+
+    const body = await request.json();
+    const formTypes = stringList(body.formTypes);
+    if (formTypes.length === 0) {
+      return NextResponse.json({ error: 'Choose at least one form type.' }, { status: 400 });
+    }
+
+    const suggestions = await suggestReviewers({
+      formTypes,
+      courseProgram: typeof body.courseProgram === 'string' ? body.courseProgram : undefined,
+      adviser: typeof body.adviser === 'string' ? body.adviser : undefined,
+      principalInvestigator: typeof body.principalInvestigator === 'string' ? body.principalInvestigator : undefined,
+      expertiseTags: stringList(body.expertiseTags),
+      protocolInternalId: typeof body.protocolId === 'string' && /^\d+$/.test(body.protocolId) ? body.protocolId : undefined,
+      excludeReviewerIds: stringList(body.excludeReviewerIds),
+    });
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error('Failed to suggest reviewers:', error);
+    return NextResponse.json({ error: 'Failed to suggest reviewers.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { authenticateAdminUser, createAdminSession, revokeAdminSession } from '@/lib/mysql';
+import {
+  clearAdminSessionCookie,
+  getCurrentAdmin,
+  getCurrentAdminSessionToken,
+  setAdminSessionCookie,
+} from '@/lib/adminAuth';
+import { createSessionToken } from '@/lib/sessionToken';
+
+export const runtime = 'nodejs';
+
+function cleanString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export async function GET() {
+  try {
+    const admin = await getCurrentAdmin();
+    if (!admin) return NextResponse.json({ error: 'Admin sign-in required.' }, { status: 401 });
+    return NextResponse.json({ admin });
+  } catch (error) {
+    console.error('Failed to load admin session:', error);
+    return NextResponse.json({ error: 'Failed to load admin session.' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json() as Record<string, unknown>;
+    const email = cleanString(body.email);
+    const password = typeof body.password === 'string' ? body.password : '';
+    if (!email || !password) {
+      return NextResponse.json({ error: 'Email and password are required.' }, { status: 400 });
+    }
+
+    const admin = await authenticateAdminUser(email, password);
+    if (!admin) {
+      return NextResponse.json({ error: 'Incorrect email or password.' }, { status: 401 });
+    }
+
+    const session = createSessionToken('admin');
+    await createAdminSession({
+      adminUserId: admin.id,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null,
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    const response = NextResponse.json({ admin });
+    await setAdminSessionCookie(response, session);
+    return response;
+  } catch (error) {
+    console.error('Admin sign-in failed:', error);
+    return NextResponse.json({ error: 'Unable to sign in right now.' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const token = await getCurrentAdminSessionToken();
+    if (token) await revokeAdminSession(token);
+
+    const response = NextResponse.json({ success: true });
+    clearAdminSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Admin sign-out failed:', error);
+    return NextResponse.json({ error: 'Failed to sign out.' }, { status: 500 });
+  }
+}
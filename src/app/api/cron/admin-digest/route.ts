@@ -0,0 +1,64 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { getAppUrl } from '@/lib/appUrl';
+import { queueAdminDigest } from '@/lib/adminDigest';
+import { isCronAuthorized } from '@/lib/cronAuth';
+import { processMailQueue } from '@/lib/mailQueue';
+import { claimAdminDigestRun, getAdminDigestSettings, releaseAdminDigestRun } from '@/lib/mysql';
+import { getDateInTimeZone, getDayOfWeek } from '@/lib/reviewReminders';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  try {
+    const settings = await getAdminDigestSettings();
+    const currentDate = getDateInTimeZone(new Date(), 'Asia/Manila');
+
+    if (!settings.enabled) {
+      return NextResponse.json({ skipped: true, reason: 'The admin digest is disabled.' });
+    }
+    if (settings.recipients.length === 0) {
+      return NextResponse.json({ skipped: true, reason: 'No admin digest recipients are configured.' });
+    }
+    if (getDayOfWeek(currentDate) !== settings.sendWeekday) {
+      return NextResponse.json({ skipped: true, reason: 'Today is not the admin digest day.' });
+    }
+    // Claim today's digest before queueing it so overlapping runs send one.
+    // Asia/Manila has no daylight saving, so its day starts at 00:00+08:00.
+    if (!(await claimAdminDigestRun(new Date(`${currentDate}T00:00:00+08:00`).toISOString()))) {
+      return NextResponse.json({ skipped: true, reason: 'The admin digest was already sent today.' });
+    }
+
+    let result: Awaited<ReturnType<typeof queueAdminDigest>>;
+    try {
+      result = await queueAdminDigest({
+        settings,
+        currentDate,
+        appUrl: getAppUrl(request),
+      });
+    } catch (error) {
+      await releaseAdminDigestRun(settings.lastSentAt);
+      throw error;
+    }
+
+    after(async () => {
+      try {
+        await processMailQueue();
+      } catch (error) {
+        console.error('Failed to process the mail queue after queueing the admin digest:', error);
+      }
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Admin digest cron failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Admin digest cron failed.' },
+      { status: 500 }
+    );
+  }
+}
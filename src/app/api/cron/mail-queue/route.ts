@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronAuthorized } from '@/lib/cronAuth';
+import { processMailQueue } from '@/lib/mailQueue';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  try {
+    const result = await processMailQueue();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Mail queue worker failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Mail queue worker failed.' },
+      { status: 500 }
+    );
+  }
+}
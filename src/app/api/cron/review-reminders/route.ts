@@ -1,84 +1,125 @@
-import { timingSafeEqual } from 'node:crypto';
-import { NextRequest, NextResponse } from 'next/server';
-import { getNotificationSettings, listProtocols, saveNotificationSettings } from '@/lib/mysql';
+import { after, NextRequest, NextResponse } from 'next/server';
+import { getAppUrl } from '@/lib/appUrl';
+import { isCronAuthorized } from '@/lib/cronAuth';
+import { processMailQueue } from '@/lib/mailQueue';
+import {
+  getNotificationSettings,
+  listProtocols,
+  listReviewerNotificationPreferences,
+  listReviewers,
+  recordReminderRun,
+  type MysqlNotificationSettingsDto,
+} from '@/lib/mysql';
+import { runOverdueEscalations } from '@/lib/overdueEscalations';
+import { sendReviewerDigests } from '@/lib/reviewerPreferences';
 import {
   getDateInTimeZone,
   isDueForReminder,
   shouldRunReminderOnDate,
   wasReminderRunToday,
 } from '@/lib/reviewReminders';
-import { POST as sendNotifications } from '@/app/api/admin/review-notifications/route';
+import { sendReviewNotifications } from '@/app/api/admin/review-notifications/_send';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300;
 
-function authorized(request: NextRequest): boolean {
-  const expected = process.env.CRON_SECRET;
-  const actual = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
-  if (!expected || expected.length !== actual.length) return false;
-  return timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+/**
+ * Due-soon reminders, which follow the configured frequency and run at most
+ * once a day. A reviewer's own reminder lead time replaces the global
+ * threshold for their reviews.
+ */
+async function runReminders(request: NextRequest, settings: MysqlNotificationSettingsDto, currentDate: string) {
+  if (!settings.enabled || !settings.sendToReviewers) {
+    return { skipped: true, reason: 'Automatic reminders are disabled.' };
+  }
+  if (!shouldRunReminderOnDate(settings.frequency, currentDate)) {
+    return { skipped: true, reason: 'Today is not scheduled for reminders.' };
+  }
+  if (wasReminderRunToday(settings.lastRun, currentDate, 'Asia/Manila')) {
+    return { skipped: true, reason: 'Reminders already ran today.' };
+  }
+
+  const [protocols, directory, preferences] = await Promise.all([
+    listProtocols(),
+    listReviewers(),
+    listReviewerNotificationPreferences(),
+  ]);
+  const leadDays = new Map(directory.map((reviewer) => [
+    reviewer.id,
+    preferences.get(reviewer.internalId)?.reminderLeadDays ?? settings.dueSoonThreshold,
+  ]));
+  const eligible = protocols.map((protocol) => ({
+    ...protocol,
+    reviewers: protocol.reviewers.filter((reviewer) =>
+      reviewer.status !== 'Completed'
+      && reviewer.acceptance !== 'declined'
+      && Boolean(reviewer.due_date)
+      && isDueForReminder(reviewer.due_date || '', currentDate, leadDays.get(reviewer.id) ?? settings.dueSoonThreshold)
+    ),
+  })).filter((protocol) => protocol.reviewers.length > 0);
+
+  if (eligible.length === 0) {
+    await recordReminderRun();
+    return { success: true, queued: 0, skipped: 0, eligible: 0 };
+  }
+
+  const notificationRequest = new NextRequest(new URL('/api/admin/review-notifications', request.url), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      scope: 'month',
+      notificationType: 'reminder',
+      periodLabel: `Reviews due soon as of ${currentDate}`,
+      protocols: eligible,
+    }),
+  });
+  const response = await sendReviewNotifications(notificationRequest, 'cron');
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to queue reminders.');
+  }
+
+  await recordReminderRun();
+  return {
+    success: true,
+    eligible: eligible.reduce((sum, protocol) => sum + protocol.reviewers.length, 0),
+    queued: result.queued?.length || 0,
+    skipped: result.skipped?.length || 0,
+    batchId: result.batchId,
+  };
 }
 
 export async function GET(request: NextRequest) {
-  if (!authorized(request)) {
+  if (!isCronAuthorized(request)) {
     return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
   }
 
   try {
     const settings = await getNotificationSettings();
     const currentDate = getDateInTimeZone(new Date(), 'Asia/Manila');
+    const appUrl = getAppUrl(request);
+    const reminders = await runReminders(request, settings, currentDate);
 
-    if (!settings.enabled || !settings.sendToReviewers) {
-      return NextResponse.json({ skipped: true, reason: 'Automatic reminders are disabled.' });
-    }
-    if (!shouldRunReminderOnDate(settings.frequency, currentDate)) {
-      return NextResponse.json({ skipped: true, reason: 'Today is not scheduled for reminders.' });
-    }
-    if (wasReminderRunToday(settings.lastRun, currentDate, 'Asia/Manila')) {
-      return NextResponse.json({ skipped: true, reason: 'Reminders already ran today.' });
-    }
-
-    const protocols = await listProtocols();
-    const eligible = protocols.map((protocol) => ({
-      ...protocol,
-      reviewers: protocol.reviewers.filter((reviewer) =>
-        reviewer.status !== 'Completed'
-        && Boolean(reviewer.due_date)
-        && isDueForReminder(reviewer.due_date || '', currentDate, settings.dueSoonThreshold)
-      ),
-    })).filter((protocol) => protocol.reviewers.length > 0);
+    // Overdue escalations run every day regardless of the reminder frequency;
+    // each step is recorded, so a second run on the same day sends nothing new.
+    const escalations = settings.escalationEnabled
+      ? await runOverdueEscalations({ settings, currentDate, portalUrl: appUrl })
+      : { skipped: true as const, reason: 'Overdue escalations are disabled.', queued: 0 };
 
-    if (eligible.length === 0) {
-      await saveNotificationSettings({ ...settings, lastRun: new Date().toISOString() });
-      return NextResponse.json({ success: true, sent: 0, skipped: 0, failed: 0, eligible: 0 });
-    }
+    // Digests go out after reminders and nudges so they include today's.
+    const digests = await sendReviewerDigests({ appUrl, currentDate });
 
-    const notificationRequest = new NextRequest(new URL('/api/admin/review-notifications', request.url), {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        scope: 'month',
-        notificationType: 'reminder',
-        periodLabel: `Reviews due within ${settings.dueSoonThreshold} day${settings.dueSoonThreshold === 1 ? '' : 's'} of ${currentDate}`,
-        protocols: eligible,
-      }),
-    });
-    const response = await sendNotifications(notificationRequest);
-    const result = await response.json();
-    if (!response.ok) {
-      return NextResponse.json(result, { status: response.status });
+    if (escalations.queued > 0 || (digests?.queued ?? 0) > 0) {
+      after(async () => {
+        try {
+          await processMailQueue();
+        } catch (error) {
+          console.error('Failed to process the mail queue after the reminder cron:', error);
+        }
+      });
     }
 
-    await saveNotificationSettings({ ...settings, lastRun: new Date().toISOString() });
-    return NextResponse.json({
-      success: true,
-      eligible: eligible.reduce((sum, protocol) => sum + protocol.reviewers.length, 0),
-      sent: result.sent?.length || 0,
-      skipped: result.skipped?.length || 0,
-      failed: result.failed?.length || 0,
-      batchId: result.batchId,
-      subject: 'Reminder',
-    });
+    return NextResponse.json({ reminders, escalations, digests: digests ?? { skipped: true, reason: 'No notifications were held for digests.' } });
   } catch (error) {
     console.error('MySQL reminder cron failed:', error);
     return NextResponse.json(
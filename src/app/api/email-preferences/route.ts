@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewerByInternalId, saveReviewerNotificationPreferences } from '@/lib/mysql';
+import { parseNotificationPreferences, reviewerPreferencesView } from '@/lib/reviewerPreferences';
+import { verifyPreferencesToken } from '@/lib/sessionToken';
+
+export const runtime = 'nodejs';
+
+// Reached from the preferences link in reviewer emails, so the signed token
+// stands in for a reviewer session.
+async function reviewerFromToken(token: unknown) {
+  const reviewerInternalId = await verifyPreferencesToken(typeof token === 'string' ? token : null);
+  return reviewerInternalId ? getReviewerByInternalId(reviewerInternalId) : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const reviewer = await reviewerFromToken(request.nextUrl.searchParams.get('token'));
+    if (!reviewer) return NextResponse.json({ error: 'This preferences link is invalid.' }, { status: 404 });
+    return NextResponse.json(await reviewerPreferencesView(reviewer));
+  } catch (error) {
+    console.error('Failed to load email preferences:', error);
+    return NextResponse.json({ error: 'Failed to load email preferences.' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const payload = await request.json() as Record<string, unknown>;
+    const reviewer = await reviewerFromToken(payload.token);
+    if (!reviewer) return NextResponse.json({ error: 'This preferences link is invalid.' }, { status: 404 });
+
+    const parsed = parseNotificationPreferences(payload);
+    if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    await saveReviewerNotificationPreferences(reviewer.internalId, parsed.preferences);
+    return NextResponse.json(await reviewerPreferencesView(reviewer));
+  } catch (error) {
+    console.error('Failed to save email preferences:', error);
+    return NextResponse.json({ error: 'Failed to save email preferences.' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import type { ResultSetHeader } from 'mysql2';
-import { findReviewerByAccess, mysqlPool } from '@/lib/mysql';
+import { mysqlPool } from '@/lib/mysql';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
 
 export const runtime = 'nodejs';
 
@@ -8,24 +9,16 @@ function parseNoticeId(value: string): number | null {
   return /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
 }
 
-async function getInput(request: NextRequest, noticeIdValue: string) {
-  const noticeId = parseNoticeId(noticeIdValue);
-  const payload = await request.json() as Record<string, unknown>;
-  const reviewerCode = typeof payload.reviewerId === 'string' ? payload.reviewerId.trim() : '';
-  if (!noticeId || !reviewerCode) return null;
-  return { noticeId, reviewerCode };
-}
-
 export async function PUT(
-  request: NextRequest,
+  _request: NextRequest,
   context: { params: Promise<{ noticeId: string }> }
 ) {
   try {
     const { noticeId } = await context.params;
-    const input = await getInput(request, noticeId);
-    if (!input) return NextResponse.json({ error: 'Notice and reviewer IDs are required.' }, { status: 400 });
-    const reviewer = await findReviewerByAccess(input.reviewerCode);
-    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    const id = parseNoticeId(noticeId);
+    if (!id) return NextResponse.json({ error: 'Invalid notice identifier.' }, { status: 400 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
 
     const [result] = await mysqlPool.execute<ResultSetHeader>(`
       INSERT INTO notice_likes (notice_id, reviewer_id, source_reviewer_id, liked_at)
@@ -36,7 +29,7 @@ export async function PUT(
         reviewer_id = VALUES(reviewer_id),
         liked_at = CURRENT_TIMESTAMP(6),
         deleted_at = NULL
-    `, [input.noticeId, reviewer.internalId, reviewer.id, input.noticeId]);
+    `, [id, reviewer.internalId, reviewer.id, id]);
     if (result.affectedRows === 0) {
       return NextResponse.json({ error: 'Notice not found.' }, { status: 404 });
     }
@@ -48,21 +41,21 @@ export async function PUT(
 }
 
 export async function DELETE(
-  request: NextRequest,
+  _request: NextRequest,
   context: { params: Promise<{ noticeId: string }> }
 ) {
   try {
     const { noticeId } = await context.params;
-    const input = await getInput(request, noticeId);
-    if (!input) return NextResponse.json({ error: 'Notice and reviewer IDs are required.' }, { status: 400 });
-    const reviewer = await findReviewerByAccess(input.reviewerCode);
-    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    const id = parseNoticeId(noticeId);
+    if (!id) return NextResponse.json({ error: 'Invalid notice identifier.' }, { status: 400 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
 
     await mysqlPool.execute<ResultSetHeader>(`
       UPDATE notice_likes
       SET deleted_at = COALESCE(deleted_at, CURRENT_TIMESTAMP(6))
       WHERE notice_id = ? AND source_reviewer_id = ? AND deleted_at IS NULL
-    `, [input.noticeId, reviewer.id]);
+    `, [id, reviewer.id]);
     return NextResponse.json({ liked: false });
   } catch (error) {
     console.error('Failed to unlike notice:', error);
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { requestDueDateExtension } from '@/lib/mysql';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
+import { reviewerExtensionDto } from '@/app/api/reviewer/dto';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request, context: { params: Promise<{ assignmentId: string }> }) {
+  try {
+    const { assignmentId } = await context.params;
+    if (!/^\d+$/.test(assignmentId)) return NextResponse.json({ error: 'Invalid assignment identifier.' }, { status: 400 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
+
+    const body = await request.json() as { dueDate?: unknown; justification?: unknown };
+    const dueDate = typeof body.dueDate === 'string' ? body.dueDate.trim() : '';
+    const justification = typeof body.justification === 'string' ? body.justification.trim() : '';
+    if (!dueDate || !justification) {
+      return NextResponse.json({ error: 'Choose the new due date and explain why you need more time.' }, { status: 400 });
+    }
+
+    const extension = await requestDueDateExtension({
+      reviewerInternalId: reviewer.internalId,
+      assignmentId,
+      requestedDueDate: dueDate,
+      justification,
+    });
+    return NextResponse.json({ extension: reviewerExtensionDto(extension) }, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to request an extension.';
+    console.error('Failed to request due-date extension:', error);
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : message.includes('already') || message.includes('cannot') ? 409 : 400 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import {
+  enqueueMailBatch,
+  listAdminUsersWithPermission,
+  respondToAssignment,
+  type MysqlReviewerDto,
+  type MysqlReviewerProtocolDto,
+} from '@/lib/mysql';
+import { getAppUrl } from '@/lib/appUrl';
+import { escapeHtml } from '@/lib/emailTemplates';
+import { getMailRetryAttempts } from '@/lib/mailer';
+import { processMailQueue } from '@/lib/mailQueue';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
+import { reviewerAssignmentDto } from '@/app/api/reviewer/dto';
+
+export const runtime = 'nodejs';
+
+/**
+ * Queues a notice for everyone who can reassign reviewers. The decline is
+ * already saved, so a queueing failure is only logged.
+ */
+async function notifySecretariat(
+  request: NextRequest,
+  reviewer: MysqlReviewerDto,
+  assignment: MysqlReviewerProtocolDto,
+  reason: string
+): Promise<void> {
+  const admins = (await listAdminUsersWithPermission('protocols:manage')).filter((admin) => admin.email);
+  if (admins.length === 0) return;
+
+  const recCode = assignment.protocol.spup_rec_code || assignment.protocol.id;
+  const title = assignment.protocol.research_title || assignment.protocol.protocol_name;
+  const url = `${getAppUrl(request)}/admin/dashboard`;
+  const subject = `Review declined: ${recCode}`;
+  const html = `<!doctype html><html><body style="font-family:Arial,sans-serif;color:#1f2937">
+      <h2>${escapeHtml(subject)}</h2>
+      <p>${escapeHtml(reviewer.name)} declined the ${escapeHtml(assignment.reviewer.form_type || 'review')} assignment for
+        <strong>${escapeHtml(recCode)}</strong> (${escapeHtml(title)}).</p>
+      <p>Reason: ${escapeHtml(reason)}</p>
+      <p><a href="${escapeHtml(url)}">Reassign it from the admin dashboard</a></p>
+    </body></html>`;
+  const text = `${subject}\n\n${reviewer.name} declined the ${assignment.reviewer.form_type || 'review'} assignment for ${recCode} (${title}).\n\nReason: ${reason}\n\nReassign it from the admin dashboard: ${url}`;
+  const { queued } = await enqueueMailBatch({
+    scope: 'notice',
+    notificationType: 'assignment_declined',
+    subject,
+    templateVersionId: null,
+    source: 'reviewer',
+    monthKey: '',
+    weekKey: '',
+    periodLabel: subject,
+    protocolCount: 1,
+    maxAttempts: getMailRetryAttempts(),
+  }, admins.map((admin) => ({
+    reviewerId: null,
+    requestedReviewerId: admin.email,
+    recipientName: admin.name,
+    recipientEmail: admin.email,
+    protocolCount: 1,
+    subject,
+    html,
+    text,
+    skipReason: null,
+  })));
+
+  if (queued > 0) {
+    after(async () => {
+      try {
+        await processMailQueue();
+      } catch (error) {
+        console.error('Failed to process the mail queue after queueing a decline notice:', error);
+      }
+    });
+  }
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ assignmentId: string }> }) {
+  try {
+    const { assignmentId } = await context.params;
+    if (!/^\d+$/.test(assignmentId)) return NextResponse.json({ error: 'Invalid assignment identifier.' }, { status: 400 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
+
+    const body = await request.json() as { response?: unknown; reason?: unknown };
+    if (body.response !== 'accepted' && body.response !== 'declined') {
+      return NextResponse.json({ error: 'Response must be accepted or declined.' }, { status: 400 });
+    }
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (body.response === 'declined' && !reason) {
+      return NextResponse.json({ error: 'Give a reason for declining.' }, { status: 400 });
+    }
+
+    const assignment = await respondToAssignment({
+      reviewerInternalId: reviewer.internalId,
+      assignmentId,
+      response: body.response,
+      reason,
+    });
+    if (body.response === 'declined') {
+      await notifySecretariat(request, reviewer, assignment, reason).catch((error) => {
+        console.error('Failed to notify the secretariat of a declined review:', error);
+      });
+    }
+    return NextResponse.json({ assignment: reviewerAssignmentDto(assignment) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to record your response.';
+    console.error('Failed to record assignment response:', error);
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : message.includes('cannot') ? 409 : 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import {
+  getReviewForm,
+  getReviewFormVersion,
+  getReviewSubmission,
+  listReviewerAssignments,
+  saveReviewSubmission,
+} from '@/lib/mysql';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
+import { reviewerAssignmentDto } from '@/app/api/reviewer/dto';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: Request, context: { params: Promise<{ assignmentId: string }> }) {
+  try {
+    const { assignmentId } = await context.params;
+    if (!/^\d+$/.test(assignmentId)) return NextResponse.json({ error: 'Invalid assignment identifier.' }, { status: 400 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
+
+    const assignments = await listReviewerAssignments(reviewer.internalId);
+    const assignment = assignments.find((item) => item.assignmentId === assignmentId);
+    if (!assignment) return NextResponse.json({ error: 'Reviewer assignment was not found.' }, { status: 404 });
+
+    // A completed review shows the version it was submitted on; otherwise the
+    // reviewer works on the latest published version.
+    const submission = await getReviewSubmission(assignmentId);
+    const form = submission && assignment.reviewer.status === 'Completed'
+      ? await getReviewFormVersion(submission.formVersionId)
+      : assignment.reviewer.form_type ? await getReviewForm(assignment.reviewer.form_type) : null;
+    if (!form) return NextResponse.json({ error: 'This review has no in-app form.' }, { status: 404 });
+
+    return NextResponse.json({ assignment: reviewerAssignmentDto(assignment), form, submission });
+  } catch (error) {
+    console.error('Failed to load review form:', error);
+    return NextResponse.json({ error: 'Failed to load the review form.' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request, context: { params: Promise<{ assignmentId: string }> }) {
+  try {
+    const { assignmentId } = await context.params;
+    if (!/^\d+$/.test(assignmentId)) return NextResponse.json({ error: 'Invalid assignment identifier.' }, { status: 400 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
+
+    const body = await request.json() as {
+      answers?: unknown;
+      recommendation?: unknown;
+      comments?: unknown;
+      submit?: unknown;
+    };
+    const answers = body.answers && typeof body.answers === 'object' && !Array.isArray(body.answers)
+      ? body.answers as Record<string, unknown>
+      : {};
+
+    const submission = await saveReviewSubmission({
+      reviewerInternalId: reviewer.internalId,
+      assignmentId,
+      answers,
+      recommendation: typeof body.recommendation === 'string' ? body.recommendation : undefined,
+      comments: typeof body.comments === 'string' ? body.comments : undefined,
+      submit: body.submit === true,
+    });
+    const assignment = (await listReviewerAssignments(reviewer.internalId))
+      .find((item) => item.assignmentId === assignmentId);
+    return NextResponse.json({
+      submission,
+      assignment: assignment ? reviewerAssignmentDto(assignment) : null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to save the review.';
+    console.error('Failed to save review form:', error);
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : message.includes('already') || message.includes('declined') ? 409 : 400 }
+    );
+  }
+}
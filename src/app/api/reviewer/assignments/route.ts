@@ -1,9 +1,6 @@
 import { NextResponse } from 'next/server';
-import {
-  getReviewerByAccessCode,
-  listReviewerAssignments,
-  updateReviewerAssignmentStatuses,
-} from '@/lib/mysql';
+import { listReviewerAssignments, updateReviewerAssignmentStatuses } from '@/lib/mysql';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
 import { reviewerAssignmentDto } from '@/app/api/reviewer/dto';
 
 export const runtime = 'nodejs';
@@ -12,13 +9,10 @@ function validInternalId(value: unknown): value is string {
   return typeof value === 'string' && /^\d+$/.test(value);
 }
 
-export async function GET(request: Request) {
+export async function GET() {
   try {
-    const reviewerId = new URL(request.url).searchParams.get('reviewerId')?.trim() || '';
-    if (!reviewerId) return NextResponse.json({ error: 'Reviewer ID is required.' }, { status: 400 });
-
-    const reviewer = await getReviewerByAccessCode(reviewerId);
-    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
     const assignments = await listReviewerAssignments(reviewer.internalId);
 
     return NextResponse.json({
@@ -34,22 +28,20 @@ export async function GET(request: Request) {
 export async function PATCH(request: Request) {
   try {
     const body = await request.json() as {
-      reviewerId?: unknown;
       assignmentIds?: unknown;
       status?: unknown;
     };
-    const reviewerId = typeof body.reviewerId === 'string' ? body.reviewerId.trim() : '';
     const assignmentIds = Array.isArray(body.assignmentIds)
       ? [...new Set(body.assignmentIds.filter(validInternalId))]
       : [];
     const status = body.status === 'Completed' ? 'Completed' : body.status === 'In Progress' ? 'In Progress' : null;
 
-    if (!reviewerId || !status || assignmentIds.length === 0 || assignmentIds.length > 500) {
-      return NextResponse.json({ error: 'Reviewer, assignment IDs, and a valid status are required.' }, { status: 400 });
+    if (!status || assignmentIds.length === 0 || assignmentIds.length > 500) {
+      return NextResponse.json({ error: 'Assignment IDs and a valid status are required.' }, { status: 400 });
     }
 
-    const reviewer = await getReviewerByAccessCode(reviewerId);
-    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
 
     const assignments = await updateReviewerAssignmentStatuses({
       reviewerInternalId: reviewer.internalId,
@@ -61,6 +53,9 @@ export async function PATCH(request: Request) {
     const message = error instanceof Error ? error.message : 'Failed to update review status.';
     const notFound = message.toLowerCase().includes('not found');
     console.error('Failed to update reviewer assignments:', error);
-    return NextResponse.json({ error: message }, { status: notFound ? 404 : 500 });
+    return NextResponse.json(
+      { error: message },
+      { status: notFound ? 404 : message.includes('review form') ? 409 : 500 }
+    );
   }
 }
@@ -1,27 +1,7 @@
-import type { MysqlReviewerProtocolDto } from '@/lib/mysql';
-import type { ReviewerAssignmentDto, ReviewerNoticeDto } from '@/app/reviewer/types';
+import type { MysqlDueDateExtensionDto, MysqlReviewerProtocolDto } from '@/lib/mysql';
+import type { ReviewerAssignmentDto, ReviewerExtensionRequest, ReviewerNoticeDto } from '@/app/reviewer/types';
 import type { MysqlNoticeDto } from '@/lib/mysql';
 
-const FORM_URLS: Record<string, string> = {
-  PRA1: 'https://forms.office.com/r/4WuaHiiJar',
-  PRA2: 'https://forms.office.com/r/4WuaHiiJar',
-  ICA: 'https://forms.office.com/r/0nQCTjvBsv',
-  IACUC: 'https://forms.office.com/r/vT231a87fj',
-  IACUC2: 'https://forms.office.com/r/vT231a87fj',
-  CREF1: 'https://forms.office.com/r/n6RU8EuT3P',
-  CREF2: 'https://forms.office.com/r/n6RU8EuT3P',
-};
-
-const FORM_NAMES: Record<string, string> = {
-  PRA1: 'Protocol Review Assessment Form',
-  PRA2: 'Protocol Review Assessment Form',
-  ICA: 'Informed Consent Assessment Form',
-  IACUC: 'Protocol Review Assessment for Experimental Form',
-  IACUC2: 'Protocol Review Assessment for Experimental Form',
-  CREF1: 'Checklist for Exemption from Review Form',
-  CREF2: 'Checklist for Exemption from Review Form',
-};
-
 function monthLabel(monthId: string): string {
   const match = /^([A-Za-z]+)(\d{4})$/.exec(monthId);
   return match ? `${match[1]} ${match[2]}` : monthId;
@@ -49,8 +29,26 @@ export function reviewerAssignmentDto(item: MysqlReviewerProtocolDto): ReviewerA
     completedAt: item.reviewer.completed_at || null,
     protocolCreatedAt: item.protocol.created_at,
     formType,
-    formName: FORM_NAMES[formType] || formType || 'N/A',
-    formUrl: FORM_URLS[formType] || '',
+    formName: item.reviewer.form_name || formType || 'N/A',
+    formUrl: item.reviewer.has_review_form
+      ? `/reviewer/protocols/${item.protocol.internalId}/review?assignmentId=${item.assignmentId}`
+      : item.reviewer.form_url || '',
+    hasReviewForm: item.reviewer.has_review_form === true,
+    acceptance: item.reviewer.acceptance ?? 'accepted',
+    declineReason: item.reviewer.decline_reason ?? null,
+  };
+}
+
+export function reviewerExtensionDto(extension: MysqlDueDateExtensionDto): ReviewerExtensionRequest {
+  return {
+    id: extension.id,
+    currentDueDate: extension.currentDueDate,
+    requestedDueDate: extension.requestedDueDate,
+    justification: extension.justification,
+    status: extension.status,
+    decisionNote: extension.decisionNote,
+    createdAt: extension.createdAt,
+    decidedAt: extension.decidedAt,
   };
 }
 
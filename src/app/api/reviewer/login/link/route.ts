@@ -0,0 +1,88 @@
+import { randomBytes } from 'node:crypto';
+import { after, NextRequest, NextResponse } from 'next/server';
+import {
+  countRecentReviewerLoginTokens,
+  createReviewerLoginToken,
+  getReviewerByEmail,
+} from '@/lib/mysql';
+import { getConfiguredAppUrl } from '@/lib/appUrl';
+import { escapeHtml } from '@/lib/emailTemplates';
+import { getMailFrom, getMailTransporter } from '@/lib/mailer';
+
+export const runtime = 'nodejs';
+
+const LINK_LIFETIME_MINUTES = 15;
+const MAX_LINKS_PER_WINDOW = 5;
+const SENT_MESSAGE = 'If that email belongs to a reviewer, a sign-in link is on its way. It expires in 15 minutes.';
+
+function cleanString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function isValidEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+/** Issues and emails a sign-in link when the address belongs to a reviewer under the rate limit. */
+async function sendSignInLink(request: NextRequest, email: string): Promise<void> {
+  // Never build the link from the request: on this public endpoint a spoofed
+  // Host header would otherwise mail a working token inside someone else's link.
+  const appUrl = getConfiguredAppUrl();
+  if (!appUrl) {
+    console.error('NEXT_PUBLIC_APP_URL is not set, so reviewer sign-in links cannot be sent.');
+    return;
+  }
+
+  const reviewer = await getReviewerByEmail(email);
+  if (!reviewer?.email) return;
+  if (await countRecentReviewerLoginTokens(reviewer.internalId, LINK_LIFETIME_MINUTES) >= MAX_LINKS_PER_WINDOW) return;
+
+  const token = randomBytes(32).toString('base64url');
+  await createReviewerLoginToken({
+    reviewerInternalId: reviewer.internalId,
+    token,
+    expiresAt: new Date(Date.now() + LINK_LIFETIME_MINUTES * 60_000),
+    requestedIp: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null,
+  });
+
+  // Sent directly rather than queued so the single-use link is never stored
+  // in the mail history.
+  const url = `${appUrl}/sign-in?token=${encodeURIComponent(token)}`;
+  await getMailTransporter().sendMail({
+    from: getMailFrom(),
+    to: reviewer.email,
+    subject: 'Your e-REC sign-in link',
+    html: `<!doctype html><html><body style="font-family:Arial,sans-serif;color:#1f2937">
+      <h2>Sign in to e-REC</h2><p>Dear ${escapeHtml(reviewer.name)},</p>
+      <p>Use the link below to sign in to the e-REC reviewer portal. It works once and expires in ${LINK_LIFETIME_MINUTES} minutes.</p>
+      <p><a href="${escapeHtml(url)}">Sign in to the e-REC reviewer portal</a></p>
+      <p>If you did not request this email, you can ignore it.</p>
+    </body></html>`,
+    text: `Sign in to e-REC\n\nDear ${reviewer.name},\n\nUse this link to sign in. It works once and expires in ${LINK_LIFETIME_MINUTES} minutes:\n${url}\n\nIf you did not request this email, you can ignore it.`,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  let email: string;
+  try {
+    const body = await request.json() as Record<string, unknown>;
+    email = cleanString(body.email);
+  } catch {
+    return NextResponse.json({ error: 'Enter a valid email address.' }, { status: 400 });
+  }
+  if (!isValidEmail(email)) {
+    return NextResponse.json({ error: 'Enter a valid email address.' }, { status: 400 });
+  }
+
+  // The lookup and the email happen after the response, which is the same
+  // whether or not the address is known, so neither its timing nor a mail
+  // failure reveals which addresses belong to reviewers.
+  after(async () => {
+    try {
+      await sendSignInLink(request, email);
+    } catch (error) {
+      console.error('Failed to send reviewer sign-in link:', error);
+    }
+  });
+  return NextResponse.json({ message: SENT_MESSAGE });
+}
@@ -1,10 +1,31 @@
 import { NextResponse } from 'next/server';
-import { findReviewerByAccess } from '@/lib/mysql';
+import { createReviewerSession, findReviewerByAccess, getReviewerLoginSettings } from '@/lib/mysql';
+import { setReviewerSessionCookie } from '@/lib/reviewerAuth';
+import { createSessionToken } from '@/lib/sessionToken';
 
 export const runtime = 'nodejs';
 
+export async function GET() {
+  try {
+    const settings = await getReviewerLoginSettings();
+    return NextResponse.json({ legacyLoginEnabled: settings.allowLegacyLogin });
+  } catch (error) {
+    console.error('Failed to load reviewer login settings:', error);
+    return NextResponse.json({ error: 'Failed to load sign-in options.' }, { status: 500 });
+  }
+}
+
+/** Legacy sign-in by access code or name; only available while an admin allows it. */
 export async function POST(request: Request) {
   try {
+    const settings = await getReviewerLoginSettings();
+    if (!settings.allowLegacyLogin) {
+      return NextResponse.json(
+        { error: 'Sign-in by reviewer ID or name is disabled. Request a sign-in link by email instead.' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json() as { reviewerInput?: unknown };
     const reviewerInput = typeof body.reviewerInput === 'string' ? body.reviewerInput.trim() : '';
     if (!reviewerInput) return NextResponse.json({ error: 'Reviewer ID or name is required.' }, { status: 400 });
@@ -14,7 +35,18 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Reviewer ID or name not found. Please check and try again.' }, { status: 404 });
     }
 
-    return NextResponse.json({ reviewer: { id: reviewer.id, name: reviewer.name } });
+    const session = createSessionToken('reviewer');
+    await createReviewerSession({
+      reviewerInternalId: reviewer.internalId,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null,
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    const response = NextResponse.json({ reviewer: { id: reviewer.id, name: reviewer.name } });
+    await setReviewerSessionCookie(response, session);
+    return response;
   } catch (error) {
     console.error('Reviewer login failed:', error);
     return NextResponse.json({ error: 'Unable to sign in right now.' }, { status: 500 });
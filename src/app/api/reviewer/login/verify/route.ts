@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { consumeReviewerLoginToken, createReviewerSession } from '@/lib/mysql';
+import { setReviewerSessionCookie } from '@/lib/reviewerAuth';
+import { createSessionToken } from '@/lib/sessionToken';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json() as { token?: unknown };
+    const token = typeof body.token === 'string' ? body.token.trim() : '';
+    if (!token) return NextResponse.json({ error: 'Sign-in link is missing its token.' }, { status: 400 });
+
+    const reviewer = await consumeReviewerLoginToken(token);
+    if (!reviewer) {
+      return NextResponse.json({ error: 'This sign-in link has expired or was already used. Request a new one.' }, { status: 401 });
+    }
+
+    const session = createSessionToken('reviewer');
+    await createReviewerSession({
+      reviewerInternalId: reviewer.internalId,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null,
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    const response = NextResponse.json({ reviewer: { id: reviewer.id, name: reviewer.name } });
+    await setReviewerSessionCookie(response, session);
+    return response;
+  } catch (error) {
+    console.error('Reviewer sign-in link verification failed:', error);
+    return NextResponse.json({ error: 'Unable to sign in right now.' }, { status: 500 });
+  }
+}
@@ -1,9 +1,6 @@
 import { NextResponse } from 'next/server';
-import {
-  getReviewerByAccessCode,
-  listActiveNoticesForReviewer,
-  toggleNoticeLike,
-} from '@/lib/mysql';
+import { listActiveNoticesForReviewer, toggleNoticeLike } from '@/lib/mysql';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
 import { reviewerNoticeDto } from '@/app/api/reviewer/dto';
 
 export const runtime = 'nodejs';
@@ -12,13 +9,12 @@ export async function PUT(request: Request, context: { params: Promise<{ noticeI
   try {
     const { noticeId } = await context.params;
     if (!/^\d+$/.test(noticeId)) return NextResponse.json({ error: 'Invalid notice identifier.' }, { status: 400 });
-    const body = await request.json() as { reviewerId?: unknown; liked?: unknown };
-    const reviewerId = typeof body.reviewerId === 'string' ? body.reviewerId.trim() : '';
+    const body = await request.json() as { liked?: unknown };
     if (typeof body.liked !== 'boolean') {
       return NextResponse.json({ error: 'The desired like state is required.' }, { status: 400 });
     }
-    const reviewer = await getReviewerByAccessCode(reviewerId);
-    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
 
     let notices = await listActiveNoticesForReviewer(reviewer.internalId);
     let notice = notices.find((item) => item.internalId === noticeId);
@@ -1,18 +1,14 @@
 import { NextResponse } from 'next/server';
-import {
-  getReviewerByAccessCode,
-  listActiveNoticesForReviewer,
-  listActiveSystemNotices,
-} from '@/lib/mysql';
+import { listActiveNoticesForReviewer, listActiveSystemNotices } from '@/lib/mysql';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
 import { reviewerNoticeDto } from '@/app/api/reviewer/dto';
 
 export const runtime = 'nodejs';
 
-export async function GET(request: Request) {
+export async function GET() {
   try {
-    const reviewerId = new URL(request.url).searchParams.get('reviewerId')?.trim() || '';
-    const reviewer = await getReviewerByAccessCode(reviewerId);
-    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
     const [notices, systemNotices] = await Promise.all([
       listActiveNoticesForReviewer(reviewer.internalId),
       listActiveSystemNotices(),
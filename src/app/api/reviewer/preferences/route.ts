@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { saveReviewerNotificationPreferences } from '@/lib/mysql';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
+import { parseNotificationPreferences, reviewerPreferencesView } from '@/lib/reviewerPreferences';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
+    return NextResponse.json(await reviewerPreferencesView(reviewer));
+  } catch (error) {
+    console.error('Failed to load reviewer email preferences:', error);
+    return NextResponse.json({ error: 'Failed to load email preferences.' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
+
+    const parsed = parseNotificationPreferences(await request.json() as Record<string, unknown>);
+    if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    await saveReviewerNotificationPreferences(reviewer.internalId, parsed.preferences);
+    return NextResponse.json(await reviewerPreferencesView(reviewer));
+  } catch (error) {
+    console.error('Failed to save reviewer email preferences:', error);
+    return NextResponse.json({ error: 'Failed to save email preferences.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { declareReviewerConflict } from '@/lib/mysql';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await context.params;
+    if (!/^\d+$/.test(id)) return NextResponse.json({ error: 'Invalid protocol identifier.' }, { status: 400 });
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
+
+    const body = await request.json() as { reason?: unknown };
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (!reason) return NextResponse.json({ error: 'Describe the conflict.' }, { status: 400 });
+
+    const conflict = await declareReviewerConflict({
+      reviewerInternalId: reviewer.internalId,
+      protocolInternalId: id,
+      reason,
+    });
+    return NextResponse.json({ conflict: { reason: conflict.reason, createdAt: conflict.createdAt } }, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to declare the conflict.';
+    console.error('Failed to declare reviewer conflict:', error);
+    return NextResponse.json({ error: message }, { status: message.includes('not assigned') ? 404 : 500 });
+  }
+}
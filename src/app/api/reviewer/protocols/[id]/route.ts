@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getReviewerByAccessCode, listReviewerAssignments } from '@/lib/mysql';
-import { reviewerAssignmentDto } from '@/app/api/reviewer/dto';
+import { listDueDateExtensions, listReviewerAssignments, listReviewerConflicts } from '@/lib/mysql';
+import { getCurrentReviewer } from '@/lib/reviewerAuth';
+import { reviewerAssignmentDto, reviewerExtensionDto } from '@/app/api/reviewer/dto';
 
 export const runtime = 'nodejs';
 
@@ -8,11 +9,9 @@ export async function GET(request: Request, context: { params: Promise<{ id: str
   try {
     const { id } = await context.params;
     if (!/^\d+$/.test(id)) return NextResponse.json({ error: 'Invalid protocol identifier.' }, { status: 400 });
-    const url = new URL(request.url);
-    const reviewerId = url.searchParams.get('reviewerId')?.trim() || '';
-    const assignmentId = url.searchParams.get('assignmentId');
-    const reviewer = await getReviewerByAccessCode(reviewerId);
-    if (!reviewer) return NextResponse.json({ error: 'Reviewer not found.' }, { status: 404 });
+    const assignmentId = new URL(request.url).searchParams.get('assignmentId');
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
 
     const assignments = await listReviewerAssignments(reviewer.internalId);
     const assignment = assignments.find((item) =>
@@ -20,7 +19,15 @@ export async function GET(request: Request, context: { params: Promise<{ id: str
     );
     if (!assignment) return NextResponse.json({ error: 'Protocol is not assigned to this reviewer.' }, { status: 404 });
 
-    return NextResponse.json({ assignment: reviewerAssignmentDto(assignment) });
+    const [[conflict], extensions] = await Promise.all([
+      listReviewerConflicts({ reviewerInternalId: reviewer.internalId, protocolInternalId: id }),
+      listDueDateExtensions({ reviewerInternalId: reviewer.internalId, assignmentId: assignment.assignmentId }),
+    ]);
+    return NextResponse.json({
+      assignment: reviewerAssignmentDto(assignment),
+      conflict: conflict ? { reason: conflict.reason, createdAt: conflict.createdAt } : null,
+      extension: extensions[0] ? reviewerExtensionDto(extensions[0]) : null,
+    });
   } catch (error) {
     console.error('Failed to load reviewer protocol:', error);
     return NextResponse.json({ error: 'Failed to load protocol details.' }, { status: 500 });
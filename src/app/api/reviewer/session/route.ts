@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { revokeReviewerSession } from '@/lib/mysql';
+import {
+  clearReviewerSessionCookie,
+  getCurrentReviewer,
+  getCurrentReviewerSessionToken,
+} from '@/lib/reviewerAuth';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const reviewer = await getCurrentReviewer();
+    if (!reviewer) return NextResponse.json({ error: 'Reviewer sign-in required.' }, { status: 401 });
+    return NextResponse.json({ reviewer: { id: reviewer.id, name: reviewer.name } });
+  } catch (error) {
+    console.error('Failed to load reviewer session:', error);
+    return NextResponse.json({ error: 'Failed to load reviewer session.' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const token = await getCurrentReviewerSessionToken();
+    if (token) await revokeReviewerSession(token);
+
+    const response = NextResponse.json({ success: true });
+    clearReviewerSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Reviewer sign-out failed:', error);
+    return NextResponse.json({ error: 'Failed to sign out.' }, { status: 500 });
+  }
+}
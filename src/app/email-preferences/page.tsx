@@ -0,0 +1,35 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import NotificationPreferencesForm from '@/components/NotificationPreferencesForm';
+import { COLORS, STYLES } from '@/lib/colors';
+
+function PreferencesLinkForm() {
+  const token = useSearchParams().get('token') || '';
+  if (!token) {
+    return <div className="rounded bg-red-100 p-3 text-sm text-red-800">This preferences link is incomplete. Use the link from a recent e-REC email.</div>;
+  }
+  return <NotificationPreferencesForm endpoint="/api/email-preferences" token={token} />;
+}
+
+export default function EmailPreferencesPage() {
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-b from-green-50 to-emerald-100">
+      <header style={{ backgroundColor: COLORS.brand.green[800] }} className="p-4 text-white">
+        <div className="container mx-auto">
+          <h1 className="text-2xl font-bold">e-REC Ethics Review System</h1>
+        </div>
+      </header>
+
+      <main className="flex flex-grow items-center justify-center p-4">
+        <div className="w-full max-w-lg rounded-lg bg-white p-8 shadow-lg">
+          <h1 style={STYLES.brandGreenText} className="mb-6 text-center text-2xl font-bold">Email Preferences</h1>
+          <Suspense fallback={<p className="text-sm text-gray-500">Loading email preferences...</p>}>
+            <PreferencesLinkForm />
+          </Suspense>
+        </div>
+      </main>
+    </div>
+  );
+}
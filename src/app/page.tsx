@@ -1,17 +1,67 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { COLORS, STYLES } from '@/lib/colors';
 import type { ReviewerIdentity } from '@/app/reviewer/types';
 
 export default function HomePage() {
+  const [email, setEmail] = useState('');
   const [reviewerInput, setReviewerInput] = useState('');
+  const [legacyLoginEnabled, setLegacyLoginEnabled] = useState(false);
+  const [showLegacyLogin, setShowLegacyLogin] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
   const router = useRouter();
 
-  const handleLogin = async (event: React.FormEvent) => {
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const response = await fetch('/api/reviewer/login', { cache: 'no-store' });
+        const result = await response.json() as { legacyLoginEnabled?: boolean };
+        setLegacyLoginEnabled(response.ok && result.legacyLoginEnabled === true);
+      } catch (optionsError) {
+        console.error('Failed to load sign-in options:', optionsError);
+      }
+    };
+    void loadOptions();
+  }, []);
+
+  const handleRequestLink = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const input = email.trim();
+
+    if (!input) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/reviewer/login/link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: input }),
+      });
+      const result = await response.json() as { message?: string; error?: string };
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Unable to send a sign-in link. Please try again.');
+      }
+
+      setMessage(result.message || 'Check your email for a sign-in link.');
+    } catch (linkError) {
+      setError(linkError instanceof Error ? linkError.message : 'An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLegacyLogin = async (event: React.FormEvent) => {
     event.preventDefault();
     const input = reviewerInput.trim();
 
@@ -22,6 +72,7 @@ export default function HomePage() {
 
     setLoading(true);
     setError(null);
+    setMessage(null);
 
     try {
       const response = await fetch('/api/reviewer/login', {
@@ -35,7 +86,6 @@ export default function HomePage() {
         throw new Error(result.error || 'Reviewer ID or name not found. Please check and try again.');
       }
 
-      localStorage.setItem('reviewerId', result.reviewer.id);
       localStorage.setItem('reviewerName', result.reviewer.name);
       router.push('/reviewer/dashboard');
     } catch (loginError) {
@@ -61,30 +111,72 @@ export default function HomePage() {
           </div>
 
           {error && <div className="mb-4 rounded bg-red-100 p-3 text-sm text-red-800">{error}</div>}
+          {message && <div className="mb-4 rounded bg-green-100 p-3 text-sm text-green-800">{message}</div>}
 
-          <form onSubmit={handleLogin} className="space-y-4">
-            <div>
-              <label htmlFor="reviewer-id" className="mb-1 block text-sm font-medium text-gray-700">
-                Reviewer ID or name
-              </label>
-              <input
-                id="reviewer-id"
-                value={reviewerInput}
-                onChange={(event) => setReviewerInput(event.target.value)}
-                className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-green-600 focus:outline-none focus:ring-1 focus:ring-green-600"
-                autoComplete="username"
+          {showLegacyLogin && legacyLoginEnabled ? (
+            <form onSubmit={handleLegacyLogin} className="space-y-4">
+              <div>
+                <label htmlFor="reviewer-id" className="mb-1 block text-sm font-medium text-gray-700">
+                  Reviewer ID or name
+                </label>
+                <input
+                  id="reviewer-id"
+                  value={reviewerInput}
+                  onChange={(event) => setReviewerInput(event.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-green-600 focus:outline-none focus:ring-1 focus:ring-green-600"
+                  autoComplete="username"
+                  disabled={loading}
+                />
+              </div>
+              <button
+                type="submit"
+                style={STYLES.brandGreenButton}
+                className="w-full rounded-md px-4 py-2 font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={loading}
+              >
+                {loading ? 'Signing in...' : 'Sign in'}
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleRequestLink} className="space-y-4">
+              <div>
+                <label htmlFor="reviewer-email" className="mb-1 block text-sm font-medium text-gray-700">
+                  Email address
+                </label>
+                <input
+                  id="reviewer-email"
+                  type="email"
+                  value={email}
+                  onChange={(event) => setEmail(event.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-green-600 focus:outline-none focus:ring-1 focus:ring-green-600"
+                  autoComplete="email"
+                  disabled={loading}
+                />
+              </div>
+              <button
+                type="submit"
+                style={STYLES.brandGreenButton}
+                className="w-full rounded-md px-4 py-2 font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
                 disabled={loading}
-              />
-            </div>
+              >
+                {loading ? 'Sending link...' : 'Email me a sign-in link'}
+              </button>
+            </form>
+          )}
+
+          {legacyLoginEnabled && (
             <button
-              type="submit"
-              style={STYLES.brandGreenButton}
-              className="w-full rounded-md px-4 py-2 font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
-              disabled={loading}
+              type="button"
+              onClick={() => {
+                setShowLegacyLogin((current) => !current);
+                setError(null);
+                setMessage(null);
+              }}
+              className="mt-4 w-full text-center text-sm font-medium text-green-700 hover:text-green-900"
             >
-              {loading ? 'Signing in...' : 'Sign in'}
+              {showLegacyLogin ? 'Sign in with an email link instead' : 'Sign in with your Reviewer ID or name'}
             </button>
-          </form>
+          )}
         </div>
       </main>
     </div>
@@ -20,12 +20,19 @@ export default function ReviewerNav() {
 
   const navLinks = [
     { name: 'Dashboard', href: '/reviewer/dashboard' },
+    { name: 'Email Preferences', href: '/reviewer/preferences' },
   ];
 
-  const handleLogout = () => {
-    localStorage.removeItem('reviewerId');
-    localStorage.removeItem('reviewerName');
-    window.location.href = '/';
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/reviewer/session', { method: 'DELETE' });
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    } finally {
+      localStorage.removeItem('reviewerId');
+      localStorage.removeItem('reviewerName');
+      window.location.href = '/';
+    }
   };
 
   const toggleMobileMenu = () => {
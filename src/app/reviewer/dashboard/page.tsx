@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import { useEffect, useMemo, useState } from 'react';
 import type {
+  AssignmentAcceptance,
   ReviewerAssignmentDto,
   ReviewerAssignmentsResponse,
   ReviewerIdentity,
@@ -37,25 +38,22 @@ export default function ReviewerDashboard() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState<Record<string, boolean>>({});
+  const [decliningId, setDecliningId] = useState<string | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
 
   const loadAssignments = async () => {
-    const reviewerId = localStorage.getItem('reviewerId');
-    if (!reviewerId) {
-      window.location.href = '/';
-      return;
-    }
-
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`/api/reviewer/assignments?reviewerId=${encodeURIComponent(reviewerId)}`, {
-        cache: 'no-store',
-      });
+      const response = await fetch('/api/reviewer/assignments', { cache: 'no-store' });
+      if (response.status === 401) {
+        window.location.href = '/';
+        return;
+      }
       const result = await response.json() as ReviewerAssignmentsResponse & { error?: string };
       if (!response.ok) throw new Error(result.error || 'Failed to load assigned protocols.');
       setReviewer(result.reviewer);
       setAssignments(result.assignments);
-      localStorage.setItem('reviewerId', result.reviewer.id);
       localStorage.setItem('reviewerName', result.reviewer.name);
     } catch (loadError) {
       setError(loadError instanceof Error ? loadError.message : 'Failed to load assigned protocols.');
@@ -92,7 +90,7 @@ export default function ReviewerDashboard() {
       const response = await fetch('/api/reviewer/assignments', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ reviewerId: reviewer.id, assignmentIds, status }),
+        body: JSON.stringify({ assignmentIds, status }),
       });
       const result = await response.json() as { assignments?: ReviewerAssignmentDto[]; error?: string };
       if (!response.ok || !result.assignments) throw new Error(result.error || 'Failed to update review status.');
@@ -105,6 +103,28 @@ export default function ReviewerDashboard() {
     }
   };
 
+  const respond = async (assignmentId: string, response: Exclude<AssignmentAcceptance, 'pending'>, reason = '') => {
+    setUpdating({ [assignmentId]: true });
+    setError(null);
+    try {
+      const result = await fetch(`/api/reviewer/assignments/${encodeURIComponent(assignmentId)}/response`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response, reason }),
+      });
+      const payload = await result.json() as { assignment?: ReviewerAssignmentDto; error?: string };
+      if (!result.ok || !payload.assignment) throw new Error(payload.error || 'Failed to record your response.');
+      const changed = payload.assignment;
+      setAssignments((current) => current.map((item) => item.assignmentId === changed.assignmentId ? changed : item));
+      setDecliningId(null);
+      setDeclineReason('');
+    } catch (respondError) {
+      setError(respondError instanceof Error ? respondError.message : 'Failed to record your response.');
+    } finally {
+      setUpdating({});
+    }
+  };
+
   if (loading) {
     return <div className="flex min-h-[24rem] items-center justify-center text-gray-600">Loading assigned protocols...</div>;
   }
@@ -119,12 +139,14 @@ export default function ReviewerDashboard() {
         <button
           type="button"
           onClick={() => {
-            const pendingIds = visibleAssignments.filter((item) => item.status !== 'Completed').map((item) => item.assignmentId);
+            const pendingIds = visibleAssignments
+              .filter((item) => item.status !== 'Completed' && !item.hasReviewForm)
+              .map((item) => item.assignmentId);
             if (pendingIds.length && window.confirm(`Mark ${pendingIds.length} review${pendingIds.length === 1 ? '' : 's'} as completed?`)) {
               void updateStatus(pendingIds, 'Completed');
             }
           }}
-          disabled={!visibleAssignments.some((item) => item.status !== 'Completed') || Object.keys(updating).length > 0}
+          disabled={!visibleAssignments.some((item) => item.status !== 'Completed' && !item.hasReviewForm) || Object.keys(updating).length > 0}
           className="rounded-md bg-green-700 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
         >
           Complete visible reviews
@@ -167,27 +189,102 @@ export default function ReviewerDashboard() {
                       <div className="flex flex-wrap items-center gap-2">
                         <span className="font-semibold text-green-800">{assignment.recCode}</span>
                         <span className={`rounded-full px-2 py-1 text-xs font-medium ${badge.className}`}>{badge.label}</span>
+                        {assignment.status !== 'Completed' && assignment.acceptance === 'pending' && (
+                          <span className="rounded-full bg-purple-100 px-2 py-1 text-xs font-medium text-purple-800">Awaiting your response</span>
+                        )}
+                        {assignment.status !== 'Completed' && assignment.acceptance === 'declined' && (
+                          <span className="rounded-full bg-gray-200 px-2 py-1 text-xs font-medium text-gray-700">Declined</span>
+                        )}
                       </div>
                       <h2 className="mt-2 font-medium text-gray-950">{assignment.researchTitle}</h2>
                       <p className="mt-1 text-sm text-gray-600">{assignment.releasePeriod} · {assignment.formName}</p>
                       <p className="mt-1 text-sm text-gray-600">Due: {assignment.dueDate || 'No due date'}</p>
+                      {assignment.acceptance === 'declined' && assignment.declineReason && (
+                        <p className="mt-1 text-sm text-gray-500">You declined: {assignment.declineReason}</p>
+                      )}
                     </div>
                     <div className="flex flex-wrap gap-2">
+                      {assignment.status !== 'Completed' && assignment.acceptance !== 'accepted' && (
+                        <button
+                          type="button"
+                          disabled={Boolean(updating[assignment.assignmentId])}
+                          onClick={() => void respond(assignment.assignmentId, 'accepted')}
+                          className="rounded-md bg-purple-700 px-3 py-2 text-sm font-medium text-white disabled:opacity-50"
+                        >
+                          Accept
+                        </button>
+                      )}
+                      {assignment.status !== 'Completed' && assignment.acceptance !== 'declined' && (
+                        <button
+                          type="button"
+                          disabled={Boolean(updating[assignment.assignmentId])}
+                          onClick={() => {
+                            setDecliningId(assignment.assignmentId);
+                            setDeclineReason('');
+                          }}
+                          className="rounded-md border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 disabled:opacity-50"
+                        >
+                          Decline
+                        </button>
+                      )}
                       <Link href={`/reviewer/protocols/${assignment.protocolKey}?assignmentId=${assignment.assignmentId}`} className="rounded-md border px-3 py-2 text-sm font-medium text-gray-700">
                         View details
                       </Link>
                       {assignment.documentLink && <a href={assignment.documentLink} target="_blank" rel="noreferrer" className="rounded-md border px-3 py-2 text-sm font-medium text-blue-700">Open document</a>}
-                      {assignment.formUrl && <a href={assignment.formUrl} target="_blank" rel="noreferrer" className="rounded-md border px-3 py-2 text-sm font-medium text-blue-700">Open form</a>}
-                      <button
-                        type="button"
-                        disabled={Boolean(updating[assignment.assignmentId])}
-                        onClick={() => void updateStatus([assignment.assignmentId], assignment.status === 'Completed' ? 'In Progress' : 'Completed')}
-                        className="rounded-md bg-green-700 px-3 py-2 text-sm font-medium text-white disabled:opacity-50"
-                      >
-                        {assignment.status === 'Completed' ? 'Reopen' : 'Mark complete'}
-                      </button>
+                      {assignment.hasReviewForm && assignment.status !== 'Completed' && assignment.acceptance !== 'declined' && (
+                        <Link href={assignment.formUrl} className="rounded-md bg-green-700 px-3 py-2 text-sm font-medium text-white">
+                          Fill in form
+                        </Link>
+                      )}
+                      {!assignment.hasReviewForm && assignment.formUrl && (
+                        <a href={assignment.formUrl} target="_blank" rel="noreferrer" className="rounded-md border px-3 py-2 text-sm font-medium text-blue-700">Open form</a>
+                      )}
+                      {(!assignment.hasReviewForm || assignment.status === 'Completed') && (
+                        <button
+                          type="button"
+                          disabled={Boolean(updating[assignment.assignmentId])}
+                          onClick={() => void updateStatus([assignment.assignmentId], assignment.status === 'Completed' ? 'In Progress' : 'Completed')}
+                          className="rounded-md bg-green-700 px-3 py-2 text-sm font-medium text-white disabled:opacity-50"
+                        >
+                          {assignment.status === 'Completed' ? 'Reopen' : 'Mark complete'}
+                        </button>
+                      )}
                     </div>
                   </div>
+                  {decliningId === assignment.assignmentId && (
+                    <form
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        void respond(assignment.assignmentId, 'declined', declineReason);
+                      }}
+                      className="mt-4 space-y-2 rounded-md border bg-gray-50 p-3"
+                    >
+                      <label htmlFor={`decline-${assignment.assignmentId}`} className="block text-sm font-medium text-gray-700">
+                        Why are you unable to take this review?
+                      </label>
+                      <textarea
+                        id={`decline-${assignment.assignmentId}`}
+                        value={declineReason}
+                        onChange={(event) => setDeclineReason(event.target.value)}
+                        maxLength={500}
+                        rows={2}
+                        required
+                        className="w-full rounded-md border px-3 py-2 text-sm"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          type="submit"
+                          disabled={Boolean(updating[assignment.assignmentId]) || !declineReason.trim()}
+                          className="rounded-md bg-gray-800 px-3 py-2 text-sm font-medium text-white disabled:opacity-50"
+                        >
+                          Decline review
+                        </button>
+                        <button type="button" onClick={() => setDecliningId(null)} className="rounded-md border px-3 py-2 text-sm font-medium text-gray-700">
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  )}
                 </article>
               );
             })}
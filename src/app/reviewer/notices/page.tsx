@@ -19,22 +19,18 @@ function formatDate(value: string | null): string {
 export default function ReviewerNoticesPage() {
   const [notices, setNotices] = useState<ReviewerNoticeDto[]>([]);
   const [systemNotices, setSystemNotices] = useState<SystemNoticeDto[]>([]);
-  const [reviewerId, setReviewerId] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState<Record<string, boolean>>({});
 
   useEffect(() => {
-    const id = localStorage.getItem('reviewerId');
-    if (!id) {
-      window.location.href = '/';
-      return;
-    }
-    setReviewerId(id);
-
     const load = async () => {
       try {
-        const response = await fetch(`/api/reviewer/notices?reviewerId=${encodeURIComponent(id)}`, { cache: 'no-store' });
+        const response = await fetch('/api/reviewer/notices', { cache: 'no-store' });
+        if (response.status === 401) {
+          window.location.href = '/';
+          return;
+        }
         const result = await response.json() as { notices?: ReviewerNoticeDto[]; systemNotices?: SystemNoticeDto[]; error?: string };
         if (!response.ok) throw new Error(result.error || 'Failed to load notices.');
         setNotices(result.notices || []);
@@ -50,14 +46,14 @@ export default function ReviewerNoticesPage() {
   }, []);
 
   const toggleLike = async (notice: ReviewerNoticeDto) => {
-    if (!reviewerId || updating[notice.id]) return;
+    if (updating[notice.id]) return;
     setUpdating((current) => ({ ...current, [notice.id]: true }));
     setError(null);
     try {
       const response = await fetch(`/api/reviewer/notices/${encodeURIComponent(notice.id)}/like`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ reviewerId, liked: !notice.likedByReviewer }),
+        body: JSON.stringify({ liked: !notice.likedByReviewer }),
       });
       const result = await response.json() as { notice?: ReviewerNoticeDto; error?: string };
       if (!response.ok || !result.notice) throw new Error(result.error || 'Failed to update like.');
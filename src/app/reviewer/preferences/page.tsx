@@ -0,0 +1,18 @@
+'use client';
+
+import Link from 'next/link';
+import NotificationPreferencesForm from '@/components/NotificationPreferencesForm';
+
+export default function ReviewerPreferencesPage() {
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 p-4 sm:p-6">
+      <div className="flex flex-col justify-between gap-2 border-b pb-3 sm:flex-row sm:items-center">
+        <h1 className="text-2xl font-semibold text-green-800">Email Preferences</h1>
+        <Link href="/reviewer/dashboard" className="text-sm font-medium text-blue-700">Return to dashboard</Link>
+      </div>
+      <section className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        <NotificationPreferencesForm endpoint="/api/reviewer/preferences" />
+      </section>
+    </div>
+  );
+}
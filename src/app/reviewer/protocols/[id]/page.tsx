@@ -2,8 +2,13 @@
 
 import Link from 'next/link';
 import { useParams, useSearchParams } from 'next/navigation';
-import { useEffect, useState } from 'react';
-import type { ReviewerAssignmentDto, ReviewStatus } from '@/app/reviewer/types';
+import { useEffect, useState, type FormEvent } from 'react';
+import type {
+  ReviewerAssignmentDto,
+  ReviewerConflictDeclaration,
+  ReviewerExtensionRequest,
+  ReviewStatus,
+} from '@/app/reviewer/types';
 
 export default function ReviewerProtocolPage() {
   const params = useParams<{ id: string }>();
@@ -15,23 +20,35 @@ export default function ReviewerProtocolPage() {
   const [updating, setUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<ReviewerConflictDeclaration | null>(null);
+  const [conflictOpen, setConflictOpen] = useState(false);
+  const [conflictReason, setConflictReason] = useState('');
+  const [extension, setExtension] = useState<ReviewerExtensionRequest | null>(null);
+  const [extensionOpen, setExtensionOpen] = useState(false);
+  const [extensionDate, setExtensionDate] = useState('');
+  const [extensionJustification, setExtensionJustification] = useState('');
 
   useEffect(() => {
-    const reviewerId = localStorage.getItem('reviewerId');
-    if (!reviewerId) {
-      window.location.href = '/';
-      return;
-    }
-
     const load = async () => {
       setLoading(true);
       try {
-        const query = new URLSearchParams({ reviewerId });
+        const query = new URLSearchParams();
         if (requestedAssignmentId) query.set('assignmentId', requestedAssignmentId);
         const response = await fetch(`/api/reviewer/protocols/${encodeURIComponent(protocolKey)}?${query}`, { cache: 'no-store' });
-        const result = await response.json() as { assignment?: ReviewerAssignmentDto; error?: string };
+        if (response.status === 401) {
+          window.location.href = '/';
+          return;
+        }
+        const result = await response.json() as {
+          assignment?: ReviewerAssignmentDto;
+          conflict?: ReviewerConflictDeclaration | null;
+          extension?: ReviewerExtensionRequest | null;
+          error?: string;
+        };
         if (!response.ok || !result.assignment) throw new Error(result.error || 'Protocol not found.');
         setAssignment(result.assignment);
+        setConflict(result.conflict ?? null);
+        setExtension(result.extension ?? null);
       } catch (loadError) {
         setError(loadError instanceof Error ? loadError.message : 'Failed to load protocol details.');
       } finally {
@@ -42,8 +59,7 @@ export default function ReviewerProtocolPage() {
   }, [protocolKey, requestedAssignmentId]);
 
   const updateStatus = async (status: ReviewStatus) => {
-    const reviewerId = localStorage.getItem('reviewerId');
-    if (!reviewerId || !assignment) return;
+    if (!assignment) return;
     setUpdating(true);
     setError(null);
     setSuccess(null);
@@ -51,7 +67,7 @@ export default function ReviewerProtocolPage() {
       const response = await fetch('/api/reviewer/assignments', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ reviewerId, assignmentIds: [assignment.assignmentId], status }),
+        body: JSON.stringify({ assignmentIds: [assignment.assignmentId], status }),
       });
       const result = await response.json() as { assignments?: ReviewerAssignmentDto[]; error?: string };
       if (!response.ok || !result.assignments?.[0]) throw new Error(result.error || 'Failed to update review status.');
@@ -64,6 +80,56 @@ export default function ReviewerProtocolPage() {
     }
   };
 
+  const declareConflict = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setUpdating(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(`/api/reviewer/protocols/${encodeURIComponent(protocolKey)}/conflict`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: conflictReason }),
+      });
+      const result = await response.json() as { conflict?: ReviewerConflictDeclaration; error?: string };
+      if (!response.ok || !result.conflict) throw new Error(result.error || 'Failed to declare the conflict.');
+      setConflict(result.conflict);
+      setConflictOpen(false);
+      setConflictReason('');
+      setSuccess('Conflict declared. The REC secretariat will reassign this review.');
+    } catch (declareError) {
+      setError(declareError instanceof Error ? declareError.message : 'Failed to declare the conflict.');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const requestExtension = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!assignment) return;
+    setUpdating(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(`/api/reviewer/assignments/${encodeURIComponent(assignment.assignmentId)}/extension`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dueDate: extensionDate, justification: extensionJustification }),
+      });
+      const result = await response.json() as { extension?: ReviewerExtensionRequest; error?: string };
+      if (!response.ok || !result.extension) throw new Error(result.error || 'Failed to request an extension.');
+      setExtension(result.extension);
+      setExtensionOpen(false);
+      setExtensionDate('');
+      setExtensionJustification('');
+      setSuccess('Extension requested. You will get an email once the REC secretariat decides.');
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Failed to request an extension.');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
   if (loading) return <div className="flex min-h-[24rem] items-center justify-center text-gray-600">Loading protocol details...</div>;
   if (!assignment) return <div className="mx-auto max-w-3xl p-6"><div className="rounded-md border border-red-200 bg-red-50 p-4 text-red-700">{error || 'Protocol not found.'}</div></div>;
 
@@ -93,16 +159,108 @@ export default function ReviewerProtocolPage() {
 
       <div className="flex flex-wrap gap-2">
         {assignment.documentLink && <a href={assignment.documentLink} target="_blank" rel="noreferrer" className="rounded-md border px-4 py-2 text-sm font-medium text-blue-700">Open protocol document</a>}
-        {assignment.formUrl && <a href={assignment.formUrl} target="_blank" rel="noreferrer" className="rounded-md border px-4 py-2 text-sm font-medium text-blue-700">Open review form</a>}
-        <button
-          type="button"
-          disabled={updating}
-          onClick={() => void updateStatus(assignment.status === 'Completed' ? 'In Progress' : 'Completed')}
-          className="rounded-md bg-green-700 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
-        >
-          {updating ? 'Saving...' : assignment.status === 'Completed' ? 'Reopen review' : 'Mark review complete'}
-        </button>
+        {assignment.hasReviewForm && (
+          <Link href={assignment.formUrl} className="rounded-md border px-4 py-2 text-sm font-medium text-blue-700">
+            {assignment.status === 'Completed' ? 'View submitted review' : 'Fill in review form'}
+          </Link>
+        )}
+        {!assignment.hasReviewForm && assignment.formUrl && (
+          <a href={assignment.formUrl} target="_blank" rel="noreferrer" className="rounded-md border px-4 py-2 text-sm font-medium text-blue-700">Open review form</a>
+        )}
+        {(!assignment.hasReviewForm || assignment.status === 'Completed') && (
+          <button
+            type="button"
+            disabled={updating}
+            onClick={() => void updateStatus(assignment.status === 'Completed' ? 'In Progress' : 'Completed')}
+            className="rounded-md bg-green-700 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+          >
+            {updating ? 'Saving...' : assignment.status === 'Completed' ? 'Reopen review' : 'Mark review complete'}
+          </button>
+        )}
+        {assignment.status !== 'Completed' && extension?.status !== 'pending' && !extensionOpen && (
+          <button type="button" onClick={() => setExtensionOpen(true)} className="rounded-md border px-4 py-2 text-sm font-medium text-gray-700">
+            Request an extension
+          </button>
+        )}
+        {!conflict && !conflictOpen && (
+          <button type="button" onClick={() => setConflictOpen(true)} className="rounded-md border border-amber-300 px-4 py-2 text-sm font-medium text-amber-800">
+            Declare a conflict of interest
+          </button>
+        )}
       </div>
+
+      {extension && (
+        <div className={`rounded-md border p-3 text-sm ${
+          extension.status === 'approved'
+            ? 'border-green-200 bg-green-50 text-green-800'
+            : extension.status === 'rejected'
+              ? 'border-red-200 bg-red-50 text-red-700'
+              : 'border-blue-200 bg-blue-50 text-blue-800'
+        }`}>
+          {extension.status === 'pending'
+            ? `You asked on ${new Date(extension.createdAt).toLocaleDateString()} to move the due date to ${extension.requestedDueDate}. The request is waiting for a decision.`
+            : `Your request to move the due date to ${extension.requestedDueDate} was ${extension.status === 'approved' ? 'approved' : 'not approved'}.`}
+          {extension.decisionNote && <span className="block mt-1">Note: {extension.decisionNote}</span>}
+        </div>
+      )}
+
+      {extensionOpen && (
+        <form onSubmit={requestExtension} className="space-y-3 rounded-lg border bg-white p-5 shadow-sm">
+          <div>
+            <label htmlFor="extension-date" className="block text-sm font-medium text-gray-700">New due date</label>
+            <input
+              id="extension-date"
+              type="date"
+              value={extensionDate}
+              min={assignment.dueDate || undefined}
+              onChange={(event) => setExtensionDate(event.target.value)}
+              required
+              className="mt-1 rounded-md border px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="extension-justification" className="block text-sm font-medium text-gray-700">Why do you need more time?</label>
+            <textarea
+              id="extension-justification"
+              value={extensionJustification}
+              onChange={(event) => setExtensionJustification(event.target.value)}
+              maxLength={1000}
+              rows={3}
+              required
+              className="mt-1 w-full rounded-md border px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button type="submit" disabled={updating || !extensionDate || !extensionJustification.trim()} className="rounded-md bg-blue-700 px-4 py-2 text-sm font-medium text-white disabled:opacity-50">Request extension</button>
+            <button type="button" onClick={() => setExtensionOpen(false)} className="rounded-md border px-4 py-2 text-sm font-medium text-gray-700">Cancel</button>
+          </div>
+        </form>
+      )}
+
+      {conflict && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+          You declared a conflict on {new Date(conflict.createdAt).toLocaleDateString()}: {conflict.reason}
+        </div>
+      )}
+
+      {conflictOpen && !conflict && (
+        <form onSubmit={declareConflict} className="space-y-3 rounded-lg border bg-white p-5 shadow-sm">
+          <label htmlFor="conflict-reason" className="block text-sm font-medium text-gray-700">Why can you not review this protocol impartially?</label>
+          <textarea
+            id="conflict-reason"
+            value={conflictReason}
+            onChange={(event) => setConflictReason(event.target.value)}
+            maxLength={500}
+            rows={3}
+            required
+            className="w-full rounded-md border px-3 py-2 text-sm"
+          />
+          <div className="flex gap-2">
+            <button type="submit" disabled={updating || !conflictReason.trim()} className="rounded-md bg-amber-700 px-4 py-2 text-sm font-medium text-white disabled:opacity-50">Declare conflict</button>
+            <button type="button" onClick={() => setConflictOpen(false)} className="rounded-md border px-4 py-2 text-sm font-medium text-gray-700">Cancel</button>
+          </div>
+        </form>
+      )}
     </div>
   );
 }
@@ -0,0 +1,229 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import type {
+  ReviewerAssignmentDto,
+  ReviewForm,
+  ReviewSubmission,
+} from '@/app/reviewer/types';
+
+const YES_NO_OPTIONS = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'no', label: 'No' },
+  { value: 'na', label: 'Not applicable' },
+];
+
+export default function ReviewerReviewFormPage() {
+  const params = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
+  const protocolKey = params.id;
+  const assignmentId = searchParams.get('assignmentId') || '';
+  const [assignment, setAssignment] = useState<ReviewerAssignmentDto | null>(null);
+  const [form, setForm] = useState<ReviewForm | null>(null);
+  const [submission, setSubmission] = useState<ReviewSubmission | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [recommendation, setRecommendation] = useState('');
+  const [comments, setComments] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const endpoint = `/api/reviewer/assignments/${encodeURIComponent(assignmentId)}/review`;
+
+  const applySubmission = (next: ReviewSubmission | null) => {
+    setSubmission(next);
+    setAnswers(next?.answers ?? {});
+    setRecommendation(next?.recommendation ?? '');
+    setComments(next?.comments ?? '');
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        if (!/^\d+$/.test(assignmentId)) throw new Error('Open the review form from your dashboard.');
+        const response = await fetch(endpoint, { cache: 'no-store' });
+        if (response.status === 401) {
+          window.location.href = '/';
+          return;
+        }
+        const result = await response.json() as {
+          assignment?: ReviewerAssignmentDto;
+          form?: ReviewForm;
+          submission?: ReviewSubmission | null;
+          error?: string;
+        };
+        if (!response.ok || !result.assignment || !result.form) throw new Error(result.error || 'Review form not found.');
+        setAssignment(result.assignment);
+        setForm(result.form);
+        applySubmission(result.submission ?? null);
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load the review form.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    void load();
+  }, [assignmentId, endpoint]);
+
+  const save = async (submit: boolean) => {
+    if (submit && !window.confirm('Submit this review? It will be marked as completed.')) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers, recommendation, comments, submit }),
+      });
+      const result = await response.json() as {
+        submission?: ReviewSubmission;
+        assignment?: ReviewerAssignmentDto | null;
+        error?: string;
+      };
+      if (!response.ok || !result.submission) throw new Error(result.error || 'Failed to save the review.');
+      applySubmission(result.submission);
+      if (result.assignment) setAssignment(result.assignment);
+      setSuccess(submit ? 'Review submitted and marked as completed.' : 'Draft saved.');
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save the review.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <div className="flex min-h-[24rem] items-center justify-center text-gray-600">Loading review form...</div>;
+  if (!assignment || !form) return <div className="mx-auto max-w-3xl p-6"><div className="rounded-md border border-red-200 bg-red-50 p-4 text-red-700">{error || 'Review form not found.'}</div></div>;
+
+  const locked = assignment.status === 'Completed' || assignment.acceptance === 'declined';
+  const detailsHref = `/reviewer/protocols/${protocolKey}?assignmentId=${assignment.assignmentId}`;
+  const questionNumbers = new Map(form.sections
+    .flatMap((section) => section.questions)
+    .map((question, index) => [question.key, index + 1]));
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6 p-4 sm:p-6">
+      <Link href={detailsHref} className="text-sm font-medium text-blue-700">Return to protocol</Link>
+      <header className="rounded-lg border bg-white p-5 shadow-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold text-green-800">{assignment.recCode}</span>
+          <span className={`rounded-full px-2 py-1 text-xs font-medium ${
+            submission?.status === 'submitted' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+          }`}>
+            {submission?.status === 'submitted' ? 'Submitted' : submission ? 'Draft' : 'Not started'}
+          </span>
+        </div>
+        <h1 className="mt-3 text-2xl font-semibold text-gray-950">{form.name}</h1>
+        <p className="mt-1 text-xs text-gray-500">Version {form.version}</p>
+        <p className="mt-1 text-gray-600">{assignment.researchTitle}</p>
+        {submission?.submittedAt && (
+          <p className="mt-1 text-sm text-gray-500">Submitted {new Date(submission.submittedAt).toLocaleString()}</p>
+        )}
+      </header>
+
+      {error && <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+      {success && <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-700">{success}</div>}
+      {locked && (
+        <div className="rounded-md border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+          {assignment.acceptance === 'declined'
+            ? 'You declined this review, so the form is read-only.'
+            : 'This review is completed. Reopen it from the protocol page to make changes.'}
+        </div>
+      )}
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          void save(true);
+        }}
+        className="space-y-4"
+      >
+        {form.sections.map((section) => (
+          <section key={section.id} className="space-y-4 rounded-lg border bg-white p-5 shadow-sm">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{section.title}</h2>
+              {section.description && <p className="mt-1 text-sm text-gray-500">{section.description}</p>}
+            </div>
+            {section.questions.map((question) => (
+              <fieldset key={question.key} disabled={locked} className="border-t pt-4">
+                <legend className="sr-only">{question.prompt}</legend>
+                <p className="text-sm font-medium text-gray-900">
+                  {questionNumbers.get(question.key)}. {question.prompt}
+                  {question.required && <span className="ml-1 text-red-600">*</span>}
+                </p>
+                {question.helpText && <p className="mt-1 text-sm text-gray-500">{question.helpText}</p>}
+                {question.answerType === 'yes_no_na' ? (
+                  <div className="mt-3 flex flex-wrap gap-4">
+                    {YES_NO_OPTIONS.map((option) => (
+                      <label key={option.value} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="radio"
+                          name={question.key}
+                          value={option.value}
+                          checked={answers[question.key] === option.value}
+                          onChange={() => setAnswers((current) => ({ ...current, [question.key]: option.value }))}
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <textarea
+                    value={answers[question.key] ?? ''}
+                    onChange={(event) => setAnswers((current) => ({ ...current, [question.key]: event.target.value }))}
+                    maxLength={4000}
+                    rows={5}
+                    className="mt-3 w-full rounded-md border px-3 py-2 text-sm"
+                  />
+                )}
+              </fieldset>
+            ))}
+          </section>
+        ))}
+
+        <fieldset disabled={locked} className="space-y-4 rounded-lg border bg-white p-5 shadow-sm">
+          <div>
+            <label htmlFor="review-recommendation" className="block text-sm font-medium text-gray-900">
+              Recommendation<span className="ml-1 text-red-600">*</span>
+            </label>
+            <select
+              id="review-recommendation"
+              value={recommendation}
+              onChange={(event) => setRecommendation(event.target.value)}
+              className="mt-1 w-full rounded-md border px-3 py-2 text-sm sm:w-auto"
+            >
+              <option value="">Choose a recommendation</option>
+              {form.recommendations.map(({ label }) => <option key={label} value={label}>{label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="review-comments" className="block text-sm font-medium text-gray-900">Comments for the REC</label>
+            <textarea
+              id="review-comments"
+              value={comments}
+              onChange={(event) => setComments(event.target.value)}
+              maxLength={4000}
+              rows={4}
+              className="mt-1 w-full rounded-md border px-3 py-2 text-sm"
+            />
+          </div>
+        </fieldset>
+
+        {!locked && (
+          <div className="flex flex-wrap gap-2">
+            <button type="button" disabled={saving} onClick={() => void save(false)} className="rounded-md border px-4 py-2 text-sm font-medium text-gray-700 disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save draft'}
+            </button>
+            <button type="submit" disabled={saving} className="rounded-md bg-green-700 px-4 py-2 text-sm font-medium text-white disabled:opacity-50">
+              Submit review
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
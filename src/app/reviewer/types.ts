@@ -1,5 +1,7 @@
 export type ReviewStatus = 'In Progress' | 'Completed';
 
+export type AssignmentAcceptance = 'pending' | 'accepted' | 'declined';
+
 export interface ReviewerIdentity {
   id: string;
   name: string;
@@ -26,7 +28,67 @@ export interface ReviewerAssignmentDto {
   protocolCreatedAt: string;
   formType: string;
   formName: string;
+  /** The in-app review form, or the external form link when there is none. */
   formUrl: string;
+  /** Submitting the in-app form is what completes the review. */
+  hasReviewForm: boolean;
+  acceptance: AssignmentAcceptance;
+  declineReason: string | null;
+}
+
+export interface ReviewerConflictDeclaration {
+  reason: string;
+  createdAt: string;
+}
+
+export interface ReviewerExtensionRequest {
+  id: string;
+  currentDueDate: string;
+  requestedDueDate: string;
+  justification: string;
+  status: 'pending' | 'approved' | 'rejected';
+  decisionNote: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+}
+
+export interface ReviewFormQuestion {
+  id: string;
+  key: string;
+  prompt: string;
+  helpText: string | null;
+  answerType: 'yes_no_na' | 'text';
+  required: boolean;
+}
+
+export interface ReviewFormSection {
+  id: string;
+  title: string;
+  description: string | null;
+  questions: ReviewFormQuestion[];
+}
+
+export interface ReviewForm {
+  formType: string;
+  name: string;
+  versionId: string;
+  version: number;
+  publishedAt: string | null;
+  sections: ReviewFormSection[];
+  recommendations: Array<{ label: string; outcome: string }>;
+}
+
+export interface ReviewSubmission {
+  id: string;
+  assignmentId: string;
+  formType: string;
+  formVersionId: string;
+  answers: Record<string, string>;
+  recommendation: string | null;
+  comments: string | null;
+  status: 'draft' | 'submitted';
+  submittedAt: string | null;
+  updatedAt: string;
 }
 
 export interface ReviewerAssignmentsResponse {
@@ -0,0 +1,80 @@
+'use client';
+
+import Link from 'next/link';
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { COLORS, STYLES } from '@/lib/colors';
+import type { ReviewerIdentity } from '@/app/reviewer/types';
+
+function SignInLinkHandler() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [error, setError] = useState<string | null>(null);
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    // Sign-in links are single use, so never post the same token twice.
+    if (attempted.current) return;
+    attempted.current = true;
+
+    if (!token) {
+      setError('This sign-in link is incomplete. Request a new one.');
+      return;
+    }
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/reviewer/login/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const result = await response.json() as { reviewer?: ReviewerIdentity; error?: string };
+        if (!response.ok || !result.reviewer) {
+          throw new Error(result.error || 'This sign-in link is no longer valid.');
+        }
+
+        localStorage.setItem('reviewerName', result.reviewer.name);
+        router.replace('/reviewer/dashboard');
+      } catch (verifyError) {
+        setError(verifyError instanceof Error ? verifyError.message : 'Unable to sign in right now.');
+      }
+    };
+    void verify();
+  }, [router, token]);
+
+  if (error) {
+    return (
+      <div className="space-y-4 text-center">
+        <div className="rounded bg-red-100 p-3 text-sm text-red-800">{error}</div>
+        <Link href="/" style={STYLES.brandGreenText} className="text-sm font-medium">
+          Request a new sign-in link
+        </Link>
+      </div>
+    );
+  }
+
+  return <p className="text-center text-gray-600">Signing you in...</p>;
+}
+
+export default function SignInPage() {
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-b from-green-50 to-emerald-100">
+      <header style={{ backgroundColor: COLORS.brand.green[800] }} className="p-4 text-white">
+        <div className="container mx-auto">
+          <h1 className="text-2xl font-bold">e-REC Ethics Review System</h1>
+        </div>
+      </header>
+
+      <main className="flex flex-grow items-center justify-center p-4">
+        <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-lg">
+          <h1 style={STYLES.brandGreenText} className="mb-6 text-center text-2xl font-bold">e-REC Reviewer Portal</h1>
+          <Suspense fallback={<p className="text-center text-gray-600">Signing you in...</p>}>
+            <SignInLinkHandler />
+          </Suspense>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface NotificationPreferences {
+  deliveryMode: 'immediate' | 'daily_digest';
+  reminderLeadDays: number | null;
+  noticeEmails: boolean;
+}
+
+interface PreferencesView {
+  reviewerName: string;
+  preferences: NotificationPreferences;
+  defaultLeadDays: number;
+  minLeadDays: number;
+  maxLeadDays: number;
+}
+
+interface NotificationPreferencesFormProps {
+  /** The reviewer preferences endpoint, or the public one used by email links. */
+  endpoint: string;
+  /** The signed token from a preferences link; omitted when the reviewer is signed in. */
+  token?: string;
+}
+
+export default function NotificationPreferencesForm({ endpoint, token }: NotificationPreferencesFormProps) {
+  const [view, setView] = useState<PreferencesView | null>(null);
+  const [deliveryMode, setDeliveryMode] = useState<NotificationPreferences['deliveryMode']>('immediate');
+  const [leadDays, setLeadDays] = useState('');
+  const [noticeEmails, setNoticeEmails] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const applyView = (next: PreferencesView) => {
+    setView(next);
+    setDeliveryMode(next.preferences.deliveryMode);
+    setLeadDays(next.preferences.reminderLeadDays === null ? '' : String(next.preferences.reminderLeadDays));
+    setNoticeEmails(next.preferences.noticeEmails);
+  };
+
+  const loadPreferences = useCallback(async () => {
+    try {
+      const url = token ? `${endpoint}?token=${encodeURIComponent(token)}` : endpoint;
+      const response = await fetch(url, { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load email preferences.');
+      applyView(result as PreferencesView);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load email preferences.');
+    }
+  }, [endpoint, token]);
+
+  useEffect(() => {
+    void loadPreferences();
+  }, [loadPreferences]);
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(token ? { token } : {}),
+          deliveryMode,
+          reminderLeadDays: leadDays.trim() === '' ? null : Number(leadDays),
+          noticeEmails,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save email preferences.');
+      applyView(result as PreferencesView);
+      setSuccess('Email preferences saved.');
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save email preferences.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!view) {
+    return error
+      ? <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+      : <p className="text-sm text-gray-500">Loading email preferences...</p>;
+  }
+
+  return (
+    <form onSubmit={save} className="space-y-6">
+      {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+      {success && <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">{success}</div>}
+
+      <fieldset>
+        <legend className="text-sm font-medium text-gray-700">Assignment notices and reminders</legend>
+        <div className="mt-2 space-y-2">
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="deliveryMode"
+              checked={deliveryMode === 'immediate'}
+              onChange={() => setDeliveryMode('immediate')}
+              className="mt-0.5"
+            />
+            <span>Email me as each notification is sent</span>
+          </label>
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="deliveryMode"
+              checked={deliveryMode === 'daily_digest'}
+              onChange={() => setDeliveryMode('daily_digest')}
+              className="mt-0.5"
+            />
+            <span>Send me one daily digest instead</span>
+          </label>
+        </div>
+      </fieldset>
+
+      <div>
+        <label htmlFor="reminder-lead-days" className="block text-sm font-medium text-gray-700">Reminder lead time (days)</label>
+        <input
+          id="reminder-lead-days"
+          type="number"
+          min={view.minLeadDays}
+          max={view.maxLeadDays}
+          value={leadDays}
+          onChange={(event) => setLeadDays(event.target.value)}
+          placeholder={String(view.defaultLeadDays)}
+          className="mt-1 w-40 rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Start reminders this many days before a review is due, from {view.minLeadDays} to {view.maxLeadDays}.
+          Leave blank to use the committee default of {view.defaultLeadDays} days.
+        </p>
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={noticeEmails}
+          onChange={(event) => setNoticeEmails(event.target.checked)}
+          className="mt-0.5"
+        />
+        <span>Email me notice announcements</span>
+      </label>
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="rounded-md bg-green-700 px-4 py-2 text-sm font-medium text-white hover:bg-green-800 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save Preferences'}
+      </button>
+    </form>
+  );
+}
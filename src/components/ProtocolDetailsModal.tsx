@@ -1,13 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { formatDate, getFormTypeName, isOverdue, isDueSoon } from '@/lib/utils';
+import { formatDate, isOverdue, isDueSoon } from '@/lib/utils';
+import { PROTOCOL_LIFECYCLE_LABELS, type ProtocolLifecycleStatus } from '@/lib/protocolLifecycle';
 
 interface Reviewer {
   id: string;
   name: string;
   status: string;
   form_type?: string;
+  form_name?: string;
   due_date?: string;
   completed_at?: string | null;
+  acceptance?: 'pending' | 'accepted' | 'declined';
+  decline_reason?: string | null;
 }
 
 interface Protocol {
@@ -17,10 +21,14 @@ interface Protocol {
   protocol_name: string;
   release_period: string;
   academic_level: string;
+  nature_of_study?: string;
+  type_of_study?: string;
+  expertise_tags?: string[];
   reviewer?: string;
   reviewers?: Reviewer[];
   due_date: string;
   status: string;
+  round?: number;
   protocol_file: string;
   form_type?: string;
   created_at: string;
@@ -46,6 +54,36 @@ interface AuditEntry {
   timestamp?: string;
 }
 
+interface ReviewRound {
+  id: string;
+  round: number;
+  releasePeriod: string;
+  documentLink: string;
+  dueDate: string;
+  outcome: ProtocolLifecycleStatus | null;
+  openedAt: string | null;
+  closedAt: string | null;
+  reviewers: Reviewer[];
+}
+
+interface RoundDecision {
+  id: string;
+  round: number | null;
+  to: ProtocolLifecycleStatus;
+  note: string;
+  decidedBy: string;
+  decidedAt: string | null;
+}
+
+interface DeclaredConflict {
+  id: string;
+  reviewerName: string;
+  reason: string;
+  blocking: boolean;
+  declaredBy: 'reviewer' | 'admin';
+  createdAt: string;
+}
+
 interface ProtocolDetailsModalProps {
   isOpen: boolean;
   protocol: Protocol | null;
@@ -62,6 +100,9 @@ export default function ProtocolDetailsModal({
   const [auditHistory, setAuditHistory] = useState<AuditEntry[]>([]);
   const [loadingAudit, setLoadingAudit] = useState(false);
   const [localProtocol, setLocalProtocol] = useState<Protocol | null>(null);
+  const [reviewRounds, setReviewRounds] = useState<ReviewRound[]>([]);
+  const [roundDecisions, setRoundDecisions] = useState<RoundDecision[]>([]);
+  const [declaredConflicts, setDeclaredConflicts] = useState<DeclaredConflict[]>([]);
 
   useEffect(() => {
     if (protocol) {
@@ -92,6 +133,43 @@ export default function ProtocolDetailsModal({
     fetchAuditHistory();
   }, [localProtocol, isOpen]);
 
+  useEffect(() => {
+    const fetchReviewRounds = async () => {
+      const protocolKey = localProtocol?.protocolKey || localProtocol?.internalId;
+      if (!protocolKey || !isOpen) return;
+
+      try {
+        const response = await fetch(`/api/admin/protocols/${encodeURIComponent(protocolKey)}/rounds`, { cache: 'no-store' });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load review rounds.');
+        setReviewRounds(result.rounds as ReviewRound[]);
+        setRoundDecisions(result.decisions as RoundDecision[]);
+      } catch (err) {
+        console.error('Error fetching review rounds:', err);
+      }
+    };
+
+    fetchReviewRounds();
+  }, [localProtocol, isOpen]);
+
+  useEffect(() => {
+    const fetchConflicts = async () => {
+      const protocolKey = localProtocol?.protocolKey || localProtocol?.internalId;
+      if (!protocolKey || !isOpen) return;
+
+      try {
+        const response = await fetch(`/api/admin/reviewer-conflicts?protocolId=${encodeURIComponent(protocolKey)}`, { cache: 'no-store' });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load conflicts.');
+        setDeclaredConflicts(result.conflicts as DeclaredConflict[]);
+      } catch (err) {
+        console.error('Error fetching reviewer conflicts:', err);
+      }
+    };
+
+    fetchConflicts();
+  }, [localProtocol, isOpen]);
+
   if (!isOpen || !localProtocol) return null;
 
   // Function to get status badge with appropriate styling
@@ -122,7 +200,7 @@ export default function ProtocolDetailsModal({
         if (idMatch || nameMatch || nameIncludes || reverseIncludes) {
           if (r.form_type) {
             return {
-              formName: getFormTypeName(r.form_type),
+              formName: r.form_name || r.form_type,
               formType: r.form_type
             };
           }
@@ -132,7 +210,7 @@ export default function ProtocolDetailsModal({
     
     // If we couldn't find it in the reviewers array, use the protocol's form_type
     return {
-      formName: getFormTypeName(protocol.form_type || ''),
+      formName: protocol.form_type || 'N/A',
       formType: protocol.form_type || ''
     };
   };
@@ -160,7 +238,14 @@ export default function ProtocolDetailsModal({
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 overflow-y-auto">
       <div className="bg-white rounded-lg p-6 max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-start mb-4">
-          <h3 className="text-lg font-bold">{localProtocol.protocol_name}</h3>
+          <h3 className="text-lg font-bold">
+            {localProtocol.protocol_name}
+            {(localProtocol.round ?? 1) > 1 && (
+              <span className="ml-2 align-middle bg-indigo-100 text-indigo-800 text-xs font-medium px-2 py-1 rounded-full">
+                Round {localProtocol.round}
+              </span>
+            )}
+          </h3>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-500"
@@ -189,6 +274,20 @@ export default function ProtocolDetailsModal({
                   <dt className="text-xs text-gray-500">Academic Level</dt>
                 <dd className="text-sm font-medium">{localProtocol.academic_level}</dd>
                 </div>
+              {(localProtocol.nature_of_study || localProtocol.type_of_study) && (
+                <div className="flex justify-between gap-4">
+                  <dt className="text-xs text-gray-500">Study</dt>
+                  <dd className="text-sm font-medium text-right">
+                    {[localProtocol.nature_of_study, localProtocol.type_of_study].filter(Boolean).join(' / ')}
+                  </dd>
+                </div>
+              )}
+              {localProtocol.expertise_tags && localProtocol.expertise_tags.length > 0 && (
+                <div className="flex justify-between gap-4">
+                  <dt className="text-xs text-gray-500">Expertise</dt>
+                  <dd className="text-sm font-medium text-right">{localProtocol.expertise_tags.join(', ')}</dd>
+                </div>
+              )}
               <div className="flex justify-between">
                   <dt className="text-xs text-gray-500">Due Date</dt>
                 <dd className="text-sm font-medium">
@@ -249,7 +348,15 @@ export default function ProtocolDetailsModal({
                     <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                         <td className="px-4 py-3 text-sm font-medium text-gray-900">{reviewer.name}</td>
                         <td className="px-4 py-3 text-sm text-gray-700">{formInfo.formName || 'N/A'}</td>
-                        <td className="px-4 py-3 text-sm">{getReviewerStatusBadge(reviewer.status, reviewer.due_date || localProtocol.due_date)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {getReviewerStatusBadge(reviewer.status, reviewer.due_date || localProtocol.due_date)}
+                          {reviewer.status !== 'Completed' && reviewer.acceptance === 'pending' && (
+                            <span className="ml-1 bg-purple-100 text-purple-800 text-xs px-2 py-1 rounded-full">Awaiting response</span>
+                          )}
+                          {reviewer.status !== 'Completed' && reviewer.acceptance === 'declined' && (
+                            <span className="ml-1 bg-gray-200 text-gray-700 text-xs px-2 py-1 rounded-full" title={reviewer.decline_reason || undefined}>Declined</span>
+                          )}
+                        </td>
                         <td className="px-4 py-3 text-sm text-gray-700">
                           {reviewer.status === 'Completed' && completedDate
                             ? `Completed: ${formatDate(completedDate)}`
@@ -277,7 +384,7 @@ export default function ProtocolDetailsModal({
                 <div className="flex justify-between items-center p-2 bg-white rounded-md">
                   <div>
                     <p className="font-medium">{localProtocol.reviewer}</p>
-                    <p className="text-xs text-gray-500">{getFormTypeName(localProtocol.form_type || '')}</p>
+                    <p className="text-xs text-gray-500">{localProtocol.form_type || 'N/A'}</p>
                   </div>
                   <div className="flex items-center space-x-2">
                     {getReviewerStatusBadge(localProtocol.status, localProtocol.due_date)}
@@ -300,6 +407,77 @@ export default function ProtocolDetailsModal({
           </div>
         </div>
 
+        {declaredConflicts.length > 0 && (
+          <div className="mb-6">
+            <h4 className="text-sm font-medium text-gray-500 mb-1">Declared Conflicts</h4>
+            <div className="bg-amber-50 p-4 rounded-md space-y-2">
+              {declaredConflicts.map((conflict) => (
+                <p key={conflict.id} className="text-sm text-amber-900">
+                  <span className="font-medium">{conflict.reviewerName}</span>
+                  {conflict.declaredBy === 'reviewer' ? ' declared' : ' has a recorded conflict'} on {formatDate(conflict.createdAt)}: {conflict.reason}
+                  {conflict.blocking ? '' : ' (warning only)'}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {reviewRounds.length > 0 && (
+          <div className="mb-6">
+            <h4 className="text-sm font-medium text-gray-500 mb-1">Review Rounds</h4>
+            <div className="bg-gray-50 p-4 rounded-md space-y-4">
+              {reviewRounds.map((round) => {
+                const decisions = roundDecisions.filter((decision) => (decision.round ?? 1) === round.round);
+                return (
+                  <div key={round.id} className="bg-white p-4 rounded-md shadow-sm">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <p className="text-sm font-medium">
+                          Round {round.round}
+                          <span className="text-gray-500 font-normal"> · {round.releasePeriod}</span>
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Opened {round.openedAt ? formatDate(round.openedAt) : 'N/A'}
+                          {round.closedAt ? ` · Closed ${formatDate(round.closedAt)}` : ''}
+                          {round.dueDate ? ` · Due ${formatDate(round.dueDate)}` : ''}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <span className={`text-xs px-2 py-1 rounded-full ${round.outcome ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'}`}>
+                          {round.outcome ? PROTOCOL_LIFECYCLE_LABELS[round.outcome] : 'In Review'}
+                        </span>
+                        {round.documentLink && (
+                          <a
+                            href={round.documentLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block text-xs text-blue-600 hover:text-blue-800 mt-2"
+                          >
+                            Round file
+                          </a>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-600 mt-2">
+                      {round.reviewers.length > 0
+                        ? round.reviewers.map((reviewer) => `${reviewer.name} (${reviewer.status})`).join(', ')
+                        : 'No reviewers assigned.'}
+                    </p>
+                    {decisions.map((decision) => (
+                      <p key={decision.id} className="text-xs text-gray-500 mt-1">
+                        {PROTOCOL_LIFECYCLE_LABELS[decision.to]}
+                        {decision.decidedBy ? ` by ${decision.decidedBy}` : ''}
+                        {decision.decidedAt ? ` on ${formatDate(decision.decidedAt)}` : ''}
+                        {decision.note ? `: ${decision.note}` : ''}
+                      </p>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Audit History Section */}
         <div className="mb-6">
           <h4 className="text-sm font-medium text-gray-500 mb-1">Reassignment History</h4>
@@ -6,6 +6,7 @@ interface ProtocolStatusCardProps {
   total?: number;
   color: 'blue' | 'green' | 'yellow' | 'red' | 'purple' | 'gray';
   icon?: React.ReactNode;
+  breakdown?: Array<{ label: string; count: number }>;
 }
 
 export default function ProtocolStatusCard({
@@ -13,7 +14,8 @@ export default function ProtocolStatusCard({
   count,
   total,
   color,
-  icon
+  icon,
+  breakdown
 }: ProtocolStatusCardProps) {
   const colorClasses = {
     blue: {
@@ -75,6 +77,16 @@ export default function ProtocolStatusCard({
               ></div>
             </div>
           )}
+          {breakdown && breakdown.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-xs text-gray-600">
+              {breakdown.map((item) => (
+                <li key={item.label} className="flex justify-between gap-4">
+                  <span>{item.label}</span>
+                  <span className={`font-medium ${classes.text}`}>{item.count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         {icon && (
           <div className={`rounded-md p-2 ${classes.bg}`}>
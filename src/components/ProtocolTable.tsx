@@ -1,5 +1,11 @@
 import React from 'react';
 import { isOverdue, isDueSoon, formatDate } from '@/lib/utils';
+import {
+  getProtocolDecisionOptions,
+  PROTOCOL_LIFECYCLE_LABELS,
+  REVISION_STATUSES,
+  type ProtocolLifecycleStatus,
+} from '@/lib/protocolLifecycle';
 
 interface Reviewer {
   id: string;
@@ -20,6 +26,10 @@ interface Protocol {
   reviewers?: Reviewer[];
   due_date: string;
   status: string;
+  round?: number;
+  decision?: ProtocolLifecycleStatus;
+  decidedAt?: string | null;
+  decidedBy?: string;
   protocol_file: string;
   document_type?: string;
   created_at: string;
@@ -35,8 +45,23 @@ interface ProtocolTableProps {
   onEdit?: (protocol: Protocol) => void;
   onDelete?: (protocol: Protocol) => void;
   onReassign?: (protocol: Protocol, reviewerId: string, reviewerName: string) => void;
+  onDecide?: (protocol: Protocol) => void;
+  onViewSummary?: (protocol: Protocol) => void;
+  onStartRound?: (protocol: Protocol) => void;
 }
 
+const DECISION_BADGE_CLASSES: Record<ProtocolLifecycleStatus, string> = {
+  submitted: 'bg-gray-100 text-gray-800',
+  under_review: 'bg-blue-100 text-blue-800',
+  reviews_complete: 'bg-purple-100 text-purple-800',
+  approved: 'bg-green-100 text-green-800',
+  minor_revisions: 'bg-yellow-100 text-yellow-800',
+  major_revisions: 'bg-orange-100 text-orange-800',
+  disapproved: 'bg-red-100 text-red-800',
+  exempted: 'bg-teal-100 text-teal-800',
+  withdrawn: 'bg-gray-200 text-gray-700',
+};
+
 export default function ProtocolTable({
   protocols,
   loading,
@@ -44,7 +69,10 @@ export default function ProtocolTable({
   onViewDetails,
   onEdit,
   onDelete,
-  onReassign
+  onReassign,
+  onDecide,
+  onViewSummary,
+  onStartRound
 }: ProtocolTableProps) {
   // Function to get status label with appropriate styling
   const getStatusLabel = (status: string, dueDate: string) => {
@@ -59,6 +87,26 @@ export default function ProtocolTable({
     }
   };
 
+  // Function to show the REC decision and who recorded it
+  const getDecisionLabel = (protocol: Protocol) => {
+    if (!protocol.decision) {
+      return <span className="text-gray-400">-</span>;
+    }
+
+    return (
+      <div>
+        <span className={`${DECISION_BADGE_CLASSES[protocol.decision]} text-xs px-2 py-1 rounded-full`}>
+          {PROTOCOL_LIFECYCLE_LABELS[protocol.decision]}
+        </span>
+        {protocol.decidedAt && (
+          <div className="mt-1 text-xs text-gray-500">
+            {protocol.decidedBy ? `${protocol.decidedBy}, ` : ''}{formatDate(protocol.decidedAt)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   // Function to display due date information
   const getDueDateDisplay = (protocol: Protocol) => {
     // Basic due date display if no reviewers
@@ -189,6 +237,9 @@ export default function ProtocolTable({
             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Status
             </th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Decision
+            </th>
             {hasReviewerCounts && (
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Completion
@@ -204,6 +255,11 @@ export default function ProtocolTable({
             <tr key={protocol.id} className="hover:bg-gray-50">
               <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                 {protocol.spup_rec_code || protocol.id}
+                {(protocol.round ?? 1) > 1 && (
+                  <span className="ml-2 bg-indigo-100 text-indigo-800 text-xs px-2 py-0.5 rounded-full">
+                    Round {protocol.round}
+                  </span>
+                )}
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                 {protocol.release_period}
@@ -214,6 +270,9 @@ export default function ProtocolTable({
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                 {getStatusLabel(protocol.status, protocol.due_date)}
               </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                {getDecisionLabel(protocol)}
+              </td>
               {hasReviewerCounts && protocol.reviewerCount !== undefined && protocol.completedReviewerCount !== undefined && (
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {getCompletionBadge(protocol.completedReviewerCount, protocol.reviewerCount)}
@@ -237,6 +296,33 @@ export default function ProtocolTable({
                       Edit
                     </button>
                   )}
+                  {onViewSummary && (protocol.reviewers?.length ?? 0) > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => onViewSummary(protocol)}
+                      className="text-purple-600 hover:text-purple-800"
+                    >
+                      Review Summary
+                    </button>
+                  )}
+                  {onDecide && protocol.decision && getProtocolDecisionOptions(protocol.decision).length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => onDecide(protocol)}
+                      className="text-purple-600 hover:text-purple-800"
+                    >
+                      Decision
+                    </button>
+                  )}
+                  {onStartRound && protocol.decision && REVISION_STATUSES.includes(protocol.decision) && (
+                    <button
+                      type="button"
+                      onClick={() => onStartRound(protocol)}
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      Next Round
+                    </button>
+                  )}
                   {onDelete && (
                     <button
                       type="button"
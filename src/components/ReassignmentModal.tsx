@@ -48,6 +48,8 @@ export default function ReassignmentModal({
   const [searchTerm, setSearchTerm] = useState('');
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [status, setStatus] = useState(currentReviewer.status || 'In Progress');
+  const [conflictWarning, setConflictWarning] = useState<{ message: string; canAcknowledge: boolean } | null>(null);
+  const [acknowledgeConflicts, setAcknowledgeConflicts] = useState(false);
   const searchRef = useRef<HTMLDivElement>(null);
   
   // Filter reviewers based on search term
@@ -73,6 +75,7 @@ export default function ReassignmentModal({
     if (isOpen && (currentReviewer.due_date || protocol.due_date)) {
       setSelectedReviewer('');
       setSearchTerm('');
+      setConflictWarning(null);
       setStatus(currentReviewer.status || 'In Progress');
       // Calculate new due date (2 weeks from original)
       try {
@@ -180,10 +183,16 @@ export default function ReassignmentModal({
             reviewerCode: newReviewerInfo.id,
             status,
             dueDate: status === 'In Progress' ? newDueDate : null,
+            acknowledgeConflicts,
           }),
         }
       );
       const result = await response.json();
+      if (response.status === 409) {
+        setConflictWarning({ message: result.error, canAcknowledge: Boolean(result.canAcknowledge) });
+        setAcknowledgeConflicts(false);
+        return;
+      }
       if (!response.ok) throw new Error(result.error || 'Failed to reassign protocol.');
 
       onSuccess({ id: newReviewerInfo.id, name: newReviewerInfo.name, due_date: newDueDate });
@@ -237,6 +246,7 @@ export default function ReassignmentModal({
                         setSelectedReviewer(reviewer.id);
                         setSearchTerm(reviewer.name);
                         setShowSuggestions(false);
+                        setConflictWarning(null);
                       }}
                     >
                       {reviewer.name}
@@ -289,6 +299,22 @@ export default function ReassignmentModal({
             </div>
           )}
 
+          {conflictWarning && (
+            <div className="mb-4 p-2 bg-amber-50 border border-amber-300 text-amber-900 rounded text-sm space-y-2">
+              <p>{conflictWarning.message}</p>
+              {conflictWarning.canAcknowledge && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={acknowledgeConflicts}
+                    onChange={(event) => setAcknowledgeConflicts(event.target.checked)}
+                  />
+                  Assign anyway
+                </label>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end space-x-3">
             <button
               type="button"
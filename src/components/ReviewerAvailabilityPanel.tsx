@@ -0,0 +1,173 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDate } from '@/lib/utils';
+
+interface ReviewerLeave {
+  id: string;
+  startsOn: string;
+  endsOn: string;
+  note: string | null;
+}
+
+interface ReviewerAvailability {
+  maxReviewsPerRelease: number | null;
+  leave: ReviewerLeave[];
+}
+
+interface ReviewerAvailabilityPanelProps {
+  reviewerId: string;
+}
+
+export default function ReviewerAvailabilityPanel({ reviewerId }: ReviewerAvailabilityPanelProps) {
+  const [availability, setAvailability] = useState<ReviewerAvailability | null>(null);
+  const [capacity, setCapacity] = useState('');
+  const [startsOn, setStartsOn] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const endpoint = `/api/admin/reviewers/${encodeURIComponent(reviewerId)}/availability`;
+
+  const applyAvailability = (next: ReviewerAvailability) => {
+    setAvailability(next);
+    setCapacity(next.maxReviewsPerRelease === null ? '' : String(next.maxReviewsPerRelease));
+  };
+
+  const loadAvailability = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint, { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load availability.');
+      applyAvailability(result.availability as ReviewerAvailability);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load availability.');
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void loadAvailability();
+  }, [loadAvailability]);
+
+  const save = async (url: string, method: 'PATCH' | 'POST' | 'DELETE', body?: unknown) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save availability.');
+      applyAvailability(result.availability as ReviewerAvailability);
+      return true;
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save availability.');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addLeave = async () => {
+    if (await save(endpoint, 'POST', { startsOn, endsOn, note })) {
+      setStartsOn('');
+      setEndsOn('');
+      setNote('');
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-200 px-6 py-4">
+        <h2 className="text-lg font-semibold text-gray-900">Availability</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Assigning this reviewer while on leave or over capacity shows a warning. Reminder emails pause during leave.
+        </p>
+      </div>
+
+      <div className="space-y-6 px-6 py-4">
+        {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div>
+            <label htmlFor="reviewer-capacity" className="block text-sm font-medium text-gray-700">Reviews per release</label>
+            <input
+              id="reviewer-capacity"
+              type="number"
+              min={1}
+              max={50}
+              value={capacity}
+              onChange={(event) => setCapacity(event.target.value)}
+              placeholder="No limit"
+              className="mt-1 w-40 rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => void save(endpoint, 'PATCH', { maxReviewsPerRelease: capacity.trim() === '' ? null : Number(capacity) })}
+            disabled={saving || !availability}
+            className="rounded-md border border-green-700 bg-white px-4 py-2 text-sm font-medium text-green-800 hover:bg-green-50 disabled:cursor-not-allowed disabled:border-gray-300 disabled:text-gray-400"
+          >
+            Save Capacity
+          </button>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700">Leave</p>
+          {!availability ? (
+            <p className="mt-2 text-sm text-gray-500">Loading availability...</p>
+          ) : availability.leave.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No current or upcoming leave.</p>
+          ) : (
+            <ul className="mt-2 divide-y divide-gray-100 rounded-md border border-gray-200">
+              {availability.leave.map((leave) => (
+                <li key={leave.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{formatDate(leave.startsOn)} to {formatDate(leave.endsOn)}</p>
+                    {leave.note && <p className="text-gray-500">{leave.note}</p>}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => void save(`${endpoint}/${encodeURIComponent(leave.id)}`, 'DELETE')}
+                    disabled={saving}
+                    className="text-xs font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-3 grid gap-2 sm:grid-cols-[auto_auto_1fr_auto] sm:items-end">
+            <div>
+              <label htmlFor="leave-starts" className="block text-xs font-medium text-gray-500">First day</label>
+              <input id="leave-starts" type="date" value={startsOn} onChange={(event) => setStartsOn(event.target.value)} className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm" />
+            </div>
+            <div>
+              <label htmlFor="leave-ends" className="block text-xs font-medium text-gray-500">Last day</label>
+              <input id="leave-ends" type="date" value={endsOn} min={startsOn || undefined} onChange={(event) => setEndsOn(event.target.value)} className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm" />
+            </div>
+            <input
+              type="text"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              maxLength={255}
+              placeholder="Note, e.g. sabbatical"
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => void addLeave()}
+              disabled={saving || !startsOn || !endsOn}
+              className="rounded-md bg-green-700 px-4 py-2 text-sm font-medium text-white hover:bg-green-800 disabled:cursor-not-allowed disabled:bg-gray-300"
+            >
+              Add Leave
+            </button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
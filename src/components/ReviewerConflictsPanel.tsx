@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDate } from '@/lib/utils';
+
+interface ReviewerConflict {
+  id: string;
+  recCode: string | null;
+  courseProgram: string | null;
+  reason: string;
+  blocking: boolean;
+  declaredBy: 'reviewer' | 'admin';
+  createdAt: string;
+}
+
+interface ReviewerConflictsPanelProps {
+  reviewerId: string;
+}
+
+export default function ReviewerConflictsPanel({ reviewerId }: ReviewerConflictsPanelProps) {
+  const [conflicts, setConflicts] = useState<ReviewerConflict[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [courseProgram, setCourseProgram] = useState('');
+  const [reason, setReason] = useState('');
+  const [blocking, setBlocking] = useState(true);
+
+  const loadConflicts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/reviewer-conflicts?reviewerId=${encodeURIComponent(reviewerId)}`, { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load conflicts.');
+      setConflicts(result.conflicts as ReviewerConflict[]);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load conflicts.');
+    } finally {
+      setLoading(false);
+    }
+  }, [reviewerId]);
+
+  useEffect(() => {
+    void loadConflicts();
+  }, [loadConflicts]);
+
+  const addConflict = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/reviewer-conflicts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewerId, courseProgram, reason, blocking }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to record the conflict.');
+      setCourseProgram('');
+      setReason('');
+      setBlocking(true);
+      await loadConflicts();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to record the conflict.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revokeConflict = async (conflictId: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/reviewer-conflicts/${encodeURIComponent(conflictId)}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to revoke the conflict.');
+      await loadConflicts();
+    } catch (revokeError) {
+      setError(revokeError instanceof Error ? revokeError.message : 'Failed to revoke the conflict.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">Conflicts of Interest</h3>
+
+      {error && <div className="mb-3 p-2 bg-red-100 text-red-800 rounded text-sm">{error}</div>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading conflicts...</p>
+      ) : conflicts.length === 0 ? (
+        <p className="text-sm text-gray-500">No conflicts recorded.</p>
+      ) : (
+        <ul className="space-y-2 mb-3">
+          {conflicts.map((conflict) => (
+            <li key={conflict.id} className="flex items-start justify-between gap-3 text-sm">
+              <div>
+                <p className="font-medium text-gray-800">
+                  {conflict.recCode ? `Protocol ${conflict.recCode}` : conflict.courseProgram}
+                  <span className="ml-2 text-xs font-normal text-gray-500">
+                    {conflict.blocking ? 'Blocks assignment' : 'Warning only'}
+                  </span>
+                </p>
+                <p className="text-gray-600">{conflict.reason}</p>
+                <p className="text-xs text-gray-500">
+                  {conflict.declaredBy === 'reviewer' ? 'Declared by the reviewer' : 'Recorded by an admin'} on {formatDate(conflict.createdAt)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => void revokeConflict(conflict.id)}
+                disabled={saving}
+                className="text-red-600 hover:text-red-800 text-xs font-medium disabled:opacity-50"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={courseProgram}
+          onChange={(e) => setCourseProgram(e.target.value)}
+          placeholder="Course or program, e.g. BS Nursing"
+          className="w-full p-2 border rounded-md text-sm"
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason, e.g. faculty member of the program"
+          maxLength={500}
+          className="w-full p-2 border rounded-md text-sm"
+        />
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={blocking} onChange={(e) => setBlocking(e.target.checked)} />
+            Block assignment
+          </label>
+          <button
+            type="button"
+            onClick={() => void addConflict()}
+            disabled={saving || !courseProgram.trim() || !reason.trim()}
+            className="bg-gray-800 text-white py-1 px-3 rounded text-sm hover:bg-gray-900 disabled:opacity-50"
+          >
+            Add Standing Conflict
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
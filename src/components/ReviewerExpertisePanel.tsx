@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface ExpertiseTag {
+  id: string;
+  name: string;
+  keywords: string[];
+  reviewerCount: number;
+}
+
+interface ReviewerExpertisePanelProps {
+  reviewerId: string;
+}
+
+export default function ReviewerExpertisePanel({ reviewerId }: ReviewerExpertisePanelProps) {
+  const [tags, setTags] = useState<ExpertiseTag[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagKeywords, setNewTagKeywords] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const endpoint = `/api/admin/reviewers/${encodeURIComponent(reviewerId)}/expertise`;
+
+  const applyExpertise = (nextTags: ExpertiseTag[], expertise: string[]) => {
+    setTags(nextTags);
+    setSelected(nextTags.filter((tag) => expertise.includes(tag.name)).map((tag) => tag.id));
+  };
+
+  const loadExpertise = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint, { cache: 'no-store' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load expertise.');
+      applyExpertise(result.tags as ExpertiseTag[], result.expertise as string[]);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load expertise.');
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void loadExpertise();
+  }, [loadExpertise]);
+
+  const toggleTag = (tagId: string) => {
+    setNotice(null);
+    setSelected((current) => current.includes(tagId)
+      ? current.filter((id) => id !== tagId)
+      : [...current, tagId]);
+  };
+
+  const saveExpertise = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tagIds: selected }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save expertise.');
+      applyExpertise(result.tags as ExpertiseTag[], result.expertise as string[]);
+      setNotice('Expertise saved.');
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save expertise.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addTag = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/admin/expertise-tags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newTagName, keywords: newTagKeywords }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to add the tag.');
+      const tag = result.tag as ExpertiseTag;
+      setTags((current) => [...(current ?? []), tag].sort((left, right) => left.name.localeCompare(right.name)));
+      setSelected((current) => [...current, tag.id]);
+      setNewTagName('');
+      setNewTagKeywords('');
+      setNotice(`Added ${tag.name}. Save to keep it on this reviewer.`);
+    } catch (addError) {
+      setError(addError instanceof Error ? addError.message : 'Failed to add the tag.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-200 px-6 py-4">
+        <h2 className="text-lg font-semibold text-gray-900">Expertise</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Reviewer suggestions favour reviewers whose tags match the protocol&apos;s, and the reviewer picker can filter by tag.
+        </p>
+      </div>
+
+      <div className="space-y-6 px-6 py-4">
+        {error && <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>}
+        {notice && <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">{notice}</div>}
+
+        {!tags ? (
+          <p className="text-sm text-gray-500">Loading expertise...</p>
+        ) : (
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <label
+                  key={tag.id}
+                  title={tag.keywords.length > 0 ? `Matches: ${tag.keywords.join(', ')}` : undefined}
+                  className={`inline-flex cursor-pointer items-center gap-2 rounded-full border px-3 py-1 text-sm ${
+                    selected.includes(tag.id)
+                      ? 'border-green-700 bg-green-50 text-green-800'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <input type="checkbox" checked={selected.includes(tag.id)} onChange={() => toggleTag(tag.id)} className="sr-only" />
+                  {tag.name}
+                  <span className="text-xs text-gray-400">{tag.reviewerCount}</span>
+                </label>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => void saveExpertise()}
+              disabled={saving}
+              className="shrink-0 rounded-md bg-green-700 px-4 py-2 text-sm font-medium text-white hover:bg-green-800 disabled:cursor-not-allowed disabled:bg-gray-300"
+            >
+              Save Expertise
+            </button>
+          </div>
+        )}
+
+        <div className="grid gap-2 sm:grid-cols-[1fr_2fr_auto] sm:items-end">
+          <div>
+            <label htmlFor="expertise-tag-name" className="block text-xs font-medium text-gray-500">New tag</label>
+            <input
+              id="expertise-tag-name"
+              type="text"
+              value={newTagName}
+              onChange={(event) => setNewTagName(event.target.value)}
+              maxLength={100}
+              placeholder="e.g. Engineering"
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="expertise-tag-keywords" className="block text-xs font-medium text-gray-500">Study keywords, comma-separated</label>
+            <input
+              id="expertise-tag-keywords"
+              type="text"
+              value={newTagKeywords}
+              onChange={(event) => setNewTagKeywords(event.target.value)}
+              placeholder="e.g. engineering, technology, software"
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => void addTag()}
+            disabled={saving || !newTagName.trim()}
+            className="rounded-md border border-green-700 bg-white px-4 py-2 text-sm font-medium text-green-800 hover:bg-green-50 disabled:cursor-not-allowed disabled:border-gray-300 disabled:text-gray-400"
+          >
+            Add Tag
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,58 @@
+import 'server-only';
+
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getAdminUserBySessionToken, type MysqlAdminUserDto } from '@/lib/mysql';
+import { hasAdminPermission, type AdminPermission } from '@/lib/adminPermissions';
+import {
+  ADMIN_SESSION_COOKIE,
+  sessionCookieOptions,
+  signSessionCookie,
+  verifySessionCookie,
+  type SessionToken,
+} from '@/lib/sessionToken';
+
+export async function getCurrentAdminSessionToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const session = await verifySessionCookie('admin', cookieStore.get(ADMIN_SESSION_COOKIE)?.value);
+  return session?.token ?? null;
+}
+
+/**
+ * The middleware only checks the cookie signature and expiry; this also checks
+ * the session row so logged-out or deactivated admins are rejected.
+ */
+export async function getCurrentAdmin(): Promise<MysqlAdminUserDto | null> {
+  const token = await getCurrentAdminSessionToken();
+  return token ? getAdminUserBySessionToken(token) : null;
+}
+
+export type AdminAuthorization =
+  | { admin: MysqlAdminUserDto; response?: never }
+  | { admin?: never; response: NextResponse };
+
+/** Route-level check: 401 without a live session, 403 when the role lacks the permission. */
+export async function authorizeAdmin(permission: AdminPermission): Promise<AdminAuthorization> {
+  const admin = await getCurrentAdmin();
+
+  if (!admin) {
+    return { response: NextResponse.json({ error: 'Admin sign-in required.' }, { status: 401 }) };
+  }
+  if (!hasAdminPermission(admin.role, permission)) {
+    return { response: NextResponse.json({ error: 'Your role does not allow this action.' }, { status: 403 }) };
+  }
+
+  return { admin };
+}
+
+export async function setAdminSessionCookie(response: NextResponse, session: SessionToken): Promise<void> {
+  response.cookies.set(
+    ADMIN_SESSION_COOKIE,
+    await signSessionCookie('admin', session),
+    sessionCookieOptions(session.expiresAt)
+  );
+}
+
+export function clearAdminSessionCookie(response: NextResponse): void {
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', sessionCookieOptions(null));
+}
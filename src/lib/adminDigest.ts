@@ -0,0 +1,186 @@
+import 'server-only';
+
+import { escapeHtml, type RenderedEmail } from '@/lib/emailTemplates';
+import { getMailRetryAttempts } from '@/lib/mailer';
+import {
+  enqueueMailBatch,
+  getDashboardSummary,
+  listAssignmentsDueBetween,
+  listMailBatchesWithFailuresSince,
+  listOverdueAssignments,
+  listProtocolsCompletedSince,
+  type MysqlAdminDigestSettingsDto,
+} from '@/lib/mysql';
+import { addDaysToDate } from '@/lib/reviewReminders';
+
+const DUE_SOON_DAYS = 7;
+const DEFAULT_PERIOD_DAYS = 7;
+
+export interface AdminDigestCounts {
+  completed: number;
+  dueThisWeek: number;
+  overdue: number;
+  failedBatches: number;
+}
+
+interface DigestSection {
+  title: string;
+  empty: string;
+  headers: string[];
+  rows: string[][];
+}
+
+function sectionHtml(section: DigestSection): string {
+  const heading = `<h3 style="margin:20px 0 8px">${escapeHtml(section.title)}</h3>`;
+  if (section.rows.length === 0) return `${heading}<p>${escapeHtml(section.empty)}</p>`;
+
+  const cell = (value: string) => `<td style="padding:8px;border:1px solid #ddd">${escapeHtml(value)}</td>`;
+  const headers = section.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('');
+  const rows = section.rows.map((row) => `<tr>${row.map(cell).join('')}</tr>`).join('');
+  return `${heading}<table style="border-collapse:collapse;width:100%"><thead><tr>${headers}</tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function sectionText(section: DigestSection): string {
+  const lines = section.rows.length === 0 ? [section.empty] : section.rows.map((row) => row.join(' | '));
+  return [section.title, ...lines].join('\n');
+}
+
+/**
+ * Renders the weekly progress digest: dashboard totals, protocols completed
+ * since `since`, reviews due in the seven days from `currentDate`, overdue
+ * reviews counted per reviewer, and mail batches with failed deliveries.
+ */
+export async function buildAdminDigest(input: {
+  currentDate: string;
+  since: string;
+  dashboardUrl: string;
+}): Promise<RenderedEmail & { counts: AdminDigestCounts }> {
+  const { currentDate, since, dashboardUrl } = input;
+  const weekEnd = addDaysToDate(currentDate, DUE_SOON_DAYS) ?? currentDate;
+  const [summary, completed, dueSoon, overdue, failedBatches] = await Promise.all([
+    getDashboardSummary(),
+    listProtocolsCompletedSince(since),
+    listAssignmentsDueBetween(currentDate, weekEnd),
+    listOverdueAssignments(currentDate),
+    listMailBatchesWithFailuresSince(since),
+  ]);
+
+  const overdueByReviewer = new Map<string, { name: string; count: number; oldest: string }>();
+  for (const assignment of overdue) {
+    const key = assignment.reviewerInternalId ?? `name:${assignment.reviewerName}`;
+    const current = overdueByReviewer.get(key) ?? { name: assignment.reviewerName, count: 0, oldest: assignment.dueDate };
+    current.count += 1;
+    if (assignment.dueDate < current.oldest) current.oldest = assignment.dueDate;
+    overdueByReviewer.set(key, current);
+  }
+
+  const sinceDate = since.slice(0, 10);
+  const sections: DigestSection[] = [
+    {
+      title: 'Totals',
+      empty: '',
+      headers: ['', 'Total', 'Completed', 'Open', 'Overdue'],
+      rows: [
+        ['Protocols', String(summary.protocols.total), String(summary.protocols.completed), String(summary.protocols.inProgress), ''],
+        ['Reviews', String(summary.assignments.total), String(summary.assignments.completed), String(summary.assignments.pending), String(summary.assignments.overdue)],
+      ],
+    },
+    {
+      title: `Protocols completed since ${sinceDate}`,
+      empty: 'No protocols were completed.',
+      headers: ['REC Code', 'Title', 'Completed'],
+      rows: completed.map((protocol) => [protocol.recCode, protocol.researchTitle, protocol.completedAt.slice(0, 10)]),
+    },
+    {
+      title: `Reviews due ${currentDate} to ${weekEnd}`,
+      empty: 'No open reviews are due this week.',
+      headers: ['Due Date', 'Reviewer', 'REC Code', 'Form', 'Accepted'],
+      rows: dueSoon.map((assignment) => [
+        assignment.dueDate,
+        assignment.reviewerName,
+        assignment.recCode,
+        assignment.formType,
+        assignment.acceptance === 'accepted' ? 'Yes' : 'Not yet',
+      ]),
+    },
+    {
+      title: 'Overdue reviews by reviewer',
+      empty: 'No reviews are overdue.',
+      headers: ['Reviewer', 'Overdue', 'Oldest Due Date'],
+      rows: [...overdueByReviewer.values()]
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+        .map((reviewer) => [reviewer.name, String(reviewer.count), reviewer.oldest]),
+    },
+    {
+      title: `Mail batches with failed deliveries since ${sinceDate}`,
+      empty: 'No deliveries failed.',
+      headers: ['Batch', 'Subject', 'Failed', 'Last Error'],
+      rows: failedBatches.map((batch) => [
+        batch.periodLabel,
+        batch.subject,
+        `${batch.failed} of ${batch.total}`,
+        batch.lastError,
+      ]),
+    },
+  ];
+
+  return {
+    subject: `e-REC review progress for the week of ${currentDate}`,
+    html: '<!doctype html><html><body style="font-family:Arial,sans-serif;color:#1f2937">'
+      + `<p>Review progress as of ${escapeHtml(currentDate)}.</p>`
+      + sections.map(sectionHtml).join('\n')
+      + `<p>Open the dashboard: <a href="${escapeHtml(dashboardUrl)}">${escapeHtml(dashboardUrl)}</a></p>`
+      + '</body></html>',
+    text: [
+      `Review progress as of ${currentDate}.`,
+      ...sections.map(sectionText),
+      `Open the dashboard: ${dashboardUrl}`,
+    ].join('\n\n'),
+    counts: {
+      completed: completed.length,
+      dueThisWeek: dueSoon.length,
+      overdue: overdue.length,
+      failedBatches: failedBatches.length,
+    },
+  };
+}
+
+/**
+ * Queues one digest per configured recipient as a single mail batch. The
+ * digest covers the time since the previous one, or the last week for the
+ * first digest.
+ */
+export async function queueAdminDigest(input: {
+  settings: MysqlAdminDigestSettingsDto;
+  currentDate: string;
+  appUrl: string;
+}) {
+  const { settings, currentDate, appUrl } = input;
+  const since = settings.lastSentAt
+    ?? new Date(Date.now() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const digest = await buildAdminDigest({ currentDate, since, dashboardUrl: `${appUrl}/admin/dashboard` });
+  const batch = await enqueueMailBatch({
+    scope: 'digest',
+    notificationType: 'admin_digest',
+    subject: digest.subject,
+    templateVersionId: null,
+    source: 'cron',
+    monthKey: '',
+    weekKey: '',
+    periodLabel: `Week of ${currentDate}`,
+    protocolCount: digest.counts.completed,
+    maxAttempts: getMailRetryAttempts(),
+  }, settings.recipients.map((email) => ({
+    reviewerId: null,
+    requestedReviewerId: email,
+    recipientName: email,
+    recipientEmail: email,
+    protocolCount: digest.counts.completed,
+    subject: digest.subject,
+    html: digest.html,
+    text: digest.text,
+    skipReason: null,
+  })));
+
+  return { ...batch, counts: digest.counts };
+}
@@ -0,0 +1,78 @@
+export type AdminRole = 'chair' | 'secretariat' | 'finance';
+
+export type AdminPermission =
+  | 'protocols:view'
+  | 'protocols:manage'
+  | 'protocols:decide'
+  | 'reviewers:view'
+  | 'reviewers:manage'
+  | 'mail:send'
+  | 'settings:manage'
+  | 'notices:publish'
+  | 'request-documents:generate'
+  | 'audit:view';
+
+export const ADMIN_ROLES: AdminRole[] = ['chair', 'secretariat', 'finance'];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  chair: 'REC Chair',
+  secretariat: 'Secretariat',
+  finance: 'Finance',
+};
+
+const ALL_PERMISSIONS: AdminPermission[] = [
+  'protocols:view',
+  'protocols:manage',
+  'protocols:decide',
+  'reviewers:view',
+  'reviewers:manage',
+  'mail:send',
+  'settings:manage',
+  'notices:publish',
+  'request-documents:generate',
+  'audit:view',
+];
+
+const CHAIR_ONLY_PERMISSIONS: AdminPermission[] = ['protocols:decide', 'notices:publish', 'audit:view'];
+
+const ROLE_PERMISSIONS: Record<AdminRole, ReadonlySet<AdminPermission>> = {
+  chair: new Set(ALL_PERMISSIONS),
+  secretariat: new Set(ALL_PERMISSIONS.filter((permission) => !CHAIR_ONLY_PERMISSIONS.includes(permission))),
+  finance: new Set(['reviewers:view', 'request-documents:generate']),
+};
+
+/** Admin pages and the permission each one needs, in navigation order. */
+export const ADMIN_PAGES: Array<{ name: string; href: string; permission: AdminPermission; nav: boolean }> = [
+  { name: 'Dashboard', href: '/admin/dashboard', permission: 'protocols:view', nav: true },
+  { name: 'Protocols', href: '/admin/protocols', permission: 'protocols:view', nav: true },
+  { name: 'Mailing', href: '/admin/mailing', permission: 'mail:send', nav: true },
+  { name: 'CSV Upload', href: '/admin/csv-upload', permission: 'protocols:manage', nav: true },
+  { name: 'Form Imports', href: '/admin/form-imports', permission: 'protocols:manage', nav: true },
+  { name: 'Request Docs', href: '/admin/request-documents', permission: 'request-documents:generate', nav: true },
+  { name: 'Reviewers', href: '/admin/reviewers', permission: 'reviewers:manage', nav: true },
+  { name: 'Notices', href: '/admin/notices', permission: 'notices:publish', nav: true },
+  { name: 'Review Forms', href: '/admin/review-forms', permission: 'settings:manage', nav: true },
+  { name: 'Email Templates', href: '/admin/email-templates', permission: 'settings:manage', nav: true },
+  { name: 'Audit Log', href: '/admin/audit', permission: 'audit:view', nav: true },
+  { name: 'Notifications', href: '/admin/notifications', permission: 'settings:manage', nav: false },
+  { name: 'Upload', href: '/admin/upload', permission: 'protocols:manage', nav: false },
+  { name: 'Export', href: '/admin/export', permission: 'protocols:view', nav: false },
+];
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return ADMIN_ROLES.includes(value as AdminRole);
+}
+
+export function hasAdminPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return ROLE_PERMISSIONS[role].has(permission);
+}
+
+export function getAdminPagePermission(pathname: string): AdminPermission | null {
+  const page = ADMIN_PAGES.find((item) => pathname === item.href || pathname.startsWith(`${item.href}/`));
+  return page?.permission ?? null;
+}
+
+/** The first page the role can open, used after sign-in and for /admin itself. */
+export function getAdminHomePath(role: AdminRole): string {
+  return ADMIN_PAGES.find((page) => page.nav && hasAdminPermission(role, page.permission))?.href ?? '/admin/login';
+}
@@ -0,0 +1,11 @@
+import type { NextRequest } from 'next/server';
+
+/** The configured public address of the app, or null when `NEXT_PUBLIC_APP_URL` is unset. */
+export function getConfiguredAppUrl(): string | null {
+  return process.env.NEXT_PUBLIC_APP_URL?.trim().replace(/\/$/, '') || null;
+}
+
+/** The public address of the app for links in emails, without a trailing slash. */
+export function getAppUrl(request: NextRequest): string {
+  return getConfiguredAppUrl() ?? request.nextUrl.origin.replace(/\/$/, '');
+}
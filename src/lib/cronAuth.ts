@@ -0,0 +1,10 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { NextRequest } from 'next/server';
+
+/** Checks the scheduler's `Authorization: Bearer <CRON_SECRET>` header. */
+export function isCronAuthorized(request: NextRequest): boolean {
+  const expected = process.env.CRON_SECRET;
+  const actual = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+  if (!expected || expected.length !== actual.length) return false;
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+}
@@ -0,0 +1,183 @@
+/** Notification emails whose wording admins can edit; matches `mail_batches.notification_type`. */
+export type EmailTemplateCode = 'assignment' | 'reminder' | 'overdue' | 'daily_digest';
+
+export const EMAIL_TEMPLATE_PLACEHOLDERS: Array<{ key: string; description: string }> = [
+  { key: 'reviewer_name', description: "The reviewer's name" },
+  { key: 'protocol_rows', description: 'A table of the protocols: REC code, title, form and due date' },
+  { key: 'protocol_count', description: 'How many protocols are listed' },
+  { key: 'due_date', description: 'The earliest due date among the protocols' },
+  { key: 'period_label', description: 'The month, week or reminder period the email is for' },
+  { key: 'portal_link', description: 'A link to the reviewer portal' },
+];
+
+export interface EmailTemplateProtocol {
+  recCode: string;
+  title: string;
+  formType: string;
+  dueDate: string;
+}
+
+export interface EmailTemplateData {
+  reviewerName: string;
+  periodLabel: string;
+  portalUrl: string;
+  protocols: EmailTemplateProtocol[];
+  /** The reviewer's email preferences page; added as a footer to every reviewer email. */
+  preferencesUrl?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Made-up values for previewing a template before it is published. */
+export const SAMPLE_EMAIL_TEMPLATE_DATA: EmailTemplateData = {
+  reviewerName: 'Dr. Maria Santos',
+  periodLabel: 'October 2026 / Week 3',
+  portalUrl: 'https://erec.example.edu/reviewer',
+  preferencesUrl: 'https://erec.example.edu/email-preferences?token=sample',
+  protocols: [
+    {
+      recCode: 'SPUP_2026_0142_SR_MS',
+      title: 'Sleep quality and academic performance of nursing students',
+      formType: 'PRA1',
+      dueDate: '2026-10-30',
+    },
+    {
+      recCode: 'SPUP_2026_0157_EX_JD',
+      title: 'Community perceptions of barangay health worker programs',
+      formType: 'CREF1',
+      dueDate: '2026-11-06',
+    },
+  ],
+};
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const KNOWN_PLACEHOLDERS = new Set(EMAIL_TEMPLATE_PLACEHOLDERS.map((placeholder) => placeholder.key));
+
+/** Escapes text for HTML emails, including the digests that are built in code rather than from a template. */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;').replace(/'/g, '&#039;');
+}
+
+/** Placeholders in the text that the renderer does not know, such as typos. */
+export function unknownEmailPlaceholders(text: string): string[] {
+  const unknown = [...text.matchAll(PLACEHOLDER)]
+    .map((match) => match[1])
+    .filter((key) => !KNOWN_PLACEHOLDERS.has(key));
+  return [...new Set(unknown)];
+}
+
+function earliestDueDate(protocols: EmailTemplateProtocol[]): string {
+  const dates = protocols.map((protocol) => protocol.dueDate).filter(Boolean).sort();
+  return dates[0] ?? 'Not set';
+}
+
+function protocolTable(protocols: EmailTemplateProtocol[]): string {
+  const cell = (value: string) => `<td style="padding:8px;border:1px solid #ddd">${escapeHtml(value)}</td>`;
+  const rows = protocols.map((protocol) =>
+    `<tr>${cell(protocol.recCode)}${cell(protocol.title)}${cell(protocol.formType)}${cell(protocol.dueDate || 'Not set')}</tr>`
+  ).join('');
+  return `<table style="border-collapse:collapse;width:100%"><thead><tr><th>REC Code</th><th>Title</th><th>Form</th><th>Due Date</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function protocolLines(protocols: EmailTemplateProtocol[]): string {
+  return protocols.map((protocol) =>
+    `${protocol.recCode} | ${protocol.title} | ${protocol.formType} | Due ${protocol.dueDate || 'Not set'}`
+  ).join('\n');
+}
+
+/** Replaces each placeholder with `value(key)`, passing the text around it through `literal`. */
+function substitute(template: string, value: (key: string) => string | null, literal: (text: string) => string): string {
+  let output = '';
+  let position = 0;
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const index = match.index ?? 0;
+    output += literal(template.slice(position, index));
+    output += value(match[1]) ?? literal(match[0]);
+    position = index + match[0].length;
+  }
+  return output + literal(template.slice(position));
+}
+
+/** The preferences link every reviewer email ends with; empty when there is no link. */
+export function preferencesFooter(preferencesUrl: string | undefined): { html: string; text: string } {
+  if (!preferencesUrl) return { html: '', text: '' };
+  return {
+    html: '<p style="margin-top:24px;font-size:12px;color:#6b7280">Choose how and when e-REC emails you: '
+      + `<a href="${escapeHtml(preferencesUrl)}">email preferences</a></p>`,
+    text: `\n\n--\nChoose how and when e-REC emails you: ${preferencesUrl}`,
+  };
+}
+
+/**
+ * Renders a template for one reviewer. The template's own text and every
+ * substituted value are HTML-escaped, so neither the wording nor reviewer or
+ * protocol data can inject markup; only the protocol table and portal link
+ * are generated as HTML. Blank lines separate paragraphs. The preferences
+ * footer is added outside the template so it cannot be edited away.
+ */
+export function renderEmailTemplate(
+  template: { subject: string; body: string },
+  data: EmailTemplateData
+): RenderedEmail {
+  const textValues = new Map<string, string>([
+    ['reviewer_name', data.reviewerName],
+    ['protocol_rows', protocolLines(data.protocols)],
+    ['protocol_count', String(data.protocols.length)],
+    ['due_date', earliestDueDate(data.protocols)],
+    ['period_label', data.periodLabel],
+    ['portal_link', data.portalUrl],
+  ]);
+  const textValue = (key: string) => textValues.get(key) ?? null;
+  const htmlValue = (key: string): string | null => {
+    if (key === 'protocol_rows') return protocolTable(data.protocols);
+    if (key === 'portal_link') return `<a href="${escapeHtml(data.portalUrl)}">${escapeHtml(data.portalUrl)}</a>`;
+    const value = textValue(key);
+    return value === null ? null : escapeHtml(value);
+  };
+  const body = template.body.replace(/\r\n?/g, '\n');
+
+  const paragraphs = body.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean).map((paragraph) => {
+    const content = substitute(paragraph, htmlValue, (text) => escapeHtml(text).replace(/\n/g, '<br>'));
+    // The table cannot sit inside a <p>, so a paragraph that is only the table is left unwrapped.
+    return /^\{\{\s*protocol_rows\s*\}\}$/.test(paragraph) ? content : `<p>${content}</p>`;
+  });
+
+  const footer = preferencesFooter(data.preferencesUrl);
+
+  return {
+    subject: substitute(template.subject, textValue, (text) => text)
+      .replace(/\s+/g, ' ').trim().slice(0, 500),
+    html: `<!doctype html><html><body style="font-family:Arial,sans-serif;color:#1f2937">${paragraphs.join('\n')}${footer.html}</body></html>`,
+    text: substitute(body, textValue, (text) => text).trim() + footer.text,
+  };
+}
+
+/** A notice announcement emailed to one reviewer. The notice text is escaped and keeps its line breaks. */
+export function renderNoticeEmail(data: {
+  reviewerName: string;
+  title: string;
+  content: string;
+  noticesUrl: string;
+  preferencesUrl?: string;
+}): RenderedEmail {
+  const paragraphs = data.content.replace(/\r\n?/g, '\n').split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim()).filter(Boolean);
+  const footer = preferencesFooter(data.preferencesUrl);
+
+  return {
+    subject: `Notice: ${data.title}`.replace(/\s+/g, ' ').trim().slice(0, 500),
+    html: '<!doctype html><html><body style="font-family:Arial,sans-serif;color:#1f2937">'
+      + `<p>Dear ${escapeHtml(data.reviewerName)},</p><h2>${escapeHtml(data.title)}</h2>`
+      + paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n')
+      + `<p>Read it in the reviewer portal: <a href="${escapeHtml(data.noticesUrl)}">${escapeHtml(data.noticesUrl)}</a></p>`
+      + `${footer.html}</body></html>`,
+    text: [`Dear ${data.reviewerName},`, data.title, ...paragraphs, `Read it in the reviewer portal: ${data.noticesUrl}`]
+      .join('\n\n') + footer.text,
+  };
+}
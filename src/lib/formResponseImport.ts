@@ -0,0 +1,142 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import type { ReviewRecommendation } from '@/lib/protocolLifecycle';
+
+/** Columns of a Microsoft Forms response export the import reads. */
+export interface FormResponseColumns {
+  recCode: number;
+  /** Tried in order; the first value that names a known reviewer wins. */
+  reviewer: number[];
+  completedAt: number | null;
+  recommendation: number | null;
+  comments: number | null;
+}
+
+export interface FormResponseRow {
+  /** Spreadsheet row number, counting the header as row 1. */
+  rowNumber: number;
+  recCode: string;
+  reviewerValues: string[];
+  completedAt: Date | null;
+  recommendation: ReviewRecommendation | null;
+  recommendationText: string;
+  comments: string;
+}
+
+export type FormResponseParseResult = {
+  headers: string[];
+  columns: FormResponseColumns;
+  rows: FormResponseRow[];
+};
+
+const REC_CODE_HEADER = /rec\s*code|protocol\s*code/i;
+// Most specific first: a reviewer code beats the respondent's email, which beats a typed-in name.
+const REVIEWER_HEADERS = [/reviewer\s*(code|id)|access\s*code/i, /^e-?mail/i, /^name$|reviewer'?s?\s*name|full\s*name/i];
+const COMPLETED_AT_HEADER = /completion\s*time|date\s*submitted|submitted\s*(at|on)/i;
+const RECOMMENDATION_HEADER = /recommend/i;
+const COMMENTS_HEADER = /comment|remark/i;
+
+function cleanCell(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : String(value ?? '').trim();
+}
+
+function readRows(fileName: string, data: Buffer): string[][] {
+  if (/\.xlsx?$/i.test(fileName)) {
+    const workbook = XLSX.read(data, { type: 'buffer' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) return [];
+    return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' })
+      .map((row) => row.map(cleanCell));
+  }
+
+  const text = data.toString('utf8').replace(/^\uFEFF/, '');
+  const parsed = Papa.parse<string[]>(text, {
+    delimiter: text.includes('\t') ? '\t' : '',
+    skipEmptyLines: 'greedy',
+  });
+  return parsed.data.map((row) => row.map(cleanCell));
+}
+
+function findColumn(headers: string[], pattern: RegExp): number | null {
+  const index = headers.findIndex((header) => pattern.test(header));
+  return index < 0 ? null : index;
+}
+
+function namedColumn(headers: string[], name: string): number {
+  const index = headers.indexOf(name);
+  if (index < 0) throw new Error(`Column "${name}" is not in the file.`);
+  return index;
+}
+
+/** Reads a recommendation written out in words, such as "Approve with minor revisions". */
+export function recommendationFromText(value: string): ReviewRecommendation | null {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+  if (/^not\s+exempt/.test(text)) return 'full_review';
+  if (/^exempt/.test(text)) return 'exempt';
+  if (/disapprov|reject/.test(text)) return 'disapprove';
+  if (/minor/.test(text)) return 'minor_revisions';
+  if (/major/.test(text)) return 'major_revisions';
+  if (/full\s*review/.test(text)) return 'full_review';
+  if (/^approv/.test(text)) return 'approve';
+  return null;
+}
+
+function parseCompletedAt(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parses a Microsoft Forms response export (CSV or Excel). The REC code and
+ * reviewer columns are found by their headers unless named explicitly.
+ */
+export function parseFormResponseFile(
+  fileName: string,
+  data: Buffer,
+  overrides: { recCodeColumn?: string; reviewerColumn?: string } = {}
+): FormResponseParseResult {
+  const rawRows = readRows(fileName, data);
+  const headerIndex = rawRows.findIndex((row) => row.some(Boolean));
+  if (headerIndex < 0) throw new Error('The file has no rows.');
+
+  const headers = rawRows[headerIndex];
+  const recCode = overrides.recCodeColumn
+    ? namedColumn(headers, overrides.recCodeColumn)
+    : findColumn(headers, REC_CODE_HEADER);
+  if (recCode === null) throw new Error('Could not find the REC code column. Choose it from the list.');
+  const reviewer = overrides.reviewerColumn
+    ? [namedColumn(headers, overrides.reviewerColumn)]
+    : REVIEWER_HEADERS.flatMap((pattern) => {
+      const index = findColumn(headers, pattern);
+      return index === null || index === recCode ? [] : [index];
+    });
+  if (reviewer.length === 0) throw new Error('Could not find a reviewer column. Choose it from the list.');
+
+  const columns: FormResponseColumns = {
+    recCode,
+    reviewer,
+    completedAt: findColumn(headers, COMPLETED_AT_HEADER),
+    recommendation: findColumn(headers, RECOMMENDATION_HEADER),
+    comments: findColumn(headers, COMMENTS_HEADER),
+  };
+  const cell = (row: string[], index: number | null) => index === null ? '' : row[index] ?? '';
+
+  const rows = rawRows.slice(headerIndex + 1).flatMap((row, offset) => {
+    if (!row.some(Boolean)) return [];
+    const recommendationText = cell(row, columns.recommendation);
+    return [{
+      rowNumber: headerIndex + offset + 2,
+      recCode: cell(row, recCode).replace(/\s+/g, ' '),
+      reviewerValues: reviewer.map((index) => cell(row, index)).filter(Boolean),
+      completedAt: parseCompletedAt(cell(row, columns.completedAt)),
+      recommendation: recommendationFromText(recommendationText),
+      recommendationText,
+      comments: cell(row, columns.comments),
+    }];
+  });
+  if (rows.length === 0) throw new Error('The file has no responses.');
+
+  return { headers, columns, rows };
+}
@@ -0,0 +1,34 @@
+import 'server-only';
+
+import { createHash } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Conditional GET helpers for admin list endpoints. The ETag is derived from a
+// cheap data version plus the request URL, so unchanged lists are answered
+// with 304 before the list query runs.
+
+const CACHE_CONTROL = 'private, no-cache';
+
+export function listEtag(request: NextRequest, version: string): string {
+  const hash = createHash('sha256')
+    .update(version)
+    .update('\n')
+    .update(request.nextUrl.pathname + request.nextUrl.search)
+    .digest('base64url')
+    .slice(0, 27);
+  return `W/"${hash}"`;
+}
+
+export function notModified(request: NextRequest, etag: string): NextResponse | null {
+  const header = request.headers.get('if-none-match');
+  if (!header) return null;
+
+  const tags = header.split(',').map((tag) => tag.trim().replace(/^W\//, ''));
+  if (!tags.includes('*') && !tags.includes(etag.replace(/^W\//, ''))) return null;
+
+  return new NextResponse(null, { status: 304, headers: { ETag: etag, 'Cache-Control': CACHE_CONTROL } });
+}
+
+export function cachedJson(body: unknown, etag: string): NextResponse {
+  return NextResponse.json(body, { headers: { ETag: etag, 'Cache-Control': CACHE_CONTROL } });
+}
@@ -0,0 +1,82 @@
+import 'server-only';
+
+import { getMailFrom, getMailSendDelayMs, getMailTransporter } from '@/lib/mailer';
+import {
+  claimMailDeliveries,
+  markMailDeliveryFailed,
+  markMailDeliverySent,
+  refreshMailBatchCounters,
+  releaseMailDeliveries,
+} from '@/lib/mysql';
+
+const DEFAULT_BATCH_SIZE = 25;
+// The lease outlasts the longest a worker function may run (300 s), and the
+// worker stops sending well before either ends, so a row is never still
+// being sent when another run may reclaim it.
+const LEASE_SECONDS = 600;
+const SEND_WINDOW_MS = 240_000;
+
+export interface MailQueueRunResult {
+  claimed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  /** Claimed deliveries returned to the queue unsent because the run reached its deadline. */
+  released: number;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends the queued deliveries that are due, up to `limit` per run. Claimed
+ * rows are leased, so overlapping runs never pick up the same email, and a
+ * run that dies mid-way leaves its rows to be retried once the lease ends.
+ * A run that reaches its send deadline returns the rest to the queue.
+ */
+export async function processMailQueue(limit = DEFAULT_BATCH_SIZE): Promise<MailQueueRunResult> {
+  // Read the mail settings first so a misconfigured server does not use up attempts.
+  const transporter = getMailTransporter();
+  const from = getMailFrom();
+  const delayMs = getMailSendDelayMs();
+  const deadline = Date.now() + SEND_WINDOW_MS;
+
+  const deliveries = await claimMailDeliveries(limit, LEASE_SECONDS);
+  const result: MailQueueRunResult = { claimed: deliveries.length, sent: 0, retrying: 0, failed: 0, released: 0 };
+
+  for (const [index, delivery] of deliveries.entries()) {
+    if (index > 0 && delayMs > 0) await wait(delayMs);
+    if (Date.now() >= deadline) {
+      const unsent = deliveries.slice(index);
+      await releaseMailDeliveries(unsent);
+      result.released = unsent.length;
+      break;
+    }
+
+    if (!delivery.recipientEmail || !delivery.html) {
+      await markMailDeliveryFailed(delivery, 'The queued email has no recipient address or message.', true);
+      result.failed += 1;
+      continue;
+    }
+
+    try {
+      const info = await transporter.sendMail({
+        from,
+        to: { address: delivery.recipientEmail, name: delivery.recipientName },
+        subject: delivery.subject,
+        html: delivery.html,
+        text: delivery.text ?? undefined,
+      });
+      if (await markMailDeliverySent(delivery, info.messageId || null)) result.sent += 1;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Email delivery failed.';
+      const outcome = await markMailDeliveryFailed(delivery, message);
+      if (outcome === 'failed') result.failed += 1;
+      if (outcome === 'pending') result.retrying += 1;
+    }
+  }
+
+  await refreshMailBatchCounters();
+  return result;
+}
@@ -1,4 +1,30 @@
-import nodemailer, { type Transporter } from 'nodemailer';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer, { type SendMailOptions, type Transport, type Transporter } from 'nodemailer';
+
+export type MailerMode = 'smtp' | 'file' | 'log' | 'memory';
+
+/** A message kept by the `memory` mailer instead of being sent. */
+export interface CapturedMail {
+  messageId: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  capturedAt: string;
+}
+
+interface LocalSendInfo {
+  messageId: string;
+  envelope: { from: string | false; to: string[] };
+  /** Where the `file` mailer wrote the message. */
+  file?: string;
+}
+
+type GlobalMailer = typeof globalThis & { __erecMemoryOutbox?: CapturedMail[] };
+
+const MAILER_MODES: MailerMode[] = ['smtp', 'file', 'log', 'memory'];
+const MEMORY_OUTBOX_LIMIT = 200;
 
 let transporter: Transporter | null = null;
 
@@ -35,15 +61,113 @@ function shouldRequireTls(encryption: string): boolean {
   return normalizedEncryption === 'tls' || normalizedEncryption === 'starttls';
 }
 
+/**
+ * `MAIL_MAILER` picks how mail leaves the app: `smtp` sends it, while `file`
+ * writes each message to `MAIL_FILE_PATH` as an .eml file, `log` prints it to
+ * the server log, and `memory` keeps it in the in-process outbox. The local
+ * modes are for development, training and dry runs.
+ */
+export function getMailerMode(): MailerMode {
+  const mode = (process.env.MAIL_MAILER?.toLowerCase() ?? 'smtp') as MailerMode;
+
+  if (!MAILER_MODES.includes(mode)) {
+    throw new Error(`Unsupported MAIL_MAILER value: ${process.env.MAIL_MAILER}. Use smtp, file, log or memory.`);
+  }
+
+  return mode;
+}
+
+function memoryOutbox(): CapturedMail[] {
+  const globalMailer = globalThis as GlobalMailer;
+  globalMailer.__erecMemoryOutbox ??= [];
+  return globalMailer.__erecMemoryOutbox;
+}
+
+/** Messages captured by the `memory` mailer, newest first. */
+export function getMemoryOutbox(): CapturedMail[] {
+  return [...memoryOutbox()].reverse();
+}
+
+export function clearMemoryOutbox(): void {
+  memoryOutbox().length = 0;
+}
+
+function addressList(value: SendMailOptions['to']): string {
+  const list = Array.isArray(value) ? value : value ? [value] : [];
+
+  return list
+    .map((item) => typeof item === 'string' ? item : item.name ? `${item.name} <${item.address}>` : item.address)
+    .join(', ');
+}
+
+function bodyText(value: SendMailOptions['html']): string {
+  return typeof value === 'string' || Buffer.isBuffer(value) ? value.toString() : '';
+}
+
+function createLocalTransport(mode: Exclude<MailerMode, 'smtp'>): Transport<LocalSendInfo> {
+  const deliver = async (data: SendMailOptions, raw: Buffer, info: LocalSendInfo): Promise<LocalSendInfo> => {
+    const to = addressList(data.to);
+    const subject = data.subject ?? '';
+    const text = bodyText(data.text);
+
+    if (mode === 'file') {
+      const directory = path.resolve(process.env.MAIL_FILE_PATH || '.mail-outbox');
+      const recipient = to.replace(/[^a-z0-9@.]+/gi, '_').slice(0, 80) || 'unknown';
+      const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.eml`);
+      await mkdir(directory, { recursive: true });
+      await writeFile(file, raw);
+      return { ...info, file };
+    }
+
+    if (mode === 'log') {
+      console.info(`[mail:log] To: ${to}\nSubject: ${subject}\n\n${text}`);
+      return info;
+    }
+
+    const outbox = memoryOutbox();
+    outbox.push({
+      messageId: info.messageId,
+      to,
+      subject,
+      html: bodyText(data.html),
+      text,
+      capturedAt: new Date().toISOString(),
+    });
+    outbox.splice(0, Math.max(0, outbox.length - MEMORY_OUTBOX_LIMIT));
+    return info;
+  };
+
+  return {
+    name: `erec-${mode}`,
+    version: '1.0.0',
+    send(mail, callback) {
+      // The info is known before the message is built, so failures can pass it too.
+      const info: LocalSendInfo = { messageId: mail.message.messageId(), envelope: mail.message.getEnvelope() };
+      mail.message.build((buildError, raw) => {
+        if (buildError) {
+          callback(buildError, info);
+          return;
+        }
+
+        deliver(mail.data, raw, info).then(
+          (result) => callback(null, result),
+          (error: Error) => callback(error, info)
+        );
+      });
+    },
+  };
+}
+
 export function getMailTransporter(): Transporter {
   if (transporter) {
     return transporter;
   }
 
-  const mailer = process.env.MAIL_MAILER?.toLowerCase() ?? 'smtp';
+  const mailer = getMailerMode();
 
   if (mailer !== 'smtp') {
-    throw new Error(`Unsupported MAIL_MAILER value: ${process.env.MAIL_MAILER}. Only smtp is supported.`);
+    transporter = nodemailer.createTransport(createLocalTransport(mailer));
+    return transporter;
   }
 
   const host = getRequiredMailEnv('MAIL_HOST');
@@ -70,7 +194,26 @@ export function getMailTransporter(): Transporter {
 
 export function getMailFrom() {
   return {
-    address: getRequiredMailEnv('MAIL_FROM_ADDRESS'),
+    // Local mailers never reach a real server, so they do not need a configured sender.
+    address: getMailerMode() === 'smtp'
+      ? getRequiredMailEnv('MAIL_FROM_ADDRESS')
+      : process.env.MAIL_FROM_ADDRESS || 'erec@localhost',
     name: process.env.MAIL_FROM_NAME || 'e-REC Ethics Review System',
   };
 }
+
+function getNonNegativeIntegerEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/** How many times a queued email is tried before it is marked failed. */
+export function getMailRetryAttempts(): number {
+  return Math.max(1, getNonNegativeIntegerEnv('MAIL_RETRY_ATTEMPTS', 3));
+}
+
+/** Pause between two emails sent by the same worker run. */
+export function getMailSendDelayMs(): number {
+  return getNonNegativeIntegerEnv('MAIL_SEND_DELAY_MS', 1000);
+}
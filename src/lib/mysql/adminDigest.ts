@@ -0,0 +1,119 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+import { queryRows } from './db';
+import { assignmentAcceptance, dateOnly, finiteNumber, idString, isoDateTime } from './values';
+
+export interface MysqlDigestCompletedProtocol {
+  recCode: string;
+  researchTitle: string;
+  completedAt: string;
+}
+
+export interface MysqlDigestDueAssignment {
+  assignmentId: string;
+  recCode: string;
+  researchTitle: string;
+  reviewerName: string;
+  formType: string;
+  dueDate: string;
+  acceptance: 'pending' | 'accepted' | 'declined';
+}
+
+export interface MysqlDigestFailedBatch {
+  batchId: string;
+  periodLabel: string;
+  subject: string;
+  failed: number;
+  total: number;
+  lastError: string;
+}
+
+interface CompletedProtocolRow extends RowDataPacket {
+  rec_code: string;
+  research_title: string;
+  completed_at: string;
+}
+
+interface DueAssignmentRow extends RowDataPacket {
+  assignment_id: string;
+  rec_code: string;
+  research_title: string;
+  reviewer_name: string;
+  form_type: string | null;
+  due_date: string;
+  acceptance: string;
+}
+
+interface FailedBatchRow extends RowDataPacket {
+  id: string;
+  period_label: string;
+  subject: string;
+  failed: number;
+  total: number;
+  last_error: string | null;
+}
+
+/** `since` is an ISO timestamp; protocols completed at or after it are listed, newest first. */
+export async function listProtocolsCompletedSince(since: string): Promise<MysqlDigestCompletedProtocol[]> {
+  const rows = await queryRows<CompletedProtocolRow>(`
+    SELECT rec_code, research_title, completed_at
+    FROM protocols
+    WHERE deleted_at IS NULL AND completed_at >= ?
+    ORDER BY completed_at DESC, rec_code
+  `, [since.replace('T', ' ').replace('Z', '')]);
+  return rows.map((row) => ({
+    recCode: row.rec_code,
+    researchTitle: row.research_title,
+    completedAt: isoDateTime(row.completed_at) ?? '',
+  }));
+}
+
+/** Open current-round reviews due between `from` and `to`, inclusive. Declined slots are left out. */
+export async function listAssignmentsDueBetween(from: string, to: string): Promise<MysqlDigestDueAssignment[]> {
+  const rows = await queryRows<DueAssignmentRow>(`
+    SELECT
+      CAST(pra.id AS CHAR) AS assignment_id,
+      p.rec_code,
+      p.research_title,
+      COALESCE(r.full_name, pra.source_reviewer_name) AS reviewer_name,
+      COALESCE(pra.form_type_code, pra.source_form_type) AS form_type,
+      COALESCE(pra.due_date, p.due_date) AS due_date,
+      pra.acceptance
+    FROM protocol_reviewer_assignments pra
+    INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+    LEFT JOIN reviewers r ON r.id = pra.reviewer_id
+    WHERE pra.deleted_at IS NULL AND p.deleted_at IS NULL AND pra.status <> 'completed'
+      AND pra.acceptance <> 'declined'
+      AND COALESCE(pra.due_date, p.due_date) BETWEEN ? AND ?
+    ORDER BY due_date, reviewer_name, p.rec_code
+  `, [from, to]);
+  return rows.map((row) => ({
+    assignmentId: idString(row.assignment_id),
+    recCode: row.rec_code,
+    researchTitle: row.research_title,
+    reviewerName: row.reviewer_name,
+    formType: row.form_type ?? '',
+    dueDate: dateOnly(row.due_date),
+    acceptance: assignmentAcceptance(row.acceptance),
+  }));
+}
+
+/** Unarchived mail batches updated since `since` that have at least one failed delivery. */
+export async function listMailBatchesWithFailuresSince(since: string): Promise<MysqlDigestFailedBatch[]> {
+  const rows = await queryRows<FailedBatchRow>(`
+    SELECT CAST(id AS CHAR) AS id, period_label, subject, failed, total, last_error
+    FROM mail_batches
+    WHERE archived_at IS NULL AND failed > 0
+      AND COALESCE(source_updated_at, updated_at) >= ?
+    ORDER BY COALESCE(source_created_at, created_at) DESC
+  `, [since.replace('T', ' ').replace('Z', '')]);
+  return rows.map((row) => ({
+    batchId: idString(row.id),
+    periodLabel: row.period_label,
+    subject: row.subject,
+    failed: finiteNumber(row.failed),
+    total: finiteNumber(row.total),
+    lastError: row.last_error ?? '',
+  }));
+}
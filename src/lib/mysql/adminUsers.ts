@@ -0,0 +1,178 @@
+import 'server-only';
+
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { mysqlPool, queryRows } from './db';
+import { hasAdminPermission, isAdminRole, type AdminPermission } from '@/lib/adminPermissions';
+import type { MysqlAdminUserDto } from './types';
+import { booleanValue, idString, isoDateTime, sessionTokenHash } from './values';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: { N: number; r: number; p: number }
+) => Promise<Buffer>;
+
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELISM = 1;
+const SCRYPT_KEY_LENGTH = 64;
+
+interface AdminUserRow extends RowDataPacket {
+  internal_id: string;
+  email: string;
+  full_name: string;
+  role: string;
+  is_active: number;
+  last_login_at: string | null;
+}
+
+interface AdminCredentialRow extends AdminUserRow {
+  password_hash: string;
+}
+
+function mapAdminUser(row: AdminUserRow): MysqlAdminUserDto {
+  return {
+    id: idString(row.internal_id),
+    email: row.email,
+    name: row.full_name,
+    // Unknown roles fall back to the narrowest one rather than widening access.
+    role: isAdminRole(row.role) ? row.role : 'finance',
+    isActive: booleanValue(row.is_active),
+    lastLoginAt: isoDateTime(row.last_login_at),
+  };
+}
+
+const ADMIN_USER_SELECT = `
+  SELECT
+    CAST(u.id AS CHAR) AS internal_id,
+    u.email,
+    u.full_name,
+    u.role,
+    u.is_active,
+    u.last_login_at
+  FROM admin_users u`;
+
+/** Hash format: scrypt$N$r$p$salt$key, with salt and key base64 encoded. */
+export async function hashAdminPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH, {
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELISM,
+  });
+
+  return [
+    'scrypt',
+    SCRYPT_COST,
+    SCRYPT_BLOCK_SIZE,
+    SCRYPT_PARALLELISM,
+    salt.toString('base64'),
+    key.toString('base64'),
+  ].join('$');
+}
+
+export async function verifyAdminPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, cost, blockSize, parallelism, salt, key] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(cost),
+    r: Number(blockSize),
+    p: Number(parallelism),
+  });
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export async function authenticateAdminUser(email: string, password: string): Promise<MysqlAdminUserDto | null> {
+  const rows = await queryRows<AdminCredentialRow>(`
+    SELECT
+      CAST(u.id AS CHAR) AS internal_id,
+      u.email,
+      u.full_name,
+      u.role,
+      u.is_active,
+      u.last_login_at,
+      u.password_hash
+    FROM admin_users u
+    WHERE LOWER(u.email) = LOWER(?)
+      AND u.deleted_at IS NULL
+      AND u.is_active = TRUE
+    LIMIT 1
+  `, [email.trim()]);
+  const row = rows[0];
+
+  if (!row || !(await verifyAdminPassword(password, row.password_hash))) {
+    return null;
+  }
+
+  await mysqlPool.execute<ResultSetHeader>(
+    'UPDATE admin_users SET last_login_at = UTC_TIMESTAMP(6) WHERE id = ?',
+    [row.internal_id]
+  );
+  return mapAdminUser(row);
+}
+
+export async function createAdminSession(input: {
+  adminUserId: string;
+  token: string;
+  expiresAt: Date;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    INSERT INTO admin_sessions (
+      admin_user_id, token_sha256, expires_at, ip_address, user_agent, last_seen_at
+    ) VALUES (?, ?, ?, ?, ?, UTC_TIMESTAMP(6))
+  `, [
+    input.adminUserId,
+    sessionTokenHash(input.token),
+    input.expiresAt,
+    input.ipAddress?.slice(0, 64) || null,
+    input.userAgent?.slice(0, 512) || null,
+  ]);
+}
+
+/** Active admins whose role grants the permission, e.g. to notify the secretariat. */
+export async function listAdminUsersWithPermission(permission: AdminPermission): Promise<MysqlAdminUserDto[]> {
+  const rows = await queryRows<AdminUserRow>(`
+    ${ADMIN_USER_SELECT}
+    WHERE u.deleted_at IS NULL AND u.is_active = TRUE
+    ORDER BY u.full_name
+  `);
+  return rows.map(mapAdminUser).filter((admin) => hasAdminPermission(admin.role, permission));
+}
+
+/** Resolves an unexpired, unrevoked session to its active admin account. */
+export async function getAdminUserBySessionToken(token: string): Promise<MysqlAdminUserDto | null> {
+  const rows = await queryRows<AdminUserRow>(`
+    ${ADMIN_USER_SELECT}
+    JOIN admin_sessions s ON s.admin_user_id = u.id
+    WHERE s.token_sha256 = ?
+      AND s.revoked_at IS NULL
+      AND s.expires_at > UTC_TIMESTAMP(6)
+      AND u.deleted_at IS NULL
+      AND u.is_active = TRUE
+    LIMIT 1
+  `, [sessionTokenHash(token)]);
+
+  if (!rows[0]) return null;
+
+  await mysqlPool.execute<ResultSetHeader>(
+    'UPDATE admin_sessions SET last_seen_at = UTC_TIMESTAMP(6) WHERE token_sha256 = ?',
+    [sessionTokenHash(token)]
+  );
+  return mapAdminUser(rows[0]);
+}
+
+export async function revokeAdminSession(token: string): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE admin_sessions
+    SET revoked_at = UTC_TIMESTAMP(6)
+    WHERE token_sha256 = ? AND revoked_at IS NULL
+  `, [sessionTokenHash(token)]);
+}
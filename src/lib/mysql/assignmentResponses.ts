@@ -0,0 +1,159 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { queryRows, withTransaction, type MysqlExecutor } from './db';
+import { listReviewerAssignments } from './protocols';
+import type { MysqlAssignmentResponseDto, MysqlReviewerProtocolDto } from './types';
+import { assignmentAcceptance, dateOnly, finiteNumber, idString, isoDateTime } from './values';
+
+interface ResponseRow extends RowDataPacket {
+  assignment_id: string;
+  protocol_id: string;
+  rec_code: string;
+  research_title: string;
+  month_key: string;
+  week_key: string;
+  reviewer_access_code: string | null;
+  reviewer_full_name: string | null;
+  source_reviewer_id: string;
+  source_reviewer_name: string;
+  form_type: string | null;
+  due_date: string | null;
+  acceptance: string;
+  assigned_at: string;
+  responded_at: string | null;
+  decline_reason: string | null;
+  days_waiting: number;
+  round_reviewer_ids: string | null;
+}
+
+export interface AssignmentResponseSummary {
+  declined: MysqlAssignmentResponseDto[];
+  /** Pending assignments older than the configured number of days. */
+  unanswered: MysqlAssignmentResponseDto[];
+}
+
+function mapResponse(row: ResponseRow): MysqlAssignmentResponseDto {
+  return {
+    assignmentId: idString(row.assignment_id),
+    protocolInternalId: idString(row.protocol_id),
+    recCode: row.rec_code,
+    researchTitle: row.research_title,
+    monthId: row.month_key,
+    weekId: row.week_key,
+    reviewerId: row.reviewer_access_code ?? row.source_reviewer_id,
+    reviewerName: row.reviewer_full_name ?? row.source_reviewer_name,
+    formType: row.form_type ?? '',
+    dueDate: dateOnly(row.due_date),
+    acceptance: assignmentAcceptance(row.acceptance),
+    assignedAt: isoDateTime(row.assigned_at) ?? '',
+    respondedAt: isoDateTime(row.responded_at),
+    declineReason: row.decline_reason,
+    daysWaiting: finiteNumber(row.days_waiting),
+    protocolReviewerIds: row.round_reviewer_ids ? row.round_reviewer_ids.split('\n') : [],
+  };
+}
+
+/**
+ * Called whenever a slot gets a new reviewer. The reviewer has to answer
+ * again, except for a review entered as already completed, and the previous
+ * reviewer's recommendation no longer applies.
+ */
+export async function requestAssignmentAcceptance(executor: MysqlExecutor, assignmentId: string): Promise<void> {
+  await executor.execute<ResultSetHeader>(`
+    UPDATE protocol_reviewer_assignments
+    SET acceptance = CASE WHEN status = 'completed' THEN 'accepted' ELSE 'pending' END,
+        assigned_at = UTC_TIMESTAMP(6),
+        responded_at = CASE WHEN status = 'completed' THEN UTC_TIMESTAMP(6) ELSE NULL END,
+        decline_reason = NULL,
+        recommendation = NULL,
+        recommendation_comments = NULL,
+        recommendation_source = NULL,
+        recommended_at = NULL
+    WHERE id = ?
+  `, [assignmentId]);
+}
+
+/**
+ * Records the reviewer's answer. Either answer can be changed until the
+ * review is completed or the slot is reassigned.
+ */
+export async function respondToAssignment(input: {
+  reviewerInternalId: string;
+  assignmentId: string;
+  response: 'accepted' | 'declined';
+  reason?: string;
+}): Promise<MysqlReviewerProtocolDto> {
+  const reason = input.reason?.trim() ?? '';
+  if (input.response === 'declined' && !reason) throw new Error('Give a reason for declining.');
+
+  await withTransaction(async (connection) => {
+    const rows = await queryRows<RowDataPacket & { status: string }>(`
+      SELECT pra.status
+      FROM protocol_reviewer_assignments pra
+      INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+      WHERE pra.id = ? AND pra.reviewer_id = ? AND pra.deleted_at IS NULL AND p.deleted_at IS NULL
+      FOR UPDATE
+    `, [input.assignmentId, input.reviewerInternalId], connection);
+    if (!rows[0]) throw new Error('Reviewer assignment was not found.');
+    if (rows[0].status === 'completed') throw new Error('Completed reviews cannot be accepted or declined.');
+
+    await connection.execute<ResultSetHeader>(`
+      UPDATE protocol_reviewer_assignments
+      SET acceptance = ?, responded_at = UTC_TIMESTAMP(6), decline_reason = ?
+      WHERE id = ?
+    `, [input.response, input.response === 'declined' ? reason.slice(0, 500) : null, input.assignmentId]);
+  });
+
+  const refreshed = await listReviewerAssignments(input.reviewerInternalId);
+  const assignment = refreshed.find((item) => item.assignmentId === input.assignmentId);
+  if (!assignment) throw new Error('Updated assignment could not be reloaded.');
+  return assignment;
+}
+
+/** Open current-round assignments that were declined or are still unanswered. */
+export async function listAssignmentResponses(unansweredAfterDays: number): Promise<AssignmentResponseSummary> {
+  const rows = await queryRows<ResponseRow>(`
+    SELECT
+      CAST(pra.id AS CHAR) AS assignment_id,
+      CAST(p.id AS CHAR) AS protocol_id,
+      p.rec_code,
+      p.research_title,
+      pm.legacy_month_key AS month_key,
+      pw.legacy_week_key AS week_key,
+      r.access_code AS reviewer_access_code,
+      r.full_name AS reviewer_full_name,
+      pra.source_reviewer_id,
+      pra.source_reviewer_name,
+      COALESCE(pra.form_type_code, pra.source_form_type) AS form_type,
+      COALESCE(pra.due_date, p.due_date) AS due_date,
+      pra.acceptance,
+      pra.assigned_at,
+      pra.responded_at,
+      pra.decline_reason,
+      TIMESTAMPDIFF(DAY, pra.assigned_at, UTC_TIMESTAMP(6)) AS days_waiting,
+      (
+        SELECT GROUP_CONCAT(COALESCE(rr.access_code, other.source_reviewer_id) SEPARATOR '\\n')
+        FROM protocol_reviewer_assignments other
+        LEFT JOIN reviewers rr ON rr.id = other.reviewer_id
+        WHERE other.review_round_id = pra.review_round_id AND other.deleted_at IS NULL
+      ) AS round_reviewer_ids
+    FROM protocol_reviewer_assignments pra
+    INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+    INNER JOIN protocol_weeks pw ON pw.id = p.protocol_week_id
+    INNER JOIN protocol_months pm ON pm.id = pw.protocol_month_id
+    LEFT JOIN reviewers r ON r.id = pra.reviewer_id
+    WHERE pra.deleted_at IS NULL AND p.deleted_at IS NULL AND pra.status <> 'completed'
+      AND (
+        pra.acceptance = 'declined'
+        OR (pra.acceptance = 'pending' AND pra.assigned_at <= UTC_TIMESTAMP(6) - INTERVAL ? DAY)
+      )
+    ORDER BY pra.acceptance = 'pending', COALESCE(pra.responded_at, pra.assigned_at)
+  `, [Math.max(0, Math.trunc(unansweredAfterDays))]);
+
+  const responses = rows.map(mapResponse);
+  return {
+    declined: responses.filter((response) => response.acceptance === 'declined'),
+    unanswered: responses.filter((response) => response.acceptance === 'pending'),
+  };
+}
@@ -0,0 +1,178 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { queryRows, type MysqlExecutor, type MysqlParameter } from './db';
+import type { MysqlAdminAuditEventDto, MysqlAdminUserDto } from './types';
+import { isoDateTime } from './values';
+
+export type AdminAuditActor = Pick<MysqlAdminUserDto, 'id' | 'email' | 'name'>;
+export type AdminAuditSnapshot = Record<string, unknown> | null;
+
+export const ADMIN_AUDIT_ACTIONS = [
+  'protocol.create',
+  'protocol.update',
+  'protocol.delete',
+  'protocol.decision',
+  'protocol.resubmit',
+  'protocol_week.move',
+  'assignment.reassign',
+  'assignment.recommendation',
+  'due_date_extension.decide',
+  'email_template.update',
+  'email_template.publish',
+  'email_template.discard',
+  'expertise_tag.create',
+  'form_import.apply',
+  'reviewer.create',
+  'reviewer.update',
+  'reviewer.archive',
+  'reviewer_conflict.create',
+  'reviewer_conflict.revoke',
+  'reviewer_leave.create',
+  'reviewer_leave.delete',
+  'review_form.update',
+  'review_form.publish',
+  'review_form.discard',
+  'review_form_type.update',
+  'review_form_type.retire',
+  'review_form_type.restore',
+  'notice.create',
+  'notice.update',
+  'notice.archive',
+  'notification_settings.update',
+  'admin_digest_settings.update',
+  'reviewer_login_settings.update',
+  'mail_batch.archive',
+] as const;
+
+export type AdminAuditAction = typeof ADMIN_AUDIT_ACTIONS[number];
+
+export interface AdminAuditFilters {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+interface AuditEventRow extends RowDataPacket {
+  id: string;
+  admin_user_id: string | null;
+  actor_email: string | null;
+  actor_name: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string;
+  changes: unknown;
+  occurred_at: string;
+}
+
+type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+function auditChanges(before: AdminAuditSnapshot, after: AdminAuditSnapshot): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    const beforeValue = before?.[field] ?? null;
+    const afterValue = after?.[field] ?? null;
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  }
+
+  return changes;
+}
+
+function parseChanges(value: unknown): MysqlAdminAuditEventDto['changes'] {
+  const parsed = typeof value === 'string' ? JSON.parse(value) as unknown : value;
+  if (!parsed || typeof parsed !== 'object') return [];
+
+  return Object.entries(parsed as AuditChanges).map(([field, change]) => ({
+    field,
+    before: change?.before ?? null,
+    after: change?.after ?? null,
+  }));
+}
+
+/**
+ * Pass the transaction connection so the audit row commits or rolls back
+ * together with the change it describes. A null actor marks system writes.
+ */
+export async function recordAdminAudit(executor: MysqlExecutor, input: {
+  actor: AdminAuditActor | null;
+  action: AdminAuditAction;
+  entityType: string;
+  entityId: string;
+  before?: AdminAuditSnapshot;
+  after?: AdminAuditSnapshot;
+}): Promise<void> {
+  await executor.execute<ResultSetHeader>(`
+    INSERT INTO admin_audit_events (
+      admin_user_id, actor_email, actor_name, action, entity_type, entity_id,
+      changes, occurred_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, UTC_TIMESTAMP(6))
+  `, [
+    input.actor?.id ?? null,
+    input.actor?.email ?? null,
+    input.actor?.name ?? null,
+    input.action,
+    input.entityType,
+    input.entityId,
+    JSON.stringify(auditChanges(input.before ?? null, input.after ?? null)),
+  ]);
+}
+
+export async function listAdminAuditEvents(filters: AdminAuditFilters = {}): Promise<MysqlAdminAuditEventDto[]> {
+  const safeLimit = Math.min(5000, Math.max(1, Math.trunc(filters.limit ?? 200)));
+  const conditions: string[] = [];
+  const values: MysqlParameter[] = [];
+
+  if (filters.action) {
+    conditions.push('action = ?');
+    values.push(filters.action);
+  }
+  if (filters.entityType) {
+    conditions.push('entity_type = ?');
+    values.push(filters.entityType);
+  }
+  if (filters.entityId) {
+    conditions.push('entity_id = ?');
+    values.push(filters.entityId);
+  }
+  if (filters.actor) {
+    conditions.push('(actor_email LIKE ? OR actor_name LIKE ?)');
+    values.push(`%${filters.actor}%`, `%${filters.actor}%`);
+  }
+  if (filters.from) {
+    conditions.push('occurred_at >= ?');
+    values.push(`${filters.from} 00:00:00.000000`);
+  }
+  if (filters.to) {
+    conditions.push('occurred_at < DATE_ADD(?, INTERVAL 1 DAY)');
+    values.push(`${filters.to} 00:00:00.000000`);
+  }
+
+  const rows = await queryRows<AuditEventRow>(`
+    SELECT CAST(id AS CHAR) AS id, CAST(admin_user_id AS CHAR) AS admin_user_id,
+      actor_email, actor_name, action, entity_type, entity_id, changes, occurred_at
+    FROM admin_audit_events
+    ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY occurred_at DESC, id DESC
+    LIMIT ${safeLimit}
+  `, values);
+
+  return rows.map((row) => ({
+    id: row.id,
+    occurredAt: isoDateTime(row.occurred_at),
+    actorId: row.admin_user_id,
+    actorEmail: row.actor_email ?? '',
+    actorName: row.actor_name ?? (row.admin_user_id ? '' : 'System'),
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    changes: parseChanges(row.changes),
+  }));
+}
@@ -24,11 +24,12 @@ export async function getDashboardSummary(): Promise<MysqlDashboardSummary> {
   const rows = await queryRows<DashboardRow>(`
     SELECT
       (SELECT COUNT(*) FROM protocols WHERE deleted_at IS NULL) AS protocol_total,
-      (SELECT COUNT(*) FROM protocols WHERE deleted_at IS NULL AND status = 'completed') AS protocol_completed,
+      (SELECT COUNT(*) FROM protocols WHERE deleted_at IS NULL AND completed_at IS NOT NULL) AS protocol_completed,
       (SELECT COUNT(*) FROM protocol_reviewer_assignments WHERE deleted_at IS NULL) AS assignment_total,
       (SELECT COUNT(*) FROM protocol_reviewer_assignments WHERE deleted_at IS NULL AND status = 'completed') AS assignment_completed,
-      (SELECT COUNT(*) FROM protocol_reviewer_assignments
-        WHERE deleted_at IS NULL AND status <> 'completed' AND due_date < UTC_DATE()) AS assignment_overdue,
+      (SELECT COUNT(*) FROM protocol_reviewer_assignments pra
+        INNER JOIN protocols p ON p.current_round_id = pra.review_round_id AND p.deleted_at IS NULL
+        WHERE pra.deleted_at IS NULL AND pra.status <> 'completed' AND pra.due_date < UTC_DATE()) AS assignment_overdue,
       (SELECT COUNT(*) FROM reviewers WHERE deleted_at IS NULL) AS reviewer_total,
       (SELECT COUNT(*) FROM reviewers WHERE deleted_at IS NULL AND is_active = TRUE) AS reviewer_active
   `);
@@ -0,0 +1,221 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { queryRows, withTransaction, type MysqlExecutor, type MysqlParameter } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import type { MysqlDueDateExtensionDto, MysqlExtensionStatus } from './types';
+import { dateOnly, idString, isoDateTime, nullableString } from './values';
+
+interface ExtensionRow extends RowDataPacket {
+  id: string;
+  assignment_id: string;
+  protocol_id: string;
+  rec_code: string;
+  research_title: string;
+  month_key: string;
+  week_key: string;
+  reviewer_internal_id: string;
+  access_code: string;
+  full_name: string;
+  email: string | null;
+  form_type: string | null;
+  current_due_date: string | null;
+  requested_due_date: string;
+  justification: string;
+  status: MysqlExtensionStatus;
+  decision_note: string | null;
+  decided_by_name: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
+
+const EXTENSION_SELECT = `
+  SELECT CAST(ext.id AS CHAR) AS id, CAST(ext.assignment_id AS CHAR) AS assignment_id,
+    CAST(p.id AS CHAR) AS protocol_id, p.rec_code, p.research_title,
+    pm.legacy_month_key AS month_key, pw.legacy_week_key AS week_key,
+    CAST(r.id AS CHAR) AS reviewer_internal_id, r.access_code, r.full_name, r.email,
+    COALESCE(pra.form_type_code, pra.source_form_type) AS form_type,
+    ext.current_due_date, ext.requested_due_date, ext.justification, ext.status,
+    ext.decision_note, u.full_name AS decided_by_name, ext.decided_at, ext.created_at
+  FROM due_date_extension_requests ext
+  INNER JOIN protocol_reviewer_assignments pra ON pra.id = ext.assignment_id
+  INNER JOIN protocols p ON p.id = pra.protocol_id
+  INNER JOIN protocol_weeks pw ON pw.id = p.protocol_week_id
+  INNER JOIN protocol_months pm ON pm.id = pw.protocol_month_id
+  INNER JOIN reviewers r ON r.id = ext.reviewer_id
+  LEFT JOIN admin_users u ON u.id = ext.decided_by_admin_id`;
+
+function mapExtension(row: ExtensionRow): MysqlDueDateExtensionDto {
+  return {
+    id: idString(row.id),
+    assignmentId: idString(row.assignment_id),
+    protocolInternalId: idString(row.protocol_id),
+    recCode: row.rec_code,
+    researchTitle: row.research_title,
+    monthId: row.month_key,
+    weekId: row.week_key,
+    reviewerInternalId: idString(row.reviewer_internal_id),
+    reviewerId: row.access_code,
+    reviewerName: row.full_name,
+    reviewerEmail: nullableString(row.email),
+    formType: row.form_type ?? '',
+    currentDueDate: dateOnly(row.current_due_date),
+    requestedDueDate: dateOnly(row.requested_due_date),
+    justification: row.justification,
+    status: row.status,
+    decisionNote: row.decision_note,
+    decidedBy: row.decided_by_name,
+    decidedAt: isoDateTime(row.decided_at),
+    createdAt: isoDateTime(row.created_at) ?? '',
+  };
+}
+
+async function getExtension(executor: MysqlExecutor, requestId: string): Promise<MysqlDueDateExtensionDto | null> {
+  const rows = await queryRows<ExtensionRow>(`${EXTENSION_SELECT} WHERE ext.id = ?`, [requestId], executor);
+  return rows[0] ? mapExtension(rows[0]) : null;
+}
+
+export async function listDueDateExtensions(filters: {
+  status?: MysqlExtensionStatus;
+  reviewerInternalId?: string;
+  assignmentId?: string;
+} = {}): Promise<MysqlDueDateExtensionDto[]> {
+  const clauses = ['pra.deleted_at IS NULL', 'p.deleted_at IS NULL'];
+  const values: MysqlParameter[] = [];
+  if (filters.status) {
+    clauses.push('ext.status = ?');
+    values.push(filters.status);
+  }
+  if (filters.reviewerInternalId) {
+    clauses.push('ext.reviewer_id = ?');
+    values.push(filters.reviewerInternalId);
+  }
+  if (filters.assignmentId) {
+    clauses.push('ext.assignment_id = ?');
+    values.push(filters.assignmentId);
+  }
+
+  const rows = await queryRows<ExtensionRow>(`
+    ${EXTENSION_SELECT}
+    WHERE ${clauses.join(' AND ')}
+    ORDER BY ext.status <> 'pending', ext.created_at DESC
+  `, values);
+  return rows.map(mapExtension);
+}
+
+/**
+ * Reviewer request from the portal. Only one request per assignment can be
+ * pending, and the new date must fall after both today and the current due date.
+ */
+export async function requestDueDateExtension(input: {
+  reviewerInternalId: string;
+  assignmentId: string;
+  requestedDueDate: string;
+  justification: string;
+}): Promise<MysqlDueDateExtensionDto> {
+  const justification = input.justification.trim();
+  const requestedDueDate = /^\d{4}-\d{2}-\d{2}$/.test(input.requestedDueDate) ? input.requestedDueDate : '';
+  if (!requestedDueDate) throw new Error('Choose the new due date.');
+  if (!justification) throw new Error('Explain why you need more time.');
+
+  return withTransaction(async (connection) => {
+    const assignments = await queryRows<RowDataPacket & { status: string; due_date: string | null }>(`
+      SELECT pra.status, COALESCE(pra.due_date, p.due_date) AS due_date
+      FROM protocol_reviewer_assignments pra
+      INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+      WHERE pra.id = ? AND pra.reviewer_id = ? AND pra.deleted_at IS NULL AND p.deleted_at IS NULL
+      FOR UPDATE
+    `, [input.assignmentId, input.reviewerInternalId], connection);
+    const assignment = assignments[0];
+    if (!assignment) throw new Error('Reviewer assignment was not found.');
+    if (assignment.status === 'completed') throw new Error('Completed reviews cannot be extended.');
+
+    const currentDueDate = dateOnly(assignment.due_date);
+    const today = new Date().toISOString().slice(0, 10);
+    if (requestedDueDate <= today || (currentDueDate && requestedDueDate <= currentDueDate)) {
+      throw new Error('The new due date must be later than the current one.');
+    }
+
+    const pending = await queryRows<RowDataPacket & { id: string }>(`
+      SELECT CAST(id AS CHAR) AS id FROM due_date_extension_requests
+      WHERE assignment_id = ? AND status = 'pending' LIMIT 1
+    `, [input.assignmentId], connection);
+    if (pending[0]) throw new Error('An extension request for this review is already waiting for a decision.');
+
+    const [result] = await connection.execute<ResultSetHeader>(`
+      INSERT INTO due_date_extension_requests (
+        assignment_id, reviewer_id, current_due_date, requested_due_date, justification, created_at
+      ) VALUES (?, ?, ?, ?, ?, UTC_TIMESTAMP(6))
+    `, [input.assignmentId, input.reviewerInternalId, currentDueDate || null, requestedDueDate, justification.slice(0, 1000)]);
+    const extension = await getExtension(connection, String(result.insertId));
+    if (!extension) throw new Error('Extension request was not saved.');
+    return extension;
+  });
+}
+
+/**
+ * Approving moves the assignment's due date to the requested one. Both
+ * outcomes are logged as assignment events and in the admin audit.
+ */
+export async function decideDueDateExtension(input: {
+  requestId: string;
+  decision: 'approved' | 'rejected';
+  note?: string;
+  actor: AdminAuditActor | null;
+}): Promise<MysqlDueDateExtensionDto> {
+  return withTransaction(async (connection) => {
+    const locked = await queryRows<RowDataPacket & { id: string }>(`
+      SELECT CAST(id AS CHAR) AS id FROM due_date_extension_requests
+      WHERE id = ? AND status = 'pending' FOR UPDATE
+    `, [input.requestId], connection);
+    const before = locked[0] ? await getExtension(connection, input.requestId) : null;
+    if (!before) throw new Error('Extension request not found.');
+
+    const assignments = await queryRows<RowDataPacket & { due_date: string | null; status: string }>(`
+      SELECT pra.due_date, pra.status FROM protocol_reviewer_assignments pra
+      WHERE pra.id = ? AND pra.deleted_at IS NULL FOR UPDATE
+    `, [before.assignmentId], connection);
+    if (!assignments[0]) throw new Error('Reviewer assignment was not found.');
+    const dueDateBefore = dateOnly(assignments[0].due_date) || before.currentDueDate || null;
+    const dueDateAfter = input.decision === 'approved' ? before.requestedDueDate : dueDateBefore;
+
+    await connection.execute<ResultSetHeader>(`
+      UPDATE due_date_extension_requests
+      SET status = ?, decision_note = ?, decided_by_admin_id = ?, decided_at = UTC_TIMESTAMP(6)
+      WHERE id = ?
+    `, [input.decision, nullableString(input.note)?.slice(0, 1000) ?? null, input.actor?.id ?? null, input.requestId]);
+    if (input.decision === 'approved') {
+      await connection.execute<ResultSetHeader>(`
+        UPDATE protocol_reviewer_assignments SET due_date = ? WHERE id = ?
+      `, [before.requestedDueDate, before.assignmentId]);
+    }
+    await connection.execute<ResultSetHeader>(`
+      INSERT INTO protocol_assignment_events (
+        protocol_id, assignment_id, event_type, to_reviewer_id, status_after,
+        due_date_before, due_date_after, occurred_at, actor_type, actor_identifier
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, UTC_TIMESTAMP(6), 'admin', ?)
+    `, [
+      before.protocolInternalId, before.assignmentId,
+      input.decision === 'approved' ? 'extension_approved' : 'extension_rejected',
+      before.reviewerInternalId, assignments[0].status, dueDateBefore, dueDateAfter,
+      input.actor?.email ?? 'admin',
+    ]);
+
+    const after = await getExtension(connection, input.requestId);
+    if (!after) throw new Error('Extension request was not saved.');
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'due_date_extension.decide',
+      entityType: 'assignment',
+      entityId: before.assignmentId,
+      before: { status: before.status, dueDate: dueDateBefore },
+      after: {
+        status: after.status,
+        dueDate: dueDateAfter,
+        requestedDueDate: after.requestedDueDate,
+        note: after.decisionNote,
+      },
+    });
+    return after;
+  });
+}
@@ -0,0 +1,230 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { unknownEmailPlaceholders } from '@/lib/emailTemplates';
+import { queryRows, withTransaction, type MysqlExecutor } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import type { MysqlEmailTemplateDto, MysqlEmailTemplateVersionDto } from './types';
+import { finiteNumber, idString, isoDateTime } from './values';
+
+interface TemplateRow extends RowDataPacket {
+  code: string;
+  display_name: string;
+  description: string | null;
+  published_version: number | null;
+  published_at: string | null;
+  draft_version: number | null;
+}
+
+interface VersionRow extends RowDataPacket {
+  id: string;
+  template_code: string;
+  version_number: number;
+  subject: string;
+  body: string;
+  published_at: string | null;
+  updated_at: string | null;
+}
+
+const VERSION_COLUMNS = `
+  CAST(id AS CHAR) AS id, template_code, version_number, subject, body, published_at, updated_at
+`;
+
+function mapVersion(row: VersionRow): MysqlEmailTemplateVersionDto {
+  return {
+    versionId: idString(row.id),
+    code: row.template_code,
+    version: finiteNumber(row.version_number),
+    subject: row.subject,
+    body: row.body,
+    publishedAt: isoDateTime(row.published_at),
+    updatedAt: isoDateTime(row.updated_at),
+  };
+}
+
+export async function listEmailTemplates(executor?: MysqlExecutor): Promise<MysqlEmailTemplateDto[]> {
+  const rows = await queryRows<TemplateRow>(`
+    SELECT t.code, t.display_name, t.description,
+      (
+        SELECT MAX(v.version_number) FROM email_template_versions v
+        WHERE v.template_code = t.code AND v.published_at IS NOT NULL
+      ) AS published_version,
+      (
+        SELECT MAX(v.published_at) FROM email_template_versions v
+        WHERE v.template_code = t.code
+      ) AS published_at,
+      (
+        SELECT v.version_number FROM email_template_versions v
+        WHERE v.template_code = t.code AND v.published_at IS NULL
+        LIMIT 1
+      ) AS draft_version
+    FROM email_templates t
+    ORDER BY t.sort_order, t.code
+  `, [], executor);
+  return rows.map((row) => ({
+    code: row.code,
+    name: row.display_name,
+    description: row.description,
+    publishedVersion: row.published_version === null ? null : finiteNumber(row.published_version),
+    publishedAt: isoDateTime(row.published_at),
+    draftVersion: row.draft_version === null ? null : finiteNumber(row.draft_version),
+  }));
+}
+
+/** The latest published version, which notification emails are written from. */
+export async function getPublishedEmailTemplate(
+  code: string,
+  executor?: MysqlExecutor
+): Promise<MysqlEmailTemplateVersionDto> {
+  const rows = await queryRows<VersionRow>(`
+    SELECT ${VERSION_COLUMNS}
+    FROM email_template_versions
+    WHERE template_code = ? AND published_at IS NOT NULL
+    ORDER BY version_number DESC
+    LIMIT 1
+  `, [code], executor);
+  if (!rows[0]) throw new Error(`The ${code} email template has no published version.`);
+  return mapVersion(rows[0]);
+}
+
+/** The template with its draft and every version, newest first. */
+export async function getEmailTemplateEditor(code: string): Promise<{
+  template: MysqlEmailTemplateDto;
+  draft: MysqlEmailTemplateVersionDto | null;
+  versions: MysqlEmailTemplateVersionDto[];
+} | null> {
+  const template = (await listEmailTemplates()).find((item) => item.code === code);
+  if (!template) return null;
+  const rows = await queryRows<VersionRow>(`
+    SELECT ${VERSION_COLUMNS}
+    FROM email_template_versions
+    WHERE template_code = ?
+    ORDER BY version_number DESC
+  `, [code]);
+  const versions = rows.map(mapVersion);
+  return {
+    template,
+    draft: versions.find((version) => version.publishedAt === null) ?? null,
+    versions: versions.filter((version) => version.publishedAt !== null),
+  };
+}
+
+async function lockTemplate(executor: MysqlExecutor, code: string): Promise<void> {
+  const rows = await queryRows<RowDataPacket & { code: string }>(`
+    SELECT code FROM email_templates WHERE code = ? FOR UPDATE
+  `, [code], executor);
+  if (!rows[0]) throw new Error('Email template not found.');
+}
+
+async function findDraft(executor: MysqlExecutor, code: string): Promise<MysqlEmailTemplateVersionDto | null> {
+  const rows = await queryRows<VersionRow>(`
+    SELECT ${VERSION_COLUMNS}
+    FROM email_template_versions
+    WHERE template_code = ? AND published_at IS NULL
+  `, [code], executor);
+  return rows[0] ? mapVersion(rows[0]) : null;
+}
+
+/**
+ * Saves the subject and body as the template's draft, starting the next
+ * version when there is no draft yet. Unknown placeholders are rejected so a
+ * typo is not mailed out as literal text.
+ */
+export async function saveEmailTemplateDraft(input: {
+  code: string;
+  subject: string;
+  body: string;
+  actor: AdminAuditActor | null;
+}): Promise<MysqlEmailTemplateVersionDto> {
+  const subject = input.subject.replace(/\s+/g, ' ').trim();
+  const body = input.body.replace(/\r\n?/g, '\n').trim();
+  if (!subject) throw new Error('Subject is required.');
+  if (subject.length > 500) throw new Error('Subject must be 500 characters or fewer.');
+  if (!body) throw new Error('Message is required.');
+  if (body.length > 20000) throw new Error('Message must be 20,000 characters or fewer.');
+  const unknown = unknownEmailPlaceholders(`${subject}\n${body}`);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown placeholder${unknown.length === 1 ? '' : 's'}: ${unknown.map((key) => `{{${key}}}`).join(', ')}.`);
+  }
+
+  return withTransaction(async (connection) => {
+    await lockTemplate(connection, input.code);
+    const existingDraft = await findDraft(connection, input.code);
+    let draftId = existingDraft?.versionId;
+    let versionNumber = existingDraft?.version;
+    if (!draftId) {
+      const latest = await queryRows<RowDataPacket & { version_number: number | null }>(`
+        SELECT MAX(version_number) AS version_number FROM email_template_versions WHERE template_code = ?
+      `, [input.code], connection);
+      versionNumber = finiteNumber(latest[0]?.version_number) + 1;
+      const [result] = await connection.execute<ResultSetHeader>(`
+        INSERT INTO email_template_versions (template_code, version_number, subject, body) VALUES (?, ?, ?, ?)
+      `, [input.code, versionNumber, subject, body]);
+      draftId = String(result.insertId);
+    } else {
+      await connection.execute<ResultSetHeader>(`
+        UPDATE email_template_versions SET subject = ?, body = ? WHERE id = ?
+      `, [subject, body, draftId]);
+    }
+
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'email_template.update',
+      entityType: 'email_template',
+      entityId: input.code,
+      before: existingDraft ? { version: existingDraft.version, subject: existingDraft.subject } : null,
+      after: { version: versionNumber, subject },
+    });
+    const saved = await findDraft(connection, input.code);
+    if (!saved) throw new Error('Draft was not saved.');
+    return saved;
+  });
+}
+
+/** Publishes the draft; emails queued from now on use it. */
+export async function publishEmailTemplateDraft(input: {
+  code: string;
+  actor: AdminAuditActor | null;
+}): Promise<MysqlEmailTemplateVersionDto> {
+  return withTransaction(async (connection) => {
+    await lockTemplate(connection, input.code);
+    const draft = await findDraft(connection, input.code);
+    if (!draft) throw new Error('There is no draft to publish.');
+
+    await connection.execute<ResultSetHeader>(`
+      UPDATE email_template_versions SET published_at = UTC_TIMESTAMP(6) WHERE id = ?
+    `, [draft.versionId]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'email_template.publish',
+      entityType: 'email_template',
+      entityId: input.code,
+      before: null,
+      after: { version: draft.version },
+    });
+    return getPublishedEmailTemplate(input.code, connection);
+  });
+}
+
+export async function discardEmailTemplateDraft(input: {
+  code: string;
+  actor: AdminAuditActor | null;
+}): Promise<void> {
+  await withTransaction(async (connection) => {
+    await lockTemplate(connection, input.code);
+    const draft = await findDraft(connection, input.code);
+    if (!draft) throw new Error('There is no draft to discard.');
+
+    await connection.execute<ResultSetHeader>(`
+      DELETE FROM email_template_versions WHERE id = ?
+    `, [draft.versionId]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'email_template.discard',
+      entityType: 'email_template',
+      entityId: input.code,
+      before: { version: draft.version },
+      after: null,
+    });
+  });
+}
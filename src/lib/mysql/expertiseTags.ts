@@ -0,0 +1,175 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { queryRows, withTransaction, type MysqlExecutor } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import type { MysqlExpertiseTagDto } from './types';
+import { finiteNumber, idString, tagList } from './values';
+
+interface ExpertiseTagRow extends RowDataPacket {
+  id: string;
+  name: string;
+  keywords: string;
+  reviewer_count: number;
+}
+
+/** SQL for a reviewer's tag names, joined with newlines for `tagList`. */
+export const REVIEWER_EXPERTISE_SQL = `(
+  SELECT GROUP_CONCAT(et.name ORDER BY et.name SEPARATOR '\\n')
+  FROM reviewer_expertise_tags ret
+  INNER JOIN expertise_tags et ON et.id = ret.expertise_tag_id AND et.deleted_at IS NULL
+  WHERE ret.reviewer_id = r.id
+)`;
+
+/** SQL for a protocol's tag names, joined with newlines for `tagList`. */
+export const PROTOCOL_EXPERTISE_SQL = `(
+  SELECT GROUP_CONCAT(et.name ORDER BY et.name SEPARATOR '\\n')
+  FROM protocol_expertise_tags pet
+  INNER JOIN expertise_tags et ON et.id = pet.expertise_tag_id AND et.deleted_at IS NULL
+  WHERE pet.protocol_id = p.id
+)`;
+
+function keywordList(value: string): string[] {
+  return value.split(',').map((keyword) => keyword.trim().toLowerCase()).filter(Boolean);
+}
+
+function mapTag(row: ExpertiseTagRow): MysqlExpertiseTagDto {
+  return {
+    id: idString(row.id),
+    name: row.name,
+    keywords: keywordList(row.keywords),
+    reviewerCount: finiteNumber(row.reviewer_count),
+  };
+}
+
+export async function listExpertiseTags(executor?: MysqlExecutor): Promise<MysqlExpertiseTagDto[]> {
+  const rows = await queryRows<ExpertiseTagRow>(`
+    SELECT CAST(et.id AS CHAR) AS id, et.name, et.keywords,
+      (
+        SELECT COUNT(*) FROM reviewer_expertise_tags ret
+        INNER JOIN reviewers r ON r.id = ret.reviewer_id
+        WHERE ret.expertise_tag_id = et.id AND r.deleted_at IS NULL AND r.is_active = TRUE
+      ) AS reviewer_count
+    FROM expertise_tags et
+    WHERE et.deleted_at IS NULL
+    ORDER BY et.name
+  `, [], executor);
+  return rows.map(mapTag);
+}
+
+export async function createExpertiseTag(input: {
+  name: string;
+  keywords?: string[];
+  actor: AdminAuditActor | null;
+}): Promise<MysqlExpertiseTagDto> {
+  const name = input.name.replace(/\s+/g, ' ').trim();
+  const keywords = (input.keywords ?? [])
+    .map((keyword) => keyword.replace(/[,\s]+/g, ' ').trim().toLowerCase())
+    .filter(Boolean)
+    .join(',');
+  if (!name) throw new Error('Tag name is required.');
+  if (name.length > 100) throw new Error('Tag name must be 100 characters or fewer.');
+  if (keywords.length > 500) throw new Error('Keywords must be 500 characters or fewer in total.');
+
+  return withTransaction(async (connection) => {
+    const existing = await queryRows<RowDataPacket & { id: string }>(`
+      SELECT CAST(id AS CHAR) AS id FROM expertise_tags WHERE name = ?
+    `, [name], connection);
+    if (existing[0]) throw new Error('An expertise tag with this name already exists.');
+
+    const [result] = await connection.execute<ResultSetHeader>(`
+      INSERT INTO expertise_tags (name, keywords) VALUES (?, ?)
+    `, [name, keywords]);
+    const tagId = String(result.insertId);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'expertise_tag.create',
+      entityType: 'expertise_tag',
+      entityId: tagId,
+      before: null,
+      after: { name, keywords: keywordList(keywords) },
+    });
+    const tag = (await listExpertiseTags(connection)).find((item) => item.id === tagId);
+    if (!tag) throw new Error('Expertise tag was not saved.');
+    return tag;
+  });
+}
+
+/** Replaces the reviewer's tags and returns their names. Unknown tag IDs are ignored. */
+export async function setReviewerExpertise(input: {
+  reviewerInternalId: string;
+  tagIds: string[];
+  actor: AdminAuditActor | null;
+}): Promise<string[]> {
+  return withTransaction(async (connection) => {
+    const reviewers = await queryRows<RowDataPacket & { access_code: string; expertise: string | null }>(`
+      SELECT r.access_code, ${REVIEWER_EXPERTISE_SQL} AS expertise
+      FROM reviewers r
+      WHERE r.id = ? AND r.deleted_at IS NULL
+      FOR UPDATE
+    `, [input.reviewerInternalId], connection);
+    if (!reviewers[0]) throw new Error('Reviewer not found.');
+
+    const tags = await listExpertiseTags(connection);
+    const chosen = tags.filter((tag) => input.tagIds.includes(tag.id));
+    await connection.execute<ResultSetHeader>(`
+      DELETE FROM reviewer_expertise_tags WHERE reviewer_id = ?
+    `, [input.reviewerInternalId]);
+    for (const tag of chosen) {
+      await connection.execute<ResultSetHeader>(`
+        INSERT INTO reviewer_expertise_tags (reviewer_id, expertise_tag_id) VALUES (?, ?)
+      `, [input.reviewerInternalId, tag.id]);
+    }
+
+    const expertise = chosen.map((tag) => tag.name);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'reviewer.update',
+      entityType: 'reviewer',
+      entityId: reviewers[0].access_code,
+      before: { expertise: tagList(reviewers[0].expertise) },
+      after: { expertise },
+    });
+    return expertise;
+  });
+}
+
+/**
+ * Tags the protocol by name when `tagNames` is given. Otherwise a protocol
+ * without tags picks up every tag whose keywords appear in its nature or type
+ * of study, so spreadsheet uploads are tagged without extra work and manual
+ * choices are never overwritten.
+ */
+export async function applyProtocolExpertise(
+  executor: MysqlExecutor,
+  protocolId: string,
+  input: { tagNames?: string[]; natureOfStudy: string; typeOfStudy: string }
+): Promise<void> {
+  const tags = await listExpertiseTags(executor);
+  let chosen: MysqlExpertiseTagDto[];
+
+  if (input.tagNames) {
+    const names = new Set(input.tagNames.map((name) => name.trim().toLowerCase()));
+    chosen = tags.filter((tag) => names.has(tag.name.toLowerCase()));
+  } else {
+    const current = await queryRows<RowDataPacket & { expertise_tag_id: string }>(`
+      SELECT CAST(expertise_tag_id AS CHAR) AS expertise_tag_id FROM protocol_expertise_tags WHERE protocol_id = ? LIMIT 1
+    `, [protocolId], executor);
+    if (current[0]) return;
+
+    const text = `${input.natureOfStudy} ${input.typeOfStudy}`.toLowerCase();
+    if (!text.trim()) return;
+    chosen = tags.filter((tag) =>
+      text.includes(tag.name.toLowerCase()) || tag.keywords.some((keyword) => text.includes(keyword))
+    );
+  }
+
+  await executor.execute<ResultSetHeader>(`
+    DELETE FROM protocol_expertise_tags WHERE protocol_id = ?
+  `, [protocolId]);
+  for (const tag of chosen) {
+    await executor.execute<ResultSetHeader>(`
+      INSERT INTO protocol_expertise_tags (protocol_id, expertise_tag_id) VALUES (?, ?)
+    `, [protocolId, tag.id]);
+  }
+}
@@ -0,0 +1,230 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import type { FormResponseRow } from '@/lib/formResponseImport';
+import { queryRows, withTransaction, type MysqlExecutor } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import { syncProtocolReviewStatus } from './protocolDecisions';
+import type { MysqlFormImportRowDto, MysqlFormImportRowStatus } from './types';
+import { idString, normalizeReviewerLookup } from './values';
+
+interface ReviewerIdentityRow extends RowDataPacket {
+  id: string;
+  access_code: string;
+  full_name: string;
+  email: string | null;
+}
+
+interface CandidateRow extends RowDataPacket {
+  protocol_id: string;
+  rec_code: string;
+  research_title: string;
+  assignment_id: string | null;
+  reviewer_id: string | null;
+  reviewer_name: string | null;
+  status: string | null;
+  acceptance: string | null;
+}
+
+function recCodeKey(value: string): string {
+  return value.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+/** Maps every normalized access code, name, email and alias to the reviewers it names. */
+async function loadReviewerIdentities(executor?: MysqlExecutor): Promise<Map<string, Set<string>>> {
+  const [reviewers, aliases] = await Promise.all([
+    queryRows<ReviewerIdentityRow>(`
+      SELECT CAST(id AS CHAR) AS id, access_code, full_name, email
+      FROM reviewers
+      WHERE deleted_at IS NULL
+    `, [], executor),
+    queryRows<RowDataPacket & { reviewer_id: string; normalized_alias: string }>(`
+      SELECT CAST(ra.reviewer_id AS CHAR) AS reviewer_id, ra.normalized_alias
+      FROM reviewer_aliases ra
+      INNER JOIN reviewers r ON r.id = ra.reviewer_id AND r.deleted_at IS NULL
+      WHERE ra.deleted_at IS NULL
+    `, [], executor),
+  ]);
+
+  const identities = new Map<string, Set<string>>();
+  const add = (value: string | null, reviewerId: string) => {
+    const key = normalizeReviewerLookup(value);
+    if (!key) return;
+    const ids = identities.get(key) ?? new Set<string>();
+    ids.add(idString(reviewerId));
+    identities.set(key, ids);
+  };
+  for (const reviewer of reviewers) {
+    add(reviewer.access_code, reviewer.id);
+    add(reviewer.full_name, reviewer.id);
+    add(reviewer.email, reviewer.id);
+  }
+  for (const alias of aliases) add(alias.normalized_alias, alias.reviewer_id);
+  return identities;
+}
+
+/**
+ * Matches each response row to a current-round assignment of the form type,
+ * by REC code and reviewer identity. Nothing is written; rows marked 'ready'
+ * are the ones an import would complete.
+ */
+export async function reconcileFormResponses(
+  formType: string,
+  rows: FormResponseRow[],
+  executor?: MysqlExecutor
+): Promise<MysqlFormImportRowDto[]> {
+  const formTypes = await queryRows<RowDataPacket & { code: string }>(`
+    SELECT code FROM review_form_types WHERE code = ?
+  `, [formType], executor);
+  if (!formTypes[0]) throw new Error('Form type not found.');
+
+  const recCodes = [...new Set(rows.map((row) => recCodeKey(row.recCode)).filter(Boolean))];
+  const [identities, candidates] = await Promise.all([
+    loadReviewerIdentities(executor),
+    recCodes.length === 0 ? Promise.resolve([] as CandidateRow[]) : queryRows<CandidateRow>(`
+      SELECT CAST(p.id AS CHAR) AS protocol_id, p.rec_code, p.research_title,
+        CAST(pra.id AS CHAR) AS assignment_id, CAST(pra.reviewer_id AS CHAR) AS reviewer_id,
+        COALESCE(r.full_name, pra.source_reviewer_name) AS reviewer_name, pra.status, pra.acceptance
+      FROM protocols p
+      LEFT JOIN protocol_reviewer_assignments pra
+        ON pra.protocol_id = p.id
+        AND pra.review_round_id = p.current_round_id
+        AND pra.deleted_at IS NULL
+        AND COALESCE(pra.form_type_code, pra.source_form_type) = ?
+      LEFT JOIN reviewers r ON r.id = pra.reviewer_id
+      WHERE p.deleted_at IS NULL
+        AND UPPER(REPLACE(p.rec_code, ' ', '')) IN (${recCodes.map(() => '?').join(', ')})
+    `, [formType, ...recCodes], executor),
+  ]);
+
+  const candidatesByCode = new Map<string, CandidateRow[]>();
+  for (const candidate of candidates) {
+    const key = recCodeKey(candidate.rec_code);
+    candidatesByCode.set(key, [...candidatesByCode.get(key) ?? [], candidate]);
+  }
+
+  const results = rows.map((row): MysqlFormImportRowDto => {
+    const result = (status: MysqlFormImportRowStatus, message: string, candidate?: CandidateRow): MysqlFormImportRowDto => ({
+      rowNumber: row.rowNumber,
+      recCode: row.recCode,
+      reviewerValue: row.reviewerValues[0] ?? '',
+      completedAt: row.completedAt?.toISOString() ?? null,
+      recommendation: row.recommendation,
+      recommendationText: row.recommendationText,
+      status,
+      message,
+      assignmentId: candidate?.assignment_id ? idString(candidate.assignment_id) : null,
+      protocolInternalId: candidate ? idString(candidate.protocol_id) : null,
+      researchTitle: candidate?.research_title ?? null,
+      reviewerName: candidate?.reviewer_name ?? null,
+    });
+
+    if (!recCodeKey(row.recCode)) return result('missing_rec_code', 'The row has no REC code.');
+    const protocolCandidates = candidatesByCode.get(recCodeKey(row.recCode)) ?? [];
+    if (protocolCandidates.length === 0) return result('unknown_protocol', `No protocol has REC code ${row.recCode}.`);
+
+    const reviewerIds = row.reviewerValues
+      .map((value) => identities.get(normalizeReviewerLookup(value)))
+      .find((ids) => ids && ids.size > 0);
+    if (!reviewerIds) {
+      return result('unknown_reviewer', `"${row.reviewerValues.join(' / ') || 'blank'}" does not match a reviewer or alias.`);
+    }
+
+    const matches = protocolCandidates.filter((candidate) =>
+      candidate.assignment_id && candidate.reviewer_id && reviewerIds.has(idString(candidate.reviewer_id)));
+    if (matches.length === 0) {
+      return result('not_assigned', `The reviewer is not assigned to ${row.recCode} on ${formType} in the current round.`);
+    }
+    if (matches.length > 1) return result('ambiguous', 'More than one assignment matches this row.');
+
+    const [match] = matches;
+    if (match.status === 'completed') return result('already_completed', 'The review is already completed.', match);
+    if (match.acceptance === 'declined') return result('declined', 'The reviewer declined this review.', match);
+    return result('ready', 'Will be marked completed.', match);
+  });
+
+  // A reviewer who submitted the form more than once counts once, using the latest response.
+  const latest = new Map<string, MysqlFormImportRowDto>();
+  for (const row of results) {
+    if (row.status !== 'ready' || !row.assignmentId) continue;
+    const previous = latest.get(row.assignmentId);
+    if (!previous || (row.completedAt ?? '') >= (previous.completedAt ?? '')) latest.set(row.assignmentId, row);
+  }
+  return results.map((row) => row.status === 'ready' && row.assignmentId && latest.get(row.assignmentId) !== row
+    ? { ...row, status: 'duplicate', message: 'A later response for the same review is imported instead.' }
+    : row);
+}
+
+/**
+ * Completes the ready rows the admin kept from the preview. Each completion
+ * is logged as an 'import' assignment event, and a recommendation read from
+ * the export is kept on the assignment.
+ */
+export async function applyFormResponseImport(input: {
+  formType: string;
+  fileName: string;
+  rows: FormResponseRow[];
+  rowNumbers: number[];
+  actor: AdminAuditActor;
+}): Promise<MysqlFormImportRowDto[]> {
+  const selected = new Set(input.rowNumbers);
+  const responses = new Map(input.rows.map((row) => [row.rowNumber, row]));
+
+  return withTransaction(async (connection) => {
+    const reconciled = await reconcileFormResponses(input.formType, input.rows, connection);
+    const completed: MysqlFormImportRowDto[] = [];
+    const protocolIds = new Set<string>();
+
+    for (const row of reconciled) {
+      if (row.status !== 'ready' || !row.assignmentId || !row.protocolInternalId || !selected.has(row.rowNumber)) continue;
+      const response = responses.get(row.rowNumber);
+      const completedAt = response?.completedAt && response.completedAt.getTime() <= Date.now()
+        ? response.completedAt
+        : new Date();
+
+      const [update] = await connection.execute<ResultSetHeader>(`
+        UPDATE protocol_reviewer_assignments
+        SET status = 'completed',
+            completed_at = ?,
+            responded_at = CASE WHEN acceptance <> 'accepted' THEN ? ELSE responded_at END,
+            acceptance = 'accepted'
+        WHERE id = ? AND status <> 'completed' AND deleted_at IS NULL
+      `, [completedAt, completedAt, row.assignmentId]);
+      if (update.affectedRows === 0) continue;
+
+      await connection.execute<ResultSetHeader>(`
+        INSERT INTO protocol_assignment_events (
+          protocol_id, assignment_id, event_type, status_after, occurred_at, completed_at,
+          actor_type, actor_identifier
+        ) VALUES (?, ?, 'status_change', 'completed', UTC_TIMESTAMP(6), ?, 'import', ?)
+      `, [row.protocolInternalId, row.assignmentId, completedAt, input.actor.email ?? 'admin']);
+      if (row.recommendation) {
+        await connection.execute<ResultSetHeader>(`
+          UPDATE protocol_reviewer_assignments
+          SET recommendation = ?, recommendation_comments = ?, recommendation_source = 'import',
+              recommended_at = ?
+          WHERE id = ?
+        `, [row.recommendation, response?.comments.slice(0, 4000) || null, completedAt, row.assignmentId]);
+      }
+      protocolIds.add(row.protocolInternalId);
+      completed.push(row);
+    }
+
+    for (const protocolId of protocolIds) await syncProtocolReviewStatus(connection, protocolId);
+    if (completed.length > 0) {
+      await recordAdminAudit(connection, {
+        actor: input.actor,
+        action: 'form_import.apply',
+        entityType: 'form_import',
+        entityId: input.formType,
+        before: null,
+        after: {
+          fileName: input.fileName,
+          completed: completed.length,
+          assignments: completed.map((row) => row.assignmentId),
+        },
+      });
+    }
+    return completed;
+  });
+}
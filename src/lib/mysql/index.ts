@@ -1,9 +1,27 @@
+export * from './adminDigest';
+export * from './adminUsers';
+export * from './assignmentResponses';
+export * from './audit';
 export * from './dashboard';
 export * from './db';
+export * from './dueDateExtensions';
+export * from './emailTemplates';
+export * from './expertiseTags';
+export * from './formResponseImports';
 export * from './mail';
 export * from './notices';
+export * from './overdueEscalations';
 export * from './protocols';
+export * from './protocolDecisions';
 export * from './protocolMutations';
+export * from './protocolSearch';
+export * from './reviewForms';
+export * from './reviewFormTypes';
+export * from './reviewSummaries';
+export * from './reviewerAvailability';
+export * from './reviewerConflicts';
+export * from './reviewerPreferences';
+export * from './reviewerSuggestions';
 export * from './reviewers';
 export * from './settings';
 export * from './types';
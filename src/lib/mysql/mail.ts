@@ -1,7 +1,9 @@
 import 'server-only';
 
-import type { RowDataPacket } from 'mysql2/promise';
-import { queryRows } from './db';
+import { randomUUID } from 'node:crypto';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { mysqlPool, queryRows, withTransaction } from './db';
+import { holdReviewerDigestItems, type ReviewerDigestItem } from './reviewerPreferences';
 import type { MysqlMailBatchDto, MysqlMailDeliveryDto } from './types';
 import { finiteNumber, idString, isoDateTime } from './values';
 
@@ -38,10 +40,70 @@ interface MailDeliveryRow extends RowDataPacket {
   max_attempts: number;
   reason: string | null;
   last_error: string | null;
+  next_attempt_at: string | null;
   created_at_value: string | null;
   updated_at_value: string | null;
 }
 
+interface QueuedMailRow extends RowDataPacket {
+  id: string;
+  batch_id: string;
+  recipient_name: string;
+  recipient_email: string;
+  subject: string;
+  html_body: string | null;
+  text_body: string | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface MailBatchDraft {
+  scope: 'week' | 'month' | 'reminder' | 'digest' | 'notice';
+  notificationType:
+    | 'assignment' | 'reminder' | 'overdue' | 'escalation' | 'admin_digest' | 'reviewer_digest' | 'notice'
+    | 'extension_decision' | 'assignment_declined';
+  subject: string;
+  /** The published email template version the messages were written from. */
+  templateVersionId: string | null;
+  source: string;
+  monthKey: string;
+  weekKey: string;
+  periodLabel: string;
+  protocolCount: number;
+  maxAttempts: number;
+}
+
+export interface MailDeliveryDraft {
+  /** Null for admin recipients, such as the chair's overdue digest or the weekly admin digest. */
+  reviewerId: string | null;
+  requestedReviewerId: string;
+  recipientName: string;
+  recipientEmail: string;
+  protocolCount: number;
+  subject: string;
+  html: string;
+  text: string;
+  /** Set when the delivery is recorded as skipped instead of queued. */
+  skipReason: string | null;
+}
+
+/** A delivery claimed by the mail worker, with the message to send. */
+export interface QueuedMailDelivery {
+  id: string;
+  leaseToken: string;
+  batchId: string;
+  recipientName: string;
+  recipientEmail: string;
+  subject: string;
+  html: string | null;
+  text: string | null;
+  attempts: number;
+  maxAttempts: number;
+}
+
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 60 * 60;
+
 export async function listMailBatches(limit = 30): Promise<MysqlMailBatchDto[]> {
   const safeLimit = Math.min(200, Math.max(1, Math.trunc(limit)));
   const rows = await queryRows<MailBatchRow>(`
@@ -75,6 +137,7 @@ export async function listMailDeliveries(limit = 150): Promise<MysqlMailDelivery
       COALESCE(mb.legacy_id, CAST(mb.id AS CHAR)) AS batch_id,
       md.status, mb.period_label, md.recipient_name, md.recipient_email,
       md.protocol_count, md.attempts, md.max_attempts, md.reason, md.last_error,
+      md.next_attempt_at,
       COALESCE(md.source_created_at, md.created_at) AS created_at_value,
       COALESCE(md.source_updated_at, md.updated_at) AS updated_at_value
     FROM mail_deliveries md
@@ -90,8 +153,209 @@ export async function listMailDeliveries(limit = 150): Promise<MysqlMailDelivery
     reviewerName: row.recipient_name, email: row.recipient_email,
     protocolCount: finiteNumber(row.protocol_count), attempts: finiteNumber(row.attempts),
     maxAttempts: finiteNumber(row.max_attempts), reason: row.reason ?? '',
-    lastError: row.last_error ?? '', createdAt: isoDateTime(row.created_at_value),
-    updatedAt: isoDateTime(row.updated_at_value),
+    lastError: row.last_error ?? '', nextAttemptAt: isoDateTime(row.next_attempt_at),
+    createdAt: isoDateTime(row.created_at_value), updatedAt: isoDateTime(row.updated_at_value),
+  }));
+}
+
+/**
+ * Records a notification batch and queues one pending delivery per recipient
+ * with its rendered message. Recipients with a skip reason are recorded as
+ * skipped. Protocol lines for reviewers on the daily digest are held in the
+ * same transaction. Nothing is sent here; the mail worker drains the queue.
+ */
+export async function enqueueMailBatch(
+  batch: MailBatchDraft,
+  deliveries: MailDeliveryDraft[],
+  heldForDigest: ReviewerDigestItem[] = []
+): Promise<{ batchId: string; queued: number; skipped: number }> {
+  const skipped = deliveries.filter((delivery) => delivery.skipReason).length;
+  const queued = deliveries.length - skipped;
+  const reviewerCount = new Set(deliveries.map((delivery) => delivery.reviewerId)).size;
+
+  return withTransaction(async (connection) => {
+    const [batchResult] = await connection.execute<ResultSetHeader>(`
+      INSERT INTO mail_batches (
+        status, scope, notification_type, subject, email_template_version_id, source,
+        legacy_month_key, legacy_week_key, period_label, reviewer_count, protocol_count,
+        total, pending, skipped, completed_at, source_created_at, source_updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+        CASE WHEN ? = 0 THEN UTC_TIMESTAMP(6) ELSE NULL END,
+        UTC_TIMESTAMP(6), UTC_TIMESTAMP(6))
+    `, [
+      queued > 0 ? 'pending' : 'completed', batch.scope, batch.notificationType,
+      batch.subject.slice(0, 500), batch.templateVersionId, batch.source, batch.monthKey, batch.weekKey, batch.periodLabel, reviewerCount,
+      batch.protocolCount, deliveries.length, queued, skipped, queued,
+    ]);
+    const batchId = String(batchResult.insertId);
+
+    for (const delivery of deliveries) {
+      await connection.execute<ResultSetHeader>(`
+        INSERT INTO mail_deliveries (
+          mail_batch_id, reviewer_id, requested_reviewer_id, recipient_name,
+          recipient_email, email_match_source, status, subject, html_body, text_body,
+          protocol_count, max_attempts, reason, next_attempt_at, skipped_at,
+          source_created_at, source_updated_at
+        ) VALUES (?, ?, ?, ?, ?, 'id', ?, ?, ?, ?, ?, ?, ?,
+          CASE WHEN ? IS NULL THEN UTC_TIMESTAMP(6) ELSE NULL END,
+          CASE WHEN ? IS NULL THEN NULL ELSE UTC_TIMESTAMP(6) END,
+          UTC_TIMESTAMP(6), UTC_TIMESTAMP(6))
+      `, [
+        batchId, delivery.reviewerId, delivery.requestedReviewerId, delivery.recipientName,
+        delivery.recipientEmail, delivery.skipReason ? 'skipped' : 'pending', delivery.subject.slice(0, 500),
+        delivery.skipReason ? null : delivery.html, delivery.skipReason ? null : delivery.text,
+        delivery.protocolCount, batch.maxAttempts, delivery.skipReason,
+        delivery.skipReason, delivery.skipReason,
+      ]);
+    }
+    await holdReviewerDigestItems(connection, batchId, heldForDigest);
+
+    return { batchId, queued, skipped };
+  });
+}
+
+/**
+ * Leases up to `limit` deliveries that are due: pending ones whose backoff
+ * has passed, and sending ones whose worker lost its lease before finishing.
+ * Each claim counts as an attempt. Leases that expired on the last attempt
+ * are failed instead of claimed again.
+ */
+export async function claimMailDeliveries(limit: number, leaseSeconds: number): Promise<QueuedMailDelivery[]> {
+  const safeLimit = Math.min(200, Math.max(1, Math.trunc(limit)));
+  const token = randomUUID();
+
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE mail_deliveries
+    SET status = 'failed', failed_at = UTC_TIMESTAMP(6), lease_token = NULL, lease_expires_at = NULL,
+        last_error = COALESCE(last_error, 'The mail worker stopped before the email was sent.'),
+        source_updated_at = UTC_TIMESTAMP(6)
+    WHERE status = 'sending' AND lease_expires_at < UTC_TIMESTAMP(6) AND attempts >= max_attempts
+  `);
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE mail_deliveries
+    SET status = 'sending', lease_token = ?,
+        lease_expires_at = DATE_ADD(UTC_TIMESTAMP(6), INTERVAL ? SECOND),
+        attempts = attempts + 1, sending_at = UTC_TIMESTAMP(6), last_attempt_at = UTC_TIMESTAMP(6),
+        next_attempt_at = NULL, source_updated_at = UTC_TIMESTAMP(6)
+    WHERE archived_at IS NULL
+      AND (
+        (status = 'pending' AND next_attempt_at <= UTC_TIMESTAMP(6))
+        OR (status = 'sending' AND lease_expires_at < UTC_TIMESTAMP(6) AND attempts < max_attempts)
+      )
+    ORDER BY COALESCE(next_attempt_at, lease_expires_at), id
+    LIMIT ${safeLimit}
+  `, [token, Math.max(1, Math.trunc(leaseSeconds))]);
+
+  const rows = await queryRows<QueuedMailRow>(`
+    SELECT CAST(id AS CHAR) AS id, CAST(mail_batch_id AS CHAR) AS batch_id, recipient_name,
+      recipient_email, subject, html_body, text_body, attempts, max_attempts
+    FROM mail_deliveries
+    WHERE lease_token = ?
+    ORDER BY id
+  `, [token]);
+
+  return rows.map((row) => ({
+    id: idString(row.id), leaseToken: token, batchId: idString(row.batch_id),
+    recipientName: row.recipient_name, recipientEmail: row.recipient_email,
+    subject: row.subject, html: row.html_body, text: row.text_body,
+    attempts: finiteNumber(row.attempts), maxAttempts: finiteNumber(row.max_attempts),
   }));
 }
 
+/** Marks a claimed delivery sent. Returns false if its lease was lost. */
+export async function markMailDeliverySent(delivery: QueuedMailDelivery, messageId: string | null): Promise<boolean> {
+  const [result] = await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE mail_deliveries
+    SET status = 'sent', sent_at = UTC_TIMESTAMP(6), external_message_id = ?, last_error = NULL,
+        lease_token = NULL, lease_expires_at = NULL, source_updated_at = UTC_TIMESTAMP(6)
+    WHERE id = ? AND lease_token = ?
+  `, [messageId, delivery.id, delivery.leaseToken]);
+  return result.affectedRows > 0;
+}
+
+/**
+ * Returns claimed deliveries the worker did not get to, before their lease
+ * ends, to pending. The claim's attempt is given back, since nothing was sent.
+ */
+export async function releaseMailDeliveries(deliveries: QueuedMailDelivery[]): Promise<void> {
+  for (const delivery of deliveries) {
+    await mysqlPool.execute<ResultSetHeader>(`
+      UPDATE mail_deliveries
+      SET status = 'pending', attempts = GREATEST(attempts - 1, 0), next_attempt_at = UTC_TIMESTAMP(6),
+          lease_token = NULL, lease_expires_at = NULL, source_updated_at = UTC_TIMESTAMP(6)
+      WHERE id = ? AND lease_token = ?
+    `, [delivery.id, delivery.leaseToken]);
+  }
+}
+
+/**
+ * Records a failed attempt on a claimed delivery. It goes back to pending
+ * with an exponential backoff (1, 2, 4... minutes, at most an hour) until it
+ * has used `max_attempts`, or at once when the failure is permanent.
+ */
+export async function markMailDeliveryFailed(
+  delivery: QueuedMailDelivery,
+  error: string,
+  permanent = false
+): Promise<'pending' | 'failed' | null> {
+  const exhausted = permanent ? 1 : 0;
+  const [result] = await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE mail_deliveries
+    SET failed_at = CASE WHEN ? = 1 OR attempts >= max_attempts THEN UTC_TIMESTAMP(6) ELSE failed_at END,
+        next_attempt_at = CASE WHEN ? = 1 OR attempts >= max_attempts THEN NULL
+          ELSE DATE_ADD(UTC_TIMESTAMP(6), INTERVAL LEAST(?, ? * POW(2, GREATEST(attempts, 1) - 1)) SECOND) END,
+        status = CASE WHEN ? = 1 OR attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+        last_error = ?, lease_token = NULL, lease_expires_at = NULL,
+        source_updated_at = UTC_TIMESTAMP(6)
+    WHERE id = ? AND lease_token = ?
+  `, [
+    exhausted, exhausted, RETRY_MAX_SECONDS, RETRY_BASE_SECONDS, exhausted,
+    error.slice(0, 4000), delivery.id, delivery.leaseToken,
+  ]);
+  if (result.affectedRows === 0) return null;
+  return permanent || delivery.attempts >= delivery.maxAttempts ? 'failed' : 'pending';
+}
+
+/**
+ * Recounts each unfinished batch from its deliveries and closes it as
+ * completed or completed_with_errors once nothing is pending or sending.
+ */
+export async function refreshMailBatchCounters(): Promise<void> {
+  const batches = await queryRows<RowDataPacket & { id: string }>(`
+    SELECT CAST(id AS CHAR) AS id FROM mail_batches WHERE status IN ('pending', 'sending')
+  `);
+  if (batches.length === 0) return;
+  const ids = batches.map((batch) => batch.id);
+  const placeholders = ids.map(() => '?').join(', ');
+
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE mail_batches mb
+    INNER JOIN (
+      SELECT mail_batch_id, COUNT(*) AS total,
+        SUM(status = 'pending') AS pending, SUM(status = 'sending') AS sending,
+        SUM(status = 'sent') AS sent, SUM(status = 'skipped') AS skipped,
+        SUM(status = 'failed') AS failed, SUM(attempts > 0) AS attempted
+      FROM mail_deliveries
+      WHERE mail_batch_id IN (${placeholders})
+      GROUP BY mail_batch_id
+    ) d ON d.mail_batch_id = mb.id
+    SET mb.total = d.total, mb.pending = d.pending, mb.sending = d.sending, mb.sent = d.sent,
+        mb.skipped = d.skipped, mb.failed = d.failed,
+        mb.status = CASE
+          WHEN d.pending + d.sending > 0 THEN IF(d.attempted > 0, 'sending', 'pending')
+          WHEN d.failed > 0 THEN 'completed_with_errors'
+          ELSE 'completed'
+        END,
+        mb.started_at = CASE WHEN d.attempted > 0 THEN COALESCE(mb.started_at, UTC_TIMESTAMP(6)) ELSE mb.started_at END,
+        mb.completed_at = CASE WHEN d.pending + d.sending = 0 THEN COALESCE(mb.completed_at, UTC_TIMESTAMP(6)) ELSE NULL END,
+        mb.last_error = (
+          SELECT md.last_error FROM mail_deliveries md
+          WHERE md.mail_batch_id = mb.id AND md.last_error IS NOT NULL AND md.status <> 'sent'
+          ORDER BY md.source_updated_at DESC, md.id DESC
+          LIMIT 1
+        ),
+        mb.source_updated_at = UTC_TIMESTAMP(6)
+    WHERE mb.id IN (${placeholders})
+  `, [...ids, ...ids]);
+}
+
@@ -0,0 +1,122 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import type { OverdueEscalationStep } from '@/lib/reviewReminders';
+import { mysqlPool, queryRows, withTransaction } from './db';
+import type { MysqlOverdueAssignmentDto } from './types';
+import { dateOnly, idString } from './values';
+
+interface OverdueAssignmentRow extends RowDataPacket {
+  assignment_id: string;
+  reviewer_internal_id: string | null;
+  reviewer_access_code: string | null;
+  reviewer_full_name: string | null;
+  reviewer_email: string | null;
+  source_reviewer_id: string;
+  source_reviewer_name: string;
+  rec_code: string;
+  research_title: string;
+  form_type: string | null;
+  due_date: string;
+  sent_steps: string | null;
+}
+
+export interface AssignmentEscalationClaim {
+  assignmentId: string;
+  dueDate: string;
+  step: OverdueEscalationStep;
+}
+
+const ESCALATION_STEPS = new Set<string>(['first_nudge', 'second_nudge', 'chair']);
+
+function mapOverdueAssignment(row: OverdueAssignmentRow): MysqlOverdueAssignmentDto {
+  return {
+    assignmentId: idString(row.assignment_id),
+    reviewerInternalId: row.reviewer_internal_id ? idString(row.reviewer_internal_id) : null,
+    reviewerId: row.reviewer_access_code ?? row.source_reviewer_id,
+    reviewerName: row.reviewer_full_name ?? row.source_reviewer_name,
+    reviewerEmail: row.reviewer_email ?? '',
+    recCode: row.rec_code,
+    researchTitle: row.research_title,
+    formType: row.form_type ?? '',
+    dueDate: dateOnly(row.due_date),
+    sentSteps: (row.sent_steps ? row.sent_steps.split(',') : [])
+      .filter((step): step is OverdueEscalationStep => ESCALATION_STEPS.has(step)),
+  };
+}
+
+/**
+ * Open current-round reviews whose due date is before `currentDate`.
+ * Declined assignments are left out; they wait for a new reviewer instead.
+ */
+export async function listOverdueAssignments(currentDate: string): Promise<MysqlOverdueAssignmentDto[]> {
+  const rows = await queryRows<OverdueAssignmentRow>(`
+    SELECT
+      CAST(pra.id AS CHAR) AS assignment_id,
+      CAST(r.id AS CHAR) AS reviewer_internal_id,
+      r.access_code AS reviewer_access_code,
+      r.full_name AS reviewer_full_name,
+      r.email AS reviewer_email,
+      pra.source_reviewer_id,
+      pra.source_reviewer_name,
+      p.rec_code,
+      p.research_title,
+      COALESCE(pra.form_type_code, pra.source_form_type) AS form_type,
+      COALESCE(pra.due_date, p.due_date) AS due_date,
+      (
+        SELECT GROUP_CONCAT(ae.step)
+        FROM assignment_escalations ae
+        WHERE ae.assignment_id = pra.id AND ae.due_date = COALESCE(pra.due_date, p.due_date)
+      ) AS sent_steps
+    FROM protocol_reviewer_assignments pra
+    INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+    LEFT JOIN reviewers r ON r.id = pra.reviewer_id AND r.deleted_at IS NULL
+    WHERE pra.deleted_at IS NULL AND p.deleted_at IS NULL AND pra.status <> 'completed'
+      AND pra.acceptance <> 'declined'
+      AND COALESCE(pra.due_date, p.due_date) < ?
+    ORDER BY COALESCE(r.full_name, pra.source_reviewer_name), due_date, p.rec_code
+  `, [currentDate]);
+  return rows.map(mapOverdueAssignment);
+}
+
+/**
+ * Records escalation steps before their emails are queued and returns the
+ * ones this call recorded, with their ids. A step another run already
+ * recorded is left out, so overlapping cron runs cannot email it twice.
+ */
+export async function claimAssignmentEscalations(
+  claims: AssignmentEscalationClaim[]
+): Promise<Array<AssignmentEscalationClaim & { id: string }>> {
+  if (claims.length === 0) return [];
+
+  return withTransaction(async (connection) => {
+    const claimed: Array<AssignmentEscalationClaim & { id: string }> = [];
+    for (const claim of claims) {
+      const [result] = await connection.execute<ResultSetHeader>(`
+        INSERT INTO assignment_escalations (assignment_id, due_date, step, created_at)
+        VALUES (?, ?, ?, UTC_TIMESTAMP(6))
+        ON DUPLICATE KEY UPDATE id = id
+      `, [claim.assignmentId, claim.dueDate, claim.step]);
+      if (result.affectedRows === 1) claimed.push({ ...claim, id: String(result.insertId) });
+    }
+    return claimed;
+  });
+}
+
+/** Links recorded steps to the mail batch that carried them. */
+export async function attachEscalationBatch(escalationIds: string[], batchId: string): Promise<void> {
+  if (escalationIds.length === 0) return;
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE assignment_escalations SET mail_batch_id = ?
+    WHERE id IN (${escalationIds.map(() => '?').join(', ')})
+  `, [batchId, ...escalationIds]);
+}
+
+/** Forgets steps whose emails could not be queued, so the next run tries again. */
+export async function releaseAssignmentEscalations(escalationIds: string[]): Promise<void> {
+  if (escalationIds.length === 0) return;
+  await mysqlPool.execute<ResultSetHeader>(`
+    DELETE FROM assignment_escalations
+    WHERE mail_batch_id IS NULL AND id IN (${escalationIds.map(() => '?').join(', ')})
+  `, escalationIds);
+}
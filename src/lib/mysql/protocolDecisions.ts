@@ -0,0 +1,129 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import {
+  canRecordProtocolDecision,
+  getProtocolDecisionOptions,
+  isProtocolLifecycleStatus,
+  PROTOCOL_LIFECYCLE_LABELS,
+  REVIEW_PHASE_STATUSES,
+  type ProtocolLifecycleStatus,
+} from '@/lib/protocolLifecycle';
+import { queryRows, withTransaction, type MysqlExecutor } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import type { MysqlProtocolDecisionDto } from './types';
+import { idString, isoDateTime } from './values';
+
+interface DecisionRow extends RowDataPacket {
+  id: string;
+  round_number: number | null;
+  from_status: string;
+  to_status: string;
+  note: string | null;
+  decided_by_name: string | null;
+  decided_at: string;
+}
+
+export function protocolLifecycleStatus(value: unknown): ProtocolLifecycleStatus {
+  return isProtocolLifecycleStatus(value) ? value : 'submitted';
+}
+
+/**
+ * Recomputes review progress after assignment changes. `completed_at` always
+ * follows the current round's assignments; the lifecycle status only moves
+ * while the protocol is still in the review phase so recorded decisions are
+ * never overwritten.
+ */
+export async function syncProtocolReviewStatus(executor: MysqlExecutor, protocolId: string): Promise<void> {
+  const aggregate = await queryRows<RowDataPacket & { total: number; completed: number; completed_at: string | null }>(`
+    SELECT COUNT(*) AS total, SUM(pra.status = 'completed') AS completed, MAX(pra.completed_at) AS completed_at
+    FROM protocol_reviewer_assignments pra
+    INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+    WHERE pra.protocol_id = ? AND pra.deleted_at IS NULL
+  `, [protocolId], executor);
+  const total = Number(aggregate[0]?.total ?? 0);
+  const allCompleted = total > 0 && total === Number(aggregate[0]?.completed);
+  const reviewStatus: ProtocolLifecycleStatus = allCompleted
+    ? 'reviews_complete'
+    : total > 0 ? 'under_review' : 'submitted';
+
+  await executor.execute<ResultSetHeader>(`
+    UPDATE protocols
+    SET completed_at = ?,
+        status = CASE WHEN status IN (${REVIEW_PHASE_STATUSES.map(() => '?').join(', ')}) THEN ? ELSE status END
+    WHERE id = ? AND deleted_at IS NULL
+  `, [allCompleted ? aggregate[0]?.completed_at ?? null : null, ...REVIEW_PHASE_STATUSES, reviewStatus, protocolId]);
+}
+
+export async function recordProtocolDecision(input: {
+  protocolId: string;
+  status: ProtocolLifecycleStatus;
+  note?: string;
+  actor: AdminAuditActor;
+}): Promise<void> {
+  await withTransaction(async (connection) => {
+    const protocols = await queryRows<RowDataPacket & { status: string; current_round_id: string | null }>(`
+      SELECT status, CAST(current_round_id AS CHAR) AS current_round_id
+      FROM protocols WHERE id = ? AND deleted_at IS NULL FOR UPDATE
+    `, [input.protocolId], connection);
+    if (!protocols[0]) throw new Error('Protocol not found.');
+
+    const current = protocolLifecycleStatus(protocols[0].status);
+    if (!canRecordProtocolDecision(current, input.status)) {
+      throw new Error(
+        `A protocol that is ${PROTOCOL_LIFECYCLE_LABELS[current]} cannot be marked ${PROTOCOL_LIFECYCLE_LABELS[input.status]}.`
+      );
+    }
+
+    const note = input.note?.trim() || null;
+    await connection.execute<ResultSetHeader>(`
+      UPDATE protocols
+      SET status = ?, decided_at = UTC_TIMESTAMP(6), decided_by_admin_id = ?
+      WHERE id = ?
+    `, [input.status, input.actor.id, input.protocolId]);
+    const roundId = protocols[0].current_round_id;
+    if (roundId) {
+      const closesRound = getProtocolDecisionOptions(input.status).length === 0;
+      await connection.execute<ResultSetHeader>(`
+        UPDATE protocol_review_rounds
+        SET outcome = ?, closed_at = CASE WHEN ? THEN UTC_TIMESTAMP(6) ELSE closed_at END
+        WHERE id = ?
+      `, [input.status, closesRound, roundId]);
+    }
+    await connection.execute<ResultSetHeader>(`
+      INSERT INTO protocol_decisions (
+        protocol_id, review_round_id, from_status, to_status, note, admin_user_id,
+        decided_by_name, decided_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, UTC_TIMESTAMP(6))
+    `, [input.protocolId, roundId, current, input.status, note, input.actor.id, input.actor.name]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'protocol.decision',
+      entityType: 'protocol',
+      entityId: input.protocolId,
+      before: { status: current },
+      after: { status: input.status, note },
+    });
+  });
+}
+
+export async function listProtocolDecisions(protocolId: string): Promise<MysqlProtocolDecisionDto[]> {
+  const rows = await queryRows<DecisionRow>(`
+    SELECT CAST(pd.id AS CHAR) AS id, prr.round_number, pd.from_status, pd.to_status, pd.note,
+      pd.decided_by_name, pd.decided_at
+    FROM protocol_decisions pd
+    LEFT JOIN protocol_review_rounds prr ON prr.id = pd.review_round_id
+    WHERE pd.protocol_id = ?
+    ORDER BY pd.decided_at DESC, pd.id DESC
+  `, [protocolId]);
+
+  return rows.map((row) => ({
+    id: idString(row.id),
+    round: row.round_number === null ? null : Number(row.round_number),
+    from: protocolLifecycleStatus(row.from_status),
+    to: protocolLifecycleStatus(row.to_status),
+    note: row.note ?? '',
+    decidedBy: row.decided_by_name ?? '',
+    decidedAt: isoDateTime(row.decided_at),
+  }));
+}
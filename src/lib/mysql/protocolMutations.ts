@@ -2,8 +2,17 @@ import 'server-only';
 
 import { createHash } from 'node:crypto';
 import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
-import { idString } from './values';
+import { PROTOCOL_LIFECYCLE_LABELS, REVISION_STATUSES } from '@/lib/protocolLifecycle';
+import { dateOnly, idString, nullableString, tagList } from './values';
 import { queryRows, withTransaction, type MysqlExecutor } from './db';
+import { recordAdminAudit, type AdminAuditActor, type AdminAuditSnapshot } from './audit';
+import { protocolLifecycleStatus, syncProtocolReviewStatus } from './protocolDecisions';
+import { assertAssignable } from './reviewerConflicts';
+import { assertFormTypesAssignable } from './reviewFormTypes';
+import { findAvailabilityWarnings } from './reviewerAvailability';
+import { requestAssignmentAcceptance } from './assignmentResponses';
+import { applyProtocolExpertise, PROTOCOL_EXPERTISE_SQL } from './expertiseTags';
+import type { MysqlAssignmentWarningDto } from './types';
 
 interface AssignmentInput {
   assignmentId?: string;
@@ -26,6 +35,10 @@ export interface ProtocolWriteInput {
   adviser?: string;
   course_program?: string;
   academic_level?: string;
+  nature_of_study?: string;
+  type_of_study?: string;
+  /** Tag names; when left out, untagged protocols are tagged from their study type. */
+  expertise_tags?: string[];
   e_link?: string;
   protocol_file?: string;
   status?: string;
@@ -67,6 +80,10 @@ function nullableDate(value: unknown): string | null {
   return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
 }
 
+function studyField(value: unknown): string | null {
+  return nullableString(value)?.slice(0, 255) ?? null;
+}
+
 async function ensureWeek(
   executor: MysqlExecutor,
   monthId: string,
@@ -104,6 +121,76 @@ async function ensureWeek(
   return weekKey;
 }
 
+async function protocolSnapshot(executor: MysqlExecutor, protocolId: string): Promise<AdminAuditSnapshot> {
+  const protocols = await queryRows<RowDataPacket & {
+    rec_code: string;
+    research_title: string;
+    principal_investigator: string;
+    adviser: string;
+    course_program: string;
+    nature_of_study: string | null;
+    type_of_study: string | null;
+    expertise: string | null;
+    document_link: string | null;
+    status: string;
+    due_date: string | null;
+    month_key: string | null;
+    week_key: string | null;
+    current_round_id: string | null;
+    round_number: number | null;
+  }>(`
+    SELECT p.rec_code, p.research_title, p.principal_investigator, p.adviser,
+      p.course_program, p.nature_of_study, p.type_of_study, ${PROTOCOL_EXPERTISE_SQL} AS expertise,
+      p.document_link, p.status, p.due_date,
+      pm.legacy_month_key AS month_key, pw.legacy_week_key AS week_key,
+      CAST(p.current_round_id AS CHAR) AS current_round_id, prr.round_number
+    FROM protocols p
+    INNER JOIN protocol_weeks pw ON pw.id = p.protocol_week_id
+    INNER JOIN protocol_months pm ON pm.id = pw.protocol_month_id
+    LEFT JOIN protocol_review_rounds prr ON prr.id = p.current_round_id
+    WHERE p.id = ? AND p.deleted_at IS NULL
+  `, [protocolId], executor);
+  const protocol = protocols[0];
+  if (!protocol) return null;
+
+  const assignments = await queryRows<RowDataPacket & {
+    source_reviewer_id: string;
+    source_reviewer_name: string;
+    form_type_code: string | null;
+    status: string;
+    due_date: string | null;
+  }>(`
+    SELECT source_reviewer_id, source_reviewer_name, form_type_code, status, due_date
+    FROM protocol_reviewer_assignments
+    WHERE protocol_id = ? AND review_round_id <=> ? AND deleted_at IS NULL
+    ORDER BY assignment_slot
+  `, [protocolId, protocol.current_round_id], executor);
+
+  return {
+    recCode: protocol.rec_code,
+    researchTitle: protocol.research_title,
+    principalInvestigator: protocol.principal_investigator,
+    adviser: protocol.adviser,
+    courseProgram: protocol.course_program,
+    natureOfStudy: protocol.nature_of_study,
+    typeOfStudy: protocol.type_of_study,
+    expertise: tagList(protocol.expertise),
+    documentLink: protocol.document_link,
+    status: protocol.status,
+    dueDate: dateOnly(protocol.due_date) || null,
+    monthId: protocol.month_key,
+    weekId: protocol.week_key,
+    round: protocol.round_number,
+    reviewers: assignments.map((assignment) => ({
+      id: assignment.source_reviewer_id,
+      name: assignment.source_reviewer_name,
+      formType: assignment.form_type_code,
+      status: assignment.status,
+      dueDate: dateOnly(assignment.due_date) || null,
+    })),
+  };
+}
+
 async function resolveReviewer(executor: MysqlExecutor, assignment: AssignmentInput) {
   const code = String(assignment.id ?? '').trim();
   const name = String(assignment.name ?? '').trim();
@@ -118,33 +205,128 @@ async function resolveReviewer(executor: MysqlExecutor, assignment: AssignmentIn
   return rows[0] ?? null;
 }
 
+async function currentReviewRound(executor: MysqlExecutor, protocolId: string) {
+  const rounds = await queryRows<RowDataPacket & { id: string; round_number: number }>(`
+    SELECT CAST(prr.id AS CHAR) AS id, prr.round_number
+    FROM protocols p
+    INNER JOIN protocol_review_rounds prr ON prr.id = p.current_round_id
+    WHERE p.id = ?
+  `, [protocolId], executor);
+  if (!rounds[0]) throw new Error('Protocol review round was not found.');
+  return { id: idString(rounds[0].id), number: Number(rounds[0].round_number) };
+}
+
+/**
+ * Closes the current round and opens the next one in the week the
+ * resubmission arrived. The protocol moves to that week and returns to the
+ * review phase; earlier rounds keep their assignments as history.
+ */
+async function openReviewRound(executor: MysqlExecutor, input: {
+  protocolId: string;
+  weekId: string;
+  documentLink: string | null;
+  dueDate: string | null;
+}): Promise<number> {
+  const protocols = await queryRows<RowDataPacket & {
+    rec_code: string;
+    status: string;
+    current_round_id: string | null;
+    document_link: string | null;
+  }>(`
+    SELECT rec_code, status, CAST(current_round_id AS CHAR) AS current_round_id, document_link
+    FROM protocols WHERE id = ? AND deleted_at IS NULL FOR UPDATE
+  `, [input.protocolId], executor);
+  const protocol = protocols[0];
+  if (!protocol) throw new Error('Protocol not found.');
+  const status = protocolLifecycleStatus(protocol.status);
+  if (!REVISION_STATUSES.includes(status)) {
+    throw new Error(`A protocol that is ${PROTOCOL_LIFECYCLE_LABELS[status]} cannot start a new review round.`);
+  }
+
+  const conflicts = await queryRows<RowDataPacket & { id: string }>(`
+    SELECT CAST(id AS CHAR) AS id FROM protocols
+    WHERE protocol_week_id = ? AND rec_code = ? AND id <> ? AND deleted_at IS NULL
+  `, [input.weekId, protocol.rec_code, input.protocolId], executor);
+  if (conflicts.length) throw new Error('Another protocol with this REC code already exists in the selected week.');
+
+  const rounds = await queryRows<RowDataPacket & { round_number: number | null }>(`
+    SELECT MAX(round_number) AS round_number FROM protocol_review_rounds WHERE protocol_id = ?
+  `, [input.protocolId], executor);
+  const roundNumber = Number(rounds[0]?.round_number ?? 0) + 1;
+  const documentLink = input.documentLink || protocol.document_link;
+
+  await executor.execute<ResultSetHeader>(`
+    UPDATE protocol_review_rounds
+    SET outcome = COALESCE(outcome, ?), closed_at = COALESCE(closed_at, UTC_TIMESTAMP(6))
+    WHERE id = ?
+  `, [status, protocol.current_round_id]);
+  const [result] = await executor.execute<ResultSetHeader>(`
+    INSERT INTO protocol_review_rounds (
+      protocol_id, round_number, protocol_week_id, document_link, due_date, opened_at
+    ) VALUES (?, ?, ?, ?, ?, UTC_TIMESTAMP(6))
+  `, [input.protocolId, roundNumber, input.weekId, documentLink, input.dueDate]);
+  await executor.execute<ResultSetHeader>(`
+    UPDATE protocols
+    SET current_round_id = ?, protocol_week_id = ?, document_link = ?, due_date = ?,
+        status = 'submitted', completed_at = NULL, decided_at = NULL, decided_by_admin_id = NULL
+    WHERE id = ?
+  `, [result.insertId, input.weekId, documentLink, input.dueDate, input.protocolId]);
+  return roundNumber;
+}
+
 async function replaceAssignments(
   executor: MysqlExecutor,
   protocolId: string,
   sourcePath: string,
-  assignments: AssignmentInput[]
-) {
-  const existing = await queryRows<RowDataPacket & { id: string; assignment_slot: number; due_date: string | null }>(`
-    SELECT CAST(id AS CHAR) AS id, assignment_slot, due_date
+  assignments: AssignmentInput[],
+  acknowledgeConflicts = false
+): Promise<MysqlAssignmentWarningDto[]> {
+  const round = await currentReviewRound(executor, protocolId);
+  const roundPath = round.number > 1 ? `${sourcePath}/rounds/${round.number}` : sourcePath;
+  const existing = await queryRows<RowDataPacket & {
+    id: string;
+    assignment_slot: number;
+    reviewer_id: string | null;
+    form_type_code: string | null;
+    due_date: string | null;
+  }>(`
+    SELECT CAST(id AS CHAR) AS id, assignment_slot, CAST(reviewer_id AS CHAR) AS reviewer_id,
+      form_type_code, due_date
     FROM protocol_reviewer_assignments
-    WHERE protocol_id = ?
+    WHERE review_round_id = ?
     ORDER BY assignment_slot
     FOR UPDATE
-  `, [protocolId], executor);
+  `, [round.id], executor);
   const bySlot = new Map(existing.map((row) => [Number(row.assignment_slot), {
     id: idString(row.id),
+    reviewerId: row.reviewer_id,
+    formType: row.form_type_code,
     dueDate: row.due_date,
   }]));
 
+  const reviewers = [];
+  for (const assignment of assignments) {
+    reviewers.push(await resolveReviewer(executor, assignment));
+  }
+  // Only reviewers new to their slot are checked, so a conflict declared
+  // after assignment does not block unrelated edits to the protocol.
+  await assertAssignable(executor, protocolId, reviewers.flatMap((reviewer, index) =>
+    reviewer && reviewer.id !== bySlot.get(index + 1)?.reviewerId ? [reviewer.id] : []
+  ), acknowledgeConflicts);
+  await assertFormTypesAssignable(executor, assignments.flatMap((assignment, index) =>
+    assignment.form_type && assignment.form_type !== bySlot.get(index + 1)?.formType ? [assignment.form_type] : []
+  ));
+
+  const newlyAssigned: Array<{ reviewerInternalId: string; dueDate: string | null }> = [];
   for (let index = 0; index < assignments.length; index += 1) {
     const assignment = assignments[index];
     const slot = index + 1;
-    const reviewer = await resolveReviewer(executor, assignment);
+    const reviewer = reviewers[index];
     const status = databaseStatus(assignment.status);
     const completedAt = status === 'completed'
       ? new Date(assignment.completed_at || Date.now()).toISOString().slice(0, 23).replace('T', ' ')
       : null;
-    const assignmentPath = `${sourcePath}/reviewers/${slot}`;
+    const assignmentPath = `${roundPath}/reviewers/${slot}`;
     const existingSlot = bySlot.get(slot);
     const dueDate = nullableDate(assignment.due_date) || existingSlot?.dueDate || null;
     const values = [
@@ -161,8 +343,8 @@ async function replaceAssignments(
       index,
     ];
 
-    const existingId = existingSlot?.id;
-    if (existingId) {
+    let assignmentId = existingSlot?.id;
+    if (assignmentId) {
       await executor.execute<ResultSetHeader>(`
         UPDATE protocol_reviewer_assignments
         SET reviewer_id = ?, source_reviewer_id = ?, source_reviewer_name = ?,
@@ -170,16 +352,21 @@ async function replaceAssignments(
             completed_at = ?, source_path = ?, source_path_sha256 = ?,
             source_ordinal = ?, deleted_at = NULL
         WHERE id = ?
-      `, [...values, existingId]);
+      `, [...values, assignmentId]);
     } else {
-      await executor.execute<ResultSetHeader>(`
+      const [result] = await executor.execute<ResultSetHeader>(`
         INSERT INTO protocol_reviewer_assignments (
-          protocol_id, assignment_slot, reviewer_id, source_reviewer_id,
+          protocol_id, review_round_id, assignment_slot, reviewer_id, source_reviewer_id,
           source_reviewer_name, form_type_code, source_form_type, status,
           due_date, completed_at, source_path, source_path_sha256,
           source_ordinal, migration_run_id
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
-      `, [protocolId, slot, ...values]);
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
+      `, [protocolId, round.id, slot, ...values]);
+      assignmentId = String(result.insertId);
+    }
+    if (!existingSlot || reviewer?.id !== existingSlot.reviewerId) {
+      await requestAssignmentAcceptance(executor, assignmentId);
+      if (reviewer && status !== 'completed') newlyAssigned.push({ reviewerInternalId: reviewer.id, dueDate });
     }
   }
 
@@ -187,20 +374,18 @@ async function replaceAssignments(
     await executor.execute<ResultSetHeader>(`
       UPDATE protocol_reviewer_assignments
       SET deleted_at = UTC_TIMESTAMP(6)
-      WHERE protocol_id = ? AND assignment_slot > ? AND deleted_at IS NULL
-    `, [protocolId, assignments.length]);
+      WHERE review_round_id = ? AND assignment_slot > ? AND deleted_at IS NULL
+    `, [round.id, assignments.length]);
   }
 
-  const aggregate = await queryRows<RowDataPacket & { total: number; completed: number; completed_at: string | null }>(`
-    SELECT COUNT(*) AS total, SUM(status = 'completed') AS completed, MAX(completed_at) AS completed_at
-    FROM protocol_reviewer_assignments
-    WHERE protocol_id = ? AND deleted_at IS NULL
-  `, [protocolId], executor);
-  const allCompleted = Number(aggregate[0]?.total ?? 0) > 0
-    && Number(aggregate[0]?.total) === Number(aggregate[0]?.completed);
-  await executor.execute<ResultSetHeader>(`
-    UPDATE protocols SET status = ?, completed_at = ? WHERE id = ?
-  `, [allCompleted ? 'completed' : 'in_progress', allCompleted ? aggregate[0]?.completed_at : null, protocolId]);
+  await syncProtocolReviewStatus(executor, protocolId);
+  return findAvailabilityWarnings(executor, protocolId, newlyAssigned);
+}
+
+export interface SavedProtocol {
+  protocolKey: string;
+  /** Newly assigned reviewers who are on leave or over their release capacity. */
+  warnings: MysqlAssignmentWarningDto[];
 }
 
 export async function saveProtocol(input: {
@@ -208,7 +393,10 @@ export async function saveProtocol(input: {
   weekId: string;
   protocol: ProtocolWriteInput;
   upsert?: boolean;
-}): Promise<string> {
+  /** Confirms non-blocking reviewer conflicts; blocking ones always fail. */
+  acknowledgeConflicts?: boolean;
+  actor: AdminAuditActor | null;
+}): Promise<SavedProtocol> {
   return withTransaction(async (connection) => {
     const weekId = await ensureWeek(connection, input.monthId, input.weekId);
     const protocol = input.protocol;
@@ -226,16 +414,36 @@ export async function saveProtocol(input: {
           SELECT CAST(id AS CHAR) AS id, source_path FROM protocols
           WHERE protocol_week_id = ? AND rec_code = ? AND deleted_at IS NULL FOR UPDATE
         `, [weekId, recCode], connection);
-    let protocolId = idString(existing[0]?.id);
-    const sourcePath = existing[0]?.source_path || `mysql/protocols/${input.monthId}/${input.weekId}/${recCode}`;
+    // A REC code returned for revisions that arrives in a new week is the
+    // researcher's resubmission, so it continues the same protocol.
+    const resubmission = !existing[0] && !requestedInternalId
+      ? await queryRows<RowDataPacket & { id: string; source_path: string }>(`
+          SELECT CAST(id AS CHAR) AS id, source_path FROM protocols
+          WHERE rec_code = ? AND status IN (${REVISION_STATUSES.map(() => '?').join(', ')})
+            AND deleted_at IS NULL
+          ORDER BY updated_at DESC
+          LIMIT 1 FOR UPDATE
+        `, [recCode, ...REVISION_STATUSES], connection)
+      : [];
+    const matched = existing[0] ?? resubmission[0];
+    let protocolId = matched ? idString(matched.id) : '';
+    const before = protocolId ? await protocolSnapshot(connection, protocolId) : null;
+    const sourcePath = matched?.source_path || `mysql/protocols/${input.monthId}/${input.weekId}/${recCode}`;
+    const documentLink = protocol.e_link || protocol.protocol_file || null;
+    const dueDate = nullableDate(protocol.due_date);
 
-    if (protocolId) {
+    if (resubmission[0]) {
+      await openReviewRound(connection, { protocolId, weekId, documentLink, dueDate });
+    } else if (protocolId) {
       if (!input.upsert && !requestedInternalId) {
         throw new Error('A protocol with this REC code already exists in the selected week.');
       }
       if (!input.upsert && protocol.internalId && protocol.internalId !== protocolId) {
         throw new Error('A protocol with this REC code already exists in the selected week.');
       }
+    }
+
+    if (protocolId) {
       await connection.execute<ResultSetHeader>(`
         UPDATE protocols
         SET protocol_week_id = ?, rec_code = ?, research_title = ?, principal_investigator = ?, adviser = ?,
@@ -248,35 +456,124 @@ export async function saveProtocol(input: {
         protocol.principal_investigator || '',
         protocol.adviser || '',
         protocol.course_program || protocol.academic_level || '',
-        protocol.e_link || protocol.protocol_file || null,
-        nullableDate(protocol.due_date),
+        documentLink,
+        dueDate,
         protocolId,
       ]);
+      // Study fields are only sent by the spreadsheet upload and the protocol
+      // form, so other callers leave them as they are.
+      for (const column of ['nature_of_study', 'type_of_study'] as const) {
+        if (protocol[column] === undefined) continue;
+        await connection.execute<ResultSetHeader>(`
+          UPDATE protocols SET ${column} = ? WHERE id = ?
+        `, [studyField(protocol[column]), protocolId]);
+      }
+      await connection.execute<ResultSetHeader>(`
+        UPDATE protocol_review_rounds prr
+        INNER JOIN protocols p ON p.current_round_id = prr.id
+        SET prr.protocol_week_id = ?, prr.document_link = ?, prr.due_date = ?
+        WHERE p.id = ?
+      `, [weekId, documentLink, dueDate, protocolId]);
     } else {
       const [result] = await connection.execute<ResultSetHeader>(`
         INSERT INTO protocols (
           protocol_week_id, rec_code, research_title, principal_investigator,
-          adviser, course_program, document_link, status, due_date,
+          adviser, course_program, nature_of_study, type_of_study, document_link, status, due_date,
           source_document_id, source_path, source_path_sha256, migration_run_id,
           source_created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, 'in_progress', ?, ?, ?, ?, NULL, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'submitted', ?, ?, ?, ?, NULL, ?)
       `, [
         weekId, recCode, researchTitle, protocol.principal_investigator || '',
         protocol.adviser || '', protocol.course_program || protocol.academic_level || '',
-        protocol.e_link || protocol.protocol_file || null, nullableDate(protocol.due_date),
+        studyField(protocol.nature_of_study), studyField(protocol.type_of_study),
+        documentLink, dueDate,
         protocol.id || recCode, sourcePath, sourceHash(sourcePath),
         protocol.created_at ? new Date(protocol.created_at) : new Date(),
       ]);
       protocolId = String(result.insertId);
+      const [round] = await connection.execute<ResultSetHeader>(`
+        INSERT INTO protocol_review_rounds (
+          protocol_id, round_number, protocol_week_id, document_link, due_date, opened_at
+        ) VALUES (?, 1, ?, ?, ?, UTC_TIMESTAMP(6))
+      `, [protocolId, weekId, documentLink, dueDate]);
+      await connection.execute<ResultSetHeader>(`
+        UPDATE protocols SET current_round_id = ? WHERE id = ?
+      `, [round.insertId, protocolId]);
     }
 
-    await replaceAssignments(connection, protocolId, sourcePath, protocol.reviewers || []);
-    return protocolId;
+    const study = await queryRows<RowDataPacket & { nature_of_study: string | null; type_of_study: string | null }>(`
+      SELECT nature_of_study, type_of_study FROM protocols WHERE id = ?
+    `, [protocolId], connection);
+    await applyProtocolExpertise(connection, protocolId, {
+      tagNames: Array.isArray(protocol.expertise_tags) ? protocol.expertise_tags : undefined,
+      natureOfStudy: study[0]?.nature_of_study ?? '',
+      typeOfStudy: study[0]?.type_of_study ?? '',
+    });
+    const warnings = await replaceAssignments(
+      connection, protocolId, sourcePath, protocol.reviewers || [], input.acknowledgeConflicts
+    );
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: resubmission[0] ? 'protocol.resubmit' : before ? 'protocol.update' : 'protocol.create',
+      entityType: 'protocol',
+      entityId: protocolId,
+      before,
+      after: await protocolSnapshot(connection, protocolId),
+    });
+    return { protocolKey: protocolId, warnings };
   });
 }
 
-export async function softDeleteProtocol(protocolId: string): Promise<void> {
+export async function openProtocolReviewRound(input: {
+  protocolId: string;
+  monthId: string;
+  weekId: string;
+  dueDate?: string;
+  documentLink?: string;
+  carryOverReviewers?: boolean;
+  actor: AdminAuditActor | null;
+}): Promise<number> {
+  return withTransaction(async (connection) => {
+    const weekId = await ensureWeek(connection, input.monthId, input.weekId);
+    const before = await protocolSnapshot(connection, input.protocolId);
+    if (!before) throw new Error('Protocol not found.');
+    const protocols = await queryRows<RowDataPacket & { source_path: string }>(`
+      SELECT source_path FROM protocols WHERE id = ?
+    `, [input.protocolId], connection);
+    const dueDate = nullableDate(input.dueDate);
+    const previousReviewers = input.carryOverReviewers && Array.isArray(before.reviewers)
+      ? before.reviewers as Array<{ id: string; name: string; formType: string | null }>
+      : [];
+
+    const roundNumber = await openReviewRound(connection, {
+      protocolId: input.protocolId,
+      weekId,
+      documentLink: input.documentLink?.trim() || null,
+      dueDate,
+    });
+    await replaceAssignments(connection, input.protocolId, protocols[0].source_path, previousReviewers.map((reviewer) => ({
+      id: reviewer.id,
+      name: reviewer.name,
+      form_type: reviewer.formType ?? undefined,
+      status: 'in_progress',
+      due_date: dueDate ?? undefined,
+    })));
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'protocol.resubmit',
+      entityType: 'protocol',
+      entityId: input.protocolId,
+      before,
+      after: await protocolSnapshot(connection, input.protocolId),
+    });
+    return roundNumber;
+  });
+}
+
+export async function softDeleteProtocol(protocolId: string, actor: AdminAuditActor | null): Promise<void> {
   await withTransaction(async (connection) => {
+    const before = await protocolSnapshot(connection, protocolId);
+    if (!before) return;
     await connection.execute<ResultSetHeader>(`
       UPDATE protocols SET deleted_at = UTC_TIMESTAMP(6) WHERE id = ? AND deleted_at IS NULL
     `, [protocolId]);
@@ -284,6 +581,14 @@ export async function softDeleteProtocol(protocolId: string): Promise<void> {
       UPDATE protocol_reviewer_assignments SET deleted_at = UTC_TIMESTAMP(6)
       WHERE protocol_id = ? AND deleted_at IS NULL
     `, [protocolId]);
+    await recordAdminAudit(connection, {
+      actor,
+      action: 'protocol.delete',
+      entityType: 'protocol',
+      entityId: protocolId,
+      before,
+      after: null,
+    });
   });
 }
 
@@ -293,15 +598,24 @@ export async function reassignProtocolAssignment(input: {
   reviewerCode: string;
   status: string;
   dueDate?: string;
+  acknowledgeConflicts?: boolean;
+  actor: AdminAuditActor | null;
 }): Promise<void> {
   await withTransaction(async (connection) => {
     const assignments = await queryRows<RowDataPacket & {
       reviewer_id: string | null;
+      source_reviewer_id: string;
       source_reviewer_name: string;
+      status: string;
+      due_date: string | null;
+      acceptance: string;
+      decline_reason: string | null;
     }>(`
-      SELECT CAST(reviewer_id AS CHAR) AS reviewer_id, source_reviewer_name
-      FROM protocol_reviewer_assignments
-      WHERE id = ? AND protocol_id = ? AND deleted_at IS NULL FOR UPDATE
+      SELECT CAST(pra.reviewer_id AS CHAR) AS reviewer_id, pra.source_reviewer_id,
+        pra.source_reviewer_name, pra.status, pra.due_date, pra.acceptance, pra.decline_reason
+      FROM protocol_reviewer_assignments pra
+      INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+      WHERE pra.id = ? AND pra.protocol_id = ? AND pra.deleted_at IS NULL FOR UPDATE
     `, [input.assignmentId, input.protocolId], connection);
     if (!assignments[0]) throw new Error('Reviewer assignment was not found.');
     const reviewers = await queryRows<RowDataPacket & { id: string; access_code: string; full_name: string }>(`
@@ -309,6 +623,9 @@ export async function reassignProtocolAssignment(input: {
       WHERE LOWER(access_code) = LOWER(?) AND is_active = TRUE AND deleted_at IS NULL LIMIT 1
     `, [input.reviewerCode], connection);
     if (!reviewers[0]) throw new Error('The selected reviewer was not found.');
+    if (reviewers[0].id !== assignments[0].reviewer_id) {
+      await assertAssignable(connection, input.protocolId, [reviewers[0].id], input.acknowledgeConflicts);
+    }
     const status = databaseStatus(input.status);
     await connection.execute<ResultSetHeader>(`
       UPDATE protocol_reviewer_assignments
@@ -320,27 +637,44 @@ export async function reassignProtocolAssignment(input: {
       reviewers[0].id, reviewers[0].access_code, reviewers[0].full_name,
       status, nullableDate(input.dueDate), status, input.assignmentId,
     ]);
-    const aggregate = await queryRows<RowDataPacket & { total: number; completed: number; completed_at: string | null }>(`
-      SELECT COUNT(*) AS total, SUM(status = 'completed') AS completed, MAX(completed_at) AS completed_at
-      FROM protocol_reviewer_assignments
-      WHERE protocol_id = ? AND deleted_at IS NULL
-    `, [input.protocolId], connection);
-    const allCompleted = Number(aggregate[0]?.total ?? 0) > 0
-      && Number(aggregate[0]?.total) === Number(aggregate[0]?.completed);
-    await connection.execute<ResultSetHeader>(`
-      UPDATE protocols SET status = ?, completed_at = ? WHERE id = ? AND deleted_at IS NULL
-    `, [allCompleted ? 'completed' : 'in_progress', allCompleted ? aggregate[0]?.completed_at : null, input.protocolId]);
+    if (reviewers[0].id !== assignments[0].reviewer_id) {
+      await requestAssignmentAcceptance(connection, input.assignmentId);
+    }
+    await syncProtocolReviewStatus(connection, input.protocolId);
     await connection.execute<ResultSetHeader>(`
       INSERT INTO protocol_assignment_events (
         protocol_id, assignment_id, event_type, from_reviewer_id, to_reviewer_id,
         source_from_name, source_to_name, status_after, occurred_at, completed_at,
         actor_type, actor_identifier
       ) VALUES (?, ?, 'reassignment', ?, ?, ?, ?, ?, UTC_TIMESTAMP(6),
-        CASE WHEN ? = 'completed' THEN UTC_TIMESTAMP(6) ELSE NULL END, 'admin', 'admin')
+        CASE WHEN ? = 'completed' THEN UTC_TIMESTAMP(6) ELSE NULL END, 'admin', ?)
     `, [
       input.protocolId, input.assignmentId, assignments[0].reviewer_id, reviewers[0].id,
       assignments[0].source_reviewer_name, reviewers[0].full_name, status, status,
+      input.actor?.email ?? 'admin',
     ]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'assignment.reassign',
+      entityType: 'assignment',
+      entityId: input.assignmentId,
+      before: {
+        protocolId: input.protocolId,
+        reviewerId: assignments[0].source_reviewer_id,
+        reviewerName: assignments[0].source_reviewer_name,
+        status: assignments[0].status,
+        dueDate: dateOnly(assignments[0].due_date) || null,
+        acceptance: assignments[0].acceptance,
+        declineReason: assignments[0].decline_reason,
+      },
+      after: {
+        protocolId: input.protocolId,
+        reviewerId: reviewers[0].access_code,
+        reviewerName: reviewers[0].full_name,
+        status,
+        dueDate: nullableDate(input.dueDate) || dateOnly(assignments[0].due_date) || null,
+      },
+    });
   });
 }
 
@@ -348,6 +682,7 @@ export async function moveProtocolWeekMysql(input: {
   sourceMonthId: string;
   targetMonthId: string;
   weekId: string;
+  actor: AdminAuditActor | null;
 }): Promise<number> {
   return withTransaction(async (connection) => {
     const sourceRows = await queryRows<RowDataPacket & { id: string }>(`
@@ -367,10 +702,21 @@ export async function moveProtocolWeekMysql(input: {
       LIMIT 5
     `, [targetWeekId, sourceRows[0].id], connection);
     if (conflicts.length) throw new Error(`Destination contains duplicate REC code(s): ${conflicts.map((row) => row.rec_code).join(', ')}.`);
+    await connection.execute<ResultSetHeader>(`
+      UPDATE protocol_review_rounds SET protocol_week_id = ? WHERE protocol_week_id = ?
+    `, [targetWeekId, sourceRows[0].id]);
     const [result] = await connection.execute<ResultSetHeader>(`
       UPDATE protocols SET protocol_week_id = ?
       WHERE protocol_week_id = ? AND deleted_at IS NULL
     `, [targetWeekId, sourceRows[0].id]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'protocol_week.move',
+      entityType: 'protocol_week',
+      entityId: `${input.sourceMonthId}/${input.weekId}`,
+      before: { monthId: input.sourceMonthId, weekId: input.weekId },
+      after: { monthId: input.targetMonthId, weekId: input.weekId, movedProtocols: result.affectedRows },
+    });
     return result.affectedRows;
   });
 }
@@ -0,0 +1,170 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+import type { ProtocolLifecycleStatus } from '@/lib/protocolLifecycle';
+import { queryRows, type MysqlParameter } from './db';
+import { listProtocols } from './protocols';
+import type { MysqlProtocolDto } from './types';
+import { decodeCursor, encodeCursor, idString } from './values';
+
+export const PROTOCOL_SEARCH_SORTS = ['relevance', 'release', 'recCode', 'dueDate'] as const;
+
+export type ProtocolSearchSort = typeof PROTOCOL_SEARCH_SORTS[number];
+
+export interface ProtocolSearchFilters {
+  query?: string;
+  statuses?: ProtocolLifecycleStatus[];
+  /** Inclusive release-month range as `YYYY-MM`. */
+  fromMonth?: string;
+  toMonth?: string;
+  courseProgram?: string;
+  reviewer?: string;
+  formType?: string;
+  overdue?: boolean;
+  sort?: ProtocolSearchSort;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ProtocolSearchResult {
+  protocols: MysqlProtocolDto[];
+  nextCursor: string | null;
+}
+
+interface SearchRow extends RowDataPacket {
+  id: string;
+  sort_value: string | number;
+}
+
+const FULLTEXT_COLUMNS = 'p.rec_code, p.research_title, p.principal_investigator';
+const CURRENT_ASSIGNMENTS = `
+  FROM protocol_reviewer_assignments pra
+  LEFT JOIN reviewers r ON r.id = pra.reviewer_id
+  WHERE pra.protocol_id = p.id AND pra.review_round_id = p.current_round_id
+    AND pra.deleted_at IS NULL`;
+
+/**
+ * Builds a boolean-mode query that requires every term as a prefix. InnoDB
+ * skips words shorter than its minimum token size, so those are left to the
+ * REC code prefix match instead of making the whole query fail.
+ */
+function booleanQuery(query: string): string {
+  return query
+    .split(/\s+/)
+    .map((term) => term.replace(/[+\-<>()~*"@]/g, ''))
+    .filter((term) => term.length >= 3)
+    .map((term) => `+${term}*`)
+    .join(' ');
+}
+
+function monthValue(value: string | undefined): number | null {
+  const match = value?.match(/^(\d{4})-(\d{2})$/);
+  return match ? Number(match[1]) * 100 + Number(match[2]) : null;
+}
+
+export async function searchProtocols(filters: ProtocolSearchFilters = {}): Promise<ProtocolSearchResult> {
+  const limit = Math.min(100, Math.max(1, Math.trunc(filters.limit ?? 25)));
+  const query = filters.query?.trim() ?? '';
+  const fulltext = booleanQuery(query);
+  const sort: ProtocolSearchSort = filters.sort ?? (query ? 'relevance' : 'release');
+  const clauses = ['p.deleted_at IS NULL'];
+  const values: MysqlParameter[] = [];
+  const scoreValues: MysqlParameter[] = [];
+  let score = '0';
+
+  if (query) {
+    const recCodePrefix = `${query.replace(/[\\%_]/g, '\\$&')}%`;
+    if (fulltext) {
+      score = `MATCH(${FULLTEXT_COLUMNS}) AGAINST (? IN BOOLEAN MODE) + (p.rec_code LIKE ?)`;
+      scoreValues.push(fulltext, recCodePrefix);
+      clauses.push(`(MATCH(${FULLTEXT_COLUMNS}) AGAINST (? IN BOOLEAN MODE) OR p.rec_code LIKE ?)`);
+      values.push(fulltext, recCodePrefix);
+    } else {
+      score = '(p.rec_code LIKE ?)';
+      scoreValues.push(recCodePrefix);
+      clauses.push('p.rec_code LIKE ?');
+      values.push(recCodePrefix);
+    }
+  }
+  if (filters.statuses?.length) {
+    clauses.push(`p.status IN (${filters.statuses.map(() => '?').join(', ')})`);
+    values.push(...filters.statuses);
+  }
+  const fromMonth = monthValue(filters.fromMonth);
+  if (fromMonth) {
+    clauses.push('pm.calendar_year * 100 + pm.calendar_month >= ?');
+    values.push(fromMonth);
+  }
+  const toMonth = monthValue(filters.toMonth);
+  if (toMonth) {
+    clauses.push('pm.calendar_year * 100 + pm.calendar_month <= ?');
+    values.push(toMonth);
+  }
+  if (filters.courseProgram?.trim()) {
+    clauses.push('p.course_program LIKE ?');
+    values.push(`%${filters.courseProgram.trim()}%`);
+  }
+  if (filters.reviewer?.trim()) {
+    const reviewer = filters.reviewer.trim();
+    clauses.push(`EXISTS (SELECT 1 ${CURRENT_ASSIGNMENTS}
+      AND (LOWER(COALESCE(r.access_code, pra.source_reviewer_id)) = LOWER(?)
+        OR COALESCE(r.full_name, pra.source_reviewer_name) LIKE ?))`);
+    values.push(reviewer, `%${reviewer}%`);
+  }
+  if (filters.formType?.trim()) {
+    clauses.push(`EXISTS (SELECT 1 ${CURRENT_ASSIGNMENTS}
+      AND COALESCE(pra.form_type_code, pra.source_form_type) = ?)`);
+    values.push(filters.formType.trim());
+  }
+  if (filters.overdue) {
+    clauses.push(`EXISTS (SELECT 1 ${CURRENT_ASSIGNMENTS}
+      AND pra.status <> 'completed' AND pra.acceptance <> 'declined'
+      AND COALESCE(pra.due_date, p.due_date) < UTC_DATE())`);
+  }
+
+  // Each sort is a single key plus the protocol ID so the cursor can resume
+  // exactly where the previous page stopped.
+  const sortKeys: Record<ProtocolSearchSort, { expression: string; values: MysqlParameter[]; direction: 'ASC' | 'DESC' }> = {
+    relevance: { expression: score, values: scoreValues, direction: 'DESC' },
+    release: {
+      expression: 'pm.calendar_year * 1000 + pm.calendar_month * 10 + pw.week_number',
+      values: [],
+      direction: 'DESC',
+    },
+    recCode: { expression: 'p.rec_code', values: [], direction: 'ASC' },
+    dueDate: { expression: "COALESCE(p.due_date, '9999-12-31')", values: [], direction: 'ASC' },
+  };
+  const sortKey = sortKeys[sort];
+  const comparison = sortKey.direction === 'DESC' ? '<' : '>';
+
+  const cursor = decodeCursor(filters.cursor, 2);
+  if (cursor) {
+    const [sortValue, protocolId] = cursor;
+    clauses.push(`(${sortKey.expression} ${comparison} ?
+      OR (${sortKey.expression} = ? AND p.id ${comparison} ?))`);
+    values.push(...sortKey.values, sortValue, ...sortKey.values, sortValue, protocolId);
+  }
+
+  const rows = await queryRows<SearchRow>(`
+    SELECT CAST(p.id AS CHAR) AS id, ${sortKey.expression} AS sort_value
+    FROM protocols p
+    INNER JOIN protocol_weeks pw ON pw.id = p.protocol_week_id
+    INNER JOIN protocol_months pm ON pm.id = pw.protocol_month_id
+    WHERE ${clauses.join(' AND ')}
+    ORDER BY sort_value ${sortKey.direction}, p.id ${sortKey.direction}
+    LIMIT ${limit + 1}
+  `, [...sortKey.values, ...values]);
+
+  const page = rows.slice(0, limit);
+  const ids = page.map((row) => idString(row.id));
+  const protocols = await listProtocols({ protocolInternalIds: ids });
+  const byId = new Map(protocols.map((protocol) => [protocol.internalId, protocol]));
+  const last = page.at(-1);
+
+  return {
+    protocols: ids.flatMap((id) => byId.get(id) ?? []),
+    nextCursor: rows.length > limit && last
+      ? encodeCursor([last.sort_value, idString(last.id)])
+      : null,
+  };
+}
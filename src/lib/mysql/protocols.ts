@@ -2,17 +2,29 @@ import 'server-only';
 
 import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
 import { queryRows, withTransaction, type MysqlParameter } from './db';
+import { PROTOCOL_EXPERTISE_SQL } from './expertiseTags';
+import { protocolLifecycleStatus, syncProtocolReviewStatus } from './protocolDecisions';
+import { ASSIGNMENT_HAS_REVIEW_FORM_SQL } from './reviewForms';
+import { REVIEW_PHASE_STATUSES } from '@/lib/protocolLifecycle';
 import type {
   MysqlProtocolDto,
+  MysqlProtocolMonthIndexDto,
+  MysqlProtocolReviewRoundDto,
   MysqlReviewerAssignmentDto,
   MysqlReviewerProtocolDto,
 } from './types';
 import {
+  assignmentAcceptance,
+  booleanValue,
   databaseStatus,
   dateOnly,
+  decodeCursor,
   displayStatus,
+  encodeCursor,
+  finiteNumber,
   idString,
   isoDateTime,
+  tagList,
 } from './values';
 
 interface ProtocolJoinRow extends RowDataPacket {
@@ -23,8 +35,15 @@ interface ProtocolJoinRow extends RowDataPacket {
   principal_investigator: string;
   adviser: string;
   course_program: string;
+  nature_of_study: string | null;
+  type_of_study: string | null;
+  expertise_tags: string | null;
   document_link: string | null;
   protocol_status: string;
+  protocol_completed_at: string | null;
+  round_number: number | null;
+  decided_at: string | null;
+  decided_by_name: string | null;
   protocol_due_date: string | null;
   protocol_created_at: string | null;
   month_key: string;
@@ -39,6 +58,11 @@ interface ProtocolJoinRow extends RowDataPacket {
   form_type: string | null;
   assignment_due_date: string | null;
   assignment_completed_at: string | null;
+  assignment_acceptance: string | null;
+  assignment_decline_reason: string | null;
+  assignment_form_name: string | null;
+  assignment_form_url: string | null;
+  assignment_has_review_form: number | null;
 }
 
 export interface ProtocolFilters {
@@ -46,7 +70,15 @@ export interface ProtocolFilters {
   weekId?: string;
   reviewerInternalId?: string;
   protocolInternalId?: string;
+  protocolInternalIds?: string[];
   includeDeleted?: boolean;
+  /** Skips the assignment join when callers do not need reviewers. */
+  includeReviewers?: boolean;
+}
+
+export interface ProtocolPage {
+  protocols: MysqlProtocolDto[];
+  nextCursor: string | null;
 }
 
 function releasePeriod(monthKey: string, weekNumber: number): string {
@@ -74,12 +106,19 @@ function mapProtocols(rows: ProtocolJoinRow[]): MysqlProtocolDto[] {
         academic_level: row.course_program,
         reviewers: [],
         due_date: dateOnly(row.protocol_due_date),
-        status: displayStatus(row.protocol_status),
+        status: row.protocol_completed_at ? 'Completed' : 'In Progress',
+        round: Number(row.round_number ?? 1),
+        decision: protocolLifecycleStatus(row.protocol_status),
+        decidedAt: isoDateTime(row.decided_at),
+        decidedBy: row.decided_by_name ?? '',
         protocol_file: link,
         created_at: createdAt,
         research_title: row.research_title,
         e_link: link,
         course_program: row.course_program,
+        nature_of_study: row.nature_of_study ?? '',
+        type_of_study: row.type_of_study ?? '',
+        expertise_tags: tagList(row.expertise_tags),
         spup_rec_code: row.rec_code,
         principal_investigator: row.principal_investigator,
         adviser: row.adviser,
@@ -99,6 +138,11 @@ function mapProtocols(rows: ProtocolJoinRow[]): MysqlProtocolDto[] {
         form_type: row.form_type ?? '',
         due_date: dateOnly(row.assignment_due_date),
         completed_at: isoDateTime(row.assignment_completed_at),
+        acceptance: assignmentAcceptance(row.assignment_acceptance),
+        decline_reason: row.assignment_decline_reason,
+        form_name: row.assignment_form_name ?? '',
+        form_url: row.assignment_form_url ?? '',
+        has_review_form: booleanValue(row.assignment_has_review_form),
       };
       protocol.reviewers.push(assignment);
     }
@@ -107,7 +151,53 @@ function mapProtocols(rows: ProtocolJoinRow[]): MysqlProtocolDto[] {
   return [...protocols.values()];
 }
 
-export async function listProtocols(filters: ProtocolFilters = {}): Promise<MysqlProtocolDto[]> {
+interface PageRow extends RowDataPacket {
+  id: string;
+  period_key: number;
+  week_number: number;
+  rec_code: string;
+}
+
+interface PeriodRow extends RowDataPacket {
+  month_key: string;
+  week_key: string;
+  week_number: number;
+  protocol_count: number;
+  completed_protocols: number;
+  decided_protocols: number;
+  review_total: number;
+  review_completed: number;
+  review_overdue: number;
+  review_due_soon: number;
+}
+
+interface ReviewRoundRow extends RowDataPacket {
+  id: string;
+  round_number: number;
+  month_key: string;
+  week_key: string;
+  week_number: number;
+  document_link: string | null;
+  due_date: string | null;
+  outcome: string | null;
+  opened_at: string | null;
+  closed_at: string | null;
+}
+
+interface RoundAssignmentRow extends RowDataPacket {
+  id: string;
+  review_round_id: string;
+  source_reviewer_id: string;
+  source_reviewer_name: string;
+  reviewer_access_code: string | null;
+  reviewer_full_name: string | null;
+  status: string;
+  form_type: string | null;
+  due_date: string | null;
+  completed_at: string | null;
+}
+
+function protocolClauses(filters: ProtocolFilters): { clauses: string[]; values: MysqlParameter[] } {
   const clauses = [filters.includeDeleted ? '1 = 1' : 'p.deleted_at IS NULL'];
   const values: MysqlParameter[] = [];
 
@@ -119,6 +209,14 @@ export async function listProtocols(filters: ProtocolFilters = {}): Promise<Mysq
     clauses.push('pw.legacy_week_key = ?');
     values.push(filters.weekId);
   }
+
+  return { clauses, values };
+}
+
+export async function listProtocols(filters: ProtocolFilters = {}): Promise<MysqlProtocolDto[]> {
+  const { clauses, values } = protocolClauses(filters);
+  const includeReviewers = filters.includeReviewers !== false || Boolean(filters.reviewerInternalId);
+
   if (filters.reviewerInternalId) {
     clauses.push('pra.reviewer_id = ?');
     values.push(filters.reviewerInternalId);
@@ -127,6 +225,11 @@ export async function listProtocols(filters: ProtocolFilters = {}): Promise<Mysq
     clauses.push('p.id = ?');
     values.push(filters.protocolInternalId);
   }
+  if (filters.protocolInternalIds) {
+    if (filters.protocolInternalIds.length === 0) return [];
+    clauses.push(`p.id IN (${filters.protocolInternalIds.map(() => '?').join(', ')})`);
+    values.push(...filters.protocolInternalIds);
+  }
 
   const rows = await queryRows<ProtocolJoinRow>(`
     SELECT
@@ -137,13 +240,21 @@ export async function listProtocols(filters: ProtocolFilters = {}): Promise<Mysq
       p.principal_investigator,
       p.adviser,
       p.course_program,
+      p.nature_of_study,
+      p.type_of_study,
+      ${PROTOCOL_EXPERTISE_SQL} AS expertise_tags,
       p.document_link,
       p.status AS protocol_status,
+      p.completed_at AS protocol_completed_at,
+      prr.round_number,
+      p.decided_at,
+      au.full_name AS decided_by_name,
       p.due_date AS protocol_due_date,
       COALESCE(p.source_created_at, p.created_at) AS protocol_created_at,
       pm.legacy_month_key AS month_key,
       pw.legacy_week_key AS week_key,
       pw.week_number,
+      ${includeReviewers ? `
       CAST(pra.id AS CHAR) AS assignment_internal_id,
       pra.source_reviewer_id AS assignment_source_id,
       pra.source_reviewer_name AS assignment_source_name,
@@ -152,21 +263,151 @@ export async function listProtocols(filters: ProtocolFilters = {}): Promise<Mysq
       pra.status AS assignment_status,
       COALESCE(pra.form_type_code, pra.source_form_type) AS form_type,
       pra.due_date AS assignment_due_date,
-      pra.completed_at AS assignment_completed_at
+      pra.completed_at AS assignment_completed_at,
+      pra.acceptance AS assignment_acceptance,
+      pra.decline_reason AS assignment_decline_reason,
+      rft.display_name AS assignment_form_name,
+      rft.form_url AS assignment_form_url,
+      ${ASSIGNMENT_HAS_REVIEW_FORM_SQL} AS assignment_has_review_form` : 'NULL AS assignment_internal_id'}
     FROM protocols p
     INNER JOIN protocol_weeks pw ON pw.id = p.protocol_week_id
     INNER JOIN protocol_months pm ON pm.id = pw.protocol_month_id
+    LEFT JOIN protocol_review_rounds prr ON prr.id = p.current_round_id
+    ${includeReviewers ? `
     LEFT JOIN protocol_reviewer_assignments pra
-      ON pra.protocol_id = p.id AND pra.deleted_at IS NULL
+      ON pra.protocol_id = p.id AND pra.review_round_id = p.current_round_id
+      AND pra.deleted_at IS NULL
     LEFT JOIN reviewers r ON r.id = pra.reviewer_id
+    LEFT JOIN review_form_types rft ON rft.code = pra.form_type_code` : ''}
+    LEFT JOIN admin_users au ON au.id = p.decided_by_admin_id
     WHERE ${clauses.join(' AND ')}
     ORDER BY pm.calendar_year DESC, pm.calendar_month DESC,
-      pw.week_number, p.rec_code, pra.assignment_slot
+      pw.week_number, p.rec_code${includeReviewers ? ', pra.assignment_slot' : ''}
   `, values);
 
   return mapProtocols(rows);
 }
 
+/**
+ * Pages through protocols in the same order as `listProtocols`. The cursor
+ * holds the last row's period, week, REC code and ID.
+ */
+export async function listProtocolPage(
+  filters: Omit<ProtocolFilters, 'reviewerInternalId' | 'protocolInternalId' | 'protocolInternalIds'> & {
+    limit: number;
+    cursor?: string;
+  }
+): Promise<ProtocolPage> {
+  const limit = Math.min(500, Math.max(1, Math.trunc(filters.limit)));
+  const { clauses, values } = protocolClauses(filters);
+  const cursor = decodeCursor(filters.cursor, 4);
+
+  if (cursor) {
+    clauses.push('(-(pm.calendar_year * 100 + pm.calendar_month), pw.week_number, p.rec_code, p.id) > (?, ?, ?, ?)');
+    values.push(...cursor);
+  }
+
+  const rows = await queryRows<PageRow>(`
+    SELECT CAST(p.id AS CHAR) AS id, -(pm.calendar_year * 100 + pm.calendar_month) AS period_key,
+      pw.week_number, p.rec_code
+    FROM protocols p
+    INNER JOIN protocol_weeks pw ON pw.id = p.protocol_week_id
+    INNER JOIN protocol_months pm ON pm.id = pw.protocol_month_id
+    WHERE ${clauses.join(' AND ')}
+    ORDER BY period_key, pw.week_number, p.rec_code, p.id
+    LIMIT ${limit + 1}
+  `, values);
+  const page = rows.slice(0, limit);
+  const last = page.at(-1);
+
+  return {
+    protocols: await listProtocols({
+      includeDeleted: filters.includeDeleted,
+      includeReviewers: filters.includeReviewers,
+      protocolInternalIds: page.map((row) => idString(row.id)),
+    }),
+    nextCursor: rows.length > limit && last
+      ? encodeCursor([Number(last.period_key), Number(last.week_number), last.rec_code, idString(last.id)])
+      : null,
+  };
+}
+
+/**
+ * Changes whenever a protocol, assignment, reviewer, period, expertise tag or
+ * review form row changes, or the day rolls over (overdue counts depend on
+ * it). Used to build list ETags without loading the lists themselves.
+ */
+export async function getProtocolListVersion(): Promise<string> {
+  const rows = await queryRows<RowDataPacket & { version: string }>(`
+    SELECT CONCAT_WS('|',
+      UTC_DATE(),
+      (SELECT CONCAT(COUNT(*), '@', COALESCE(MAX(updated_at), '')) FROM protocols),
+      (SELECT CONCAT(COUNT(*), '@', COALESCE(MAX(updated_at), '')) FROM protocol_reviewer_assignments),
+      (SELECT COUNT(*) FROM protocol_review_rounds),
+      (SELECT CONCAT(COUNT(*), '@', COALESCE(MAX(updated_at), '')) FROM protocol_weeks),
+      (SELECT CONCAT(COUNT(*), '@', COALESCE(MAX(updated_at), '')) FROM reviewers),
+      (SELECT CONCAT(COUNT(*), '@', COALESCE(MAX(created_at), '')) FROM protocol_expertise_tags),
+      (SELECT CONCAT(COUNT(*), '@', COALESCE(MAX(created_at), '')) FROM reviewer_expertise_tags),
+      (SELECT CONCAT(COUNT(*), '@', COALESCE(MAX(updated_at), '')) FROM review_form_types),
+      (SELECT CONCAT(COUNT(*), '@', COALESCE(MAX(updated_at), '')) FROM review_form_versions),
+      (SELECT CONCAT(COUNT(*), '@', COALESCE(MAX(updated_at), '')) FROM admin_users)
+    ) AS version
+  `);
+  return rows[0]?.version ?? '';
+}
+
+/** Month and week totals for the protocol hierarchy without loading protocols. */
+export async function listProtocolPeriods(): Promise<MysqlProtocolMonthIndexDto[]> {
+  const rows = await queryRows<PeriodRow>(`
+    SELECT
+      pm.legacy_month_key AS month_key,
+      pw.legacy_week_key AS week_key,
+      pw.week_number,
+      COUNT(DISTINCT p.id) AS protocol_count,
+      COUNT(DISTINCT CASE WHEN p.completed_at IS NOT NULL THEN p.id END) AS completed_protocols,
+      COUNT(DISTINCT CASE WHEN p.status NOT IN (${REVIEW_PHASE_STATUSES.map(() => '?').join(', ')}) THEN p.id END) AS decided_protocols,
+      COUNT(pra.id) AS review_total,
+      COALESCE(SUM(pra.status = 'completed'), 0) AS review_completed,
+      COALESCE(SUM(pra.status <> 'completed' AND COALESCE(pra.due_date, p.due_date) < UTC_DATE()), 0) AS review_overdue,
+      COALESCE(SUM(pra.status <> 'completed'
+        AND COALESCE(pra.due_date, p.due_date) BETWEEN UTC_DATE() AND UTC_DATE() + INTERVAL 7 DAY), 0) AS review_due_soon
+    FROM protocols p
+    INNER JOIN protocol_weeks pw ON pw.id = p.protocol_week_id
+    INNER JOIN protocol_months pm ON pm.id = pw.protocol_month_id
+    LEFT JOIN protocol_reviewer_assignments pra
+      ON pra.protocol_id = p.id AND pra.review_round_id = p.current_round_id
+      AND pra.deleted_at IS NULL
+    WHERE p.deleted_at IS NULL
+    GROUP BY pm.id, pm.legacy_month_key, pm.calendar_year, pm.calendar_month,
+      pw.id, pw.legacy_week_key, pw.week_number
+    ORDER BY pm.calendar_year DESC, pm.calendar_month DESC, pw.week_number
+  `, [...REVIEW_PHASE_STATUSES]);
+
+  const months = new Map<string, MysqlProtocolMonthIndexDto>();
+  for (const row of rows) {
+    let month = months.get(row.month_key);
+    if (!month) {
+      month = { monthId: row.month_key, weeks: [] };
+      months.set(row.month_key, month);
+    }
+    month.weeks.push({
+      weekId: row.week_key,
+      weekNumber: Number(row.week_number),
+      protocols: finiteNumber(row.protocol_count),
+      completedProtocols: finiteNumber(row.completed_protocols),
+      decidedProtocols: finiteNumber(row.decided_protocols),
+      reviews: {
+        total: finiteNumber(row.review_total),
+        completed: finiteNumber(row.review_completed),
+        overdue: finiteNumber(row.review_overdue),
+        dueSoon: finiteNumber(row.review_due_soon),
+      },
+    });
+  }
+
+  return [...months.values()];
+}
+
 export async function getProtocolByInternalId(internalId: string): Promise<MysqlProtocolDto | null> {
   const protocols = await listProtocols({ protocolInternalId: internalId });
   return protocols[0] ?? null;
@@ -205,43 +446,43 @@ export async function updateReviewerAssignmentStatuses(input: {
   const placeholders = assignmentIds.map(() => '?').join(', ');
 
   const protocolIds = await withTransaction(async (connection) => {
-    const rows = await queryRows<RowDataPacket & { assignment_id: string; protocol_id: string }>(`
-      SELECT CAST(id AS CHAR) AS assignment_id, CAST(protocol_id AS CHAR) AS protocol_id
-      FROM protocol_reviewer_assignments
-      WHERE id IN (${placeholders}) AND reviewer_id = ? AND deleted_at IS NULL
+    const rows = await queryRows<RowDataPacket & {
+      assignment_id: string;
+      protocol_id: string;
+      acceptance: string;
+      has_review_form: number;
+    }>(`
+      SELECT CAST(pra.id AS CHAR) AS assignment_id, CAST(pra.protocol_id AS CHAR) AS protocol_id,
+        pra.acceptance, ${ASSIGNMENT_HAS_REVIEW_FORM_SQL} AS has_review_form
+      FROM protocol_reviewer_assignments pra
+      INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+      WHERE pra.id IN (${placeholders}) AND pra.reviewer_id = ? AND pra.deleted_at IS NULL
       FOR UPDATE
     `, [...assignmentIds, input.reviewerInternalId], connection);
 
     if (rows.length !== assignmentIds.length) {
       throw new Error('One or more reviewer assignments were not found or are not owned by this reviewer.');
     }
+    if (status === 'completed' && rows.some((row) => row.acceptance === 'declined')) {
+      throw new Error('You declined this review.');
+    }
+    // Reviews with an in-app form are completed by submitting it.
+    if (status === 'completed' && rows.some((row) => booleanValue(row.has_review_form))) {
+      throw new Error('Submit the review form to complete this review.');
+    }
 
     await connection.execute<ResultSetHeader>(`
       UPDATE protocol_reviewer_assignments
       SET status = ?,
-          completed_at = CASE WHEN ? = 'completed' THEN UTC_TIMESTAMP(6) ELSE NULL END
+          completed_at = CASE WHEN ? = 'completed' THEN UTC_TIMESTAMP(6) ELSE NULL END,
+          responded_at = CASE WHEN ? = 'completed' AND acceptance <> 'accepted' THEN UTC_TIMESTAMP(6) ELSE responded_at END,
+          acceptance = CASE WHEN ? = 'completed' THEN 'accepted' ELSE acceptance END
       WHERE id IN (${placeholders}) AND reviewer_id = ?
-    `, [status, status, ...assignmentIds, input.reviewerInternalId]);
+    `, [status, status, status, status, ...assignmentIds, input.reviewerInternalId]);
 
     const affectedProtocolIds = [...new Set(rows.map((row) => idString(row.protocol_id)))];
     for (const protocolId of affectedProtocolIds) {
-      const aggregate = await queryRows<RowDataPacket & {
-        total: number;
-        completed: number;
-        completed_at: string | null;
-      }>(`
-        SELECT COUNT(*) AS total, SUM(status = 'completed') AS completed,
-          MAX(completed_at) AS completed_at
-        FROM protocol_reviewer_assignments
-        WHERE protocol_id = ? AND deleted_at IS NULL
-      `, [protocolId], connection);
-      const allCompleted = Number(aggregate[0]?.total ?? 0) > 0
-        && Number(aggregate[0]?.total) === Number(aggregate[0]?.completed);
-
-      await connection.execute<ResultSetHeader>(`
-        UPDATE protocols SET status = ?, completed_at = ?
-        WHERE id = ? AND deleted_at IS NULL
-      `, [allCompleted ? 'completed' : 'in_progress', allCompleted ? aggregate[0]?.completed_at : null, protocolId]);
+      await syncProtocolReviewStatus(connection, protocolId);
     }
 
     for (const row of rows) {
@@ -265,3 +506,53 @@ export async function updateReviewerAssignmentStatuses(input: {
   if (results.length !== assignmentIds.length) throw new Error('Updated assignments could not be reloaded.');
   return results;
 }
+
+export async function listProtocolReviewRounds(protocolId: string): Promise<MysqlProtocolReviewRoundDto[]> {
+  const [rounds, assignments] = await Promise.all([
+    queryRows<ReviewRoundRow>(`
+      SELECT CAST(prr.id AS CHAR) AS id, prr.round_number, pm.legacy_month_key AS month_key,
+        pw.legacy_week_key AS week_key, pw.week_number, prr.document_link, prr.due_date,
+        prr.outcome, prr.opened_at, prr.closed_at
+      FROM protocol_review_rounds prr
+      INNER JOIN protocol_weeks pw ON pw.id = prr.protocol_week_id
+      INNER JOIN protocol_months pm ON pm.id = pw.protocol_month_id
+      WHERE prr.protocol_id = ?
+      ORDER BY prr.round_number DESC
+    `, [protocolId]),
+    queryRows<RoundAssignmentRow>(`
+      SELECT CAST(pra.id AS CHAR) AS id, CAST(pra.review_round_id AS CHAR) AS review_round_id,
+        pra.source_reviewer_id, pra.source_reviewer_name, r.access_code AS reviewer_access_code,
+        r.full_name AS reviewer_full_name, pra.status,
+        COALESCE(pra.form_type_code, pra.source_form_type) AS form_type,
+        pra.due_date, pra.completed_at
+      FROM protocol_reviewer_assignments pra
+      LEFT JOIN reviewers r ON r.id = pra.reviewer_id
+      WHERE pra.protocol_id = ? AND pra.deleted_at IS NULL
+      ORDER BY pra.assignment_slot
+    `, [protocolId]),
+  ]);
+
+  return rounds.map((row) => ({
+    id: idString(row.id),
+    round: Number(row.round_number),
+    releasePeriod: releasePeriod(row.month_key, row.week_number),
+    monthId: row.month_key,
+    weekId: row.week_key,
+    documentLink: row.document_link ?? '',
+    dueDate: dateOnly(row.due_date),
+    outcome: row.outcome ? protocolLifecycleStatus(row.outcome) : null,
+    openedAt: isoDateTime(row.opened_at),
+    closedAt: isoDateTime(row.closed_at),
+    reviewers: assignments
+      .filter((assignment) => idString(assignment.review_round_id) === idString(row.id))
+      .map((assignment) => ({
+        internalId: idString(assignment.id),
+        id: assignment.reviewer_access_code ?? assignment.source_reviewer_id,
+        name: assignment.reviewer_full_name ?? assignment.source_reviewer_name,
+        status: displayStatus(assignment.status),
+        form_type: assignment.form_type ?? '',
+        due_date: dateOnly(assignment.due_date),
+        completed_at: isoDateTime(assignment.completed_at),
+      })),
+  }));
+}
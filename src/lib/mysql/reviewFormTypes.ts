@@ -0,0 +1,373 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { isReviewRecommendation, type ReviewRecommendation } from '@/lib/protocolLifecycle';
+import { queryRows, withTransaction, type MysqlExecutor } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import { getReviewForm, getReviewFormVersion } from './reviewForms';
+import type { MysqlReviewAnswerType, MysqlReviewFormDto, MysqlReviewFormTypeDto } from './types';
+import { booleanValue, finiteNumber, isoDateTime, nullableString } from './values';
+
+interface FormTypeRow extends RowDataPacket {
+  code: string;
+  display_name: string;
+  form_url: string | null;
+  sort_order: number;
+  is_active: number;
+  published_version: number | null;
+  published_at: string | null;
+  draft_version: number | null;
+  submission_count: number;
+}
+
+export interface ReviewFormDraftInput {
+  sections: Array<{
+    title: string;
+    description?: string | null;
+    questions: Array<{
+      /** Kept from the previous version so drafts and summaries line up; derived from the prompt when new. */
+      key?: string;
+      prompt: string;
+      helpText?: string | null;
+      answerType: MysqlReviewAnswerType;
+      required: boolean;
+    }>;
+  }>;
+  recommendations: Array<{ label: string; outcome: ReviewRecommendation }>;
+}
+
+const ANSWER_TYPES: MysqlReviewAnswerType[] = ['yes_no_na', 'text'];
+
+function mapFormType(row: FormTypeRow): MysqlReviewFormTypeDto {
+  return {
+    code: row.code,
+    name: row.display_name,
+    formUrl: row.form_url,
+    sortOrder: finiteNumber(row.sort_order),
+    active: booleanValue(row.is_active),
+    publishedVersion: row.published_version === null ? null : finiteNumber(row.published_version),
+    publishedAt: isoDateTime(row.published_at),
+    draftVersion: row.draft_version === null ? null : finiteNumber(row.draft_version),
+    submissionCount: finiteNumber(row.submission_count),
+  };
+}
+
+function questionKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64);
+}
+
+function limited(value: string | null | undefined, label: string, max: number): string | null {
+  const text = nullableString(value);
+  if (text && text.length > max) throw new Error(`${label} must be ${max} characters or fewer.`);
+  return text;
+}
+
+export async function listReviewFormTypes(executor?: MysqlExecutor): Promise<MysqlReviewFormTypeDto[]> {
+  const rows = await queryRows<FormTypeRow>(`
+    SELECT ft.code, ft.display_name, ft.form_url, ft.sort_order, ft.is_active,
+      (
+        SELECT MAX(v.version_number) FROM review_form_versions v
+        WHERE v.form_type_code = ft.code AND v.published_at IS NOT NULL
+      ) AS published_version,
+      (
+        SELECT MAX(v.published_at) FROM review_form_versions v
+        WHERE v.form_type_code = ft.code
+      ) AS published_at,
+      (
+        SELECT v.version_number FROM review_form_versions v
+        WHERE v.form_type_code = ft.code AND v.published_at IS NULL
+        LIMIT 1
+      ) AS draft_version,
+      (
+        SELECT COUNT(*) FROM review_form_submissions s
+        WHERE s.form_type_code = ft.code AND s.status = 'submitted'
+      ) AS submission_count
+    FROM review_form_types ft
+    ORDER BY ft.sort_order, ft.code
+  `, [], executor);
+  return rows.map(mapFormType);
+}
+
+/** The form type with its published form and any unpublished draft. */
+export async function getReviewFormEditor(code: string): Promise<{
+  formType: MysqlReviewFormTypeDto;
+  published: MysqlReviewFormDto | null;
+  draft: MysqlReviewFormDto | null;
+} | null> {
+  const formType = (await listReviewFormTypes()).find((item) => item.code === code);
+  if (!formType) return null;
+  const drafts = await queryRows<RowDataPacket & { id: string }>(`
+    SELECT CAST(id AS CHAR) AS id FROM review_form_versions
+    WHERE form_type_code = ? AND published_at IS NULL
+  `, [code]);
+  const [published, draft] = await Promise.all([
+    getReviewForm(code),
+    drafts[0] ? getReviewFormVersion(drafts[0].id) : Promise.resolve(null),
+  ]);
+  return { formType, published, draft };
+}
+
+async function lockFormType(executor: MysqlExecutor, code: string): Promise<FormTypeRow> {
+  const rows = await queryRows<FormTypeRow>(`
+    SELECT code, display_name, form_url, sort_order, is_active
+    FROM review_form_types
+    WHERE code = ?
+    FOR UPDATE
+  `, [code], executor);
+  if (!rows[0]) throw new Error('Form type not found.');
+  return rows[0];
+}
+
+export async function updateReviewFormType(input: {
+  code: string;
+  name: string;
+  formUrl?: string | null;
+  actor: AdminAuditActor | null;
+}): Promise<MysqlReviewFormTypeDto> {
+  const name = input.name.replace(/\s+/g, ' ').trim();
+  const formUrl = limited(input.formUrl, 'Form link', 2048);
+  if (!name) throw new Error('Form name is required.');
+  if (name.length > 255) throw new Error('Form name must be 255 characters or fewer.');
+  if (formUrl && !/^https:\/\//i.test(formUrl)) throw new Error('Form link must start with https://.');
+
+  return withTransaction(async (connection) => {
+    const current = await lockFormType(connection, input.code);
+    await connection.execute<ResultSetHeader>(`
+      UPDATE review_form_types SET display_name = ?, form_url = ? WHERE code = ?
+    `, [name, formUrl, input.code]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'review_form_type.update',
+      entityType: 'review_form_type',
+      entityId: input.code,
+      before: { name: current.display_name, formUrl: current.form_url },
+      after: { name, formUrl },
+    });
+    const formType = (await listReviewFormTypes(connection)).find((item) => item.code === input.code);
+    if (!formType) throw new Error('Form type could not be reloaded.');
+    return formType;
+  });
+}
+
+/** Retired form types stay on existing assignments and submissions but cannot be newly assigned. */
+export async function setReviewFormTypeActive(input: {
+  code: string;
+  active: boolean;
+  actor: AdminAuditActor | null;
+}): Promise<MysqlReviewFormTypeDto> {
+  return withTransaction(async (connection) => {
+    const current = await lockFormType(connection, input.code);
+    if (booleanValue(current.is_active) !== input.active) {
+      await connection.execute<ResultSetHeader>(`
+        UPDATE review_form_types SET is_active = ? WHERE code = ?
+      `, [input.active, input.code]);
+      await recordAdminAudit(connection, {
+        actor: input.actor,
+        action: input.active ? 'review_form_type.restore' : 'review_form_type.retire',
+        entityType: 'review_form_type',
+        entityId: input.code,
+        before: { active: !input.active },
+        after: { active: input.active },
+      });
+    }
+    const formType = (await listReviewFormTypes(connection)).find((item) => item.code === input.code);
+    if (!formType) throw new Error('Form type could not be reloaded.');
+    return formType;
+  });
+}
+
+/**
+ * Replaces the draft's sections, questions and recommendations, starting the
+ * next version when the form type has no draft yet. Published versions are
+ * never touched.
+ */
+export async function saveReviewFormDraft(input: {
+  code: string;
+  draft: ReviewFormDraftInput;
+  actor: AdminAuditActor | null;
+}): Promise<MysqlReviewFormDto> {
+  const sections = input.draft.sections.map((section, sectionIndex) => {
+    const title = limited(section.title, 'Section title', 255);
+    if (!title) throw new Error(`Section ${sectionIndex + 1} needs a title.`);
+    return {
+      title,
+      description: limited(section.description, 'Section description', 1000),
+      questions: section.questions.map((question) => {
+        const prompt = limited(question.prompt, 'Question', 1000);
+        if (!prompt) throw new Error(`Every question in "${title}" needs its wording.`);
+        if (!ANSWER_TYPES.includes(question.answerType)) throw new Error('Invalid answer type.');
+        return {
+          key: questionKey(question.key || '') || questionKey(prompt.split(/\s+/).slice(0, 6).join(' ')) || 'question',
+          prompt,
+          helpText: limited(question.helpText, 'Help text', 1000),
+          answerType: question.answerType,
+          required: question.required,
+        };
+      }),
+    };
+  });
+  const recommendations = new Map<string, ReviewRecommendation>();
+  for (const choice of input.draft.recommendations) {
+    const label = choice.label.replace(/\s+/g, ' ').trim();
+    if (!label || recommendations.has(label)) continue;
+    if (label.length > 255) throw new Error('Recommendations must be 255 characters or fewer.');
+    if (!isReviewRecommendation(choice.outcome)) throw new Error(`Choose what "${label}" recommends.`);
+    recommendations.set(label, choice.outcome);
+  }
+
+  // Keys stay unique within the version so answers can be matched by key.
+  const usedKeys = new Set<string>();
+  for (const question of sections.flatMap((section) => section.questions)) {
+    let key = question.key;
+    for (let suffix = 2; usedKeys.has(key); suffix += 1) key = `${question.key.slice(0, 60)}_${suffix}`;
+    usedKeys.add(key);
+    question.key = key;
+  }
+
+  return withTransaction(async (connection) => {
+    await lockFormType(connection, input.code);
+    const versions = await queryRows<RowDataPacket & { id: string; version_number: number; published_at: string | null }>(`
+      SELECT CAST(id AS CHAR) AS id, version_number, published_at
+      FROM review_form_versions
+      WHERE form_type_code = ?
+      ORDER BY version_number DESC
+    `, [input.code], connection);
+    const existingDraft = versions.find((version) => version.published_at === null);
+    let draftId = existingDraft?.id;
+    const versionNumber = existingDraft
+      ? finiteNumber(existingDraft.version_number)
+      : finiteNumber(versions[0]?.version_number) + 1;
+    if (!draftId) {
+      const [result] = await connection.execute<ResultSetHeader>(`
+        INSERT INTO review_form_versions (form_type_code, version_number) VALUES (?, ?)
+      `, [input.code, versionNumber]);
+      draftId = String(result.insertId);
+    }
+
+    await connection.execute<ResultSetHeader>(`
+      DELETE FROM review_form_sections WHERE form_version_id = ?
+    `, [draftId]);
+    await connection.execute<ResultSetHeader>(`
+      DELETE FROM review_form_recommendations WHERE form_version_id = ?
+    `, [draftId]);
+    for (const [sectionIndex, section] of sections.entries()) {
+      const [sectionResult] = await connection.execute<ResultSetHeader>(`
+        INSERT INTO review_form_sections (form_version_id, title, description, sort_order) VALUES (?, ?, ?, ?)
+      `, [draftId, section.title, section.description, (sectionIndex + 1) * 10]);
+      for (const [questionIndex, question] of section.questions.entries()) {
+        await connection.execute<ResultSetHeader>(`
+          INSERT INTO review_form_questions (
+            form_version_id, section_id, question_key, prompt, help_text, answer_type, is_required, sort_order
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          draftId,
+          sectionResult.insertId,
+          question.key,
+          question.prompt,
+          question.helpText,
+          question.answerType,
+          question.required,
+          (questionIndex + 1) * 10,
+        ]);
+      }
+    }
+    for (const [index, [label, outcome]] of [...recommendations].entries()) {
+      await connection.execute<ResultSetHeader>(`
+        INSERT INTO review_form_recommendations (form_version_id, label, outcome, sort_order) VALUES (?, ?, ?, ?)
+      `, [draftId, label, outcome, (index + 1) * 10]);
+    }
+
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'review_form.update',
+      entityType: 'review_form',
+      entityId: input.code,
+      before: existingDraft ? { version: versionNumber } : null,
+      after: {
+        version: versionNumber,
+        sections: sections.map((section) => section.title),
+        questions: usedKeys.size,
+        recommendations: Object.fromEntries(recommendations),
+      },
+    });
+    const saved = await getReviewFormVersion(draftId, connection);
+    if (!saved) throw new Error('Draft was not saved.');
+    return saved;
+  });
+}
+
+/** Publishes the draft as the version reviewers fill in from now on. */
+export async function publishReviewFormDraft(input: {
+  code: string;
+  actor: AdminAuditActor | null;
+}): Promise<MysqlReviewFormDto> {
+  return withTransaction(async (connection) => {
+    await lockFormType(connection, input.code);
+    const drafts = await queryRows<RowDataPacket & { id: string }>(`
+      SELECT CAST(id AS CHAR) AS id FROM review_form_versions
+      WHERE form_type_code = ? AND published_at IS NULL
+    `, [input.code], connection);
+    const draft = drafts[0] ? await getReviewFormVersion(drafts[0].id, connection) : null;
+    if (!draft) throw new Error('There is no draft to publish.');
+    if (draft.sections.length === 0 || draft.sections.some((section) => section.questions.length === 0)) {
+      throw new Error('Every section needs at least one question before publishing.');
+    }
+    if (draft.recommendations.length === 0) throw new Error('Add at least one recommendation before publishing.');
+
+    await connection.execute<ResultSetHeader>(`
+      UPDATE review_form_versions SET published_at = UTC_TIMESTAMP(6) WHERE id = ?
+    `, [draft.versionId]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'review_form.publish',
+      entityType: 'review_form',
+      entityId: input.code,
+      before: null,
+      after: { version: draft.version },
+    });
+    const published = await getReviewFormVersion(draft.versionId, connection);
+    if (!published) throw new Error('Published form could not be reloaded.');
+    return published;
+  });
+}
+
+export async function discardReviewFormDraft(input: {
+  code: string;
+  actor: AdminAuditActor | null;
+}): Promise<void> {
+  await withTransaction(async (connection) => {
+    await lockFormType(connection, input.code);
+    const drafts = await queryRows<RowDataPacket & { id: string; version_number: number }>(`
+      SELECT CAST(id AS CHAR) AS id, version_number FROM review_form_versions
+      WHERE form_type_code = ? AND published_at IS NULL
+    `, [input.code], connection);
+    if (!drafts[0]) throw new Error('There is no draft to discard.');
+
+    await connection.execute<ResultSetHeader>(`
+      DELETE FROM review_form_versions WHERE id = ?
+    `, [drafts[0].id]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'review_form.discard',
+      entityType: 'review_form',
+      entityId: input.code,
+      before: { version: finiteNumber(drafts[0].version_number) },
+      after: null,
+    });
+  });
+}
+
+/** Rejects form types that are retired or unknown; existing slots keep theirs. */
+export async function assertFormTypesAssignable(executor: MysqlExecutor, codes: string[]): Promise<void> {
+  const unique = [...new Set(codes.filter(Boolean))];
+  if (unique.length === 0) return;
+  const rows = await queryRows<RowDataPacket & { code: string; display_name: string; is_active: number }>(`
+    SELECT code, display_name, is_active FROM review_form_types WHERE code IN (${unique.map(() => '?').join(', ')})
+  `, unique, executor);
+  const unknown = unique.filter((code) => !rows.some((row) => row.code === code));
+  if (unknown.length > 0) throw new Error(`Unknown form type: ${unknown.join(', ')}.`);
+  const retired = rows.filter((row) => !booleanValue(row.is_active));
+  if (retired.length > 0) {
+    throw new Error(`${retired.map((row) => `${row.display_name} (${row.code})`).join(', ')} has been retired and cannot be assigned.`);
+  }
+}
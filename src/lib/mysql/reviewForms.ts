@@ -0,0 +1,290 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { isReviewRecommendation } from '@/lib/protocolLifecycle';
+import { queryRows, withTransaction, type MysqlExecutor } from './db';
+import { syncProtocolReviewStatus } from './protocolDecisions';
+import type {
+  MysqlReviewAnswerType,
+  MysqlReviewFormDto,
+  MysqlReviewSubmissionDto,
+  MysqlReviewSubmissionStatus,
+} from './types';
+import { booleanValue, finiteNumber, idString, isoDateTime, nullableString } from './values';
+
+interface VersionRow extends RowDataPacket {
+  id: string;
+  form_type_code: string;
+  display_name: string;
+  version_number: number;
+  published_at: string | null;
+}
+
+interface SectionRow extends RowDataPacket {
+  id: string;
+  title: string;
+  description: string | null;
+}
+
+interface QuestionRow extends RowDataPacket {
+  id: string;
+  section_id: string;
+  question_key: string;
+  prompt: string;
+  help_text: string | null;
+  answer_type: MysqlReviewAnswerType;
+  is_required: number;
+}
+
+interface SubmissionRow extends RowDataPacket {
+  id: string;
+  assignment_id: string;
+  form_type_code: string;
+  form_version_id: string;
+  recommendation: string | null;
+  comments: string | null;
+  status: MysqlReviewSubmissionStatus;
+  submitted_at: string | null;
+  updated_at: string;
+}
+
+const YES_NO_ANSWERS = new Set(['yes', 'no', 'na']);
+const TEXT_ANSWER_LIMIT = 4000;
+
+/** SQL for whether an assignment (`pra`) has a published in-app form. */
+export const ASSIGNMENT_HAS_REVIEW_FORM_SQL = `EXISTS (
+  SELECT 1 FROM review_form_versions rfv
+  WHERE rfv.form_type_code = pra.form_type_code AND rfv.published_at IS NOT NULL
+)`;
+
+const VERSION_SELECT = `
+  SELECT CAST(v.id AS CHAR) AS id, v.form_type_code, ft.display_name, v.version_number, v.published_at
+  FROM review_form_versions v
+  INNER JOIN review_form_types ft ON ft.code = v.form_type_code
+`;
+
+async function loadFormVersion(version: VersionRow, executor?: MysqlExecutor): Promise<MysqlReviewFormDto> {
+  const [sections, questions, recommendations] = await Promise.all([
+    queryRows<SectionRow>(`
+      SELECT CAST(id AS CHAR) AS id, title, description
+      FROM review_form_sections
+      WHERE form_version_id = ?
+      ORDER BY sort_order, id
+    `, [version.id], executor),
+    queryRows<QuestionRow>(`
+      SELECT CAST(id AS CHAR) AS id, CAST(section_id AS CHAR) AS section_id,
+        question_key, prompt, help_text, answer_type, is_required
+      FROM review_form_questions
+      WHERE form_version_id = ?
+      ORDER BY sort_order, id
+    `, [version.id], executor),
+    queryRows<RowDataPacket & { label: string; outcome: string }>(`
+      SELECT label, outcome FROM review_form_recommendations
+      WHERE form_version_id = ?
+      ORDER BY sort_order, id
+    `, [version.id], executor),
+  ]);
+
+  return {
+    formType: version.form_type_code,
+    name: version.display_name,
+    versionId: idString(version.id),
+    version: finiteNumber(version.version_number),
+    publishedAt: isoDateTime(version.published_at),
+    sections: sections.map((section) => ({
+      id: idString(section.id),
+      title: section.title,
+      description: section.description,
+      questions: questions
+        .filter((row) => idString(row.section_id) === idString(section.id))
+        .map((row) => ({
+          id: idString(row.id),
+          key: row.question_key,
+          prompt: row.prompt,
+          helpText: row.help_text,
+          answerType: row.answer_type,
+          required: booleanValue(row.is_required),
+        })),
+    })),
+    recommendations: recommendations.map((row) => ({
+      label: row.label,
+      outcome: isReviewRecommendation(row.outcome) ? row.outcome : 'full_review',
+    })),
+  };
+}
+
+/** The latest published version of the form type, or null when it has none. */
+export async function getReviewForm(formType: string, executor?: MysqlExecutor): Promise<MysqlReviewFormDto | null> {
+  const versions = await queryRows<VersionRow>(`
+    ${VERSION_SELECT}
+    WHERE v.form_type_code = ? AND v.published_at IS NOT NULL
+    ORDER BY v.version_number DESC
+    LIMIT 1
+  `, [formType], executor);
+  return versions[0] ? loadFormVersion(versions[0], executor) : null;
+}
+
+export async function getReviewFormVersion(
+  versionId: string,
+  executor?: MysqlExecutor
+): Promise<MysqlReviewFormDto | null> {
+  const versions = await queryRows<VersionRow>(`
+    ${VERSION_SELECT}
+    WHERE v.id = ?
+  `, [versionId], executor);
+  return versions[0] ? loadFormVersion(versions[0], executor) : null;
+}
+
+export async function getReviewSubmission(
+  assignmentId: string,
+  executor?: MysqlExecutor
+): Promise<MysqlReviewSubmissionDto | null> {
+  const submissions = await queryRows<SubmissionRow>(`
+    SELECT CAST(id AS CHAR) AS id, CAST(assignment_id AS CHAR) AS assignment_id, form_type_code,
+      CAST(form_version_id AS CHAR) AS form_version_id, recommendation, comments, status, submitted_at, updated_at
+    FROM review_form_submissions
+    WHERE assignment_id = ?
+  `, [assignmentId], executor);
+  const submission = submissions[0];
+  if (!submission) return null;
+
+  const answers = await queryRows<RowDataPacket & { question_key: string; answer: string }>(`
+    SELECT q.question_key, a.answer
+    FROM review_form_answers a
+    INNER JOIN review_form_questions q ON q.id = a.question_id
+    WHERE a.submission_id = ?
+  `, [submission.id], executor);
+
+  return {
+    id: idString(submission.id),
+    assignmentId: idString(submission.assignment_id),
+    formType: submission.form_type_code,
+    formVersionId: idString(submission.form_version_id),
+    answers: Object.fromEntries(answers.map((row) => [row.question_key, row.answer])),
+    recommendation: submission.recommendation,
+    comments: submission.comments,
+    status: submission.status,
+    submittedAt: isoDateTime(submission.submitted_at),
+    updatedAt: isoDateTime(submission.updated_at) ?? '',
+  };
+}
+
+/**
+ * Saves the reviewer's answers. A draft accepts anything partially filled;
+ * submitting requires every required question and a recommendation, then
+ * marks the assignment completed and records the recommendation on it.
+ * Answers are always saved against the latest published version; a draft
+ * begun on an older version keeps the answers whose question keys still
+ * exist.
+ */
+export async function saveReviewSubmission(input: {
+  reviewerInternalId: string;
+  assignmentId: string;
+  answers: Record<string, unknown>;
+  recommendation?: string;
+  comments?: string;
+  submit: boolean;
+}): Promise<MysqlReviewSubmissionDto> {
+  return withTransaction(async (connection) => {
+    const assignments = await queryRows<RowDataPacket & {
+      protocol_id: string;
+      form_type_code: string | null;
+      status: string;
+      acceptance: string;
+    }>(`
+      SELECT CAST(pra.protocol_id AS CHAR) AS protocol_id, pra.form_type_code, pra.status, pra.acceptance
+      FROM protocol_reviewer_assignments pra
+      INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+      WHERE pra.id = ? AND pra.reviewer_id = ? AND pra.deleted_at IS NULL AND p.deleted_at IS NULL
+      FOR UPDATE
+    `, [input.assignmentId, input.reviewerInternalId], connection);
+    const assignment = assignments[0];
+    if (!assignment) throw new Error('Reviewer assignment was not found.');
+    if (assignment.status === 'completed') throw new Error('This review is already completed.');
+    if (assignment.acceptance === 'declined') throw new Error('You declined this review.');
+
+    const form = assignment.form_type_code ? await getReviewForm(assignment.form_type_code, connection) : null;
+    if (!form) throw new Error('This review has no in-app form.');
+
+    const questions = form.sections.flatMap((section) => section.questions);
+    const answers = new Map<string, string>();
+    for (const question of questions) {
+      const value = input.answers[question.key];
+      if (typeof value !== 'string') continue;
+      const answer = question.answerType === 'yes_no_na'
+        ? (YES_NO_ANSWERS.has(value) ? value : '')
+        : value.trim().slice(0, TEXT_ANSWER_LIMIT);
+      if (answer) answers.set(question.id, answer);
+    }
+    const recommendation = form.recommendations.find((choice) => choice.label === input.recommendation) ?? null;
+    const comments = nullableString(input.comments)?.slice(0, TEXT_ANSWER_LIMIT) ?? null;
+
+    if (input.submit) {
+      const missing = questions.filter((question) => question.required && !answers.has(question.id));
+      if (missing.length > 0) {
+        throw new Error(`Answer every required question before submitting (${missing.length} left).`);
+      }
+      if (!recommendation) throw new Error('Choose your recommendation before submitting.');
+    }
+
+    await connection.execute<ResultSetHeader>(`
+      INSERT INTO review_form_submissions (
+        assignment_id, form_type_code, form_version_id, recommendation, comments, status, submitted_at
+      ) VALUES (?, ?, ?, ?, ?, ?, CASE WHEN ? = 'submitted' THEN UTC_TIMESTAMP(6) ELSE NULL END)
+      ON DUPLICATE KEY UPDATE
+        form_type_code = VALUES(form_type_code),
+        form_version_id = VALUES(form_version_id),
+        recommendation = VALUES(recommendation),
+        comments = VALUES(comments),
+        status = VALUES(status),
+        submitted_at = CASE WHEN VALUES(status) = 'submitted' THEN UTC_TIMESTAMP(6) ELSE submitted_at END
+    `, [
+      input.assignmentId,
+      form.formType,
+      form.versionId,
+      recommendation?.label ?? null,
+      comments,
+      input.submit ? 'submitted' : 'draft',
+      input.submit ? 'submitted' : 'draft',
+    ]);
+    const submissions = await queryRows<RowDataPacket & { id: string }>(`
+      SELECT CAST(id AS CHAR) AS id FROM review_form_submissions WHERE assignment_id = ?
+    `, [input.assignmentId], connection);
+    const submissionId = idString(submissions[0].id);
+
+    await connection.execute<ResultSetHeader>(`
+      DELETE FROM review_form_answers WHERE submission_id = ?
+    `, [submissionId]);
+    for (const [questionId, answer] of answers) {
+      await connection.execute<ResultSetHeader>(`
+        INSERT INTO review_form_answers (submission_id, question_id, answer) VALUES (?, ?, ?)
+      `, [submissionId, questionId, answer]);
+    }
+
+    if (input.submit) {
+      await connection.execute<ResultSetHeader>(`
+        UPDATE protocol_reviewer_assignments
+        SET status = 'completed',
+            completed_at = UTC_TIMESTAMP(6),
+            responded_at = CASE WHEN acceptance <> 'accepted' THEN UTC_TIMESTAMP(6) ELSE responded_at END,
+            acceptance = 'accepted',
+            recommendation = ?,
+            recommendation_comments = ?,
+            recommendation_source = 'form',
+            recommended_at = UTC_TIMESTAMP(6)
+        WHERE id = ?
+      `, [recommendation?.outcome ?? null, comments, input.assignmentId]);
+      await syncProtocolReviewStatus(connection, assignment.protocol_id);
+      await connection.execute<ResultSetHeader>(`
+        INSERT INTO protocol_assignment_events (
+          protocol_id, assignment_id, event_type, to_reviewer_id,
+          status_after, occurred_at, completed_at, actor_type, actor_identifier
+        ) VALUES (?, ?, 'status_change', ?, 'completed', UTC_TIMESTAMP(6), UTC_TIMESTAMP(6), 'reviewer', ?)
+      `, [assignment.protocol_id, input.assignmentId, input.reviewerInternalId, input.reviewerInternalId]);
+    }
+
+    const saved = await getReviewSubmission(input.assignmentId, connection);
+    if (!saved) throw new Error('Review form was not saved.');
+    return saved;
+  });
+}
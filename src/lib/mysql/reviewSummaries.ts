@@ -0,0 +1,164 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { getRecommendedDecision, isReviewRecommendation, type ReviewRecommendation } from '@/lib/protocolLifecycle';
+import { queryRows, withTransaction } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import { getProtocolByInternalId } from './protocols';
+import type {
+  MysqlProtocolReviewSummaryDto,
+  MysqlRecommendationSource,
+  MysqlReviewAnswerType,
+  MysqlReviewSummaryEntryDto,
+} from './types';
+import { idString, isoDateTime, nullableString } from './values';
+
+interface RecommendationRow extends RowDataPacket {
+  id: string;
+  recommendation: string | null;
+  recommendation_comments: string | null;
+  recommendation_source: MysqlRecommendationSource | null;
+  recommended_at: string | null;
+  submitted_label: string | null;
+}
+
+interface AnswerRow extends RowDataPacket {
+  assignment_id: string;
+  prompt: string;
+  answer_type: MysqlReviewAnswerType;
+  answer: string;
+}
+
+const COMMENT_LIMIT = 4000;
+
+/**
+ * Everything the chair needs to decide a protocol: each reviewer's
+ * recommendation, comments and submitted answers for the current round,
+ * and whether the recommendations agree.
+ */
+export async function getProtocolReviewSummary(protocolId: string): Promise<MysqlProtocolReviewSummaryDto | null> {
+  const protocol = await getProtocolByInternalId(protocolId);
+  if (!protocol) return null;
+
+  const [recommendations, answers] = await Promise.all([
+    queryRows<RecommendationRow>(`
+      SELECT CAST(pra.id AS CHAR) AS id, pra.recommendation, pra.recommendation_comments,
+        pra.recommendation_source, pra.recommended_at,
+        CASE WHEN rs.status = 'submitted' THEN rs.recommendation END AS submitted_label
+      FROM protocol_reviewer_assignments pra
+      INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+      LEFT JOIN review_form_submissions rs ON rs.assignment_id = pra.id
+      WHERE pra.protocol_id = ? AND pra.deleted_at IS NULL
+    `, [protocolId]),
+    queryRows<AnswerRow>(`
+      SELECT CAST(rs.assignment_id AS CHAR) AS assignment_id, q.prompt, q.answer_type, a.answer
+      FROM review_form_submissions rs
+      INNER JOIN protocol_reviewer_assignments pra ON pra.id = rs.assignment_id AND pra.deleted_at IS NULL
+      INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+      INNER JOIN review_form_answers a ON a.submission_id = rs.id
+      INNER JOIN review_form_questions q ON q.id = a.question_id
+      INNER JOIN review_form_sections s ON s.id = q.section_id
+      WHERE pra.protocol_id = ? AND rs.status = 'submitted'
+      ORDER BY s.sort_order, q.sort_order, q.id
+    `, [protocolId]),
+  ]);
+  const recommendationsById = new Map(recommendations.map((row) => [idString(row.id), row]));
+
+  const reviews: MysqlReviewSummaryEntryDto[] = protocol.reviewers.map((reviewer) => {
+    const row = recommendationsById.get(reviewer.internalId);
+    // Reopened reviews keep their last recommendation, but it no longer counts.
+    const completed = reviewer.status === 'Completed';
+    const stored = row?.recommendation;
+    const recommendation = completed && isReviewRecommendation(stored) ? stored : null;
+    return {
+      assignmentId: reviewer.internalId,
+      reviewerName: reviewer.name,
+      formType: reviewer.form_type ?? '',
+      formName: reviewer.form_name || reviewer.form_type || '',
+      status: reviewer.status,
+      completedAt: reviewer.completed_at ?? null,
+      recommendation,
+      recommendationLabel: recommendation && row?.recommendation_source === 'form' ? row.submitted_label : null,
+      comments: recommendation ? row?.recommendation_comments ?? null : null,
+      source: recommendation ? row?.recommendation_source ?? null : null,
+      recommendedAt: recommendation ? isoDateTime(row?.recommended_at) : null,
+      hasReviewForm: reviewer.has_review_form === true,
+      answers: completed
+        ? answers
+          .filter((answer) => idString(answer.assignment_id) === reviewer.internalId)
+          .map((answer) => ({ prompt: answer.prompt, answerType: answer.answer_type, answer: answer.answer }))
+        : [],
+    };
+  });
+
+  const given = new Set(reviews.flatMap((review) => review.recommendation ? [review.recommendation] : []));
+  const allComplete = reviews.length > 0 && reviews.every((review) => review.status === 'Completed');
+  const allRecommended = allComplete && reviews.every((review) => review.recommendation);
+  const [consensus] = given;
+
+  return {
+    protocol,
+    reviews,
+    allComplete,
+    disagreement: given.size > 1,
+    suggestedDecision: allRecommended && given.size === 1 ? getRecommendedDecision(consensus) : null,
+  };
+}
+
+/**
+ * Records the recommendation for a completed review that was returned outside
+ * the app, such as through Microsoft Forms. Reviews submitted on an in-app
+ * form keep the reviewer's own recommendation.
+ */
+export async function recordAssignmentRecommendation(input: {
+  protocolId: string;
+  assignmentId: string;
+  recommendation: ReviewRecommendation;
+  comments?: string;
+  actor: AdminAuditActor;
+}): Promise<void> {
+  const comments = nullableString(input.comments);
+  if (comments && comments.length > COMMENT_LIMIT) {
+    throw new Error(`Comments must be ${COMMENT_LIMIT} characters or fewer.`);
+  }
+
+  await withTransaction(async (connection) => {
+    const assignments = await queryRows<RowDataPacket & {
+      status: string;
+      recommendation: string | null;
+      recommendation_comments: string | null;
+      recommendation_source: MysqlRecommendationSource | null;
+    }>(`
+      SELECT pra.status, pra.recommendation, pra.recommendation_comments, pra.recommendation_source
+      FROM protocol_reviewer_assignments pra
+      INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+      WHERE pra.id = ? AND pra.protocol_id = ? AND pra.deleted_at IS NULL AND p.deleted_at IS NULL
+      FOR UPDATE
+    `, [input.assignmentId, input.protocolId], connection);
+    const assignment = assignments[0];
+    if (!assignment) throw new Error('Reviewer assignment was not found.');
+    if (assignment.status !== 'completed') {
+      throw new Error('Mark the review as completed before recording its recommendation.');
+    }
+    if (assignment.recommendation_source === 'form') {
+      throw new Error('This recommendation comes from the reviewer\'s submitted review form.');
+    }
+
+    await connection.execute<ResultSetHeader>(`
+      UPDATE protocol_reviewer_assignments
+      SET recommendation = ?, recommendation_comments = ?, recommendation_source = 'admin',
+          recommended_at = UTC_TIMESTAMP(6)
+      WHERE id = ?
+    `, [input.recommendation, comments, input.assignmentId]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'assignment.recommendation',
+      entityType: 'assignment',
+      entityId: input.assignmentId,
+      before: assignment.recommendation
+        ? { recommendation: assignment.recommendation, comments: assignment.recommendation_comments }
+        : null,
+      after: { recommendation: input.recommendation, comments },
+    });
+  });
+}
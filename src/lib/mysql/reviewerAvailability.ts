@@ -0,0 +1,248 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { queryRows, withTransaction, type MysqlExecutor } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import type {
+  MysqlAssignmentWarningDto,
+  MysqlReviewerAvailabilityDto,
+  MysqlReviewerLeaveDto,
+} from './types';
+import { dateOnly, finiteNumber, idString, isoDateTime, nullableString } from './values';
+
+interface LeaveRow extends RowDataPacket {
+  id: string;
+  reviewer_id: string;
+  starts_on: string;
+  ends_on: string;
+  note: string | null;
+  created_at: string;
+}
+
+function mapLeave(row: LeaveRow): MysqlReviewerLeaveDto {
+  return {
+    id: idString(row.id),
+    startsOn: dateOnly(row.starts_on),
+    endsOn: dateOnly(row.ends_on),
+    note: row.note,
+    createdAt: isoDateTime(row.created_at) ?? '',
+  };
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function validDate(value: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : '';
+}
+
+export async function getReviewerAvailability(reviewerInternalId: string): Promise<MysqlReviewerAvailabilityDto> {
+  const [reviewers, leave] = await Promise.all([
+    queryRows<RowDataPacket & { max_reviews_per_release: number | null }>(`
+      SELECT max_reviews_per_release FROM reviewers WHERE id = ? AND deleted_at IS NULL
+    `, [reviewerInternalId]),
+    queryRows<LeaveRow>(`
+      SELECT CAST(id AS CHAR) AS id, CAST(reviewer_id AS CHAR) AS reviewer_id,
+        starts_on, ends_on, note, created_at
+      FROM reviewer_leave_periods
+      WHERE reviewer_id = ? AND deleted_at IS NULL AND ends_on >= UTC_DATE()
+      ORDER BY starts_on, ends_on
+    `, [reviewerInternalId]),
+  ]);
+  if (!reviewers[0]) throw new Error('Reviewer not found.');
+
+  const limit = reviewers[0].max_reviews_per_release;
+  return {
+    maxReviewsPerRelease: limit === null ? null : finiteNumber(limit),
+    leave: leave.map(mapLeave),
+  };
+}
+
+export async function setReviewerCapacity(input: {
+  reviewerInternalId: string;
+  maxReviewsPerRelease: number | null;
+  actor: AdminAuditActor | null;
+}): Promise<void> {
+  const limit = input.maxReviewsPerRelease;
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1 || limit > 50)) {
+    throw new Error('Capacity must be a whole number from 1 to 50, or empty for no limit.');
+  }
+
+  await withTransaction(async (connection) => {
+    const rows = await queryRows<RowDataPacket & { access_code: string; max_reviews_per_release: number | null }>(`
+      SELECT access_code, max_reviews_per_release FROM reviewers
+      WHERE id = ? AND deleted_at IS NULL FOR UPDATE
+    `, [input.reviewerInternalId], connection);
+    if (!rows[0]) throw new Error('Reviewer not found.');
+
+    await connection.execute<ResultSetHeader>(`
+      UPDATE reviewers SET max_reviews_per_release = ? WHERE id = ?
+    `, [limit, input.reviewerInternalId]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'reviewer.update',
+      entityType: 'reviewer',
+      entityId: rows[0].access_code,
+      before: { maxReviewsPerRelease: rows[0].max_reviews_per_release },
+      after: { maxReviewsPerRelease: limit },
+    });
+  });
+}
+
+export async function addReviewerLeave(input: {
+  reviewerInternalId: string;
+  startsOn: string;
+  endsOn: string;
+  note?: string;
+  actor: AdminAuditActor | null;
+}): Promise<MysqlReviewerLeaveDto> {
+  const startsOn = validDate(input.startsOn);
+  const endsOn = validDate(input.endsOn);
+  if (!startsOn || !endsOn) throw new Error('Choose the first and last day of the leave.');
+  if (endsOn < startsOn) throw new Error('The leave cannot end before it starts.');
+
+  return withTransaction(async (connection) => {
+    const reviewers = await queryRows<RowDataPacket & { access_code: string }>(`
+      SELECT access_code FROM reviewers WHERE id = ? AND deleted_at IS NULL
+    `, [input.reviewerInternalId], connection);
+    if (!reviewers[0]) throw new Error('Reviewer not found.');
+
+    const [result] = await connection.execute<ResultSetHeader>(`
+      INSERT INTO reviewer_leave_periods (reviewer_id, starts_on, ends_on, note, created_by_admin_id, created_at)
+      VALUES (?, ?, ?, ?, ?, UTC_TIMESTAMP(6))
+    `, [input.reviewerInternalId, startsOn, endsOn, nullableString(input.note)?.slice(0, 255) ?? null, input.actor?.id ?? null]);
+    const rows = await queryRows<LeaveRow>(`
+      SELECT CAST(id AS CHAR) AS id, CAST(reviewer_id AS CHAR) AS reviewer_id,
+        starts_on, ends_on, note, created_at
+      FROM reviewer_leave_periods WHERE id = ?
+    `, [result.insertId], connection);
+    const leave = mapLeave(rows[0]);
+
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'reviewer_leave.create',
+      entityType: 'reviewer',
+      entityId: reviewers[0].access_code,
+      after: { startsOn: leave.startsOn, endsOn: leave.endsOn, note: leave.note },
+    });
+    return leave;
+  });
+}
+
+export async function removeReviewerLeave(input: {
+  reviewerInternalId: string;
+  leaveId: string;
+  actor: AdminAuditActor | null;
+}): Promise<void> {
+  await withTransaction(async (connection) => {
+    const rows = await queryRows<LeaveRow & { access_code: string }>(`
+      SELECT CAST(rl.id AS CHAR) AS id, CAST(rl.reviewer_id AS CHAR) AS reviewer_id,
+        rl.starts_on, rl.ends_on, rl.note, rl.created_at, r.access_code
+      FROM reviewer_leave_periods rl
+      INNER JOIN reviewers r ON r.id = rl.reviewer_id
+      WHERE rl.id = ? AND rl.reviewer_id = ? AND rl.deleted_at IS NULL
+      FOR UPDATE
+    `, [input.leaveId, input.reviewerInternalId], connection);
+    if (!rows[0]) throw new Error('Leave period not found.');
+
+    await connection.execute<ResultSetHeader>(`
+      UPDATE reviewer_leave_periods SET deleted_at = UTC_TIMESTAMP(6) WHERE id = ?
+    `, [input.leaveId]);
+    const leave = mapLeave(rows[0]);
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'reviewer_leave.delete',
+      entityType: 'reviewer',
+      entityId: rows[0].access_code,
+      before: { startsOn: leave.startsOn, endsOn: leave.endsOn, note: leave.note },
+      after: null,
+    });
+  });
+}
+
+/** Reviewers on leave on the given day, mapped to the last day of that leave. */
+export async function listReviewersOnLeave(date = today()): Promise<Map<string, string>> {
+  const rows = await queryRows<RowDataPacket & { reviewer_id: string; ends_on: string }>(`
+    SELECT CAST(reviewer_id AS CHAR) AS reviewer_id, MAX(ends_on) AS ends_on
+    FROM reviewer_leave_periods
+    WHERE deleted_at IS NULL AND starts_on <= ? AND ends_on >= ?
+    GROUP BY reviewer_id
+  `, [date, date]);
+  return new Map(rows.map((row) => [idString(row.reviewer_id), dateOnly(row.ends_on)]));
+}
+
+/**
+ * Warnings for reviewers just given a slot on the protocol: leave that
+ * overlaps the time until the review is due, and more reviews in the
+ * protocol's release than the reviewer takes. Run after the assignments are
+ * written so the new ones are counted.
+ */
+export async function findAvailabilityWarnings(
+  executor: MysqlExecutor,
+  protocolId: string,
+  assignments: Array<{ reviewerInternalId: string; dueDate: string | null }>
+): Promise<MysqlAssignmentWarningDto[]> {
+  const ids = [...new Set(assignments.map((assignment) => assignment.reviewerInternalId))];
+  if (ids.length === 0) return [];
+
+  const placeholders = ids.map(() => '?').join(', ');
+  const [reviewers, leave] = await Promise.all([
+    queryRows<RowDataPacket & {
+      id: string;
+      access_code: string;
+      full_name: string;
+      max_reviews_per_release: number | null;
+      release_reviews: number;
+    }>(`
+      SELECT CAST(r.id AS CHAR) AS id, r.access_code, r.full_name, r.max_reviews_per_release,
+        (
+          SELECT COUNT(*)
+          FROM protocol_reviewer_assignments pra
+          INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+          WHERE pra.reviewer_id = r.id AND pra.deleted_at IS NULL AND p.deleted_at IS NULL
+            AND p.protocol_week_id = (SELECT protocol_week_id FROM protocols WHERE id = ?)
+        ) AS release_reviews
+      FROM reviewers r
+      WHERE r.id IN (${placeholders})
+    `, [protocolId, ...ids], executor),
+    queryRows<LeaveRow>(`
+      SELECT CAST(id AS CHAR) AS id, CAST(reviewer_id AS CHAR) AS reviewer_id,
+        starts_on, ends_on, note, created_at
+      FROM reviewer_leave_periods
+      WHERE reviewer_id IN (${placeholders}) AND deleted_at IS NULL AND ends_on >= UTC_DATE()
+      ORDER BY starts_on
+    `, ids, executor),
+  ]);
+
+  const warnings: MysqlAssignmentWarningDto[] = [];
+  const from = today();
+  for (const reviewer of reviewers) {
+    const reviewerId = idString(reviewer.id);
+    const dueDates = assignments
+      .filter((assignment) => assignment.reviewerInternalId === reviewerId)
+      .map((assignment) => dateOnly(assignment.dueDate) || from);
+    const until = dueDates.sort().at(-1) ?? from;
+    const away = leave.find((period) =>
+      idString(period.reviewer_id) === reviewerId && dateOnly(period.starts_on) <= until
+    );
+    if (away) {
+      warnings.push({
+        reviewerId: reviewer.access_code,
+        reviewerName: reviewer.full_name,
+        reason: `is on leave from ${dateOnly(away.starts_on)} to ${dateOnly(away.ends_on)}.`,
+      });
+    }
+
+    const limit = reviewer.max_reviews_per_release;
+    const count = finiteNumber(reviewer.release_reviews);
+    if (limit !== null && count > finiteNumber(limit)) {
+      warnings.push({
+        reviewerId: reviewer.access_code,
+        reviewerName: reviewer.full_name,
+        reason: `now has ${count} reviews in this release but takes at most ${limit}.`,
+      });
+    }
+  }
+  return warnings;
+}
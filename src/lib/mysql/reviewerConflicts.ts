@@ -0,0 +1,312 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { queryRows, withTransaction, type MysqlExecutor, type MysqlParameter } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import type { MysqlAssignmentConflictDto, MysqlReviewerConflictDto } from './types';
+import { booleanValue, idString, isoDateTime, normalizeReviewerLookup, nullableString } from './values';
+
+/**
+ * Raised when an assignment would give a protocol to a conflicted reviewer.
+ * Blocking conflicts cannot be overridden; the rest can be confirmed by
+ * saving again with `acknowledgeConflicts`.
+ */
+export class ReviewerConflictError extends Error {
+  readonly conflicts: MysqlAssignmentConflictDto[];
+
+  constructor(conflicts: MysqlAssignmentConflictDto[]) {
+    super(conflicts.map((conflict) => `${conflict.reviewerName} ${conflict.reason}`).join(' '));
+    this.name = 'ReviewerConflictError';
+    this.conflicts = conflicts;
+  }
+
+  get blocking(): boolean {
+    return this.conflicts.some((conflict) => conflict.blocking);
+  }
+}
+
+interface ConflictRow extends RowDataPacket {
+  id: string;
+  reviewer_internal_id: string;
+  access_code: string;
+  full_name: string;
+  protocol_internal_id: string | null;
+  rec_code: string | null;
+  course_program: string | null;
+  reason: string;
+  blocks_assignment: number;
+  declared_by: 'reviewer' | 'admin';
+  created_at: string;
+  revoked_at: string | null;
+}
+
+const CONFLICT_SELECT = `
+  SELECT CAST(rc.id AS CHAR) AS id, CAST(r.id AS CHAR) AS reviewer_internal_id,
+    r.access_code, r.full_name, CAST(rc.protocol_id AS CHAR) AS protocol_internal_id,
+    p.rec_code, rc.course_program, rc.reason, rc.blocks_assignment, rc.declared_by,
+    rc.created_at, rc.revoked_at
+  FROM reviewer_conflicts rc
+  INNER JOIN reviewers r ON r.id = rc.reviewer_id
+  LEFT JOIN protocols p ON p.id = rc.protocol_id`;
+
+function mapConflict(row: ConflictRow): MysqlReviewerConflictDto {
+  return {
+    id: idString(row.id),
+    reviewerInternalId: idString(row.reviewer_internal_id),
+    reviewerId: row.access_code,
+    reviewerName: row.full_name,
+    protocolInternalId: row.protocol_internal_id ? idString(row.protocol_internal_id) : null,
+    recCode: row.rec_code,
+    courseProgram: row.course_program,
+    reason: row.reason,
+    blocking: booleanValue(row.blocks_assignment),
+    declaredBy: row.declared_by,
+    createdAt: isoDateTime(row.created_at) ?? '',
+    revokedAt: isoDateTime(row.revoked_at),
+  };
+}
+
+function conflictSnapshot(conflict: MysqlReviewerConflictDto) {
+  return {
+    reviewer: conflict.reviewerId,
+    protocol: conflict.recCode,
+    courseProgram: conflict.courseProgram,
+    reason: conflict.reason,
+    blocking: conflict.blocking,
+    revokedAt: conflict.revokedAt,
+  };
+}
+
+const NAME_TITLES = new Set(['dr', 'prof', 'mr', 'mrs', 'ms', 'engr', 'atty', 'sr', 'fr', 'rev']);
+
+/**
+ * The people named in a free-text field, one normalised name each. Lists are
+ * split on commas, semicolons, ampersands and "and"; leading titles such as
+ * "Dr." are dropped so they do not hide a match.
+ */
+function personNames(value: unknown): string[] {
+  return String(value ?? '')
+    .split(/[,;&]|\band\b/i)
+    .map((part) => {
+      const words = part.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+      while (words.length > 1 && NAME_TITLES.has(words[0])) words.shift();
+      return normalizeReviewerLookup(words.join(''));
+    })
+    .filter(Boolean);
+}
+
+/**
+ * Conflicts that follow from the protocol itself: the reviewer is its
+ * adviser or is named among its investigators. Only whole names are
+ * compared, so "Mae Lim" does not match "Rosemae Limon".
+ */
+export function automaticConflictReason(
+  reviewerName: string,
+  protocol: { adviser?: string | null; principalInvestigator?: string | null }
+): string | null {
+  const [name] = personNames(reviewerName);
+  if (!name) return null;
+  if (personNames(protocol.adviser).includes(name)) return 'is the adviser of this protocol.';
+  if (personNames(protocol.principalInvestigator).includes(name)) {
+    return 'is listed as an investigator on this protocol.';
+  }
+  return null;
+}
+
+/** Every active conflict between the given reviewers and a protocol. */
+export async function findAssignmentConflicts(
+  executor: MysqlExecutor,
+  protocolId: string,
+  reviewerInternalIds: string[]
+): Promise<MysqlAssignmentConflictDto[]> {
+  const ids = [...new Set(reviewerInternalIds)];
+  if (ids.length === 0) return [];
+
+  const protocols = await queryRows<RowDataPacket & {
+    adviser: string;
+    principal_investigator: string;
+    course_program: string;
+  }>(`
+    SELECT adviser, principal_investigator, course_program FROM protocols WHERE id = ?
+  `, [protocolId], executor);
+  const protocol = protocols[0];
+  if (!protocol) return [];
+
+  const placeholders = ids.map(() => '?').join(', ');
+  const reviewers = await queryRows<RowDataPacket & { id: string; access_code: string; full_name: string }>(`
+    SELECT CAST(id AS CHAR) AS id, access_code, full_name FROM reviewers WHERE id IN (${placeholders})
+  `, ids, executor);
+  const recorded = await queryRows<ConflictRow>(`
+    ${CONFLICT_SELECT}
+    WHERE rc.reviewer_id IN (${placeholders}) AND rc.revoked_at IS NULL
+      AND (rc.protocol_id = ? OR (rc.course_program IS NOT NULL AND LOWER(rc.course_program) = LOWER(?)))
+    ORDER BY rc.blocks_assignment DESC, rc.created_at
+  `, [...ids, protocolId, protocol.course_program.trim()], executor);
+
+  const conflicts: MysqlAssignmentConflictDto[] = [];
+  for (const reviewer of reviewers) {
+    const reason = automaticConflictReason(reviewer.full_name, {
+      adviser: protocol.adviser,
+      principalInvestigator: protocol.principal_investigator,
+    });
+    if (reason) {
+      conflicts.push({ reviewerId: reviewer.access_code, reviewerName: reviewer.full_name, reason, blocking: true });
+    }
+  }
+  for (const row of recorded) {
+    conflicts.push({
+      reviewerId: row.access_code,
+      reviewerName: row.full_name,
+      reason: row.protocol_internal_id
+        ? `declared a conflict on this protocol: ${row.reason}`
+        : `has a standing conflict for ${row.course_program}: ${row.reason}`,
+      blocking: booleanValue(row.blocks_assignment),
+    });
+  }
+  return conflicts;
+}
+
+/** Throws unless every conflict is non-blocking and the admin confirmed it. */
+export async function assertAssignable(
+  executor: MysqlExecutor,
+  protocolId: string,
+  reviewerInternalIds: string[],
+  acknowledgeConflicts = false
+): Promise<void> {
+  const conflicts = await findAssignmentConflicts(executor, protocolId, reviewerInternalIds);
+  if (conflicts.some((conflict) => conflict.blocking) || (conflicts.length > 0 && !acknowledgeConflicts)) {
+    throw new ReviewerConflictError(conflicts);
+  }
+}
+
+export async function listReviewerConflicts(filters: {
+  reviewerInternalId?: string;
+  protocolInternalId?: string;
+  includeRevoked?: boolean;
+} = {}): Promise<MysqlReviewerConflictDto[]> {
+  const clauses = [filters.includeRevoked ? '1 = 1' : 'rc.revoked_at IS NULL'];
+  const values: MysqlParameter[] = [];
+  if (filters.reviewerInternalId) {
+    clauses.push('rc.reviewer_id = ?');
+    values.push(filters.reviewerInternalId);
+  }
+  if (filters.protocolInternalId) {
+    clauses.push('rc.protocol_id = ?');
+    values.push(filters.protocolInternalId);
+  }
+
+  const rows = await queryRows<ConflictRow>(`
+    ${CONFLICT_SELECT}
+    WHERE ${clauses.join(' AND ')}
+    ORDER BY rc.revoked_at IS NOT NULL, rc.created_at DESC
+  `, values);
+  return rows.map(mapConflict);
+}
+
+async function getConflict(executor: MysqlExecutor, conflictId: string): Promise<MysqlReviewerConflictDto | null> {
+  const rows = await queryRows<ConflictRow>(`${CONFLICT_SELECT} WHERE rc.id = ?`, [conflictId], executor);
+  return rows[0] ? mapConflict(rows[0]) : null;
+}
+
+/** Admin-recorded conflict on one protocol or a standing one for a course or program. */
+export async function recordReviewerConflict(input: {
+  reviewerInternalId: string;
+  protocolInternalId?: string;
+  courseProgram?: string;
+  reason: string;
+  blocking: boolean;
+  actor: AdminAuditActor | null;
+}): Promise<MysqlReviewerConflictDto> {
+  const reason = input.reason.trim();
+  const courseProgram = nullableString(input.courseProgram);
+  const protocolId = nullableString(input.protocolInternalId);
+  if (!reason) throw new Error('Describe the conflict.');
+  if (!protocolId === !courseProgram) throw new Error('Choose either a protocol or a course or program.');
+
+  return withTransaction(async (connection) => {
+    const reviewers = await queryRows<RowDataPacket & { id: string }>(`
+      SELECT CAST(id AS CHAR) AS id FROM reviewers WHERE id = ? AND deleted_at IS NULL
+    `, [input.reviewerInternalId], connection);
+    if (!reviewers[0]) throw new Error('Reviewer not found.');
+
+    const [result] = await connection.execute<ResultSetHeader>(`
+      INSERT INTO reviewer_conflicts (
+        reviewer_id, protocol_id, course_program, reason, blocks_assignment,
+        declared_by, created_by_admin_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, 'admin', ?, UTC_TIMESTAMP(6))
+    `, [input.reviewerInternalId, protocolId, courseProgram, reason.slice(0, 500), input.blocking, input.actor?.id ?? null]);
+    const conflict = await getConflict(connection, String(result.insertId));
+    if (!conflict) throw new Error('Conflict was not saved.');
+
+    await recordAdminAudit(connection, {
+      actor: input.actor,
+      action: 'reviewer_conflict.create',
+      entityType: 'reviewer_conflict',
+      entityId: conflict.id,
+      after: conflictSnapshot(conflict),
+    });
+    return conflict;
+  });
+}
+
+/** Reviewer declaration from the portal; only for protocols assigned to them. */
+export async function declareReviewerConflict(input: {
+  reviewerInternalId: string;
+  protocolInternalId: string;
+  reason: string;
+}): Promise<MysqlReviewerConflictDto> {
+  const reason = input.reason.trim();
+  if (!reason) throw new Error('Describe the conflict.');
+
+  return withTransaction(async (connection) => {
+    const assignments = await queryRows<RowDataPacket & { id: string }>(`
+      SELECT CAST(pra.id AS CHAR) AS id
+      FROM protocol_reviewer_assignments pra
+      INNER JOIN protocols p ON p.id = pra.protocol_id AND p.current_round_id = pra.review_round_id
+      WHERE pra.protocol_id = ? AND pra.reviewer_id = ?
+        AND pra.deleted_at IS NULL AND p.deleted_at IS NULL
+      LIMIT 1
+    `, [input.protocolInternalId, input.reviewerInternalId], connection);
+    if (!assignments[0]) throw new Error('Protocol is not assigned to this reviewer.');
+
+    const existing = await queryRows<RowDataPacket & { id: string }>(`
+      SELECT CAST(id AS CHAR) AS id FROM reviewer_conflicts
+      WHERE reviewer_id = ? AND protocol_id = ? AND revoked_at IS NULL
+      LIMIT 1
+    `, [input.reviewerInternalId, input.protocolInternalId], connection);
+    const conflictId = existing[0]
+      ? idString(existing[0].id)
+      : String((await connection.execute<ResultSetHeader>(`
+          INSERT INTO reviewer_conflicts (
+            reviewer_id, protocol_id, reason, blocks_assignment, declared_by, created_at
+          ) VALUES (?, ?, ?, TRUE, 'reviewer', UTC_TIMESTAMP(6))
+        `, [input.reviewerInternalId, input.protocolInternalId, reason.slice(0, 500)]))[0].insertId);
+
+    const conflict = await getConflict(connection, conflictId);
+    if (!conflict) throw new Error('Conflict was not saved.');
+    return conflict;
+  });
+}
+
+export async function revokeReviewerConflict(conflictId: string, actor: AdminAuditActor | null): Promise<void> {
+  await withTransaction(async (connection) => {
+    const before = await getConflict(connection, conflictId);
+    if (!before || before.revokedAt) throw new Error('Conflict not found.');
+
+    await connection.execute<ResultSetHeader>(`
+      UPDATE reviewer_conflicts
+      SET revoked_at = UTC_TIMESTAMP(6), revoked_by_admin_id = ?
+      WHERE id = ?
+    `, [actor?.id ?? null, conflictId]);
+    const after = await getConflict(connection, conflictId);
+
+    await recordAdminAudit(connection, {
+      actor,
+      action: 'reviewer_conflict.revoke',
+      entityType: 'reviewer_conflict',
+      entityId: conflictId,
+      before: conflictSnapshot(before),
+      after: after ? conflictSnapshot(after) : null,
+    });
+  });
+}
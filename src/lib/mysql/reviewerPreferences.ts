@@ -0,0 +1,148 @@
+import 'server-only';
+
+import { randomUUID } from 'node:crypto';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { mysqlPool, queryRows, type MysqlExecutor } from './db';
+import type { MysqlReviewerNotificationPreferencesDto } from './types';
+import { booleanValue, dateOnly, idString } from './values';
+
+interface PreferencesRow extends RowDataPacket {
+  reviewer_id: string;
+  delivery_mode: string;
+  reminder_lead_days: number | null;
+  notice_emails: number;
+}
+
+interface DigestItemRow extends RowDataPacket {
+  reviewer_id: string;
+  notification_type: string;
+  rec_code: string;
+  title: string;
+  form_type: string;
+  due_date: string | null;
+}
+
+export const DEFAULT_REVIEWER_NOTIFICATION_PREFERENCES: MysqlReviewerNotificationPreferencesDto = {
+  deliveryMode: 'immediate',
+  reminderLeadDays: null,
+  noticeEmails: true,
+};
+
+/** One protocol line held for a reviewer's daily digest. */
+export interface ReviewerDigestItem {
+  reviewerId: string;
+  notificationType: string;
+  recCode: string;
+  title: string;
+  formType: string;
+  dueDate: string;
+}
+
+function mapPreferences(row: PreferencesRow): MysqlReviewerNotificationPreferencesDto {
+  return {
+    deliveryMode: row.delivery_mode === 'daily_digest' ? 'daily_digest' : 'immediate',
+    reminderLeadDays: row.reminder_lead_days === null ? null : Number(row.reminder_lead_days),
+    noticeEmails: booleanValue(row.notice_emails),
+  };
+}
+
+export async function getReviewerNotificationPreferences(
+  reviewerInternalId: string
+): Promise<MysqlReviewerNotificationPreferencesDto> {
+  const rows = await queryRows<PreferencesRow>(`
+    SELECT CAST(reviewer_id AS CHAR) AS reviewer_id, delivery_mode, reminder_lead_days, notice_emails
+    FROM reviewer_notification_preferences WHERE reviewer_id = ?
+  `, [reviewerInternalId]);
+  return rows[0] ? mapPreferences(rows[0]) : { ...DEFAULT_REVIEWER_NOTIFICATION_PREFERENCES };
+}
+
+/** Saved preferences by reviewer internal id; reviewers who never changed theirs are absent and use the defaults. */
+export async function listReviewerNotificationPreferences(): Promise<Map<string, MysqlReviewerNotificationPreferencesDto>> {
+  const rows = await queryRows<PreferencesRow>(`
+    SELECT CAST(reviewer_id AS CHAR) AS reviewer_id, delivery_mode, reminder_lead_days, notice_emails
+    FROM reviewer_notification_preferences
+  `);
+  return new Map(rows.map((row) => [idString(row.reviewer_id), mapPreferences(row)]));
+}
+
+/** Saved by the reviewer, from the portal or a preferences link, so there is no admin audit entry. */
+export async function saveReviewerNotificationPreferences(
+  reviewerInternalId: string,
+  preferences: MysqlReviewerNotificationPreferencesDto
+): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    INSERT INTO reviewer_notification_preferences (
+      reviewer_id, delivery_mode, reminder_lead_days, notice_emails
+    ) VALUES (?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE
+      delivery_mode = VALUES(delivery_mode),
+      reminder_lead_days = VALUES(reminder_lead_days),
+      notice_emails = VALUES(notice_emails)
+  `, [reviewerInternalId, preferences.deliveryMode, preferences.reminderLeadDays, preferences.noticeEmails]);
+}
+
+/**
+ * Holds protocol lines from a batch for the reviewers' next daily digest.
+ * Runs on the connection that records the batch, so a delivery skipped for
+ * the digest never exists without its held lines.
+ */
+export async function holdReviewerDigestItems(
+  executor: MysqlExecutor,
+  sourceBatchId: string,
+  items: ReviewerDigestItem[]
+): Promise<void> {
+  for (const item of items) {
+    await executor.execute<ResultSetHeader>(`
+      INSERT INTO reviewer_digest_items (
+        reviewer_id, source_mail_batch_id, notification_type, rec_code, title, form_type, due_date, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, UTC_TIMESTAMP(6))
+    `, [
+      item.reviewerId, sourceBatchId, item.notificationType, item.recCode.slice(0, 100),
+      item.title, item.formType.slice(0, 64), item.dueDate || null,
+    ]);
+  }
+}
+
+/**
+ * Claims every held item not yet sent in a digest, so overlapping cron runs
+ * never send the same items twice. A claim left by a run that stopped is
+ * taken over after an hour. Returns the claim token and the items.
+ */
+export async function claimReviewerDigestItems(): Promise<{ token: string; items: ReviewerDigestItem[] }> {
+  const token = randomUUID();
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE reviewer_digest_items SET claim_token = ?, claimed_at = UTC_TIMESTAMP(6)
+    WHERE digest_mail_batch_id IS NULL
+      AND (claim_token IS NULL OR claimed_at < UTC_TIMESTAMP(6) - INTERVAL 1 HOUR)
+  `, [token]);
+  const rows = await queryRows<DigestItemRow>(`
+    SELECT CAST(reviewer_id AS CHAR) AS reviewer_id, notification_type, rec_code, title, form_type, due_date
+    FROM reviewer_digest_items WHERE claim_token = ?
+    ORDER BY reviewer_id, due_date, rec_code, id
+  `, [token]);
+  return {
+    token,
+    items: rows.map((row) => ({
+      reviewerId: idString(row.reviewer_id),
+      notificationType: row.notification_type,
+      recCode: row.rec_code,
+      title: row.title,
+      formType: row.form_type,
+      dueDate: dateOnly(row.due_date),
+    })),
+  };
+}
+
+export async function completeReviewerDigestItems(token: string, digestBatchId: string): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE reviewer_digest_items SET digest_mail_batch_id = ? WHERE claim_token = ?
+  `, [digestBatchId, token]);
+}
+
+/** Returns claimed items to the pending pool after a digest could not be queued. */
+export async function releaseReviewerDigestItems(token: string): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE reviewer_digest_items SET claim_token = NULL, claimed_at = NULL
+    WHERE claim_token = ? AND digest_mail_batch_id IS NULL
+  `, [token]);
+}
@@ -0,0 +1,148 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+import { queryRows } from './db';
+import type { MysqlReviewerSuggestionDto } from './types';
+import { REVIEWER_EXPERTISE_SQL } from './expertiseTags';
+import { automaticConflictReason } from './reviewerConflicts';
+import { booleanValue, finiteNumber, idString, normalizeReviewerLookup, tagList } from './values';
+
+export interface ReviewerSuggestionInput {
+  formTypes: string[];
+  courseProgram?: string;
+  adviser?: string;
+  principalInvestigator?: string;
+  /** The protocol's expertise tags; reviewers carrying them rank higher. */
+  expertiseTags?: string[];
+  /** Set when editing, so conflicts declared on the protocol are honoured. */
+  protocolInternalId?: string;
+  /** Access codes already on the protocol; they are never proposed again. */
+  excludeReviewerIds?: string[];
+  /** Alternatives listed per form type besides the proposal. */
+  alternatives?: number;
+}
+
+export interface ReviewerSuggestionSet {
+  formType: string;
+  proposal: MysqlReviewerSuggestionDto | null;
+  alternatives: MysqlReviewerSuggestionDto[];
+}
+
+interface CandidateRow extends RowDataPacket {
+  internal_id: string;
+  access_code: string;
+  full_name: string;
+  open_load: number;
+  turnaround_days: number | null;
+  program_reviews: number;
+  has_conflict: number;
+  on_leave: number;
+  expertise: string | null;
+}
+
+/** Turnaround is averaged over reviews completed in this window. */
+const TURNAROUND_WINDOW_DAYS = 365;
+
+/**
+ * Lower is better: each open review costs a point, each week of average
+ * turnaround half a point, and up to five earlier reviews for the same
+ * course or program earn a third of a point each. Each of the protocol's
+ * expertise tags the reviewer carries takes off a point. Reviewers without a
+ * completed review are scored as if they took two weeks.
+ */
+function scoreCandidate(row: CandidateRow, matchedTags: string[]): number {
+  const turnaround = row.turnaround_days === null ? 14 : finiteNumber(row.turnaround_days);
+  return finiteNumber(row.open_load)
+    + turnaround / 14
+    - Math.min(finiteNumber(row.program_reviews), 5) / 3
+    - matchedTags.length;
+}
+
+function mapCandidate(row: CandidateRow, wantedTags: Set<string>): MysqlReviewerSuggestionDto {
+  const matchedTags = tagList(row.expertise).filter((tag) => wantedTags.has(tag.toLowerCase()));
+  return {
+    internalId: idString(row.internal_id),
+    id: row.access_code,
+    name: row.full_name,
+    openLoad: finiteNumber(row.open_load),
+    turnaroundDays: row.turnaround_days === null ? null : Math.round(finiteNumber(row.turnaround_days) * 10) / 10,
+    programReviews: finiteNumber(row.program_reviews),
+    matchedTags,
+    score: Math.round(scoreCandidate(row, matchedTags) * 100) / 100,
+  };
+}
+
+/**
+ * Ranks active reviewers for each required form type. Conflicted reviewers
+ * (including the protocol's adviser), reviewers on leave today, and reviewers
+ * already on the protocol are left out, and a reviewer is proposed for at
+ * most one form type.
+ */
+export async function suggestReviewers(input: ReviewerSuggestionInput): Promise<ReviewerSuggestionSet[]> {
+  const courseProgram = input.courseProgram?.trim() ?? '';
+  const rows = await queryRows<CandidateRow>(`
+    SELECT
+      CAST(r.id AS CHAR) AS internal_id,
+      r.access_code,
+      r.full_name,
+      (
+        SELECT COUNT(*)
+        FROM protocol_reviewer_assignments pra
+        INNER JOIN protocols p ON p.id = pra.protocol_id
+        WHERE pra.reviewer_id = r.id AND pra.status <> 'completed'
+          AND pra.review_round_id = p.current_round_id
+          AND pra.deleted_at IS NULL AND p.deleted_at IS NULL
+      ) AS open_load,
+      (
+        SELECT AVG(TIMESTAMPDIFF(HOUR, prr.opened_at, pra.completed_at)) / 24
+        FROM protocol_reviewer_assignments pra
+        INNER JOIN protocol_review_rounds prr ON prr.id = pra.review_round_id
+        WHERE pra.reviewer_id = r.id AND pra.status = 'completed'
+          AND pra.completed_at >= prr.opened_at
+          AND pra.completed_at >= UTC_TIMESTAMP() - INTERVAL ${TURNAROUND_WINDOW_DAYS} DAY
+          AND pra.deleted_at IS NULL
+      ) AS turnaround_days,
+      (
+        SELECT COUNT(*)
+        FROM protocol_reviewer_assignments pra
+        INNER JOIN protocols p ON p.id = pra.protocol_id
+        WHERE pra.reviewer_id = r.id AND ? <> ''
+          AND LOWER(p.course_program) = LOWER(?)
+          AND pra.deleted_at IS NULL AND p.deleted_at IS NULL
+      ) AS program_reviews,
+      EXISTS (
+        SELECT 1 FROM reviewer_conflicts rc
+        WHERE rc.reviewer_id = r.id AND rc.revoked_at IS NULL
+          AND (rc.protocol_id = ? OR (? <> '' AND LOWER(rc.course_program) = LOWER(?)))
+      ) AS has_conflict,
+      EXISTS (
+        SELECT 1 FROM reviewer_leave_periods rl
+        WHERE rl.reviewer_id = r.id AND rl.deleted_at IS NULL
+          AND UTC_DATE() BETWEEN rl.starts_on AND rl.ends_on
+      ) AS on_leave,
+      ${REVIEWER_EXPERTISE_SQL} AS expertise
+    FROM reviewers r
+    WHERE r.deleted_at IS NULL AND r.is_active = TRUE
+  `, [courseProgram, courseProgram, input.protocolInternalId ?? null, courseProgram, courseProgram]);
+
+  const wantedTags = new Set((input.expertiseTags ?? []).map((tag) => tag.trim().toLowerCase()));
+  const excluded = new Set((input.excludeReviewerIds ?? []).map(normalizeReviewerLookup));
+  const ranked = rows
+    .filter((row) => !excluded.has(normalizeReviewerLookup(row.access_code)))
+    .filter((row) => !booleanValue(row.on_leave))
+    .filter((row) => !booleanValue(row.has_conflict) && !automaticConflictReason(row.full_name, {
+      adviser: input.adviser,
+      principalInvestigator: input.principalInvestigator,
+    }))
+    .map((row) => mapCandidate(row, wantedTags))
+    .sort((left, right) => left.score - right.score || left.name.localeCompare(right.name));
+
+  const alternatives = Math.max(0, Math.trunc(input.alternatives ?? 3));
+  const proposed = new Set<string>();
+  return input.formTypes.map((formType) => {
+    const available = ranked.filter((candidate) => !proposed.has(candidate.internalId));
+    const [proposal = null, ...rest] = available;
+    if (proposal) proposed.add(proposal.internalId);
+    return { formType, proposal, alternatives: rest.slice(0, alternatives) };
+  });
+}
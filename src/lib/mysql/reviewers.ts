@@ -1,9 +1,17 @@
 import 'server-only';
 
-import type { RowDataPacket } from 'mysql2/promise';
-import { queryRows } from './db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { mysqlPool, queryRows, withTransaction } from './db';
+import { REVIEWER_EXPERTISE_SQL } from './expertiseTags';
 import type { MysqlReviewerDto } from './types';
-import { booleanValue, idString, normalizeReviewerLookup, nullableString } from './values';
+import {
+  booleanValue,
+  idString,
+  normalizeReviewerLookup,
+  nullableString,
+  sessionTokenHash,
+  tagList,
+} from './values';
 
 interface ReviewerRow extends RowDataPacket {
   internal_id: string;
@@ -11,6 +19,7 @@ interface ReviewerRow extends RowDataPacket {
   full_name: string;
   email: string | null;
   is_active: number;
+  expertise: string | null;
 }
 
 function mapReviewer(row: ReviewerRow): MysqlReviewerDto {
@@ -22,6 +31,7 @@ function mapReviewer(row: ReviewerRow): MysqlReviewerDto {
     name: row.full_name,
     ...(email ? { email } : {}),
     isActive: booleanValue(row.is_active),
+    expertise: tagList(row.expertise),
   };
 }
 
@@ -31,7 +41,8 @@ const REVIEWER_SELECT = `
     r.access_code,
     r.full_name,
     r.email,
-    r.is_active
+    r.is_active,
+    ${REVIEWER_EXPERTISE_SQL} AS expertise
   FROM reviewers r`;
 
 export async function listReviewers(options: { includeInactive?: boolean } = {}): Promise<MysqlReviewerDto[]> {
@@ -67,6 +78,18 @@ export async function getReviewerByAccessCode(accessCode: string): Promise<Mysql
   return rows[0] ? mapReviewer(rows[0]) : null;
 }
 
+export async function getReviewerByEmail(email: string): Promise<MysqlReviewerDto | null> {
+  const rows = await queryRows<ReviewerRow>(`
+    ${REVIEWER_SELECT}
+    WHERE LOWER(r.email) = LOWER(?)
+      AND r.deleted_at IS NULL
+      AND r.is_active = TRUE
+    LIMIT 1
+  `, [email.trim()]);
+
+  return rows[0] ? mapReviewer(rows[0]) : null;
+}
+
 export async function findReviewerByAccess(input: string): Promise<MysqlReviewerDto | null> {
   const normalized = normalizeReviewerLookup(input);
   if (!normalized) return null;
@@ -93,3 +116,120 @@ export async function findReviewerByAccess(input: string): Promise<MysqlReviewer
   return rows[0] ? mapReviewer(rows[0]) : null;
 }
 
+
+export async function createReviewerSession(input: {
+  reviewerInternalId: string;
+  token: string;
+  expiresAt: Date;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    INSERT INTO reviewer_sessions (
+      reviewer_id, token_sha256, expires_at, ip_address, user_agent, last_seen_at
+    ) VALUES (?, ?, ?, ?, ?, UTC_TIMESTAMP(6))
+  `, [
+    input.reviewerInternalId,
+    sessionTokenHash(input.token),
+    input.expiresAt,
+    input.ipAddress?.slice(0, 64) || null,
+    input.userAgent?.slice(0, 512) || null,
+  ]);
+}
+
+/** Resolves an unexpired, unrevoked session to its active reviewer. */
+export async function getReviewerBySessionToken(token: string): Promise<MysqlReviewerDto | null> {
+  const rows = await queryRows<ReviewerRow>(`
+    ${REVIEWER_SELECT}
+    JOIN reviewer_sessions s ON s.reviewer_id = r.id
+    WHERE s.token_sha256 = ?
+      AND s.revoked_at IS NULL
+      AND s.expires_at > UTC_TIMESTAMP(6)
+      AND r.deleted_at IS NULL
+      AND r.is_active = TRUE
+    LIMIT 1
+  `, [sessionTokenHash(token)]);
+
+  if (!rows[0]) return null;
+
+  await mysqlPool.execute<ResultSetHeader>(
+    'UPDATE reviewer_sessions SET last_seen_at = UTC_TIMESTAMP(6) WHERE token_sha256 = ?',
+    [sessionTokenHash(token)]
+  );
+  return mapReviewer(rows[0]);
+}
+
+export async function revokeReviewerSession(token: string): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE reviewer_sessions
+    SET revoked_at = UTC_TIMESTAMP(6)
+    WHERE token_sha256 = ? AND revoked_at IS NULL
+  `, [sessionTokenHash(token)]);
+}
+
+/** Signs a reviewer out everywhere, e.g. after their record is archived. */
+export async function revokeReviewerSessionsByAccessCode(accessCode: string): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE reviewer_sessions s
+    JOIN reviewers r ON r.id = s.reviewer_id
+    SET s.revoked_at = UTC_TIMESTAMP(6)
+    WHERE r.access_code = ? AND s.revoked_at IS NULL
+  `, [accessCode]);
+}
+
+export async function countRecentReviewerLoginTokens(reviewerInternalId: string, minutes: number): Promise<number> {
+  const rows = await queryRows<RowDataPacket & { count: number }>(`
+    SELECT COUNT(*) AS count
+    FROM reviewer_login_tokens
+    WHERE reviewer_id = ?
+      AND created_at > DATE_SUB(UTC_TIMESTAMP(6), INTERVAL ? MINUTE)
+  `, [reviewerInternalId, minutes]);
+
+  return Number(rows[0]?.count || 0);
+}
+
+export async function createReviewerLoginToken(input: {
+  reviewerInternalId: string;
+  token: string;
+  expiresAt: Date;
+  requestedIp?: string | null;
+}): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    INSERT INTO reviewer_login_tokens (reviewer_id, token_sha256, expires_at, requested_ip)
+    VALUES (?, ?, ?, ?)
+  `, [
+    input.reviewerInternalId,
+    sessionTokenHash(input.token),
+    input.expiresAt,
+    input.requestedIp?.slice(0, 64) || null,
+  ]);
+}
+
+/** Marks a sign-in link as used and returns its reviewer; expired or reused links return null. */
+export async function consumeReviewerLoginToken(token: string): Promise<MysqlReviewerDto | null> {
+  return withTransaction(async (connection) => {
+    const tokens = await queryRows<RowDataPacket & { id: string; reviewer_id: string }>(`
+      SELECT CAST(id AS CHAR) AS id, CAST(reviewer_id AS CHAR) AS reviewer_id
+      FROM reviewer_login_tokens
+      WHERE token_sha256 = ?
+        AND used_at IS NULL
+        AND expires_at > UTC_TIMESTAMP(6)
+      LIMIT 1
+      FOR UPDATE
+    `, [sessionTokenHash(token)], connection);
+    const loginToken = tokens[0];
+    if (!loginToken) return null;
+
+    await connection.execute<ResultSetHeader>(
+      'UPDATE reviewer_login_tokens SET used_at = UTC_TIMESTAMP(6) WHERE id = ?',
+      [loginToken.id]
+    );
+
+    const rows = await queryRows<ReviewerRow>(`
+      ${REVIEWER_SELECT}
+      WHERE r.id = ? AND r.deleted_at IS NULL AND r.is_active = TRUE
+      LIMIT 1
+    `, [loginToken.reviewer_id], connection);
+    return rows[0] ? mapReviewer(rows[0]) : null;
+  });
+}
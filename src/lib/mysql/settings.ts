@@ -1,27 +1,63 @@
 import 'server-only';
 
 import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
-import { mysqlPool, queryRows } from './db';
-import type { MysqlNotificationSettingsDto } from './types';
+import { mysqlPool, queryRows, withTransaction, type MysqlExecutor } from './db';
+import { recordAdminAudit, type AdminAuditActor } from './audit';
+import type {
+  MysqlAdminDigestSettingsDto,
+  MysqlNotificationSettingsDto,
+  MysqlReviewerLoginSettingsDto,
+} from './types';
 import { booleanValue, finiteNumber, isoDateTime } from './values';
 
+interface ReviewerLoginSettingsRow extends RowDataPacket {
+  allow_legacy_login: number;
+}
+
+interface AdminDigestSettingsRow extends RowDataPacket {
+  enabled: number;
+  send_weekday: number;
+  last_sent_at: string | null;
+}
+
 interface SettingsRow extends RowDataPacket {
   enabled: number;
   frequency: MysqlNotificationSettingsDto['frequency'];
   send_to_reviewers: number;
   due_soon_threshold: number;
+  unanswered_assignment_days: number;
+  escalation_enabled: number;
+  overdue_first_nudge_days: number;
+  overdue_second_nudge_days: number;
+  chair_escalation_days: number;
+  chair_escalation_email: string | null;
   last_run_at: string | null;
 }
 
-export async function getNotificationSettings(): Promise<MysqlNotificationSettingsDto> {
+export async function getNotificationSettings(
+  executor?: MysqlExecutor
+): Promise<MysqlNotificationSettingsDto> {
   const rows = await queryRows<SettingsRow>(`
-    SELECT enabled, frequency, send_to_reviewers, due_soon_threshold, last_run_at
+    SELECT enabled, frequency, send_to_reviewers, due_soon_threshold,
+      unanswered_assignment_days, escalation_enabled, overdue_first_nudge_days,
+      overdue_second_nudge_days, chair_escalation_days, chair_escalation_email, last_run_at
     FROM notification_settings WHERE singleton_id = 1
-  `);
+  `, [], executor);
   const row = rows[0];
 
   if (!row) {
-    return { enabled: false, frequency: 'daily', sendToReviewers: true, dueSoonThreshold: 3 };
+    return {
+      enabled: false,
+      frequency: 'daily',
+      sendToReviewers: true,
+      dueSoonThreshold: 3,
+      unansweredAssignmentDays: 3,
+      escalationEnabled: false,
+      overdueFirstNudgeDays: 1,
+      overdueSecondNudgeDays: 3,
+      chairEscalationDays: 5,
+      chairEscalationEmail: null,
+    };
   }
 
   const lastRun = isoDateTime(row.last_run_at);
@@ -30,28 +66,177 @@ export async function getNotificationSettings(): Promise<MysqlNotificationSettin
     frequency: row.frequency,
     sendToReviewers: booleanValue(row.send_to_reviewers),
     dueSoonThreshold: finiteNumber(row.due_soon_threshold, 3),
+    unansweredAssignmentDays: finiteNumber(row.unanswered_assignment_days, 3),
+    escalationEnabled: booleanValue(row.escalation_enabled),
+    overdueFirstNudgeDays: finiteNumber(row.overdue_first_nudge_days, 1),
+    overdueSecondNudgeDays: finiteNumber(row.overdue_second_nudge_days, 3),
+    chairEscalationDays: finiteNumber(row.chair_escalation_days, 5),
+    chairEscalationEmail: row.chair_escalation_email || null,
     ...(lastRun ? { lastRun } : {}),
   };
 }
 
-export async function saveNotificationSettings(settings: MysqlNotificationSettingsDto): Promise<void> {
+/**
+ * Saves an admin's edit to the notification settings. `lastRun` is left to
+ * the reminder cron, which records it with `recordReminderRun`.
+ */
+export async function saveNotificationSettings(
+  settings: MysqlNotificationSettingsDto,
+  actor: AdminAuditActor
+): Promise<void> {
+  await withTransaction(async (connection) => {
+    const before = await getNotificationSettings(connection);
+    await connection.execute<ResultSetHeader>(`
+      INSERT INTO notification_settings (
+        singleton_id, enabled, frequency, send_to_reviewers,
+        due_soon_threshold, unanswered_assignment_days, escalation_enabled,
+        overdue_first_nudge_days, overdue_second_nudge_days, chair_escalation_days,
+        chair_escalation_email
+      ) VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        enabled = VALUES(enabled),
+        frequency = VALUES(frequency),
+        send_to_reviewers = VALUES(send_to_reviewers),
+        due_soon_threshold = VALUES(due_soon_threshold),
+        unanswered_assignment_days = VALUES(unanswered_assignment_days),
+        escalation_enabled = VALUES(escalation_enabled),
+        overdue_first_nudge_days = VALUES(overdue_first_nudge_days),
+        overdue_second_nudge_days = VALUES(overdue_second_nudge_days),
+        chair_escalation_days = VALUES(chair_escalation_days),
+        chair_escalation_email = VALUES(chair_escalation_email)
+    `, [
+      settings.enabled,
+      settings.frequency,
+      settings.sendToReviewers,
+      settings.dueSoonThreshold,
+      settings.unansweredAssignmentDays,
+      settings.escalationEnabled,
+      settings.overdueFirstNudgeDays,
+      settings.overdueSecondNudgeDays,
+      settings.chairEscalationDays,
+      settings.chairEscalationEmail,
+    ]);
+    await recordAdminAudit(connection, {
+      actor,
+      action: 'notification_settings.update',
+      entityType: 'notification_settings',
+      entityId: '1',
+      before: { ...before },
+      after: { ...settings },
+    });
+  });
+}
+
+/** Marks the reminder cron as having run now, leaving every setting as it is. */
+export async function recordReminderRun(): Promise<void> {
   await mysqlPool.execute<ResultSetHeader>(`
-    INSERT INTO notification_settings (
-      singleton_id, enabled, frequency, send_to_reviewers,
-      due_soon_threshold, last_run_at
-    ) VALUES (1, ?, ?, ?, ?, ?)
-    ON DUPLICATE KEY UPDATE
-      enabled = VALUES(enabled),
-      frequency = VALUES(frequency),
-      send_to_reviewers = VALUES(send_to_reviewers),
-      due_soon_threshold = VALUES(due_soon_threshold),
-      last_run_at = VALUES(last_run_at)
-  `, [
-    settings.enabled,
-    settings.frequency,
-    settings.sendToReviewers,
-    settings.dueSoonThreshold,
-    settings.lastRun ? settings.lastRun.replace('T', ' ').replace('Z', '') : null,
-  ]);
+    UPDATE notification_settings SET last_run_at = UTC_TIMESTAMP(6) WHERE singleton_id = 1
+  `);
 }
 
+export async function getAdminDigestSettings(
+  executor?: MysqlExecutor
+): Promise<MysqlAdminDigestSettingsDto> {
+  const rows = await queryRows<AdminDigestSettingsRow>(`
+    SELECT enabled, send_weekday, last_sent_at FROM admin_digest_settings WHERE singleton_id = 1
+  `, [], executor);
+  const recipients = await queryRows<RowDataPacket & { email: string }>(`
+    SELECT email FROM admin_digest_recipients ORDER BY email
+  `, [], executor);
+  const row = rows[0];
+  const lastSentAt = isoDateTime(row?.last_sent_at);
+
+  return {
+    enabled: booleanValue(row?.enabled),
+    sendWeekday: finiteNumber(row?.send_weekday, 1),
+    recipients: recipients.map((recipient) => recipient.email),
+    ...(lastSentAt ? { lastSentAt } : {}),
+  };
+}
+
+/**
+ * Saves an admin's edit, replacing the recipient list. lastSentAt is left as
+ * stored; only the digest cron moves it, through claimAdminDigestRun.
+ */
+export async function saveAdminDigestSettings(
+  settings: MysqlAdminDigestSettingsDto,
+  actor: AdminAuditActor
+): Promise<void> {
+  await withTransaction(async (connection) => {
+    const before = await getAdminDigestSettings(connection);
+    await connection.execute<ResultSetHeader>(`
+      INSERT INTO admin_digest_settings (singleton_id, enabled, send_weekday)
+      VALUES (1, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        enabled = VALUES(enabled),
+        send_weekday = VALUES(send_weekday)
+    `, [settings.enabled, settings.sendWeekday]);
+
+    await connection.execute<ResultSetHeader>('DELETE FROM admin_digest_recipients');
+    for (const email of settings.recipients) {
+      await connection.execute<ResultSetHeader>(`
+        INSERT INTO admin_digest_recipients (email, created_at) VALUES (?, UTC_TIMESTAMP(6))
+      `, [email]);
+    }
+    await recordAdminAudit(connection, {
+      actor,
+      action: 'admin_digest_settings.update',
+      entityType: 'admin_digest_settings',
+      entityId: '1',
+      before: { ...before },
+      after: { ...settings },
+    });
+  });
+}
+
+/**
+ * Marks the digest sent now unless it was already sent at or after
+ * `dayStartedAt` (an ISO instant). Returns false when another run got there
+ * first, so overlapping cron runs send one digest.
+ */
+export async function claimAdminDigestRun(dayStartedAt: string): Promise<boolean> {
+  const [result] = await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE admin_digest_settings SET last_sent_at = UTC_TIMESTAMP(6)
+    WHERE singleton_id = 1 AND (last_sent_at IS NULL OR last_sent_at < ?)
+  `, [dayStartedAt.replace('T', ' ').replace('Z', '')]);
+  return result.affectedRows > 0;
+}
+
+/** Puts back the previous send time after a claimed digest could not be queued. */
+export async function releaseAdminDigestRun(previousSentAt: string | undefined): Promise<void> {
+  await mysqlPool.execute<ResultSetHeader>(`
+    UPDATE admin_digest_settings SET last_sent_at = ? WHERE singleton_id = 1
+  `, [previousSentAt ? previousSentAt.replace('T', ' ').replace('Z', '') : null]);
+}
+
+export async function getReviewerLoginSettings(
+  executor?: MysqlExecutor
+): Promise<MysqlReviewerLoginSettingsDto> {
+  const rows = await queryRows<ReviewerLoginSettingsRow>(`
+    SELECT allow_legacy_login FROM reviewer_login_settings WHERE singleton_id = 1
+  `, [], executor);
+
+  return { allowLegacyLogin: booleanValue(rows[0]?.allow_legacy_login) };
+}
+
+export async function saveReviewerLoginSettings(
+  settings: MysqlReviewerLoginSettingsDto,
+  actor: AdminAuditActor
+): Promise<void> {
+  await withTransaction(async (connection) => {
+    const before = await getReviewerLoginSettings(connection);
+    await connection.execute<ResultSetHeader>(`
+      INSERT INTO reviewer_login_settings (singleton_id, allow_legacy_login)
+      VALUES (1, ?)
+      ON DUPLICATE KEY UPDATE allow_legacy_login = VALUES(allow_legacy_login)
+    `, [settings.allowLegacyLogin]);
+    await recordAdminAudit(connection, {
+      actor,
+      action: 'reviewer_login_settings.update',
+      entityType: 'reviewer_login_settings',
+      entityId: '1',
+      before: { ...before },
+      after: { ...settings },
+    });
+  });
+}
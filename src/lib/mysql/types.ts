@@ -1,9 +1,84 @@
+import type { AdminRole } from '@/lib/adminPermissions';
+import type { ProtocolLifecycleStatus, ReviewRecommendation } from '@/lib/protocolLifecycle';
+import type { OverdueEscalationStep } from '@/lib/reviewReminders';
+
 export interface MysqlReviewerDto {
   internalId: string;
   id: string;
   name: string;
   email?: string;
   isActive: boolean;
+  /** Names of the reviewer's expertise tags. */
+  expertise: string[];
+}
+
+export interface MysqlExpertiseTagDto {
+  id: string;
+  name: string;
+  /** Terms in a protocol's nature or type of study that apply the tag. */
+  keywords: string[];
+  reviewerCount: number;
+}
+
+export interface MysqlReviewerConflictDto {
+  id: string;
+  reviewerInternalId: string;
+  reviewerId: string;
+  reviewerName: string;
+  /** Set for a conflict on one protocol; otherwise `courseProgram` is set. */
+  protocolInternalId: string | null;
+  recCode: string | null;
+  courseProgram: string | null;
+  reason: string;
+  blocking: boolean;
+  declaredBy: 'reviewer' | 'admin';
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+/** A reason a reviewer should not take a particular protocol. */
+export interface MysqlAssignmentConflictDto {
+  reviewerId: string;
+  reviewerName: string;
+  reason: string;
+  blocking: boolean;
+}
+
+/** Availability concerns that are reported but do not stop an assignment. */
+export interface MysqlAssignmentWarningDto {
+  reviewerId: string;
+  reviewerName: string;
+  reason: string;
+}
+
+export interface MysqlReviewerLeaveDto {
+  id: string;
+  startsOn: string;
+  endsOn: string;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface MysqlReviewerAvailabilityDto {
+  /** Reviews the reviewer takes from one release; null means no limit. */
+  maxReviewsPerRelease: number | null;
+  /** Current and upcoming leave, earliest first. */
+  leave: MysqlReviewerLeaveDto[];
+}
+
+export interface MysqlReviewerSuggestionDto {
+  internalId: string;
+  id: string;
+  name: string;
+  /** Unfinished reviews in current review rounds. */
+  openLoad: number;
+  /** Average days from round opening to completion over the last year. */
+  turnaroundDays: number | null;
+  /** Earlier reviews for protocols from the same course or program. */
+  programReviews: number;
+  /** The protocol's expertise tags the reviewer also carries. */
+  matchedTags: string[];
+  score: number;
 }
 
 export interface MysqlReviewerAssignmentDto {
@@ -12,8 +87,211 @@ export interface MysqlReviewerAssignmentDto {
   name: string;
   status: string;
   form_type?: string;
+  /** Display name from `review_form_types`; empty for unknown legacy codes. */
+  form_name?: string;
+  /** Microsoft Forms link kept for form types without an in-app form. */
+  form_url?: string;
   due_date?: string;
   completed_at?: string | null;
+  acceptance?: MysqlAssignmentAcceptance;
+  decline_reason?: string | null;
+  /** Whether the form type is filled in the app, which completes the review. */
+  has_review_form?: boolean;
+}
+
+export type MysqlAssignmentAcceptance = 'pending' | 'accepted' | 'declined';
+
+export interface MysqlAssignmentResponseDto {
+  assignmentId: string;
+  protocolInternalId: string;
+  recCode: string;
+  researchTitle: string;
+  monthId: string;
+  weekId: string;
+  reviewerId: string;
+  reviewerName: string;
+  formType: string;
+  dueDate: string;
+  acceptance: MysqlAssignmentAcceptance;
+  assignedAt: string;
+  respondedAt: string | null;
+  declineReason: string | null;
+  daysWaiting: number;
+  /** Everyone on the protocol's current round, so a reassignment can skip them. */
+  protocolReviewerIds: string[];
+}
+
+export type MysqlExtensionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface MysqlDueDateExtensionDto {
+  id: string;
+  assignmentId: string;
+  protocolInternalId: string;
+  recCode: string;
+  researchTitle: string;
+  monthId: string;
+  weekId: string;
+  reviewerInternalId: string;
+  reviewerId: string;
+  reviewerName: string;
+  reviewerEmail: string | null;
+  formType: string;
+  /** The assignment's due date when the request was made. */
+  currentDueDate: string;
+  requestedDueDate: string;
+  justification: string;
+  status: MysqlExtensionStatus;
+  decisionNote: string | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+export type MysqlReviewAnswerType = 'yes_no_na' | 'text';
+
+export interface MysqlReviewFormQuestionDto {
+  id: string;
+  key: string;
+  prompt: string;
+  helpText: string | null;
+  answerType: MysqlReviewAnswerType;
+  required: boolean;
+}
+
+export interface MysqlReviewFormSectionDto {
+  id: string;
+  title: string;
+  description: string | null;
+  questions: MysqlReviewFormQuestionDto[];
+}
+
+export interface MysqlReviewFormRecommendationDto {
+  label: string;
+  outcome: ReviewRecommendation;
+}
+
+export interface MysqlReviewFormDto {
+  formType: string;
+  name: string;
+  versionId: string;
+  version: number;
+  /** Null while the version is an unpublished draft. */
+  publishedAt: string | null;
+  sections: MysqlReviewFormSectionDto[];
+  /** Choices the reviewer picks their final recommendation from. */
+  recommendations: MysqlReviewFormRecommendationDto[];
+}
+
+export interface MysqlReviewFormTypeDto {
+  code: string;
+  name: string;
+  formUrl: string | null;
+  sortOrder: number;
+  /** Retired form types are kept for history but can no longer be assigned. */
+  active: boolean;
+  publishedVersion: number | null;
+  publishedAt: string | null;
+  draftVersion: number | null;
+  submissionCount: number;
+}
+
+export interface MysqlEmailTemplateDto {
+  code: string;
+  name: string;
+  description: string | null;
+  publishedVersion: number | null;
+  publishedAt: string | null;
+  draftVersion: number | null;
+}
+
+export interface MysqlEmailTemplateVersionDto {
+  versionId: string;
+  code: string;
+  version: number;
+  subject: string;
+  body: string;
+  /** Null for the draft being edited. */
+  publishedAt: string | null;
+  updatedAt: string | null;
+}
+
+export type MysqlReviewSubmissionStatus = 'draft' | 'submitted';
+
+export interface MysqlReviewSubmissionDto {
+  id: string;
+  assignmentId: string;
+  formType: string;
+  formVersionId: string;
+  /** Answers keyed by question key. Yes/no questions hold 'yes', 'no' or 'na'. */
+  answers: Record<string, string>;
+  recommendation: string | null;
+  comments: string | null;
+  status: MysqlReviewSubmissionStatus;
+  submittedAt: string | null;
+  updatedAt: string;
+}
+
+/** Where an assignment's recommendation came from. */
+export type MysqlRecommendationSource = 'form' | 'admin' | 'import';
+
+export interface MysqlReviewSummaryAnswerDto {
+  prompt: string;
+  answerType: MysqlReviewAnswerType;
+  answer: string;
+}
+
+export interface MysqlReviewSummaryEntryDto {
+  assignmentId: string;
+  reviewerName: string;
+  formType: string;
+  formName: string;
+  status: string;
+  completedAt: string | null;
+  recommendation: ReviewRecommendation | null;
+  /** The label the reviewer picked on their review form, when they used one. */
+  recommendationLabel: string | null;
+  comments: string | null;
+  source: MysqlRecommendationSource | null;
+  recommendedAt: string | null;
+  hasReviewForm: boolean;
+  answers: MysqlReviewSummaryAnswerDto[];
+}
+
+export interface MysqlProtocolReviewSummaryDto {
+  protocol: MysqlProtocolDto;
+  reviews: MysqlReviewSummaryEntryDto[];
+  allComplete: boolean;
+  /** True when the recommendations given so far do not all agree. */
+  disagreement: boolean;
+  /** The outcome every recommendation points to, once all of them agree. */
+  suggestedDecision: ProtocolLifecycleStatus | null;
+}
+
+export type MysqlFormImportRowStatus =
+  | 'ready'
+  | 'already_completed'
+  | 'duplicate'
+  | 'declined'
+  | 'missing_rec_code'
+  | 'unknown_protocol'
+  | 'unknown_reviewer'
+  | 'not_assigned'
+  | 'ambiguous';
+
+/** One response row of a Microsoft Forms export and the assignment it matched. */
+export interface MysqlFormImportRowDto {
+  rowNumber: number;
+  recCode: string;
+  reviewerValue: string;
+  completedAt: string | null;
+  recommendation: ReviewRecommendation | null;
+  recommendationText: string;
+  status: MysqlFormImportRowStatus;
+  message: string;
+  assignmentId: string | null;
+  protocolInternalId: string | null;
+  researchTitle: string | null;
+  reviewerName: string | null;
 }
 
 export interface MysqlProtocolDto {
@@ -25,11 +303,18 @@ export interface MysqlProtocolDto {
   reviewers: MysqlReviewerAssignmentDto[];
   due_date: string;
   status: string;
+  round: number;
+  decision: ProtocolLifecycleStatus;
+  decidedAt: string | null;
+  decidedBy: string;
   protocol_file: string;
   created_at: string;
   research_title: string;
   e_link: string;
   course_program: string;
+  nature_of_study: string;
+  type_of_study: string;
+  expertise_tags: string[];
   spup_rec_code: string;
   principal_investigator: string;
   adviser: string;
@@ -38,6 +323,44 @@ export interface MysqlProtocolDto {
   _path: string;
 }
 
+export interface MysqlProtocolDecisionDto {
+  id: string;
+  round: number | null;
+  from: ProtocolLifecycleStatus;
+  to: ProtocolLifecycleStatus;
+  note: string;
+  decidedBy: string;
+  decidedAt: string | null;
+}
+
+export interface MysqlProtocolWeekIndexDto {
+  weekId: string;
+  weekNumber: number;
+  protocols: number;
+  completedProtocols: number;
+  decidedProtocols: number;
+  reviews: { total: number; completed: number; overdue: number; dueSoon: number };
+}
+
+export interface MysqlProtocolMonthIndexDto {
+  monthId: string;
+  weeks: MysqlProtocolWeekIndexDto[];
+}
+
+export interface MysqlProtocolReviewRoundDto {
+  id: string;
+  round: number;
+  releasePeriod: string;
+  monthId: string;
+  weekId: string;
+  documentLink: string;
+  dueDate: string;
+  outcome: ProtocolLifecycleStatus | null;
+  openedAt: string | null;
+  closedAt: string | null;
+  reviewers: MysqlReviewerAssignmentDto[];
+}
+
 export interface MysqlReviewerProtocolDto {
   assignmentId: string;
   protocol: MysqlProtocolDto;
@@ -62,9 +385,53 @@ export interface MysqlNotificationSettingsDto {
   frequency: 'daily' | 'weekly' | 'twice-weekly';
   sendToReviewers: boolean;
   dueSoonThreshold: number;
+  /** Days a pending assignment may go unanswered before the dashboard flags it. */
+  unansweredAssignmentDays: number;
+  /** Nudges reviewers about overdue reviews and escalates them to the chair. */
+  escalationEnabled: boolean;
+  overdueFirstNudgeDays: number;
+  overdueSecondNudgeDays: number;
+  /** Days overdue before an assignment is listed in the chair's digest. */
+  chairEscalationDays: number;
+  /** Where the chair's digest goes; null sends it to every admin who can decide protocols. */
+  chairEscalationEmail: string | null;
   lastRun?: string;
 }
 
+export interface MysqlReviewerNotificationPreferencesDto {
+  deliveryMode: 'immediate' | 'daily_digest';
+  /** Days before a due date that reminders start; null follows the global due-soon threshold. */
+  reminderLeadDays: number | null;
+  noticeEmails: boolean;
+}
+
+export interface MysqlAdminDigestSettingsDto {
+  enabled: boolean;
+  /** Day of the week the digest goes out, Asia/Manila time: 0 is Sunday. */
+  sendWeekday: number;
+  recipients: string[];
+  lastSentAt?: string;
+}
+
+/** An open current-round review past its due date, with the escalation steps already taken for that due date. */
+export interface MysqlOverdueAssignmentDto {
+  assignmentId: string;
+  /** Null when the assignment names a reviewer who is not in the directory. */
+  reviewerInternalId: string | null;
+  reviewerId: string;
+  reviewerName: string;
+  reviewerEmail: string;
+  recCode: string;
+  researchTitle: string;
+  formType: string;
+  dueDate: string;
+  sentSteps: OverdueEscalationStep[];
+}
+
+export interface MysqlReviewerLoginSettingsDto {
+  allowLegacyLogin: boolean;
+}
+
 export interface MysqlSystemNoticeDto {
   internalId: string;
   id: string;
@@ -109,6 +476,29 @@ export interface MysqlMailDeliveryDto {
   maxAttempts: number;
   reason?: string;
   lastError?: string;
+  /** When a pending delivery is next tried, after a failed attempt. */
+  nextAttemptAt: string | null;
   createdAt: string | null;
   updatedAt: string | null;
 }
+
+export interface MysqlAdminUserDto {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  isActive: boolean;
+  lastLoginAt: string | null;
+}
+
+export interface MysqlAdminAuditEventDto {
+  id: string;
+  occurredAt: string | null;
+  actorId: string | null;
+  actorEmail: string;
+  actorName: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  changes: Array<{ field: string; before: unknown; after: unknown }>;
+}
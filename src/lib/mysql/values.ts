@@ -1,3 +1,5 @@
+import { createHash } from 'node:crypto';
+
 export function idString(value: unknown): string {
   if (typeof value === 'string') return value;
   if (typeof value === 'bigint' || typeof value === 'number') return String(value);
@@ -48,7 +50,42 @@ export function databaseStatus(value: unknown): 'completed' | 'in_progress' {
   return String(value).trim().toLowerCase() === 'completed' ? 'completed' : 'in_progress';
 }
 
+export function assignmentAcceptance(value: unknown): 'pending' | 'accepted' | 'declined' {
+  return value === 'pending' || value === 'declined' ? value : 'accepted';
+}
+
+/** Splits a newline-separated `GROUP_CONCAT` column back into its values. */
+export function tagList(value: unknown): string[] {
+  return typeof value === 'string' && value ? value.split('\n') : [];
+}
+
+/** Opaque keyset cursors: the sort values of the last row on a page. */
+export function encodeCursor(values: Array<string | number>): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+export function decodeCursor(value: string | undefined, length: number): Array<string | number> | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as unknown;
+    if (
+      Array.isArray(parsed)
+      && parsed.length === length
+      && parsed.every((item) => typeof item === 'string' || typeof item === 'number')
+    ) {
+      return parsed;
+    }
+  } catch {
+    // Reported below with the other malformed cursors.
+  }
+  throw new Error('Cursor is invalid.');
+}
+
 export function normalizeReviewerLookup(value: unknown): string {
   return String(value ?? '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '');
 }
 
+
+export function sessionTokenHash(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
@@ -0,0 +1,60 @@
+import 'server-only';
+
+import { renderNoticeEmail } from '@/lib/emailTemplates';
+import { getMailRetryAttempts } from '@/lib/mailer';
+import {
+  enqueueMailBatch,
+  listReviewerNotificationPreferences,
+  listReviewers,
+  type MailDeliveryDraft,
+} from '@/lib/mysql';
+import { reviewerPreferencesUrl } from '@/lib/reviewerPreferences';
+
+/**
+ * Queues a newly published notice for every active reviewer as one mail
+ * batch. Reviewers who turned off notice emails are recorded as skipped;
+ * notices are never held for the daily digest.
+ */
+export async function queueNoticeEmails(input: { title: string; content: string; appUrl: string }) {
+  const [reviewers, preferences] = await Promise.all([
+    listReviewers(),
+    listReviewerNotificationPreferences(),
+  ]);
+  const noticesUrl = `${input.appUrl}/reviewer/notices`;
+  const deliveries: MailDeliveryDraft[] = [];
+  for (const reviewer of reviewers) {
+    const message = renderNoticeEmail({
+      reviewerName: reviewer.name,
+      title: input.title,
+      content: input.content,
+      noticesUrl,
+      preferencesUrl: await reviewerPreferencesUrl(input.appUrl, reviewer.internalId),
+    });
+    deliveries.push({
+      reviewerId: reviewer.internalId,
+      requestedReviewerId: reviewer.id,
+      recipientName: reviewer.name,
+      recipientEmail: reviewer.email || '',
+      protocolCount: 0,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      skipReason: !reviewer.email
+        ? 'Reviewer has no email address.'
+        : preferences.get(reviewer.internalId)?.noticeEmails === false ? 'Reviewer turned off notice emails.' : null,
+    });
+  }
+
+  return enqueueMailBatch({
+    scope: 'notice',
+    notificationType: 'notice',
+    subject: deliveries[0]?.subject ?? `Notice: ${input.title}`,
+    templateVersionId: null,
+    source: 'admin',
+    monthKey: '',
+    weekKey: '',
+    periodLabel: `Notice: ${input.title}`.slice(0, 255),
+    protocolCount: 0,
+    maxAttempts: getMailRetryAttempts(),
+  }, deliveries);
+}
@@ -0,0 +1,250 @@
+import 'server-only';
+
+import { escapeHtml, renderEmailTemplate } from '@/lib/emailTemplates';
+import { getMailRetryAttempts } from '@/lib/mailer';
+import {
+  attachEscalationBatch,
+  claimAssignmentEscalations,
+  enqueueMailBatch,
+  getPublishedEmailTemplate,
+  listAdminUsersWithPermission,
+  listOverdueAssignments,
+  listReviewerNotificationPreferences,
+  listReviewersOnLeave,
+  releaseAssignmentEscalations,
+  type AssignmentEscalationClaim,
+  type MailDeliveryDraft,
+  type MysqlNotificationSettingsDto,
+  type MysqlOverdueAssignmentDto,
+  type ReviewerDigestItem,
+} from '@/lib/mysql';
+import { DIGEST_HOLD_REASON, reviewerPreferencesUrl } from '@/lib/reviewerPreferences';
+import {
+  getDaysOverdue,
+  getDueReviewerNudge,
+  isDueForChairEscalation,
+  type OverdueEscalationLadder,
+} from '@/lib/reviewReminders';
+
+export interface OverdueEscalationRunResult {
+  overdue: number;
+  /** Reviewers emailed a nudge, including ones recorded as skipped. */
+  nudgedReviewers: number;
+  /** Assignments that reached the chair step in this run. */
+  escalated: number;
+  batchIds: string[];
+  queued: number;
+  chairSkippedReason?: string;
+}
+
+interface OverdueItem {
+  assignment: MysqlOverdueAssignmentDto;
+  daysOverdue: number;
+}
+
+function ladderFromSettings(settings: MysqlNotificationSettingsDto): OverdueEscalationLadder {
+  return {
+    firstNudgeDays: settings.overdueFirstNudgeDays,
+    secondNudgeDays: settings.overdueSecondNudgeDays,
+    chairDays: settings.chairEscalationDays,
+  };
+}
+
+function groupByReviewer(items: OverdueItem[]): OverdueItem[][] {
+  const groups = new Map<string, OverdueItem[]>();
+  for (const item of items) {
+    const key = item.assignment.reviewerInternalId ?? `name:${item.assignment.reviewerName}`;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return [...groups.values()];
+}
+
+/** Queues the mail batch for recorded steps, or forgets the steps if queueing fails. */
+async function enqueueClaimed(
+  claimed: Array<AssignmentEscalationClaim & { id: string }>,
+  enqueue: () => ReturnType<typeof enqueueMailBatch>
+): Promise<Awaited<ReturnType<typeof enqueueMailBatch>>> {
+  const ids = claimed.map((claim) => claim.id);
+  try {
+    const result = await enqueue();
+    await attachEscalationBatch(ids, result.batchId);
+    return result;
+  } catch (error) {
+    await releaseAssignmentEscalations(ids);
+    throw error;
+  }
+}
+
+function digestHtml(groups: OverdueItem[][], newIds: Set<string>, chairDays: number, currentDate: string): string {
+  const cell = (value: string) => `<td style="padding:8px;border:1px solid #ddd">${escapeHtml(value)}</td>`;
+  const sections = groups.map((items) => {
+    const { reviewerName, reviewerId } = items[0].assignment;
+    const rows = items.map(({ assignment, daysOverdue }) =>
+      `<tr>${cell(assignment.recCode)}${cell(assignment.researchTitle)}${cell(assignment.formType)}${cell(assignment.dueDate)}`
+      + `${cell(`${daysOverdue} day${daysOverdue === 1 ? '' : 's'}${newIds.has(assignment.assignmentId) ? ' (new)' : ''}`)}</tr>`
+    ).join('');
+    return `<h3 style="margin:16px 0 8px">${escapeHtml(reviewerName)} (${escapeHtml(reviewerId)})</h3>`
+      + '<table style="border-collapse:collapse;width:100%"><thead><tr><th>REC Code</th><th>Title</th><th>Form</th><th>Due Date</th><th>Overdue</th></tr></thead>'
+      + `<tbody>${rows}</tbody></table>`;
+  }).join('\n');
+
+  return '<!doctype html><html><body style="font-family:Arial,sans-serif;color:#1f2937">'
+    + `<p>These reviews were ${chairDays} or more days overdue on ${escapeHtml(currentDate)}. Reviewers were nudged before this digest; entries marked (new) reached this step today.</p>`
+    + `${sections}</body></html>`;
+}
+
+function digestText(groups: OverdueItem[][], newIds: Set<string>, chairDays: number, currentDate: string): string {
+  const sections = groups.map((items) => {
+    const { reviewerName, reviewerId } = items[0].assignment;
+    const lines = items.map(({ assignment, daysOverdue }) =>
+      `${assignment.recCode} | ${assignment.researchTitle} | ${assignment.formType} | Due ${assignment.dueDate} | ${daysOverdue} days overdue${newIds.has(assignment.assignmentId) ? ' (new)' : ''}`
+    );
+    return [`${reviewerName} (${reviewerId})`, ...lines].join('\n');
+  });
+  return [`These reviews were ${chairDays} or more days overdue on ${currentDate}.`, ...sections].join('\n\n');
+}
+
+/**
+ * Walks open overdue reviews up the escalation ladder: the reviewer gets a
+ * nudge at the first and second steps, then the chair gets one digest of
+ * every review past the chair step, grouped by reviewer, whenever a review
+ * newly reaches it. Each step is recorded before its batch is queued, so a
+ * step is emailed at most once per due date. Nudges go out only while
+ * automatic reminders and Send to Reviewers are both on, and are held for
+ * reviewers on the daily digest. The chair digest goes to the configured
+ * address, or to every admin who can decide protocols when there is none.
+ */
+export async function runOverdueEscalations(input: {
+  settings: MysqlNotificationSettingsDto;
+  currentDate: string;
+  portalUrl: string;
+}): Promise<OverdueEscalationRunResult> {
+  const { settings, currentDate, portalUrl } = input;
+  const ladder = ladderFromSettings(settings);
+  const items: OverdueItem[] = (await listOverdueAssignments(currentDate))
+    .map((assignment) => ({ assignment, daysOverdue: getDaysOverdue(assignment.dueDate, currentDate) ?? 0 }))
+    .filter((item) => item.daysOverdue > 0);
+  const result: OverdueEscalationRunResult = { overdue: items.length, nudgedReviewers: 0, escalated: 0, batchIds: [], queued: 0 };
+
+  const nudgeClaims: AssignmentEscalationClaim[] = settings.enabled && settings.sendToReviewers
+    ? items.flatMap(({ assignment, daysOverdue }) => {
+      const step = assignment.reviewerInternalId ? getDueReviewerNudge(daysOverdue, ladder, assignment.sentSteps) : null;
+      return step ? [{ assignmentId: assignment.assignmentId, dueDate: assignment.dueDate, step }] : [];
+    })
+    : [];
+  if (nudgeClaims.length > 0) {
+    const template = await getPublishedEmailTemplate('overdue');
+    const claimed = await claimAssignmentEscalations(nudgeClaims);
+    const claimedIds = new Set(claimed.map((claim) => claim.assignmentId));
+    const groups = groupByReviewer(items.filter((item) => claimedIds.has(item.assignment.assignmentId)));
+
+    if (groups.length > 0) {
+      const onLeave = await listReviewersOnLeave(currentDate);
+      const periodLabel = `Overdue as of ${currentDate}`;
+      const preferences = await listReviewerNotificationPreferences();
+      const deliveries: MailDeliveryDraft[] = [];
+      const held: ReviewerDigestItem[] = [];
+      for (const group of groups) {
+        const reviewer = group[0].assignment;
+        const reviewerInternalId = reviewer.reviewerInternalId ?? '';
+        const protocols = group.map(({ assignment }) => ({
+          recCode: assignment.recCode,
+          title: assignment.researchTitle,
+          formType: assignment.formType,
+          dueDate: assignment.dueDate,
+        }));
+        const message = renderEmailTemplate(template, {
+          reviewerName: reviewer.reviewerName,
+          periodLabel,
+          portalUrl,
+          preferencesUrl: await reviewerPreferencesUrl(portalUrl, reviewerInternalId),
+          protocols,
+        });
+        const leaveEndsOn = onLeave.get(reviewerInternalId);
+        const skipReason = !reviewer.reviewerEmail
+          ? 'Reviewer has no email address.'
+          : leaveEndsOn
+            ? `Reviewer is on leave until ${leaveEndsOn}.`
+            : preferences.get(reviewerInternalId)?.deliveryMode === 'daily_digest' ? DIGEST_HOLD_REASON : null;
+        if (skipReason === DIGEST_HOLD_REASON) {
+          held.push(...protocols.map((protocol) => ({ reviewerId: reviewerInternalId, notificationType: 'overdue', ...protocol })));
+        }
+        deliveries.push({
+          reviewerId: reviewer.reviewerInternalId,
+          requestedReviewerId: reviewer.reviewerId,
+          recipientName: reviewer.reviewerName,
+          recipientEmail: reviewer.reviewerEmail,
+          protocolCount: group.length,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          skipReason,
+        });
+      }
+      const batch = await enqueueClaimed(claimed, () => enqueueMailBatch({
+        scope: 'reminder',
+        notificationType: 'overdue',
+        subject: template.subject,
+        templateVersionId: template.versionId,
+        source: 'cron',
+        monthKey: '',
+        weekKey: '',
+        periodLabel,
+        protocolCount: claimed.length,
+        maxAttempts: getMailRetryAttempts(),
+      }, deliveries, held));
+      result.nudgedReviewers = deliveries.length;
+      result.batchIds.push(batch.batchId);
+      result.queued += batch.queued;
+    }
+  }
+
+  const chairItems = items.filter((item) => item.daysOverdue >= ladder.chairDays);
+  const chairClaims: AssignmentEscalationClaim[] = chairItems
+    .filter(({ assignment, daysOverdue }) => isDueForChairEscalation(daysOverdue, ladder, assignment.sentSteps))
+    .map(({ assignment }) => ({ assignmentId: assignment.assignmentId, dueDate: assignment.dueDate, step: 'chair' }));
+  if (chairClaims.length === 0) return result;
+
+  const chairs = settings.chairEscalationEmail
+    ? [{ name: 'REC Chair', email: settings.chairEscalationEmail }]
+    : (await listAdminUsersWithPermission('protocols:decide')).filter((admin) => admin.email);
+  if (chairs.length === 0) {
+    result.chairSkippedReason = 'No chair digest address is set and no active chair account has an email address.';
+    return result;
+  }
+
+  const claimed = await claimAssignmentEscalations(chairClaims);
+  if (claimed.length === 0) return result;
+
+  const newIds = new Set(claimed.map((claim) => claim.assignmentId));
+  const groups = groupByReviewer(chairItems);
+  const subject = `Overdue reviews: ${chairItems.length} past ${ladder.chairDays} days`;
+  const html = digestHtml(groups, newIds, ladder.chairDays, currentDate);
+  const text = digestText(groups, newIds, ladder.chairDays, currentDate);
+  const batch = await enqueueClaimed(claimed, () => enqueueMailBatch({
+    scope: 'reminder',
+    notificationType: 'escalation',
+    subject,
+    templateVersionId: null,
+    source: 'cron',
+    monthKey: '',
+    weekKey: '',
+    periodLabel: `Overdue as of ${currentDate}`,
+    protocolCount: chairItems.length,
+    maxAttempts: getMailRetryAttempts(),
+  }, chairs.map((chair) => ({
+    reviewerId: null,
+    requestedReviewerId: chair.email,
+    recipientName: chair.name,
+    recipientEmail: chair.email,
+    protocolCount: chairItems.length,
+    subject,
+    html,
+    text,
+    skipReason: null,
+  }))));
+  result.escalated = claimed.length;
+  result.batchIds.push(batch.batchId);
+  result.queued += batch.queued;
+  return result;
+}
@@ -8,6 +8,8 @@ export const PROTOCOL_UPLOAD_PROTOCOL_HEADERS = [
   PRINCIPAL_INVESTIGATOR_HEADER,
   'Course/Program',
   'Adviser',
+  'Nature of Study',
+  'Type of Study',
   'E Link',
 ] as const;
 
@@ -39,6 +41,11 @@ export const PROTOCOL_UPLOAD_HEADER_ALIASES: Record<string, string> = {
   'course program': 'Course/Program',
   'adviser': 'Adviser',
   'advisor': 'Adviser',
+  'nature of study': 'Nature of Study',
+  'nature_of_study': 'Nature of Study',
+  'type of study': 'Type of Study',
+  'type_of_study': 'Type of Study',
+  'study type': 'Type of Study',
   'e link': 'E Link',
   'e-link': 'E Link',
   'folder link': 'E Link',
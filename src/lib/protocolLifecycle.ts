@@ -0,0 +1,119 @@
+export type ProtocolLifecycleStatus =
+  | 'submitted'
+  | 'under_review'
+  | 'reviews_complete'
+  | 'approved'
+  | 'minor_revisions'
+  | 'major_revisions'
+  | 'disapproved'
+  | 'exempted'
+  | 'withdrawn';
+
+export const PROTOCOL_LIFECYCLE_STATUSES: ProtocolLifecycleStatus[] = [
+  'submitted',
+  'under_review',
+  'reviews_complete',
+  'approved',
+  'minor_revisions',
+  'major_revisions',
+  'disapproved',
+  'exempted',
+  'withdrawn',
+];
+
+export const PROTOCOL_LIFECYCLE_LABELS: Record<ProtocolLifecycleStatus, string> = {
+  submitted: 'Submitted',
+  under_review: 'Under Review',
+  reviews_complete: 'Reviews Complete',
+  approved: 'Approved',
+  minor_revisions: 'Minor Revisions',
+  major_revisions: 'Major Revisions',
+  disapproved: 'Disapproved',
+  exempted: 'Exempted',
+  withdrawn: 'Withdrawn',
+};
+
+/**
+ * Statuses the system derives from reviewer assignments. Once a protocol
+ * leaves this set, assignment changes no longer move it.
+ */
+export const REVIEW_PHASE_STATUSES: ProtocolLifecycleStatus[] = ['submitted', 'under_review', 'reviews_complete'];
+
+/** Decisions that return a protocol to the researcher for a resubmission. */
+export const REVISION_STATUSES: ProtocolLifecycleStatus[] = ['minor_revisions', 'major_revisions'];
+
+/**
+ * Transitions an admin can record; the review-phase moves happen automatically
+ * and a resubmission after revisions opens a new review round instead.
+ */
+const DECISION_TRANSITIONS: Record<ProtocolLifecycleStatus, ProtocolLifecycleStatus[]> = {
+  submitted: ['exempted', 'withdrawn'],
+  under_review: ['withdrawn'],
+  reviews_complete: ['approved', 'minor_revisions', 'major_revisions', 'disapproved', 'withdrawn'],
+  minor_revisions: ['approved', 'withdrawn'],
+  major_revisions: ['withdrawn'],
+  approved: [],
+  disapproved: [],
+  exempted: [],
+  withdrawn: [],
+};
+
+export function isProtocolLifecycleStatus(value: unknown): value is ProtocolLifecycleStatus {
+  return PROTOCOL_LIFECYCLE_STATUSES.includes(value as ProtocolLifecycleStatus);
+}
+
+export function getProtocolDecisionOptions(status: ProtocolLifecycleStatus): ProtocolLifecycleStatus[] {
+  return DECISION_TRANSITIONS[status];
+}
+
+export function canRecordProtocolDecision(from: ProtocolLifecycleStatus, to: ProtocolLifecycleStatus): boolean {
+  return DECISION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * The structured recommendation a reviewer leaves on an assignment. Review
+ * form labels map onto these so reviews on different forms can be compared.
+ */
+export type ReviewRecommendation =
+  | 'approve'
+  | 'minor_revisions'
+  | 'major_revisions'
+  | 'disapprove'
+  | 'exempt'
+  | 'full_review';
+
+export const REVIEW_RECOMMENDATIONS: ReviewRecommendation[] = [
+  'approve',
+  'minor_revisions',
+  'major_revisions',
+  'disapprove',
+  'exempt',
+  'full_review',
+];
+
+export const REVIEW_RECOMMENDATION_LABELS: Record<ReviewRecommendation, string> = {
+  approve: 'Approve',
+  minor_revisions: 'Minor Revisions',
+  major_revisions: 'Major Revisions',
+  disapprove: 'Disapprove',
+  exempt: 'Exempt',
+  full_review: 'Needs Full Review',
+};
+
+/** The committee outcome each recommendation points to; asking for a full review settles nothing yet. */
+const RECOMMENDED_DECISIONS: Record<ReviewRecommendation, ProtocolLifecycleStatus | null> = {
+  approve: 'approved',
+  minor_revisions: 'minor_revisions',
+  major_revisions: 'major_revisions',
+  disapprove: 'disapproved',
+  exempt: 'exempted',
+  full_review: null,
+};
+
+export function isReviewRecommendation(value: unknown): value is ReviewRecommendation {
+  return REVIEW_RECOMMENDATIONS.includes(value as ReviewRecommendation);
+}
+
+export function getRecommendedDecision(recommendation: ReviewRecommendation): ProtocolLifecycleStatus | null {
+  return RECOMMENDED_DECISIONS[recommendation];
+}
@@ -1,6 +1,8 @@
 import { isDueSoon, isOverdue } from '@/lib/utils';
+import { REVIEW_PHASE_STATUSES, type ProtocolLifecycleStatus } from '@/lib/protocolLifecycle';
 
 export const WEEK_IDS = ['week-1', 'week-2', 'week-3', 'week-4', 'week-5'] as const;
+export const FORM_TYPE_OPTIONS = ['PRA1', 'PRA2', 'ICA', 'IACUC', 'IACUC2', 'CREF1', 'CREF2'];
 
 export interface Reviewer {
   assignmentId?: string;
@@ -10,9 +12,15 @@ export interface Reviewer {
   status: string;
   document_type?: string;
   form_type?: string;
+  /** Display name of the form type, read from the database. */
+  form_name?: string;
   due_date?: string;
   completed_at?: string | null;
+  acceptance?: 'pending' | 'accepted' | 'declined';
+  decline_reason?: string | null;
   resolved?: boolean;
+  /** Expertise tag names; set on reviewers loaded from the reviewer list. */
+  expertise?: string[];
 }
 
 export interface Protocol {
@@ -26,6 +34,10 @@ export interface Protocol {
   reviewers?: Reviewer[];
   due_date: string;
   status: string;
+  round?: number;
+  decision?: ProtocolLifecycleStatus;
+  decidedAt?: string | null;
+  decidedBy?: string;
   protocol_file: string;
   document_type?: string;
   form_type?: string;
@@ -33,6 +45,9 @@ export interface Protocol {
   research_title?: string;
   e_link?: string;
   course_program?: string;
+  nature_of_study?: string;
+  type_of_study?: string;
+  expertise_tags?: string[];
   spup_rec_code?: string;
   principal_investigator?: string;
   adviser?: string;
@@ -54,6 +69,28 @@ export interface MonthGroup {
   weeks: WeekGroup[];
 }
 
+export interface ProtocolReviewCounts {
+  total: number;
+  completed: number;
+  overdue: number;
+  dueSoon: number;
+}
+
+/** Per-week totals from `GET /api/admin/protocols/periods`. */
+export interface ProtocolWeekIndex {
+  weekId: string;
+  weekNumber: number;
+  protocols: number;
+  completedProtocols: number;
+  decidedProtocols: number;
+  reviews: ProtocolReviewCounts;
+}
+
+export interface ProtocolMonthIndex {
+  monthId: string;
+  weeks: ProtocolWeekIndex[];
+}
+
 type ProtocolSourceData = Record<string, unknown> & Partial<Omit<Protocol, 'id' | 'monthId' | 'weekId' | '_path' | 'due_date'>> & {
   due_date?: unknown;
   reviewers?: Reviewer[];
@@ -129,6 +166,14 @@ export function formatMonthLabel(monthId: string): string {
   return month ? `${month} ${year}` : `${rawMonth} ${year}`;
 }
 
+/** Converts a `YYYY-MM` month input value into a month ID such as October2026. */
+export function getMonthIdFromInput(value: string): string {
+  const match = value.match(/^(\d{4})-(\d{2})$/);
+  const month = match ? MONTH_NAMES[Number(match[2]) - 1] : undefined;
+
+  return match && month ? `${month}${match[1]}` : '';
+}
+
 export function formatWeekLabel(weekId: string): string {
   const weekNumber = weekId.match(/\d+/)?.[0];
 
@@ -232,6 +277,25 @@ export function groupProtocolsByMonth(protocols: Protocol[]): MonthGroup[] {
     .sort((left, right) => getMonthSortValue(right.monthId) - getMonthSortValue(left.monthId));
 }
 
+export function getPeriodTotals(weeks: ProtocolWeekIndex[]): Omit<ProtocolWeekIndex, 'weekId' | 'weekNumber'> {
+  return weeks.reduce((totals, week) => ({
+    protocols: totals.protocols + week.protocols,
+    completedProtocols: totals.completedProtocols + week.completedProtocols,
+    decidedProtocols: totals.decidedProtocols + week.decidedProtocols,
+    reviews: {
+      total: totals.reviews.total + week.reviews.total,
+      completed: totals.reviews.completed + week.reviews.completed,
+      overdue: totals.reviews.overdue + week.reviews.overdue,
+      dueSoon: totals.reviews.dueSoon + week.reviews.dueSoon,
+    },
+  }), {
+    protocols: 0,
+    completedProtocols: 0,
+    decidedProtocols: 0,
+    reviews: { total: 0, completed: 0, overdue: 0, dueSoon: 0 },
+  });
+}
+
 export function getReviewerTotals(protocols: Protocol[]) {
   const total = protocols.reduce((sum, protocol) => sum + (protocol.reviewers?.length ?? 0), 0);
   const completed = protocols.reduce(
@@ -249,9 +313,18 @@ export function getProtocolStatusCounts(protocols: Protocol[]) {
     inProgress: protocols.filter((protocol) => protocol.status === 'In Progress').length,
     overdue: protocols.filter((protocol) => protocol.status !== 'Completed' && isOverdue(protocol.due_date)).length,
     dueSoon: protocols.filter((protocol) => protocol.status !== 'Completed' && isDueSoon(protocol.due_date)).length,
+    awaitingDecision: protocols.filter((protocol) => protocol.decision === 'reviews_complete').length,
+    decided: protocols.filter((protocol) => protocol.decision && !REVIEW_PHASE_STATUSES.includes(protocol.decision)).length,
   };
 }
 
+export function getProtocolDecisionCounts(protocols: Protocol[]): Partial<Record<ProtocolLifecycleStatus, number>> {
+  return protocols.reduce<Partial<Record<ProtocolLifecycleStatus, number>>>((counts, protocol) => {
+    if (protocol.decision) counts[protocol.decision] = (counts[protocol.decision] ?? 0) + 1;
+    return counts;
+  }, {});
+}
+
 export function buildNotificationProtocols(protocols: Protocol[]) {
   return protocols.map((protocol) => ({
     monthId: protocol.monthId,
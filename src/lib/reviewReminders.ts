@@ -2,6 +2,10 @@ export type ReminderFrequency = 'daily' | 'weekly' | 'twice-weekly';
 
 const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
 
+/** Bounds for the global due-soon threshold and for each reviewer's own reminder lead time. */
+export const DUE_SOON_THRESHOLD_MIN = 1;
+export const DUE_SOON_THRESHOLD_MAX = 14;
+
 function parseDateOnly(value: string): number | null {
   const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
 
@@ -108,3 +112,60 @@ export function wasReminderRunToday(
 
   return lastRunDate ? getDateInTimeZone(lastRunDate, timeZone) === currentDate : false;
 }
+
+export type OverdueEscalationStep = 'first_nudge' | 'second_nudge' | 'chair';
+
+export interface OverdueEscalationLadder {
+  firstNudgeDays: number;
+  secondNudgeDays: number;
+  chairDays: number;
+}
+
+/** Whole days past the due date; zero or less while the review is not yet overdue. */
+export function getDaysOverdue(dueDate: string, currentDate: string): number | null {
+  const daysUntilDue = getDaysUntilDueDate(dueDate, currentDate);
+
+  return daysUntilDue === null ? null : -daysUntilDue;
+}
+
+/**
+ * The reviewer nudge to send today. Only the highest step reached is sent, so
+ * a review that was already three days late when the ladder was switched on
+ * gets one nudge rather than both.
+ */
+export function getDueReviewerNudge(
+  daysOverdue: number,
+  ladder: OverdueEscalationLadder,
+  sentSteps: readonly OverdueEscalationStep[]
+): OverdueEscalationStep | null {
+  if (daysOverdue >= ladder.secondNudgeDays) {
+    return sentSteps.includes('second_nudge') ? null : 'second_nudge';
+  }
+
+  if (daysOverdue >= ladder.firstNudgeDays) {
+    return sentSteps.includes('first_nudge') || sentSteps.includes('second_nudge') ? null : 'first_nudge';
+  }
+
+  return null;
+}
+
+export function isDueForChairEscalation(
+  daysOverdue: number,
+  ladder: OverdueEscalationLadder,
+  sentSteps: readonly OverdueEscalationStep[]
+): boolean {
+  return daysOverdue >= ladder.chairDays && !sentSteps.includes('chair');
+}
+
+/** Day of the week for a YYYY-MM-DD date, with 0 for Sunday. */
+export function getDayOfWeek(date: string): number | null {
+  const timestamp = parseDateOnly(date);
+
+  return timestamp === null ? null : new Date(timestamp).getUTCDay();
+}
+
+export function addDaysToDate(date: string, days: number): string | null {
+  const timestamp = parseDateOnly(date);
+
+  return timestamp === null ? null : new Date(timestamp + days * MILLISECONDS_PER_DAY).toISOString().slice(0, 10);
+}
@@ -0,0 +1,36 @@
+import 'server-only';
+
+import { cookies } from 'next/headers';
+import type { NextResponse } from 'next/server';
+import { getReviewerBySessionToken, type MysqlReviewerDto } from '@/lib/mysql';
+import {
+  REVIEWER_SESSION_COOKIE,
+  sessionCookieOptions,
+  signSessionCookie,
+  verifySessionCookie,
+  type SessionToken,
+} from '@/lib/sessionToken';
+
+export async function getCurrentReviewerSessionToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const session = await verifySessionCookie('reviewer', cookieStore.get(REVIEWER_SESSION_COOKIE)?.value);
+  return session?.token ?? null;
+}
+
+/** Resolves the signed-in reviewer from the session cookie, never from client-supplied IDs. */
+export async function getCurrentReviewer(): Promise<MysqlReviewerDto | null> {
+  const token = await getCurrentReviewerSessionToken();
+  return token ? getReviewerBySessionToken(token) : null;
+}
+
+export async function setReviewerSessionCookie(response: NextResponse, session: SessionToken): Promise<void> {
+  response.cookies.set(
+    REVIEWER_SESSION_COOKIE,
+    await signSessionCookie('reviewer', session),
+    sessionCookieOptions(session.expiresAt)
+  );
+}
+
+export function clearReviewerSessionCookie(response: NextResponse): void {
+  response.cookies.set(REVIEWER_SESSION_COOKIE, '', sessionCookieOptions(null));
+}
@@ -0,0 +1,138 @@
+import 'server-only';
+
+import { renderEmailTemplate } from '@/lib/emailTemplates';
+import { getMailRetryAttempts } from '@/lib/mailer';
+import {
+  claimReviewerDigestItems,
+  completeReviewerDigestItems,
+  enqueueMailBatch,
+  getNotificationSettings,
+  getPublishedEmailTemplate,
+  getReviewerNotificationPreferences,
+  listReviewers,
+  releaseReviewerDigestItems,
+  type MailDeliveryDraft,
+  type MysqlReviewerDto,
+  type MysqlReviewerNotificationPreferencesDto,
+  type ReviewerDigestItem,
+} from '@/lib/mysql';
+import { DUE_SOON_THRESHOLD_MAX, DUE_SOON_THRESHOLD_MIN } from '@/lib/reviewReminders';
+import { signPreferencesToken } from '@/lib/sessionToken';
+
+/** The skip reason recorded on a batch for a reviewer whose email was held for their daily digest. */
+export const DIGEST_HOLD_REASON = "Held for the reviewer's daily digest.";
+
+export async function reviewerPreferencesUrl(appUrl: string, reviewerInternalId: string): Promise<string> {
+  return `${appUrl}/email-preferences?token=${encodeURIComponent(await signPreferencesToken(reviewerInternalId))}`;
+}
+
+/** Validates preferences sent from the portal or a preferences link. */
+export function parseNotificationPreferences(
+  payload: Record<string, unknown>
+): { preferences: MysqlReviewerNotificationPreferencesDto } | { error: string } {
+  if (payload.deliveryMode !== 'immediate' && payload.deliveryMode !== 'daily_digest') {
+    return { error: 'Choose immediate emails or a daily digest.' };
+  }
+  const leadDays = payload.reminderLeadDays === null || payload.reminderLeadDays === ''
+    ? null
+    : Number(payload.reminderLeadDays);
+  if (leadDays !== null && (!Number.isInteger(leadDays) || leadDays < DUE_SOON_THRESHOLD_MIN || leadDays > DUE_SOON_THRESHOLD_MAX)) {
+    return { error: `Reminder lead time must be between ${DUE_SOON_THRESHOLD_MIN} and ${DUE_SOON_THRESHOLD_MAX} days.` };
+  }
+  if (typeof payload.noticeEmails !== 'boolean') {
+    return { error: 'Specify whether notice announcements are emailed.' };
+  }
+  return { preferences: { deliveryMode: payload.deliveryMode, reminderLeadDays: leadDays, noticeEmails: payload.noticeEmails } };
+}
+
+/** What the preferences form shows: the saved choices and the lead-time range, with the global threshold as the default. */
+export async function reviewerPreferencesView(reviewer: MysqlReviewerDto) {
+  const [preferences, settings] = await Promise.all([
+    getReviewerNotificationPreferences(reviewer.internalId),
+    getNotificationSettings(),
+  ]);
+  return {
+    reviewerName: reviewer.name,
+    preferences,
+    defaultLeadDays: settings.dueSoonThreshold,
+    minLeadDays: DUE_SOON_THRESHOLD_MIN,
+    maxLeadDays: DUE_SOON_THRESHOLD_MAX,
+  };
+}
+
+/** Keeps one line per protocol and form; a protocol held by both an assignment notice and a reminder is listed once. */
+function uniqueItems(items: ReviewerDigestItem[]): ReviewerDigestItem[] {
+  const byKey = new Map<string, ReviewerDigestItem>();
+  for (const item of items) byKey.set(`${item.recCode}\n${item.formType}`, item);
+  return [...byKey.values()];
+}
+
+/**
+ * Sends each reviewer on the daily digest one email with every protocol held
+ * for them since their last digest, written from the `daily_digest` template.
+ * Called by the reminder cron; returns null when nothing was held.
+ */
+export async function sendReviewerDigests(input: { appUrl: string; currentDate: string }) {
+  const template = await getPublishedEmailTemplate('daily_digest');
+  const { token, items } = await claimReviewerDigestItems();
+  if (items.length === 0) return null;
+
+  let batch: Awaited<ReturnType<typeof enqueueMailBatch>>;
+  let reviewers = 0;
+  try {
+    const directory = new Map((await listReviewers({ includeInactive: true }))
+      .map((reviewer) => [reviewer.internalId, reviewer]));
+    const byReviewer = new Map<string, ReviewerDigestItem[]>();
+    for (const item of items) byReviewer.set(item.reviewerId, [...(byReviewer.get(item.reviewerId) ?? []), item]);
+
+    const periodLabel = `Daily digest for ${input.currentDate}`;
+    const deliveries: MailDeliveryDraft[] = [];
+    for (const [reviewerId, held] of byReviewer) {
+      const reviewer = directory.get(reviewerId);
+      const protocols = uniqueItems(held);
+      const message = renderEmailTemplate(template, {
+        reviewerName: reviewer?.name ?? '',
+        periodLabel,
+        portalUrl: input.appUrl,
+        preferencesUrl: await reviewerPreferencesUrl(input.appUrl, reviewerId),
+        protocols: protocols.map((item) => ({
+          recCode: item.recCode,
+          title: item.title,
+          formType: item.formType,
+          dueDate: item.dueDate,
+        })),
+      });
+      deliveries.push({
+        reviewerId,
+        requestedReviewerId: reviewer?.id ?? reviewerId,
+        recipientName: reviewer?.name ?? '',
+        recipientEmail: reviewer?.email || '',
+        protocolCount: protocols.length,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        skipReason: reviewer?.email ? null : 'Reviewer has no email address.',
+      });
+    }
+
+    reviewers = deliveries.length;
+    batch = await enqueueMailBatch({
+      scope: 'digest',
+      notificationType: 'reviewer_digest',
+      subject: template.subject,
+      templateVersionId: template.versionId,
+      source: 'cron',
+      monthKey: '',
+      weekKey: '',
+      periodLabel,
+      protocolCount: new Set(items.map((item) => item.recCode)).size,
+      maxAttempts: getMailRetryAttempts(),
+    }, deliveries);
+  } catch (error) {
+    await releaseReviewerDigestItems(token);
+    throw error;
+  }
+
+  await completeReviewerDigestItems(token, batch.batchId);
+  return { reviewers, ...batch };
+}
@@ -5,6 +5,7 @@ export interface ReviewerRecord {
   id: string;
   name: string;
   email?: string;
+  expertise?: string[];
 }
 
 export interface ReviewerProtocolAssignment {
@@ -13,6 +14,7 @@ export interface ReviewerProtocolAssignment {
   status: string;
   dueDate: string;
   formType: string;
+  formName: string;
 }
 
 export interface ReviewerAssignmentStats {
@@ -59,6 +61,7 @@ export function getReviewerAssignments(
           status: assignment.status || protocol.status || 'In Progress',
           dueDate: assignment.due_date || protocol.due_date,
           formType: assignment.form_type || protocol.form_type || protocol.document_type || '',
+          formName: assignment.form_name || assignment.form_type || protocol.form_type || protocol.document_type || '',
         }));
     }
 
@@ -75,6 +78,7 @@ export function getReviewerAssignments(
       status: protocol.status || 'In Progress',
       dueDate: protocol.due_date,
       formType: protocol.form_type || protocol.document_type || '',
+      formName: protocol.form_type || protocol.document_type || '',
     }];
   });
 }
@@ -0,0 +1,117 @@
+// Signed admin and reviewer session cookies, and the signed links reviewers
+// use to manage email preferences. This module only uses Web Crypto so the
+// same code runs in middleware (edge runtime) and in Node route handlers.
+
+export type SessionAudience = 'admin' | 'reviewer';
+
+export const ADMIN_SESSION_COOKIE = 'erec_admin_session';
+export const REVIEWER_SESSION_COOKIE = 'erec_reviewer_session';
+export const SESSION_MAX_AGE_SECONDS: Record<SessionAudience, number> = {
+  admin: 12 * 60 * 60,
+  reviewer: 7 * 24 * 60 * 60,
+};
+export const ADMIN_LOGIN_PATH = '/admin/login';
+export const ADMIN_PATHNAME_HEADER = 'x-erec-admin-pathname';
+
+export interface SessionToken {
+  token: string;
+  expiresAt: Date;
+}
+
+const encoder = new TextEncoder();
+let signingKey: Promise<CryptoKey> | null = null;
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (signingKey) return signingKey;
+
+  const secret = process.env.SESSION_SECRET?.trim();
+  if (!secret || secret.length < 32) {
+    throw new Error('SESSION_SECRET must be set to at least 32 characters.');
+  }
+
+  signingKey = crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return signingKey;
+}
+
+async function sign(value: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(value));
+  return base64Url(new Uint8Array(signature));
+}
+
+function constantTimeEqual(left: string, right: string): boolean {
+  if (left.length !== right.length) return false;
+  let difference = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    difference |= left.charCodeAt(index) ^ right.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+export function createSessionToken(audience: SessionAudience, now = new Date()): SessionToken {
+  return {
+    token: base64Url(crypto.getRandomValues(new Uint8Array(32))),
+    expiresAt: new Date(now.getTime() + SESSION_MAX_AGE_SECONDS[audience] * 1000),
+  };
+}
+
+export async function signSessionCookie(audience: SessionAudience, session: SessionToken): Promise<string> {
+  const payload = `${session.token}.${Math.floor(session.expiresAt.getTime() / 1000)}`;
+  return `${payload}.${await sign(`${audience}.${payload}`)}`;
+}
+
+/** Returns the session token when the cookie is correctly signed for the audience and not expired. */
+export async function verifySessionCookie(
+  audience: SessionAudience,
+  value: string | undefined,
+  now = new Date()
+): Promise<SessionToken | null> {
+  const parts = value?.split('.') ?? [];
+  if (parts.length !== 3) return null;
+
+  const [token, expiresAtSeconds, signature] = parts;
+  const expiresAt = new Date(Number(expiresAtSeconds) * 1000);
+  if (!token || Number.isNaN(expiresAt.getTime()) || expiresAt <= now) return null;
+  if (!constantTimeEqual(signature, await sign(`${audience}.${token}.${expiresAtSeconds}`))) return null;
+
+  return { token, expiresAt };
+}
+
+/**
+ * A link token for one reviewer's email preferences. Like an unsubscribe link
+ * it does not expire and needs no sign-in; it only opens that reviewer's
+ * preferences, and rotating SESSION_SECRET revokes every link.
+ */
+export async function signPreferencesToken(reviewerInternalId: string): Promise<string> {
+  return `${reviewerInternalId}.${await sign(`preferences.${reviewerInternalId}`)}`;
+}
+
+/** Returns the reviewer's internal id when the token was signed by signPreferencesToken. */
+export async function verifyPreferencesToken(value: string | null | undefined): Promise<string | null> {
+  const parts = value?.split('.') ?? [];
+  if (parts.length !== 2 || !/^\d+$/.test(parts[0])) return null;
+
+  const [reviewerInternalId, signature] = parts;
+  return constantTimeEqual(signature, await sign(`preferences.${reviewerInternalId}`)) ? reviewerInternalId : null;
+}
+
+export function sessionCookieOptions(expiresAt: Date | null) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    ...(expiresAt ? { expires: expiresAt } : { maxAge: 0 }),
+  };
+}
@@ -100,108 +100,6 @@ function getOrdinalSuffix(num: number): string {
   return "th";
 }
 
-// Map document type codes to full form names
-export function getFormTypeName(documentType: string): string {
-  if (!documentType) return 'N/A';
-  
-  // Normalize the document type by removing "FORM" suffix and trimming
-  const normalizedType = documentType.replace(/\s*FORM$/i, '').trim();
-  
-  const formTypes: Record<string, string> = {
-    'CFEFR': 'Checklist for Exemption from Review Form',
-    'Form 04A CERF': 'Checklist for Exemption from Review Form',
-    'Form 06B1 PRA': 'Protocol Review Assessment Form',
-    'Form 06B2 PRA-EX': 'Protocol Review Assessment for Experimental Form',
-    'Form 06C ICA': 'Informed Consent Assessment Form',
-    'PRA': 'Protocol Review Assessment Form',
-    'PRA1': 'Protocol Review Assessment Form',
-    'PRA2': 'Protocol Review Assessment Form',
-    'PRA-EX': 'Protocol Review Assessment for Experimental Form',
-    'PRA_EX': 'Protocol Review Assessment for Experimental Form',
-    'ICA': 'Informed Consent Assessment Form',
-    'IACUC': 'Protocol Review Assessment for Experimental Form',
-    'IACUC2': 'Protocol Review Assessment for Experimental Form'
-  };
-  
-  return formTypes[normalizedType] || documentType;
-}
-
-// Get the form URL based on the document type
-export function getFormUrl(documentType: string): string {
-  if (!documentType) return '';
-  
-  // Normalize the document type
-  const normalizedType = documentType.replace(/\s*FORM$/i, '').trim();
-  
-  const formUrls: Record<string, string> = {
-    'ICA': 'https://forms.office.com/r/0nQCTjvBsv',
-    'PRA': 'https://forms.office.com/r/4WuaHiiJar',
-    'PRA-EX': 'https://forms.office.com/r/vT231a87fj',
-    'PRA_EX': 'https://forms.office.com/r/vT231a87fj',
-    'CFEFR': 'https://forms.office.com/r/n6RU8EuT3P',
-    'Form 06C ICA': 'https://forms.office.com/r/0nQCTjvBsv',
-    'Form 06B1 PRA': 'https://forms.office.com/r/4WuaHiiJar',
-    'Form 06B2 PRA-EX': 'https://forms.office.com/r/vT231a87fj'
-  };
-  
-  return formUrls[normalizedType] || '';
-}
-
-// Define Protocol interface for getReviewerFormType
-interface ReviewerProtocol {
-  document_type?: string;
-  reviewers?: {
-    id: string;
-    name: string;
-    document_type?: string;
-  }[];
-}
-
-// Unified function to get reviewer's document type from a protocol
-export function getReviewerFormType(protocol: ReviewerProtocol, reviewerId: string, reviewerName: string): {
-  formType: string;
-  formName: string;
-  formUrl: string;
-} {
-  if (!protocol) {
-    return { formType: '', formName: 'N/A', formUrl: '' };
-  }
-  
-  let documentType = '';
-  
-  // First check if the document type exists in the reviewers array for this reviewer
-  if (protocol.reviewers && Array.isArray(protocol.reviewers)) {
-    for (const r of protocol.reviewers) {
-      const idMatch = r.id === reviewerId;
-      const nameMatch = r.name === reviewerName;
-      const nameIncludes = Boolean(r.name && reviewerName && r.name.toLowerCase().includes(reviewerName.toLowerCase()));
-      const reverseIncludes = Boolean(reviewerName && r.name && reviewerName.toLowerCase().includes(r.name.toLowerCase()));
-      
-      if (idMatch || nameMatch || nameIncludes || reverseIncludes) {
-        if (r.document_type) {
-          documentType = r.document_type;
-          break;
-        }
-      }
-    }
-  }
-  
-  // Fall back to the protocol level document type if it exists
-  if (!documentType && protocol.document_type) {
-    documentType = protocol.document_type;
-  }
-  
-  // Get form name and URL based on document type
-  const formName = getFormTypeName(documentType);
-  const formUrl = getFormUrl(documentType);
-  
-  return {
-    formType: documentType,
-    formName,
-    formUrl
-  };
-}
-
 // Check if a protocol is overdue
 export function isOverdue(dueDate: string): boolean {
   if (!dueDate) return false;
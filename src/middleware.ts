@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ADMIN_LOGIN_PATH,
+  ADMIN_PATHNAME_HEADER,
+  ADMIN_SESSION_COOKIE,
+  REVIEWER_SESSION_COOKIE,
+  verifySessionCookie,
+  type SessionAudience,
+} from '@/lib/sessionToken';
+
+const PUBLIC_PATHS = new Set([
+  ADMIN_LOGIN_PATH,
+  '/api/admin/session',
+  '/api/reviewer/login',
+  '/api/reviewer/login/link',
+  '/api/reviewer/login/verify',
+  '/api/reviewer/session',
+]);
+
+async function hasValidSessionCookie(request: NextRequest, audience: SessionAudience): Promise<boolean> {
+  const cookieName = audience === 'admin' ? ADMIN_SESSION_COOKIE : REVIEWER_SESSION_COOKIE;
+
+  try {
+    return Boolean(await verifySessionCookie(audience, request.cookies.get(cookieName)?.value));
+  } catch (error) {
+    console.error(`Failed to verify ${audience} session cookie:`, error);
+    return false;
+  }
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const audience: SessionAudience = pathname.startsWith('/admin') || pathname.startsWith('/api/admin')
+    ? 'admin'
+    : 'reviewer';
+
+  if (!PUBLIC_PATHS.has(pathname) && !(await hasValidSessionCookie(request, audience))) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json(
+        { error: audience === 'admin' ? 'Admin sign-in required.' : 'Reviewer sign-in required.' },
+        { status: 401 }
+      );
+    }
+
+    if (audience === 'reviewer') {
+      return NextResponse.redirect(new URL('/', request.url));
+    }
+
+    const loginUrl = new URL(ADMIN_LOGIN_PATH, request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (audience === 'reviewer') {
+    return NextResponse.next();
+  }
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(ADMIN_PATHNAME_HEADER, pathname);
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*', '/reviewer/:path*', '/api/reviewer/:path*'],
+};